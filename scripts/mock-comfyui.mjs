@@ -0,0 +1,168 @@
+// Minimal stand-in for the ComfyUI HTTP API, to try the ComfyUI provider without a GPU.
+// Usage: npm run mock:comfyui [-- --port 8188 --delay 1500 --fail]
+// It implements the endpoints the app calls (/system_stats, /object_info, /upload/image,
+// /prompt, /history, /view), checks that every template placeholder was filled, and answers
+// every prompt with a small PNG once --delay milliseconds have passed.
+
+import http from 'node:http';
+import { deflateSync } from 'node:zlib';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+const PORT = Number(option('port', 8188));
+const DELAY_MS = Number(option('delay', 1500));
+const FAIL = args.includes('--fail'); // Report every prompt as an execution error
+
+const CHECKPOINTS = ['mock_model_v1.safetensors', 'mock_model_xl.safetensors'];
+
+// Solid-colour PNG of the requested size (kept small: the size is capped at 64px).
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+const crc32 = (buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+const chunk = (type, data) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+const makePng = (width, height, seed) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB
+  const [r, g, b] = [seed % 256, (seed >> 8) % 256, (seed >> 16) % 256];
+  const row = Buffer.concat([Buffer.from([0]), Buffer.from(Array.from({ length: width }, () => [r, g, b]).flat())]);
+  const pixels = Buffer.concat(Array.from({ length: height }, () => row));
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(pixels)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+const prompts = new Map(); // prompt_id -> { workflow, readyAt }
+const images = new Map(); // filename -> PNG buffer
+const uploads = new Set();
+let nextId = 1;
+
+const send = (res, status, body, type = 'application/json') => {
+  res.writeHead(status, {
+    'Content-Type': type,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(type === 'application/json' ? JSON.stringify(body) : body);
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const parts = [];
+  req.on('data', (part) => parts.push(part));
+  req.on('end', () => resolve(Buffer.concat(parts)));
+  req.on('error', reject);
+});
+
+const findUnfilled = (node, path = []) => {
+  if (typeof node === 'string') return /\{\{\w+\}\}/.test(node) ? path.join('.') : undefined;
+  if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      const found = findUnfilled(value, [...path, key]);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+const validateWorkflow = (workflow) => {
+  if (!workflow || typeof workflow !== 'object') return 'prompt must be an object';
+  const unfilled = findUnfilled(workflow);
+  if (unfilled) return `unfilled placeholder at ${unfilled}`;
+  const nodes = Object.values(workflow);
+  if (!nodes.some((node) => node.class_type === 'SaveImage')) return 'workflow has no SaveImage node';
+  const loader = nodes.find((node) => node.class_type === 'CheckpointLoaderSimple');
+  if (loader && !CHECKPOINTS.includes(loader.inputs.ckpt_name)) return `unknown checkpoint ${loader.inputs.ckpt_name}`;
+  const loadImage = nodes.find((node) => node.class_type === 'LoadImage');
+  if (loadImage && !uploads.has(loadImage.inputs.image)) return `image ${loadImage.inputs.image} was not uploaded`;
+  return undefined;
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  console.log(req.method, url.pathname + url.search);
+  if (req.method === 'OPTIONS') return send(res, 204, '', 'text/plain');
+
+  if (req.method === 'GET' && url.pathname === '/system_stats') {
+    return send(res, 200, { system: { comfyui_version: 'mock' }, devices: [{ name: 'Mock GPU' }] });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/object_info/CheckpointLoaderSimple') {
+    return send(res, 200, { CheckpointLoaderSimple: { input: { required: { ckpt_name: [CHECKPOINTS] } } } });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/upload/image') {
+    const body = await readBody(req);
+    const name = body.toString('latin1').match(/filename="([^"]+)"/)?.[1] ?? 'upload.png';
+    uploads.add(name);
+    return send(res, 200, { name, subfolder: '', type: 'input' });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/prompt') {
+    let workflow;
+    try {
+      workflow = JSON.parse((await readBody(req)).toString('utf8')).prompt;
+    } catch {
+      return send(res, 400, { error: { message: 'Invalid JSON body' } });
+    }
+    const problem = validateWorkflow(workflow);
+    if (problem) return send(res, 400, { error: { message: 'Prompt outputs failed validation', details: problem }, node_errors: {} });
+    const promptId = `mock-${nextId++}`;
+    prompts.set(promptId, { workflow, readyAt: Date.now() + DELAY_MS });
+    return send(res, 200, { prompt_id: promptId, number: nextId, node_errors: {} });
+  }
+
+  const historyMatch = url.pathname.match(/^\/history\/(.+)$/);
+  if (req.method === 'GET' && historyMatch) {
+    const promptId = decodeURIComponent(historyMatch[1]);
+    const entry = prompts.get(promptId);
+    if (!entry || Date.now() < entry.readyAt) return send(res, 200, {});
+    if (FAIL) {
+      return send(res, 200, { [promptId]: { outputs: {}, status: { status_str: 'error', completed: false, messages: [['execution_error', { exception_message: 'Mock failure' }]] } } });
+    }
+    const nodes = Object.values(entry.workflow);
+    const sampler = nodes.find((node) => node.class_type === 'KSampler');
+    const size = nodes.find((node) => node.inputs?.width !== undefined)?.inputs ?? { width: 64, height: 64 };
+    const filename = `${promptId}.png`;
+    if (!images.has(filename)) {
+      images.set(filename, makePng(Math.min(64, size.width), Math.min(64, size.height), Number(sampler?.inputs.seed) || 0));
+    }
+    const [saveId] = Object.entries(entry.workflow).find(([, node]) => node.class_type === 'SaveImage');
+    return send(res, 200, {
+      [promptId]: {
+        outputs: { [saveId]: { images: [{ filename, subfolder: '', type: 'output' }] } },
+        status: { status_str: 'success', completed: true, messages: [] },
+      },
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/view') {
+    const image = images.get(url.searchParams.get('filename'));
+    return image ? send(res, 200, image, 'image/png') : send(res, 404, { error: 'not found' });
+  }
+
+  send(res, 404, { error: `No mock for ${req.method} ${url.pathname}` });
+});
+
+server.listen(PORT, () => console.log(`Mock ComfyUI listening on http://127.0.0.1:${PORT} (delay ${DELAY_MS}ms${FAIL ? ', failing prompts' : ''})`));
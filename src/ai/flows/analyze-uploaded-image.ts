@@ -11,6 +11,7 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'zod';
+import {renderPromptTemplateParts, templateOrDefault} from '@/lib/prompt-templates';
 
 const AnalyzeUploadedImageInputSchema = z.object({
   imageDataUri: z
@@ -21,6 +22,7 @@ const AnalyzeUploadedImageInputSchema = z.object({
   mythologicalContext: z.string().describe('The mythological context to consider for the analysis.'),
   entityTheme: z.string().describe('The entity or theme to consider for the analysis.'),
   additionalDetails: z.string().optional().describe('Any additional details or context for the image.'),
+  template: z.string().optional().describe('Prompt template text (see lib/prompt-templates); the default is used when missing.'),
 });
 export type AnalyzeUploadedImageInput = z.infer<typeof AnalyzeUploadedImageInputSchema>;
 
@@ -34,21 +36,10 @@ export async function analyzeUploadedImage(input: AnalyzeUploadedImageInput): Pr
   return analyzeUploadedImageFlow(input);
 }
 
-const prompt = ai.definePrompt({
-  name: 'analyzeUploadedImagePrompt',
-  input: {schema: AnalyzeUploadedImageInputSchema},
+// The template can be edited in Settings, so it's rendered per call instead of with ai.definePrompt
+const prompt = (input: AnalyzeUploadedImageInput) => ai.generate({
+  prompt: renderPromptTemplateParts(templateOrDefault('analyze-image', input.template), input),
   output: {schema: AnalyzeUploadedImageOutputSchema},
-  prompt: `You are an art expert with extensive knowledge of mythology.
-
-  Analyze the provided image and identify its visual style and possible mythological connections, based on the provided context.
-
-  Image: {{media url=imageDataUri}}
-  Mythological Context: {{{mythologicalContext}}}
-  Entity/Theme: {{{entityTheme}}}
-  Additional Details: {{{additionalDetails}}}
-
-  Provide a detailed analysis and identify the primary visual style.
-  `,
 });
 
 const analyzeUploadedImageFlow = ai.defineFlow(
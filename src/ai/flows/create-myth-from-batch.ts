@@ -11,6 +11,8 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'zod';
+import {GOOGLE_IMAGE_MODEL} from '@/ai/models';
+import {renderPromptTemplate, templateOrDefault} from '@/lib/prompt-templates';
 
 // Input is similar to GenerateMythImageInput, but 'entity' is derived inside the flow.
 const CreateMythFromBatchInputSchema = z.object({
@@ -21,6 +23,8 @@ const CreateMythFromBatchInputSchema = z.object({
   imageQuality: z.string(),
   provider: z.string(), // 'google-ai' or 'stable-diffusion'
   checkpoint: z.string().optional(),
+  template: z.string().optional(), // 'batch-image' prompt template; the default is used when missing
+  detailsTemplate: z.string().optional(), // 'extract-batch-details' prompt template
 });
 export type CreateMythFromBatchInput = z.infer<typeof CreateMythFromBatchInputSchema>;
 
@@ -34,30 +38,22 @@ const CreateMythFromBatchOutputSchema = z.object({
 export type CreateMythFromBatchOutput = z.infer<typeof CreateMythFromBatchOutputSchema>;
 
 
-const extractDetailsPrompt = ai.definePrompt({
-    name: 'extractDetailsForBatchPrompt',
-    input: { schema: z.object({ promptText: z.string() }) },
-    output: { schema: z.object({
-        creationName: z.string().describe('A short, evocative name for the creation (2-5 words).'),
-        entity: z.string().describe('The primary subject or theme of the prompt (1-3 words).'),
-    })},
-    prompt: `From the following image generation prompt, extract a concise, evocative name for the creation (creationName) and the main subject/theme (entity).
-
-    - The creationName should be 2-5 words.
-    - The entity should be the single primary subject (1-3 words).
+const ExtractedDetailsSchema = z.object({
+    creationName: z.string().describe('A short, evocative name for the creation (2-5 words).'),
+    entity: z.string().describe('The primary subject or theme of the prompt (1-3 words).'),
+});
 
-    Prompt:
-    ---
-    {{{promptText}}}
-    ---
-    `,
+// The template can be edited in Settings, so it's rendered per call instead of with ai.definePrompt
+const extractDetailsPrompt = (promptText: string, template: string | undefined) => ai.generate({
+    prompt: renderPromptTemplate(templateOrDefault('extract-batch-details', template), { promptText }),
+    output: { schema: ExtractedDetailsSchema },
 });
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 async function generateWithGoogleAI(prompt: string) {
     const {media} = await ai.generate({
-      model: 'googleai/gemini-2.0-flash-preview-image-generation',
+      model: GOOGLE_IMAGE_MODEL,
       prompt: prompt,
       config: {
         responseModalities: ['TEXT', 'IMAGE'],
@@ -93,7 +89,7 @@ async function generateWithGoogleAI(prompt: string) {
 export async function createMythFromBatch(input: CreateMythFromBatchInput): Promise<CreateMythFromBatchOutput> {
     
     // First, construct the full prompt that will be used for both name extraction and image generation.
-    const fullPrompt = `A visually rich image in the style of ${input.style}. The primary subject is from ${input.culture} mythology. Key scene details include: ${input.details}. The desired image quality is ${input.imageQuality}.`;
+    const fullPrompt = renderPromptTemplate(templateOrDefault('batch-image', input.template), input);
 
     let name = `Creación en Lote`;
     let entity = 'Desconocido';
@@ -101,7 +97,7 @@ export async function createMythFromBatch(input: CreateMythFromBatchInput): Prom
 
     // Attempt to extract details using the full, rich prompt.
     try {
-        const { output: extractedDetails } = await extractDetailsPrompt({ promptText: fullPrompt });
+        const { output: extractedDetails } = await extractDetailsPrompt(fullPrompt, input.detailsTemplate);
         if (extractedDetails) {
             name = extractedDetails.creationName;
             entity = extractedDetails.entity;
@@ -116,7 +112,7 @@ export async function createMythFromBatch(input: CreateMythFromBatchInput): Prom
         console.log(`Retrying detail extraction in 10 seconds for prompt: "${fullPrompt}"`);
         await delay(10000); // 10 second delay
         try {
-            const { output: extractedDetails } = await extractDetailsPrompt({ promptText: fullPrompt });
+            const { output: extractedDetails } = await extractDetailsPrompt(fullPrompt, input.detailsTemplate);
             if (extractedDetails) {
                 name = extractedDetails.creationName;
                 entity = extractedDetails.entity;
@@ -0,0 +1,65 @@
+'use server';
+
+/**
+ * @fileOverview Drafts a knowledge base entry (aliases, lore, attributes and relationships) for a mythological entity.
+ *
+ * - draftEntity - A function that handles the drafting process.
+ * - DraftEntityInput - The input type for the function.
+ * - DraftEntityOutput - The return type for the function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'zod';
+import {renderPromptTemplate, templateOrDefault} from '@/lib/prompt-templates';
+
+const DraftEntityInputSchema = z.object({
+  name: z.string().describe('The entity name, as used in the creations.'),
+  culture: z.string().describe('The mythological culture of the entity.'),
+  creationDetails: z.string().optional().describe('Details of the creations about this entity, as context.'),
+  knownEntities: z.string().optional().describe('Comma-separated names of other entities of the culture that already have an entry.'),
+  template: z.string().optional().describe('Prompt template text (see lib/prompt-templates); the default is used when missing.'),
+});
+export type DraftEntityInput = z.infer<typeof DraftEntityInputSchema>;
+
+const DraftEntityOutputSchema = z.object({
+  name: z.string().describe('The canonical Spanish name of the entity.'),
+  aliases: z.array(z.string()).describe('Other names the entity is known by.'),
+  description: z.string().describe('A 2-4 sentence summary of the entity lore, in Spanish.'),
+  attributes: z.array(z.object({
+    label: z.string().describe('The attribute, e.g. "Dominio".'),
+    value: z.string().describe('Its value, e.g. "El cielo y el trueno".'),
+  })).describe('Key facts about the entity, in Spanish.'),
+  relationships: z.array(z.object({
+    type: z.enum(['parent', 'child', 'consort', 'sibling', 'ally', 'enemy']).describe('The entity is <type> of the target, e.g. "parent" when it is the father or mother of the target.'),
+    target: z.string().describe('The canonical Spanish name of the related entity.'),
+  })).describe('Relations with other entities of the same mythology.'),
+});
+export type DraftEntityOutput = z.infer<typeof DraftEntityOutputSchema>;
+
+export async function draftEntity(input: DraftEntityInput): Promise<DraftEntityOutput> {
+  return draftEntityFlow(input);
+}
+
+// The template can be edited in Settings, so it's rendered per call instead of with ai.definePrompt
+const prompt = (input: DraftEntityInput) => ai.generate({
+  prompt: renderPromptTemplate(templateOrDefault('draft-entity', input.template), input),
+  output: {schema: DraftEntityOutputSchema},
+});
+
+const draftEntityFlow = ai.defineFlow(
+  {
+    name: 'draftEntityFlow',
+    inputSchema: DraftEntityInputSchema,
+    outputSchema: DraftEntityOutputSchema,
+  },
+  async (input) => {
+    if (!input.name?.trim()) {
+      throw new Error("El nombre de la entidad no puede estar vacío.");
+    }
+    const {output} = await prompt(input);
+    if (!output) {
+      throw new Error("La IA no pudo redactar la ficha de la entidad.");
+    }
+    return output;
+  }
+);
@@ -0,0 +1,109 @@
+'use server';
+
+/**
+ * @fileOverview AI flow for editing a region of an image with Google AI.
+ *
+ * Gemini has no mask input, so the painted region is described in the prompt (as a bounding box)
+ * and the mask is sent along as a second reference image.
+ *
+ * - editImageRegion - A function that handles the region edit.
+ * - EditImageRegionInput - The input type for the editImageRegion function.
+ * - EditImageRegionOutput - The return type for the editImageRegion function.
+ */
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {GOOGLE_IMAGE_MODEL} from '@/ai/models';
+
+const EditImageRegionInputSchema = z.object({
+  originalImage: z
+    .string()
+    .describe(
+      "The image to edit, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'.",
+    ),
+  mask: z
+    .string()
+    .describe('A black and white PNG data URI of the same size as the image; white marks the region to edit.'),
+  region: z
+    .object({
+      left: z.number().min(0).max(1),
+      top: z.number().min(0).max(1),
+      width: z.number().min(0).max(1),
+      height: z.number().min(0).max(1),
+    })
+    .describe('Bounding box of the white area of the mask, as fractions of the image size.'),
+  instruction: z.string().describe('What should appear inside the region.'),
+  visualStyle: z.string().describe('The visual style the edit must match.'),
+});
+
+export type EditImageRegionInput = z.infer<typeof EditImageRegionInputSchema>;
+
+const EditImageRegionOutputSchema = z.object({
+  editedImage: z
+    .string()
+    .describe(
+      "The edited image, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'.",
+    ),
+  editPrompt: z.string().describe('The region-edit prompt sent to the model.'),
+});
+
+export type EditImageRegionOutput = z.infer<typeof EditImageRegionOutputSchema>;
+
+export async function editImageRegion(input: EditImageRegionInput): Promise<EditImageRegionOutput> {
+  return editImageRegionFlow(input);
+}
+
+const toPercent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+const buildEditPrompt = ({region, instruction, visualStyle}: EditImageRegionInput): string =>
+  `Edit the first image. Change ONLY the region that spans from ${toPercent(region.left)} to ${toPercent(region.left + region.width)} of its width ` +
+  `and from ${toPercent(region.top)} to ${toPercent(region.top + region.height)} of its height, measured from the top-left corner; ` +
+  `the second image is a mask where that region is painted white. ` +
+  `Inside the region: ${instruction}. ` +
+  `Keep everything outside the region exactly as it is, with the same composition, framing and size, and blend the edit seamlessly in the ${visualStyle} style.`;
+
+const editImageRegionFlow = ai.defineFlow(
+  {
+    name: 'editImageRegionFlow',
+    inputSchema: EditImageRegionInputSchema,
+    outputSchema: EditImageRegionOutputSchema,
+  },
+  async input => {
+    const editPrompt = buildEditPrompt(input);
+    const {media} = await ai.generate({
+      model: GOOGLE_IMAGE_MODEL,
+      prompt: [
+        {media: {url: input.originalImage}},
+        {media: {url: input.mask}},
+        {text: editPrompt},
+      ],
+      config: {
+        responseModalities: ['TEXT', 'IMAGE'],
+        safetySettings: [
+          {
+            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+          },
+          {
+            category: 'HARM_CATEGORY_HARASSMENT',
+            threshold: 'BLOCK_ONLY_HIGH',
+          },
+          {
+            category: 'HARM_CATEGORY_HATE_SPEECH',
+            threshold: 'BLOCK_ONLY_HIGH',
+          },
+          {
+            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+          },
+        ],
+      },
+    });
+
+    if (!media?.url) {
+      throw new Error(
+        'La edición de la región falló, probablemente por infringir las políticas de seguridad. Intenta con una descripción diferente.'
+      );
+    }
+    return {editedImage: media.url, editPrompt};
+  }
+);
@@ -10,10 +10,16 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'zod';
-import { MYTHOLOGICAL_CULTURES } from '@/lib/types';
+import { BUILT_IN_CULTURES, describeCultureReferences, findCulture } from '@/lib/cultures';
+import { renderPromptTemplate, templateOrDefault } from '@/lib/prompt-templates';
 
 const ExtractMythologiesInputSchema = z.object({
   text: z.string().describe('The text content from which to extract information.'),
+  template: z.string().optional().describe('Prompt template text (see lib/prompt-templates); the default is used when missing.'),
+  cultures: z.array(z.object({
+    name: z.string(),
+    aliases: z.array(z.string()),
+  })).optional().describe("The user's culture catalog; the built-in cultures are used when missing."),
 });
 export type ExtractMythologiesInput = z.infer<typeof ExtractMythologiesInputSchema>;
 
@@ -31,30 +37,13 @@ export async function extractMythologiesFromText(input: ExtractMythologiesInput)
   return extractMythologiesFlow(input);
 }
 
-const availableCultures = MYTHOLOGICAL_CULTURES.filter(c => c !== 'Personalizada').join(', ');
-
-const prompt = ai.definePrompt({
-  name: 'extractMythologiesPrompt',
-  input: {schema: ExtractMythologiesInputSchema},
+// The template can be edited in Settings, so it's rendered per call instead of with ai.definePrompt
+const prompt = (input: ExtractMythologiesInput) => ai.generate({
+  prompt: renderPromptTemplate(templateOrDefault('extract-mythologies', input.template), {
+    ...input,
+    availableCultures: describeCultureReferences(input.cultures ?? BUILT_IN_CULTURES),
+  }),
   output: {schema: ExtractMythologiesOutputSchema},
-  prompt: `You are an expert in world mythology and a creative writer specializing in generating image prompts.
-Your task is to analyze the following text and extract key mythological themes, cultures, or entities.
-For each distinct mythology you identify, you must set the 'mythologyName' and generate a list of 3 to 5 detailed, creative prompts suitable for an AI image generator.
-
-**Crucially, the 'mythologyName' MUST match one of the following available cultures if the theme corresponds to one:**
-[${availableCultures}]
-
-If a theme in the text does not directly match one of the provided cultures, you can use a more descriptive name (e.g., "Monstruos Cósmicos"), but always prefer one from the list if applicable. The prompts should be inspired by the text but elaborated for visual richness.
-
-Example: If the text mentions "Zeus throwing a lightning bolt", since "Griega" is an available culture, the 'mythologyName' MUST be "Griega". A good prompt would be "Epic oil painting of Zeus on Mount Olympus, dark storm clouds gathering, hurling a crackling lightning bolt towards the earth, glowing eyes, powerful stance, cinematic lighting."
-
-Analyze the following text:
----
-{{{text}}}
----
-
-Return the result in the specified JSON format, ensuring 'mythologyName' adheres to the rules above.
-`,
 });
 
 const extractMythologiesFlow = ai.defineFlow(
@@ -65,6 +54,13 @@ const extractMythologiesFlow = ai.defineFlow(
   },
   async (input) => {
     const {output} = await prompt(input);
-    return output!;
+    // The model may answer with an alias ("Greek", "Norse"); store the catalog's name instead
+    const cultures = input.cultures ?? BUILT_IN_CULTURES;
+    return {
+      extractedData: output!.extractedData.map(mythology => ({
+        ...mythology,
+        mythologyName: findCulture(cultures, mythology.mythologyName)?.name ?? mythology.mythologyName,
+      })),
+    };
   }
 );
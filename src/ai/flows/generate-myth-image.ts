@@ -11,6 +11,9 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {GOOGLE_IMAGE_MODEL} from '@/ai/models';
+import {applyStylePrompt} from '@/lib/style-presets';
+import {renderPromptTemplate, templateOrDefault} from '@/lib/prompt-templates';
 
 const GenerateMythImageInputSchema = z.object({
   culture: z
@@ -21,6 +24,10 @@ const GenerateMythImageInputSchema = z.object({
   style: z.string().describe('The visual style (e.g., Photorealistic, Anime, Oil Painting).'),
   aspectRatio: z.string().describe('The aspect ratio of the image.'),
   imageQuality: z.string().describe('The quality of the image.'),
+  stylePrefix: z.string().optional().describe("Text the style preset puts before the prompt."),
+  styleSuffix: z.string().optional().describe("Text the style preset puts after the prompt."),
+  cultureMotifs: z.string().optional().describe("Visual motifs of the culture, from the culture catalog."),
+  template: z.string().optional().describe('Prompt template text (see lib/prompt-templates); the default is used when missing.'),
   // Provider is handled by which action is called, so it's not needed here.
 });
 
@@ -39,7 +46,7 @@ export async function generateMythImage(input: GenerateMythImageInput): Promise<
 
 async function generateWithGoogleAI(prompt: string, aspectRatio: string) {
     const {media} = await ai.generate({
-      model: 'googleai/gemini-2.0-flash-preview-image-generation',
+      model: GOOGLE_IMAGE_MODEL,
       prompt: prompt,
       config: {
         responseModalities: ['TEXT', 'IMAGE'],
@@ -80,8 +87,7 @@ const generateMythImageFlow = ai.defineFlow(
     outputSchema: GenerateMythImageOutputSchema,
   },
   async input => {
-    // A more descriptive prompt to guide the model better.
-    const fullPrompt = `A visually rich image in the style of ${input.style}. The primary subject is the entity '${input.entity}' from ${input.culture} mythology. Key scene details include: ${input.details}. The desired image quality is ${input.imageQuality}.`;
+    const fullPrompt = applyStylePrompt(renderPromptTemplate(templateOrDefault('generate-image', input.template), input), input);
     
     // This server flow now only handles Google AI. Stable Diffusion is handled client-side.
     const imageUrl = await generateWithGoogleAI(fullPrompt, input.aspectRatio);
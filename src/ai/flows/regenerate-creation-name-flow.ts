@@ -12,9 +12,11 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'zod';
+import {renderPromptTemplate, templateOrDefault} from '@/lib/prompt-templates';
 
 const RegenerateCreationNameInputSchema = z.object({
   promptText: z.string().describe('The image generation prompt from which to extract a new name and entity.'),
+  template: z.string().optional().describe('Prompt template text (see lib/prompt-templates); the default is used when missing.'),
 });
 export type RegenerateCreationNameInput = z.infer<typeof RegenerateCreationNameInputSchema>;
 
@@ -28,22 +30,10 @@ export async function regenerateCreationName(input: RegenerateCreationNameInput)
   return regenerateCreationNameFlow(input);
 }
 
-const prompt = ai.definePrompt({
-  name: 'regenerateCreationNamePrompt',
-  input: {schema: RegenerateCreationNameInputSchema},
+// The template can be edited in Settings, so it's rendered per call instead of with ai.definePrompt
+const prompt = (input: RegenerateCreationNameInput) => ai.generate({
+  prompt: renderPromptTemplate(templateOrDefault('regenerate-name', input.template), input),
   output: {schema: RegenerateCreationNameOutputSchema},
-  prompt: `You are an expert in summarizing creative text. From the following image generation prompt, extract a concise, evocative name for the creation (creationName) and the main subject or theme (entity).
-
-The creationName should be short and suitable for a gallery title (e.g., "The Serpent of Ashes", "Cybernetic Griffin"). It should be 2-5 words.
-The entity should be the single primary subject of the prompt (e.g., "Phoenix", "Zeus", "World Tree").
-
-Analyze the following prompt:
----
-{{{promptText}}}
----
-
-Return the result in the specified JSON format.
-`,
 });
 
 const regenerateCreationNameFlow = ai.defineFlow(
@@ -10,6 +10,8 @@
  */
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {GOOGLE_IMAGE_MODEL} from '@/ai/models';
+import {renderPromptTemplateParts, templateOrDefault} from '@/lib/prompt-templates';
 
 const ReimagineUploadedImageInputSchema = z.object({
   originalImage: z
@@ -23,6 +25,10 @@ const ReimagineUploadedImageInputSchema = z.object({
   visualStyle: z.string().describe('The new visual style for the reimagined image.'),
   aspectRatio: z.string().describe('The aspect ratio for the reimagined image.'),
   imageQuality: z.string().describe('The quality of the reimagined image.'),
+  stylePrefix: z.string().optional().describe("Text the style preset puts before the prompt."),
+  styleSuffix: z.string().optional().describe("Text the style preset puts after the prompt."),
+  cultureMotifs: z.string().optional().describe("Visual motifs of the culture, from the culture catalog."),
+  template: z.string().optional().describe('Prompt template text (see lib/prompt-templates); the default is used when missing.'),
   // Provider is handled by which action is called, so it's not needed here.
 });
 
@@ -45,29 +51,21 @@ export async function reimagineUploadedImage(
   return reimagineUploadedImageFlow(input);
 }
 
-const reimagineImagePrompt = ai.definePrompt({
-  name: 'reimagineImagePrompt',
-  input: {schema: ReimagineUploadedImageInputSchema},
-  output: {schema: z.object({derivedPrompt: z.string()})},
-  prompt: `You are an AI assistant that helps reimagine images in a mythological context.
-  Analyze the original image provided, considering the context culture, entity, and details.
-  Derive a descriptive prompt that captures the essence of the original image within the specified mythological context and style.
-  Original Image: {{media url=originalImage}}
-  Context Culture: {{{contextCulture}}}
-  Context Entity: {{{contextEntity}}}
-  Context Details: {{{contextDetails}}}
-  New Visual Style: {{{visualStyle}}}
-  Image Quality: {{{imageQuality}}}
-
-  Based on the above information, create a detailed prompt to generate a reimagined version of the image.
-  The prompt should be descriptive and consider the new visual style and desired image quality.
-  Return ONLY the derived prompt. Do not include any other text or explanation.
-  Derived Prompt:`,
-});
+// The template can be edited in Settings, so it's rendered per call instead of with ai.definePrompt
+async function deriveReimaginePrompt(input: ReimagineUploadedImageInput): Promise<string> {
+  const {output} = await ai.generate({
+    prompt: renderPromptTemplateParts(templateOrDefault('reimagine-image', input.template), input),
+    output: {schema: z.object({derivedPrompt: z.string()})},
+  });
+  if (!output?.derivedPrompt) {
+    throw new Error("La IA no pudo describir la imagen para reimaginarla.");
+  }
+  return output.derivedPrompt;
+}
 
 async function reimagineWithGoogleAI(derivedPrompt: string, input: ReimagineUploadedImageInput) {
     const {media} = await ai.generate({
-      model: 'googleai/gemini-2.0-flash-preview-image-generation',
+      model: GOOGLE_IMAGE_MODEL,
       prompt: [
         {media: {url: input.originalImage}},
         {text: derivedPrompt},
@@ -110,7 +108,7 @@ const reimagineUploadedImageFlow = ai.defineFlow(
     outputSchema: ReimagineUploadedImageOutputSchema,
   },
   async input => {
-    const {output: {derivedPrompt}} = await reimagineImagePrompt(input);
+    const derivedPrompt = await deriveReimaginePrompt(input);
     
     // This server flow now only handles Google AI. Stable Diffusion is handled client-side.
     const reimaginedImage = await reimagineWithGoogleAI(derivedPrompt, input);
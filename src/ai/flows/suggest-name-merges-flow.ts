@@ -0,0 +1,57 @@
+'use server';
+
+/**
+ * @fileOverview Groups entity or culture names that refer to the same thing, for the name merge tool.
+ *
+ * - suggestNameMerges - A function that handles the grouping process.
+ * - SuggestNameMergesInput - The input type for the function.
+ * - SuggestNameMergesOutput - The return type for the function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'zod';
+import {renderPromptTemplate, templateOrDefault} from '@/lib/prompt-templates';
+
+const SuggestNameMergesInputSchema = z.object({
+  fieldLabel: z.string().describe('What the names are: "entidades" or "culturas".'),
+  names: z.string().describe('The names, one per line; entities are followed by their culture in brackets.'),
+  template: z.string().optional().describe('Prompt template text (see lib/prompt-templates); the default is used when missing.'),
+});
+export type SuggestNameMergesInput = z.infer<typeof SuggestNameMergesInputSchema>;
+
+const SuggestNameMergesOutputSchema = z.object({
+  groups: z.array(z.object({
+    canonicalName: z.string().describe('The best Spanish name for the group.'),
+    variants: z.array(z.string()).describe('Names of the list that belong to the group, exactly as written.'),
+    culture: z.string().optional().describe('For entities, the culture of the variants, exactly as written in brackets.'),
+  })).describe('Groups of names that refer to the same entity or culture.'),
+});
+export type SuggestNameMergesOutput = z.infer<typeof SuggestNameMergesOutputSchema>;
+
+export async function suggestNameMerges(input: SuggestNameMergesInput): Promise<SuggestNameMergesOutput> {
+  return suggestNameMergesFlow(input);
+}
+
+// The template can be edited in Settings, so it's rendered per call instead of with ai.definePrompt
+const prompt = (input: SuggestNameMergesInput) => ai.generate({
+  prompt: renderPromptTemplate(templateOrDefault('suggest-name-merges', input.template), input),
+  output: {schema: SuggestNameMergesOutputSchema},
+});
+
+const suggestNameMergesFlow = ai.defineFlow(
+  {
+    name: 'suggestNameMergesFlow',
+    inputSchema: SuggestNameMergesInputSchema,
+    outputSchema: SuggestNameMergesOutputSchema,
+  },
+  async (input) => {
+    if (!input.names?.trim()) {
+      throw new Error("No hay nombres que agrupar.");
+    }
+    const {output} = await prompt(input);
+    if (!output) {
+      throw new Error("La IA no pudo sugerir agrupaciones de nombres.");
+    }
+    return output;
+  }
+);
@@ -0,0 +1,3 @@
+// Model ids shared by the flows and the Google AI image provider (lib/image-providers).
+// Kept out of the flow files because 'use server' modules may only export async functions.
+export const GOOGLE_IMAGE_MODEL = 'googleai/gemini-2.0-flash-preview-image-generation';
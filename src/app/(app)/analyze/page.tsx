@@ -16,10 +16,11 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { useHistory } from '@/contexts/HistoryContext';
 import { useToast } from '@/hooks/use-toast';
 import { analyzeUploadedImageAction } from '@/lib/actions';
+import { getActivePromptTemplate } from '@/lib/prompt-template-store';
+import { DEFAULT_CULTURE_NAME } from '@/lib/cultures';
+import { CultureField } from '@/components/CultureField';
 import type { AnalyzedParams } from '@/lib/types';
-import { MYTHOLOGICAL_CULTURES } from '@/lib/types'; 
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 const analyzeImageSchema = z.object({
   name: z.string().min(1, "El nombre del análisis es obligatorio.").max(100),
@@ -55,7 +56,7 @@ export default function AnalyzeImagePage() {
     resolver: zodResolver(analyzeImageSchema),
     defaultValues: {
       name: '',
-      mythologicalContext: MYTHOLOGICAL_CULTURES[0],
+      mythologicalContext: DEFAULT_CULTURE_NAME,
       entityTheme: '',
       additionalDetails: '',
     },
@@ -104,23 +105,24 @@ export default function AnalyzeImagePage() {
       return;
     }
     
-    const aiInputParams: AnalyzedParams = {
-      mythologicalContext: data.mythologicalContext,
-      entityTheme: data.entityTheme,
-      additionalDetails: data.additionalDetails,
-    };
-
     try {
+      const { template, ref } = await getActivePromptTemplate('analyze-image');
+      const aiInputParams: AnalyzedParams = {
+        mythologicalContext: data.mythologicalContext,
+        entityTheme: data.entityTheme,
+        additionalDetails: data.additionalDetails,
+      };
       const result = await analyzeUploadedImageAction({
         imageDataUri,
-        ...aiInputParams
+        ...aiInputParams,
+        template,
       });
       setAnalysisResult(result);
 
       await addCreation(
         'analyzed',
         data.name,
-        aiInputParams,
+        { ...aiInputParams, promptTemplate: ref },
         { analysis: result.analysis, visualStyle: result.visualStyle },
         undefined, 
         imageDataUri 
@@ -208,28 +210,7 @@ export default function AnalyzeImagePage() {
                     )}
                   />
                   
-                  <FormField
-                    control={form.control}
-                    name="mythologicalContext"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Contexto Mitológico</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Selecciona una cultura" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {MYTHOLOGICAL_CULTURES.map(culture => (
-                              <SelectItem key={culture} value={culture}>{culture}</SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  <CultureField control={form.control} name="mythologicalContext" label="Contexto Mitológico" />
                   <FormField
                     control={form.control}
                     name="entityTheme"
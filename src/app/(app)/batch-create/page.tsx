@@ -1,11 +1,11 @@
 
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { Layers, Loader2, Sparkles, CheckCircle, XCircle, RefreshCw, Edit3, Bot, X, PauseCircle, Eraser } from 'lucide-react';
+import { Layers, Loader2, Sparkles, CheckCircle, XCircle, RefreshCw, Edit3, Bot, X, PauseCircle, PlayCircle, Eraser, Gauge } from 'lucide-react';
 import Image from 'next/image';
 
 import { Button } from '@/components/ui/button';
@@ -14,152 +14,139 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription as FormDescriptionComponent } from '@/components/ui/form';
 import { useHistory } from '@/contexts/HistoryContext';
+import { useBatchJobs, useBatchJobItems } from '@/contexts/BatchJobContext';
 import { useToast } from '@/hooks/use-toast';
-import { generateMythImageAction, fixImagePromptAction, regenerateCreationNameAction } from '@/lib/actions';
-import type { GeneratedParams } from '@/lib/types';
-import { MYTHOLOGICAL_CULTURES, IMAGE_STYLES, ASPECT_RATIOS, IMAGE_QUALITIES, IMAGE_PROVIDERS } from '@/lib/types';
+import { fixImagePromptAction } from '@/lib/actions';
+import type { BatchJob, BatchJobItem } from '@/lib/types';
+import { ASPECT_RATIOS, IMAGE_QUALITIES } from '@/lib/types';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { mapAspectRatioToDimensions, mapQualityToSteps } from '@/lib/utils';
+import { pickSdGenerationParams } from '@/lib/stable-diffusion';
+import { findImageProvider, getImageProvider, getImageProviderName, listImageProviders, DEFAULT_IMAGE_PROVIDER_ID } from '@/lib/image-providers';
+import { CheckpointField } from '@/components/CheckpointField';
+import { StylePresetField, applyStylePresetToForm } from '@/components/StylePresetField';
+import { CultureField, applyCultureToForm } from '@/components/CultureField';
+import { useCultures } from '@/contexts/CulturesContext';
+import { useStylePresets } from '@/contexts/StylePresetsContext';
+import { DEFAULT_STYLE_NAME, findStylePresetByName, toStylePromptParams } from '@/lib/style-presets';
+import { DEFAULT_CULTURE_NAME, findCulture } from '@/lib/cultures';
+import { SdAdvancedFields, sdAdvancedFormFields, SD_ADVANCED_FORM_DEFAULTS } from '@/components/SdAdvancedFields';
 import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { getBatchLimits, saveBatchLimits, getDefaultBatchLimits, getProviderBatchLimits, type BatchLimits, type BatchProviderLimits } from '@/lib/batch-limits';
 
 const batchCreateSchema = z.object({
+  jobName: z.string().optional(),
   prompts: z.string().min(1, "Se requiere al menos un prompt."),
   culture: z.string().min(1, "La cultura mitológica es obligatoria."),
   style: z.string().min(1, "El estilo visual es obligatorio."),
   aspectRatio: z.string().min(1, "La relación de aspecto es obligatoria."),
   imageQuality: z.string().min(1, "La calidad de imagen es obligatoria."),
-  provider: z.enum(['google-ai', 'stable-diffusion']).default('google-ai'),
+  provider: z.string().min(1, "El motor de generación es obligatorio."),
   checkpoint: z.string().optional(),
+  ...sdAdvancedFormFields,
 });
 
 type BatchCreateFormData = z.infer<typeof batchCreateSchema>;
 
-interface ResultState {
-    prompt: string;
-    culture: string;
-    provider: 'google-ai' | 'stable-diffusion';
-    checkpoint?: string;
-    status: 'pending' | 'processing' | 'success' | 'error';
-    imageId?: string;
-    name?: string;
-    entity?: string;
-    error?: string;
-}
+const JOB_STATUS_LABELS: Record<BatchJob['status'], string> = {
+    running: 'En curso',
+    paused: 'En pausa',
+    completed: 'Terminado',
+};
+
+const THROUGHPUT_WINDOW_MS = 5 * 60 * 1000;
+
+// Items finished per minute over the last few minutes, or null until there is enough data.
+const getThroughputPerMinute = (items: BatchJobItem[], now: number): number | null => {
+    const recent = items.filter(item => (item.status === 'success' || item.status === 'error') && now - item.updatedAt <= THROUGHPUT_WINDOW_MS);
+    if (recent.length < 2) return null;
+    const elapsedMs = now - Math.min(...recent.map(item => item.updatedAt));
+    return elapsedMs > 0 ? recent.length / (elapsedMs / 60000) : null;
+};
+
+const formatEta = (minutes: number): string => {
+    if (minutes < 1) return 'menos de 1 min';
+    if (minutes < 60) return `${Math.round(minutes)} min`;
+    return `${Math.floor(minutes / 60)} h ${Math.round(minutes % 60)} min`;
+};
 
 export default function BatchCreatePage() {
-  const [isProcessingBatch, setIsProcessingBatch] = useState(false);
-  const [results, setResults] = useState<ResultState[]>([]);
-  const [progress, setProgress] = useState({ current: 0, total: 0 });
-  const { addCreation } = useHistory();
+  const { jobs, createJob, pauseJob, resumeJob, deleteJob, retryFailedItems, retryItem, updateItemPrompt, clearSuccessfulItems } = useBatchJobs();
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const items = useBatchJobItems(selectedJobId);
   const { toast } = useToast();
+  const { presets: stylePresets } = useStylePresets();
+  const { cultures } = useCultures();
 
-  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [editedPromptText, setEditedPromptText] = useState('');
-  const [isFixingIndex, setIsFixingIndex] = useState<number | null>(null);
-
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isFixingItemId, setIsFixingItemId] = useState<string | null>(null);
+  const [batchLimits, setBatchLimits] = useState<BatchLimits>(getDefaultBatchLimits);
+  const [now, setNow] = useState(() => Date.now());
 
   const form = useForm<BatchCreateFormData>({
     resolver: zodResolver(batchCreateSchema),
     defaultValues: {
+      jobName: '',
       prompts: '',
-      culture: MYTHOLOGICAL_CULTURES[0],
-      style: IMAGE_STYLES[0],
+      culture: DEFAULT_CULTURE_NAME,
+      style: DEFAULT_STYLE_NAME,
       aspectRatio: ASPECT_RATIOS[0],
       imageQuality: IMAGE_QUALITIES[0],
-      provider: 'google-ai',
+      provider: DEFAULT_IMAGE_PROVIDER_ID,
       checkpoint: '',
+      ...SD_ADVANCED_FORM_DEFAULTS,
     },
   });
   
   const formValues = form.watch();
+  const selectedProviderCapabilities = findImageProvider(formValues.provider)?.capabilities;
+  const selectedProviderLimits = getProviderBatchLimits(batchLimits, formValues.provider);
 
   useEffect(() => {
-      const fetchSdCheckpoint = async () => {
-        if (formValues.provider === 'stable-diffusion') {
-            try {
-                const response = await fetch('http://127.0.0.1:7860/sdapi/v1/options', {
-                    method: 'GET',
-                    headers: { 'Content-Type': 'application/json' },
-                    mode: 'cors',
-                });
-                if (response.ok) {
-                    const options = await response.json();
-                    if (options.sd_model_checkpoint) {
-                        form.setValue('checkpoint', options.sd_model_checkpoint);
-                        toast({ title: "Checkpoint Detectado", description: `Se ha cargado automáticamente el checkpoint: ${options.sd_model_checkpoint}`, duration: 3000 });
-                    }
-                }
-            } catch (error) {
-                console.warn("No se pudo conectar a la API de Stable Diffusion para obtener el checkpoint. Se requiere entrada manual.");
+      const fetchCurrentModel = async () => {
+        const provider = findImageProvider(formValues.provider);
+        if (provider?.capabilities.modelSelection) {
+            const checkpoint = await provider.getCurrentModel();
+            if (checkpoint) {
+                form.setValue('checkpoint', checkpoint);
+                toast({ title: "Checkpoint Detectado", description: `Se ha cargado automáticamente el checkpoint: ${checkpoint}`, duration: 3000 });
             }
         }
     };
-    fetchSdCheckpoint();
+    fetchCurrentModel();
   }, [formValues.provider, form, toast]);
 
+  // Keep a valid job selected: default to the most recent one, and move on if the selected job is deleted.
   useEffect(() => {
-    const cachedData = localStorage.getItem('mythWeaverBatchCreateCache');
-    if (cachedData) {
-        try {
-            const { results: parsedResults, formState: cachedFormState } = JSON.parse(cachedData);
-            if (Array.isArray(parsedResults)) {
-                const correctedResults = parsedResults.map((r: ResultState) => 
-                    r.status === 'processing' 
-                        ? { ...r, status: 'pending' } 
-                        : r
-                );
-                setResults(correctedResults);
-                 if (correctedResults.some((r: ResultState) => r.status !== 'success' && r.status !== 'pending')) {
-                    setIsProcessingBatch(true);
-                }
-            }
-            if (cachedFormState) {
-                form.reset(cachedFormState);
-            }
-        } catch (e) {
-            console.error("Error loading batch create cache:", e);
-            localStorage.removeItem('mythWeaverBatchCreateCache');
-        }
+    if (jobs.length === 0) {
+        if (selectedJobId !== null) setSelectedJobId(null);
+    } else if (!selectedJobId || !jobs.some(job => job.id === selectedJobId)) {
+        setSelectedJobId(jobs[0].id);
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); 
+  }, [jobs, selectedJobId]);
 
+  const selectedJob = jobs.find(job => job.id === selectedJobId);
 
   useEffect(() => {
-    if (results.length > 0) {
-        const cache = {
-            results,
-            formState: formValues
-        };
-        try {
-            localStorage.setItem('mythWeaverBatchCreateCache', JSON.stringify(cache));
-        } catch (e) {
-            if (e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED')) {
-                const resultsToCache = results.map(({ imageId, ...rest }) => rest);
-                const minimalCache = { results: resultsToCache, formState: formValues };
-                try {
-                    localStorage.setItem('mythWeaverBatchCreateCache', JSON.stringify(minimalCache));
-                } catch (nestedError) {
-                    console.error("Error saving minimal batch create cache:", nestedError);
-                    toast({
-                        variant: "destructive",
-                        title: "Error de Caché",
-                        description: "No se pudo guardar el progreso del lote. El almacenamiento del navegador está lleno.",
-                    });
-                }
-            } else {
-                console.error("Error saving batch create cache:", e);
-            }
-        }
-    } else {
-        localStorage.removeItem('mythWeaverBatchCreateCache');
-        setIsProcessingBatch(false);
-    }
-  }, [results, formValues, toast]);
+    setBatchLimits(getBatchLimits());
+  }, []);
 
+  const handleLimitChange = (field: keyof BatchProviderLimits, value: string) => {
+    const provider = formValues.provider;
+    const updated = { ...batchLimits, [provider]: { ...getProviderBatchLimits(batchLimits, provider), [field]: value === '' ? 0 : Number(value) } };
+    setBatchLimits(saveBatchLimits(updated));
+  };
+
+  // Refresh throughput/ETA periodically while the selected job runs.
+  useEffect(() => {
+    if (selectedJob?.status !== 'running') return;
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, [selectedJob?.status]);
 
   const getProcessedPromptLines = (rawPrompts: string): string[] => {
     let lines = rawPrompts.split('\n').filter(p => p.trim() !== '');
@@ -180,160 +167,6 @@ export default function BatchCreatePage() {
     }
     return lines;
   };
-
-    const generateWithStableDiffusion = useCallback(async (fullPrompt: string, aspectRatio: string, imageQuality: string, checkpoint?: string) => {
-        const apiUrl = 'http://127.0.0.1:7860';
-        const dimensions = mapAspectRatioToDimensions(aspectRatio);
-        const steps = mapQualityToSteps(imageQuality);
-
-        const payload = {
-            prompt: fullPrompt,
-            negative_prompt: "deformed, bad anatomy, disfigured, poorly drawn face, mutation, mutated, extra limb, ugly, disgusting, poorly drawn hands, missing limb, floating limbs, disconnected limbs, malformed hands, blurry, ((((mutated hands and fingers)))), watermark, watermarked, oversaturated, censorship, censored, sensible, text, bare breasts, nude",
-            seed: -1,
-            sampler_name: "DPM++ 2M Karras",
-            batch_size: 1,
-            n_iter: 1,
-            steps: steps,
-            cfg_scale: 7,
-            width: dimensions.width,
-            height: dimensions.height,
-            restore_faces: true,
-            override_settings: checkpoint ? { sd_model_checkpoint: checkpoint } : {},
-        };
-
-        try {
-            const response = await fetch(`${apiUrl}/sdapi/v1/txt2img`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload),
-                mode: 'cors',
-            });
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Error de la API de Stable Diffusion: ${response.status} - ${errorText}`);
-            }
-            
-            const result = await response.json();
-            
-            if (!result.images || result.images.length === 0) {
-                throw new Error("La API de Stable Diffusion no devolvió ninguna imagen.");
-            }
-
-            return `data:image/png;base64,${result.images[0]}`;
-        } catch (e: any) {
-            if (e.message.includes('Failed to fetch')) {
-                throw new Error(`Error de red o CORS. Asegúrate de que Stable Diffusion Web UI se ejecuta con '--cors-allow-origins="*"' y que puedes acceder a ${apiUrl}/docs`);
-            }
-            throw e;
-        }
-    }, []);
-
-    const runSinglePromptProcessing = useCallback(async (index: number) => {
-        let resultToProcess!: ResultState;
-        setResults(prev => {
-            resultToProcess = prev[index];
-            if (!resultToProcess) return prev;
-            return prev.map((r, idx) => idx === index ? { ...r, status: 'processing', error: undefined } : r);
-        });
-        
-        await new Promise(resolve => setTimeout(resolve, 0));
-        
-        const settings = form.getValues();
-        let creationName = `Creación en Lote #${index + 1}`;
-        let entity = 'Desconocido';
-
-        try {
-            // Step 1: Extract Name and Entity
-            const fullPromptForNaming = `A visually rich image in the style of ${settings.style}. The primary subject is from ${resultToProcess.culture} mythology. Key scene details include: ${resultToProcess.prompt}. The desired image quality is ${settings.imageQuality}.`;
-            const nameResult = await regenerateCreationNameAction({ promptText: fullPromptForNaming });
-            creationName = nameResult.creationName;
-            entity = nameResult.entity;
-        } catch (e) {
-            console.warn(`Name extraction failed for prompt #${index}. Using generic names.`, e);
-            // Fallback to generic names, continue with image generation
-        }
-
-        const aiInputParams: GeneratedParams = {
-            culture: resultToProcess.culture,
-            entity: entity,
-            details: resultToProcess.prompt,
-            style: settings.style,
-            aspectRatio: settings.aspectRatio,
-            imageQuality: settings.imageQuality,
-            provider: resultToProcess.provider,
-            checkpoint: resultToProcess.checkpoint,
-        };
-
-        try {
-            // Step 2: Generate Image
-            let imageResult;
-            if (resultToProcess.provider === 'stable-diffusion') {
-                 const fullPrompt = `A visually rich image in the style of ${aiInputParams.style}. The primary subject is the entity '${entity}' from ${aiInputParams.culture} mythology. Key scene details include: ${resultToProcess.prompt}. The desired image quality is ${aiInputParams.imageQuality}.`;
-                const imageUrl = await generateWithStableDiffusion(fullPrompt, aiInputParams.aspectRatio, aiInputParams.imageQuality, aiInputParams.checkpoint);
-                imageResult = { imageUrl, prompt: fullPrompt };
-            } else {
-                imageResult = await generateMythImageAction(aiInputParams);
-            }
-            
-            const creationResult = await addCreation('generated', creationName, aiInputParams, { prompt: imageResult.prompt }, imageResult.imageUrl);
-            
-            if (!creationResult) {
-                throw new Error("Error al guardar la creación en la base de datos.");
-            }
-            
-            setResults(prev => prev.map((r, idx) => idx === index ? { ...r, status: 'success', imageId: creationResult.imageId, name: creationName, entity: entity } : r));
-            return true;
-        } catch (error: any) {
-            console.error(`Error processing prompt: ${resultToProcess.prompt}`, error);
-            const errorMessage = error.message || "Error desconocido";
-            setResults(prev => prev.map((r, idx) => idx === index ? { ...r, status: 'error', error: errorMessage, name: resultToProcess.name || `Fallido #${index+1}` } : r));
-            return false;
-        }
-    }, [addCreation, generateWithStableDiffusion, form]);
-
-
-    const processImageGeneration = useCallback(async (signal: AbortSignal) => {
-        let currentResults;
-        setResults(prev => {
-            currentResults = prev;
-            return prev;
-        });
-
-        await new Promise(resolve => setTimeout(resolve, 0)); 
-
-        if (!currentResults) {
-            console.error("Could not get current results for processing.");
-            setIsProcessingBatch(false);
-            return;
-        }
-
-        for (let i = 0; i < currentResults.length; i++) {
-            if (signal.aborted) {
-                toast({ title: "Proceso Detenido", description: "La generación de imágenes fue detenida por el usuario." });
-                break;
-            }
-            const currentResult = currentResults[i];
-            if (currentResult.status === 'pending' || currentResult.status === 'error') {
-              await runSinglePromptProcessing(i);
-            }
-            setProgress(prev => ({ ...prev, current: i + 1 }));
-        }
-
-        setResults(prev => {
-            if (!prev.some(r => r.status !== 'success')) {
-                setIsProcessingBatch(false);
-            }
-            return prev;
-        });
-
-        abortControllerRef.current = null;
-
-        if (!signal.aborted) {
-            toast({ title: "Generación de Imágenes Terminada", description: "Revisa los resultados en la lista." });
-        }
-    }, [runSinglePromptProcessing, toast]);
-
     
   const getTaskForLine = (line: string, defaultCulture: string) => {
     let culture = defaultCulture;
@@ -346,7 +179,8 @@ export default function BatchCreatePage() {
         const restOfPrompt = processedLine.substring(separatorIndex + 1).trim();
 
         if (potentialCulture && restOfPrompt) {
-            culture = potentialCulture;
+            // Aliases ("Greek", "Norse") are stored under the catalog's name
+            culture = findCulture(cultures, potentialCulture)?.name ?? potentialCulture;
             prompt = restOfPrompt;
         }
     }
@@ -355,164 +189,101 @@ export default function BatchCreatePage() {
   };
 
   async function onSubmit(data: BatchCreateFormData) {
-    setIsProcessingBatch(true);
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
-
     const promptLines = getProcessedPromptLines(data.prompts);
 
     if (promptLines.length === 0) {
         toast({ variant: "destructive", title: "Error", description: "Por favor, introduce al menos un prompt." });
-        setIsProcessingBatch(false);
         return;
     }
 
     const tasks = promptLines.map(line => getTaskForLine(line, data.culture));
+    const jobName = data.jobName?.trim() || `Lote del ${new Date().toLocaleString('es-ES')}`;
 
-    let initialResults = tasks.map(t => ({ 
-        prompt: t.prompt, 
-        culture: t.culture, 
-        provider: data.provider, 
-        checkpoint: data.checkpoint,
-        status: 'pending' as const
-    }));
-    
-    setResults(initialResults);
-    setProgress({ current: 0, total: tasks.length });
-    
-    setTimeout(() => processImageGeneration(signal), 100);
-  }
-
-  const handleStopProcessing = () => {
-    if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
+    try {
+        const jobId = await createJob(jobName, {
+            style: data.style,
+            ...toStylePromptParams(findStylePresetByName(stylePresets, data.style)),
+            aspectRatio: data.aspectRatio,
+            imageQuality: data.imageQuality,
+            provider: data.provider,
+            checkpoint: data.checkpoint,
+            ...(getImageProvider(data.provider).capabilities.advancedParams ? pickSdGenerationParams(data) : {}),
+        }, tasks);
+        setSelectedJobId(jobId);
+        form.setValue('prompts', '');
+        form.setValue('jobName', '');
+        toast({ title: "Lote en Cola", description: `"${jobName}" se procesará en segundo plano, incluso si cambias de página.` });
+    } catch (error: any) {
+        console.error("Error creating batch job:", error);
+        toast({ variant: "destructive", title: "Error", description: error.message || "No se pudo crear el lote." });
     }
-  };
-
-  const handleRetry = (index: number) => {
-    runSinglePromptProcessing(index);
-  };
+  }
 
-  const handleEdit = (index: number) => {
-    setEditingIndex(index);
-    const result = results[index];
+  const handleEdit = (item: BatchJobItem) => {
+    setEditingItemId(item.id);
     const defaultCulture = form.getValues().culture;
-    let textToEdit = result.prompt;
+    let textToEdit = item.prompt;
 
-    if (result.culture !== defaultCulture) {
-        textToEdit = `${result.culture};${result.prompt}`;
+    if (item.culture !== defaultCulture) {
+        textToEdit = `${item.culture};${item.prompt}`;
     }
     setEditedPromptText(textToEdit);
   };
 
   const handleCancelEdit = () => {
-    setEditingIndex(null);
+    setEditingItemId(null);
     setEditedPromptText('');
   };
 
   const handleSaveAndRetry = async () => {
-    if (editingIndex === null) return;
+    if (editingItemId === null) return;
 
     const task = getTaskForLine(editedPromptText, form.getValues().culture);
-    
-    let updatedResults = results.map((r, idx) => {
-        if (idx === editingIndex) {
-            return { ...r, prompt: task.prompt, culture: task.culture, status: 'pending' as const };
-        }
-        return r;
-    });
-
-    setResults(updatedResults);
-    
-    const indexToProcess = editingIndex;
+    const itemIdToProcess = editingItemId;
     handleCancelEdit();
-    setTimeout(() => runSinglePromptProcessing(indexToProcess), 0);
+    await updateItemPrompt(itemIdToProcess, task.prompt, task.culture);
   };
 
-  const handleAiFixAndRetry = async (index: number) => {
-    setIsFixingIndex(index);
-    const result = results[index];
-    if (!result) {
-        setIsFixingIndex(null);
-        return;
-    }
-    const { prompt: originalPrompt } = result;
-
+  const handleAiFixAndRetry = async (item: BatchJobItem) => {
+    setIsFixingItemId(item.id);
     try {
       toast({ title: "La IA está trabajando...", description: "Revisando y corrigiendo el prompt." });
-      const { fixedPrompt } = await fixImagePromptAction({ promptText: originalPrompt });
+      const { fixedPrompt } = await fixImagePromptAction({ promptText: item.prompt });
       toast({ title: "¡Prompt Corregido!", description: "Reintentando la generación con el nuevo prompt." });
-      
-      const finalResults = results.map((r, idx) => idx === index ? { ...r, prompt: fixedPrompt, status: 'pending' as const } : r);
-      setResults(finalResults);
-      
-      setTimeout(() => runSinglePromptProcessing(index), 0);
-
+      await updateItemPrompt(item.id, fixedPrompt, item.culture);
     } catch (error: any) {
         console.error("Error fixing prompt with AI:", error);
         toast({ variant: "destructive", title: "Error de la IA", description: error.message || "No se pudo corregir el prompt." });
-        setResults(prev => prev.map((r, idx) => idx === index ? { ...r, status: 'error', error: "Falló la corrección con IA." } : r));
     } finally {
-      setIsFixingIndex(null);
+      setIsFixingItemId(null);
     }
   };
 
-  const handleClearResults = () => {
-    setResults([]);
-    setProgress({ current: 0, total: 0 });
-    setIsProcessingBatch(false);
-    localStorage.removeItem('mythWeaverBatchCreateCache');
-    toast({ title: "Resultados Limpiados", description: "Se ha borrado el historial del lote." });
+  const handleDeleteJob = async () => {
+    if (!selectedJob) return;
+    await deleteJob(selectedJob.id);
+    toast({ title: "Lote Eliminado", description: "Las creaciones ya generadas se conservan en la galería." });
   };
   
-  const handleClearSuccessful = () => {
-    const newResults = results.filter(r => r.status !== 'success');
-    setResults(newResults);
-    if (newResults.length === 0) {
-        setIsProcessingBatch(false);
-    }
+  const handleClearSuccessful = async () => {
+    if (!selectedJob) return;
+    await clearSuccessfulItems(selectedJob.id);
     toast({ title: "Exitosos Limpiados", description: "Se han quitado los prompts generados correctamente de la lista." });
   };
   
   const handleRetryAll = async () => {
-    setIsProcessingBatch(true);
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
+    if (!selectedJob) return;
+    await retryFailedItems(selectedJob.id);
     toast({ title: "Reintentando el lote...", description: "Se procesarán todos los elementos pendientes o con error." });
-
-    const itemsToRetryIndices = results.map((_, index) => index).filter(index => {
-        const result = results[index];
-        return result.status === 'pending' || result.status === 'error';
-    });
-    
-    setProgress({ current: 0, total: itemsToRetryIndices.length });
-
-    for (const [i, index] of itemsToRetryIndices.entries()) {
-        if (signal.aborted) {
-            toast({ title: "Proceso Detenido", description: "La generación en lote fue detenida." });
-            break;
-        }
-        await runSinglePromptProcessing(index);
-        setProgress(prev => ({ ...prev, current: i + 1 }));
-    }
-    
-    setResults(currentResults => {
-        if (!currentResults.some(r => r.status !== 'success')) {
-            setIsProcessingBatch(false);
-        }
-        return currentResults;
-    });
-
-    abortControllerRef.current = null;
-    if (!signal.aborted) {
-      toast({ title: "Proceso de reintento terminado", description: "Revisa los resultados actualizados." });
-    }
   };
   
-  const hasFailedOrPendingItems = results.some(r => r.status === 'error' || r.status === 'pending');
-  const hasSuccessfulItems = results.some(r => r.status === 'success');
-  const successfulCount = results.filter(r => r.status === 'success').length;
-  const isBatchActive = results.length > 0;
+  const isJobRunning = selectedJob?.status === 'running';
+  const hasFailedOrPendingItems = items.some(r => r.status === 'error' || r.status === 'pending');
+  const hasSuccessfulItems = items.some(r => r.status === 'success');
+  const successfulCount = items.filter(r => r.status === 'success').length;
+  const finishedCount = items.filter(r => r.status === 'success' || r.status === 'error').length;
+  const throughput = isJobRunning ? getThroughputPerMinute(items, now) : null;
+  const etaMinutes = throughput ? (items.length - finishedCount) / throughput : null;
 
   return (
     <ScrollArea className="h-full">
@@ -538,56 +309,43 @@ export default function BatchCreatePage() {
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                   <FormField
                     control={form.control}
-                    name="prompts"
+                    name="jobName"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Lista de Prompts</FormLabel>
+                        <FormLabel>Nombre del Lote (opcional)</FormLabel>
                         <FormControl>
-                          <Textarea placeholder="Pega tus prompts aquí, uno por línea..." {...field} rows={8} disabled={isBatchActive} />
+                          <Input placeholder="Ej: Panteón nórdico" {...field} />
                         </FormControl>
-                         <FormDescriptionComponent>
-                            Usa el formato `cultura;prompt` por línea, o copia y pega directamente desde una hoja de cálculo (columnas: Cultura, Prompt). El encabezado se ignorará automáticamente.
-                          </FormDescriptionComponent>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                   <FormField
                     control={form.control}
-                    name="culture"
+                    name="prompts"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Cultura Mitológica (por defecto)</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isBatchActive}>
-                          <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
-                          <SelectContent>{MYTHOLOGICAL_CULTURES.map(c => (<SelectItem key={c} value={c}>{c}</SelectItem>))}</SelectContent>
-                        </Select>
+                        <FormLabel>Lista de Prompts</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="Pega tus prompts aquí, uno por línea..." {...field} rows={8} />
+                        </FormControl>
+                         <FormDescriptionComponent>
+                            Usa el formato `cultura;prompt` por línea, o copia y pega directamente desde una hoja de cálculo (columnas: Cultura, Prompt). El encabezado se ignorará automáticamente.
+                          </FormDescriptionComponent>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                  <CultureField control={form.control} name="culture" label="Cultura Mitológica (por defecto)" onCultureSelected={(culture) => applyCultureToForm(form.setValue, culture, 'style')} />
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                     <FormField
-                      control={form.control}
-                      name="style"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Estilo</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isBatchActive}>
-                            <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
-                            <SelectContent>{IMAGE_STYLES.map(s => (<SelectItem key={s} value={s}>{s}</SelectItem>))}</SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                     <StylePresetField control={form.control} name="style" label="Estilo" onPresetSelected={(preset) => applyStylePresetToForm(form.setValue, preset)} />
                      <FormField
                       control={form.control}
                       name="aspectRatio"
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Aspecto</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isBatchActive}>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
                             <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
                             <SelectContent>{ASPECT_RATIOS.map(r => (<SelectItem key={r} value={r}>{r}</SelectItem>))}</SelectContent>
                           </Select>
@@ -601,7 +359,7 @@ export default function BatchCreatePage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Calidad</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isBatchActive}>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
                             <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
                             <SelectContent>{IMAGE_QUALITIES.map(q => (<SelectItem key={q} value={q}>{q}</SelectItem>))}</SelectContent>
                           </Select>
@@ -616,12 +374,12 @@ export default function BatchCreatePage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Motor de Generación</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isBatchActive}>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
                             <FormControl>
                               <SelectTrigger><SelectValue placeholder="Selecciona un motor" /></SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {IMAGE_PROVIDERS.map(provider => (
+                              {listImageProviders().map(provider => (
                                 <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
                               ))}
                             </SelectContent>
@@ -630,23 +388,26 @@ export default function BatchCreatePage() {
                         </FormItem>
                       )}
                     />
-                    {formValues.provider === 'stable-diffusion' && (
-                        <FormField
-                            control={form.control}
-                            name="checkpoint"
-                            render={({ field }) => (
-                                <FormItem>
-                                <FormLabel>Checkpoint Base (automático o manual)</FormLabel>
-                                <FormControl>
-                                    <Input placeholder="Detectando checkpoint actual..." {...field} disabled={isBatchActive} />
-                                </FormControl>
-                                <FormMessage />
-                                </FormItem>
-                            )}
-                        />
-                    )}
+                    {selectedProviderCapabilities?.modelSelection && <CheckpointField control={form.control} providerId={formValues.provider} />}
+                    {selectedProviderCapabilities?.advancedParams && <SdAdvancedFields control={form.control} providerId={formValues.provider} />}
+                  <div className="space-y-2 rounded-lg border p-3">
+                    <Label className="flex items-center gap-2"><Gauge className="h-4 w-4" /> Rendimiento ({getImageProviderName(formValues.provider)})</Label>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="batch-concurrency" className="text-xs text-muted-foreground">Elementos en paralelo</Label>
+                        <Input id="batch-concurrency" type="number" min={1} max={10} value={selectedProviderLimits.concurrency} onChange={(e) => handleLimitChange('concurrency', e.target.value)} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="batch-rpm" className="text-xs text-muted-foreground">Peticiones por minuto</Label>
+                        <Input id="batch-rpm" type="number" min={0} value={selectedProviderLimits.requestsPerMinute} onChange={(e) => handleLimitChange('requestsPerMinute', e.target.value)} />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Usa 0 peticiones por minuto para no limitar. Los cambios se aplican también a los lotes en curso. Los nombres siempre se generan con Google AI y cuentan para su límite.
+                    </p>
+                  </div>
                   <div className="flex w-full items-center gap-2">
-                    <Button type="submit" disabled={isBatchActive} className="flex-grow">
+                    <Button type="submit" className="flex-grow" disabled={form.formState.isSubmitting}>
                       <Sparkles className="mr-2 h-4 w-4" />
                        Generar Lote
                     </Button>
@@ -662,11 +423,11 @@ export default function BatchCreatePage() {
                     <div>
                         <div className="flex items-center gap-2">
                            <CardTitle>2. Progreso y Resultados</CardTitle>
-                           {results.length > 0 && (
+                           {items.length > 0 && (
                                 <>
                                     <Tooltip>
                                         <TooltipTrigger asChild>
-                                            <Badge variant="secondary">{results.length} Total</Badge>
+                                            <Badge variant="secondary">{items.length} Total</Badge>
                                         </TooltipTrigger>
                                         <TooltipContent><p>Número total de prompts en el lote.</p></TooltipContent>
                                     </Tooltip>
@@ -679,56 +440,89 @@ export default function BatchCreatePage() {
                                 </>
                             )}
                         </div>
-                        <CardDescription>El estado de cada creación aparecerá aquí.</CardDescription>
+                        <CardDescription>Los lotes se guardan en este navegador y continúan al recargar la página.</CardDescription>
                     </div>
                     <div className="flex items-center gap-2 flex-wrap justify-end">
-                        {isProcessingBatch && (
-                          <Button variant="destructive" onClick={handleStopProcessing} type="button" size="sm">
+                        {selectedJob && isJobRunning && (
+                          <Button variant="destructive" onClick={() => pauseJob(selectedJob.id)} type="button" size="sm">
                             <PauseCircle className="mr-2 h-4 w-4" />
-                            Detener
+                            Pausar
                           </Button>
                         )}
-                        {hasSuccessfulItems && !isProcessingBatch && (
+                        {selectedJob && selectedJob.status === 'paused' && (
+                          <Button onClick={() => resumeJob(selectedJob.id)} type="button" size="sm">
+                            <PlayCircle className="mr-2 h-4 w-4" />
+                            Reanudar
+                          </Button>
+                        )}
+                        {hasSuccessfulItems && !isJobRunning && (
                             <Button variant="outline" size="sm" onClick={handleClearSuccessful}>
                                 <Eraser className="mr-2 h-4 w-4" />
                                 Limpiar Exitosos
                             </Button>
                         )}
-                        {hasFailedOrPendingItems && !isProcessingBatch && (
+                        {hasFailedOrPendingItems && !isJobRunning && (
                             <Button variant="outline" size="sm" onClick={handleRetryAll}>
                                 <RefreshCw className="mr-2 h-4 w-4" />
                                 Reintentar Fallidos
                             </Button>
                         )}
-                        {results.length > 0 && !isProcessingBatch && (
-                            <Button variant="ghost" size="icon" onClick={handleClearResults} title="Limpiar resultados">
+                        {selectedJob && !isJobRunning && (
+                            <Button variant="ghost" size="icon" onClick={handleDeleteJob} title="Eliminar lote">
                                 <X className="h-5 w-5" />
-                                <span className="sr-only">Limpiar</span>
+                                <span className="sr-only">Eliminar lote</span>
                             </Button>
                         )}
                     </div>
                 </div>
+                {jobs.length > 0 && (
+                    <div className="flex items-center gap-2 pt-2">
+                        <Select value={selectedJobId ?? undefined} onValueChange={setSelectedJobId}>
+                            <SelectTrigger className="flex-1"><SelectValue placeholder="Selecciona un lote" /></SelectTrigger>
+                            <SelectContent>
+                                {jobs.map(job => (
+                                    <SelectItem key={job.id} value={job.id}>{job.name} ({JOB_STATUS_LABELS[job.status]})</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {selectedJob && (
+                            <Badge variant={isJobRunning ? "default" : "outline"}>
+                                {JOB_STATUS_LABELS[selectedJob.status]} &bull; {finishedCount}/{items.length}
+                            </Badge>
+                        )}
+                    </div>
+                )}
+                {selectedJob && items.length > 0 && (
+                    <Progress value={(finishedCount / items.length) * 100} className="w-full mt-2" />
+                )}
+                {isJobRunning && (
+                    <p className="text-xs text-muted-foreground pt-1">
+                        {throughput
+                            ? <>Velocidad: {throughput.toFixed(1)} elementos/min &bull; Tiempo restante estimado: {formatEta(etaMinutes!)}</>
+                            : 'Calculando velocidad...'}
+                    </p>
+                )}
             </CardHeader>
             <CardContent>
                 <ScrollArea className="h-[500px] pr-4">
-                    {results.length === 0 && (
+                    {items.length === 0 && (
                         <div className="text-center text-muted-foreground p-8 border-2 border-dashed rounded-lg h-full flex flex-col justify-center items-center">
                             <Layers className="h-12 w-12 mx-auto mb-2" />
                             <p>Los resultados del lote se mostrarán aquí.</p>
                         </div>
                     )}
                     <div className="space-y-4">
-                        {results.map((result, index) => (
-                          <div key={index} className="flex flex-col gap-2 p-3 bg-muted/50 rounded-lg">
+                        {items.map((item) => (
+                          <div key={item.id} className="flex flex-col gap-2 p-3 bg-muted/50 rounded-lg">
                             <div className="flex items-start gap-4">
                                 <div className="flex-shrink-0 pt-1">
-                                    {result.status === 'processing' && <Loader2 className="h-5 w-5 text-primary animate-spin" />}
-                                    {result.status === 'success' && <CheckCircle className="h-5 w-5 text-green-500" />}
-                                    {result.status === 'error' && <XCircle className="h-5 w-5 text-destructive" />}
-                                    {result.status === 'pending' && <div className="h-5 w-5 rounded-full bg-muted-foreground/50" />}
+                                    {item.status === 'processing' && <Loader2 className="h-5 w-5 text-primary animate-spin" />}
+                                    {item.status === 'success' && <CheckCircle className="h-5 w-5 text-green-500" />}
+                                    {item.status === 'error' && <XCircle className="h-5 w-5 text-destructive" />}
+                                    {item.status === 'pending' && <div className="h-5 w-5 rounded-full bg-muted-foreground/50" />}
                                 </div>
                                 <div className="flex-1">
-                                    {editingIndex === index ? (
+                                    {editingItemId === item.id ? (
                                       <Textarea
                                         value={editedPromptText}
                                         onChange={(e) => setEditedPromptText(e.target.value)}
@@ -736,31 +530,32 @@ export default function BatchCreatePage() {
                                         rows={4}
                                       />
                                     ) : (
-                                      <p className="text-sm font-medium line-clamp-3">{result.prompt}</p>
+                                      <p className="text-sm font-medium line-clamp-3">{item.prompt}</p>
                                     )}
                                     <div className="text-xs text-muted-foreground mt-1">
-                                        <span>{result.culture} &bull; {IMAGE_PROVIDERS.find(p => p.id === result.provider)?.name || result.provider}</span>
+                                        <span>{item.culture} &bull; {selectedJob && getImageProviderName(selectedJob.settings.provider)}</span>
+                                        {item.attempts > 1 && <span> &bull; {item.attempts} intentos</span>}
                                     </div>
-                                    {result.name && <p className="text-xs text-primary font-semibold">Nombre: {result.name}</p>}
-                                    {result.status === 'error' && result.error && <p className="text-xs text-destructive">{result.error}</p>}
+                                    {item.name && <p className="text-xs text-primary font-semibold">Nombre: {item.name}</p>}
+                                    {item.status === 'error' && item.error && <p className="text-xs text-destructive">{item.error}</p>}
                                 </div>
-                                {result.status === 'success' && result.imageId && result.name && (
-                                  <BatchImageItem imageId={result.imageId} name={result.name} />
+                                {item.status === 'success' && item.imageId && item.name && (
+                                  <BatchImageItem imageId={item.imageId} name={item.name} />
                                 )}
                             </div>
-                            {editingIndex === index ? (
+                            {editingItemId === item.id ? (
                               <div className="flex justify-end gap-2">
                                 <Button size="sm" variant="ghost" onClick={handleCancelEdit}>Cancelar</Button>
                                 <Button size="sm" onClick={handleSaveAndRetry}><Sparkles className="mr-2 h-4 w-4" /> Guardar y Reintentar</Button>
                               </div>
-                            ) : result.status === 'error' && (
+                            ) : item.status === 'error' && (
                               <div className="flex justify-end gap-2">
-                                <Button size="sm" variant="outline" onClick={() => handleAiFixAndRetry(index)} disabled={isProcessingBatch || isFixingIndex === index}>
-                                  {isFixingIndex === index ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Bot className="mr-2 h-4 w-4" />}
+                                <Button size="sm" variant="outline" onClick={() => handleAiFixAndRetry(item)} disabled={isFixingItemId === item.id}>
+                                  {isFixingItemId === item.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Bot className="mr-2 h-4 w-4" />}
                                    Corregir con IA
                                 </Button>
-                                <Button size="sm" variant="outline" onClick={() => handleEdit(index)} disabled={isProcessingBatch || isFixingIndex === index}><Edit3 className="mr-2 h-4 w-4" /> Editar</Button>
-                                <Button size="sm" onClick={() => handleRetry(index)} disabled={isProcessingBatch || isFixingIndex === index}><RefreshCw className="mr-2 h-4 w-4" /> Reintentar</Button>
+                                <Button size="sm" variant="outline" onClick={() => handleEdit(item)} disabled={isFixingItemId === item.id}><Edit3 className="mr-2 h-4 w-4" /> Editar</Button>
+                                <Button size="sm" onClick={() => retryItem(item.id)} disabled={isFixingItemId === item.id}><RefreshCw className="mr-2 h-4 w-4" /> Reintentar</Button>
                               </div>
                             )}
                           </div>
@@ -776,7 +571,7 @@ export default function BatchCreatePage() {
 }
 
 const BatchImageItem: React.FC<{ imageId: string, name: string }> = ({ imageId, name }) => {
-  const { getImageData } = useHistory();
+  const { getThumbnail } = useHistory();
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -784,15 +579,15 @@ const BatchImageItem: React.FC<{ imageId: string, name: string }> = ({ imageId,
     let isActive = true;
     const fetchImage = async () => {
       setLoading(true);
-      const imgData = await getImageData(imageId);
-      if (isActive && imgData) {
-        setImageUrl(imgData.imageDataUri);
+      const thumbnailUrl = await getThumbnail(imageId);
+      if (isActive && thumbnailUrl) {
+        setImageUrl(thumbnailUrl);
       }
       setLoading(false);
     };
     fetchImage();
     return () => { isActive = false; };
-  }, [imageId, getImageData]);
+  }, [imageId, getThumbnail]);
 
   if (loading) {
     return <div className="w-16 h-16 flex items-center justify-center bg-muted/50 rounded-md"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>;
@@ -14,13 +14,22 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter, CardDescription } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { useHistory } from '@/contexts/HistoryContext';
 import { useToast } from '@/hooks/use-toast';
-import { generateMythImageAction } from '@/lib/actions';
-import type { GeneratedParams } from '@/lib/types';
-import { MYTHOLOGICAL_CULTURES, IMAGE_STYLES, ASPECT_RATIOS, IMAGE_QUALITIES, IMAGE_PROVIDERS } from '@/lib/types';
+import type { GeneratedParams, GenerationVariation } from '@/lib/types';
+import { ASPECT_RATIOS, IMAGE_QUALITIES, VARIATION_COUNTS } from '@/lib/types';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { mapAspectRatioToDimensions, mapQualityToSteps } from '@/lib/utils';
+import { pickSdGenerationParams } from '@/lib/stable-diffusion';
+import { findImageProvider, getImageProvider, listImageProviders, DEFAULT_IMAGE_PROVIDER_ID } from '@/lib/image-providers';
+import { CheckpointField } from '@/components/CheckpointField';
+import { StylePresetField, applyStylePresetToForm } from '@/components/StylePresetField';
+import { CultureField, applyCultureToForm } from '@/components/CultureField';
+import { useCultures } from '@/contexts/CulturesContext';
+import { useStylePresets } from '@/contexts/StylePresetsContext';
+import { DEFAULT_STYLE_NAME, findStylePresetByName, toStylePromptParams } from '@/lib/style-presets';
+import { CUSTOM_CULTURE_NAME, DEFAULT_CULTURE_NAME, findCulture, toCulturePromptParams } from '@/lib/cultures';
+import { SdAdvancedFields, sdAdvancedFormFields, SD_ADVANCED_FORM_DEFAULTS } from '@/components/SdAdvancedFields';
+import { VariationsGrid } from '@/components/VariationsGrid';
+import { useSaveVariations, type SaveVariationsMode } from '@/hooks/use-save-variations';
 
 const createMythSchema = z.object({
   name: z.string().min(1, "El nombre de la creación es obligatorio.").max(100),
@@ -31,8 +40,10 @@ const createMythSchema = z.object({
   style: z.string().min(1, "El estilo visual es obligatorio."),
   aspectRatio: z.string().min(1, "La relación de aspecto es obligatoria."),
   imageQuality: z.string().min(1, "La calidad de imagen es obligatoria."),
-  provider: z.enum(['google-ai', 'stable-diffusion']).default('google-ai'),
+  provider: z.string().min(1, "El motor de generación es obligatorio."),
   checkpoint: z.string().optional(),
+  variations: z.coerce.number().int().min(1).max(VARIATION_COUNTS[VARIATION_COUNTS.length - 1]),
+  ...sdAdvancedFormFields,
 });
 
 type CreateMythFormData = z.infer<typeof createMythSchema>;
@@ -42,138 +53,86 @@ export default function CreateMythPage() {
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [generatedPrompt, setGeneratedPrompt] = useState<string | null>(null);
   const [generationError, setGenerationError] = useState<string | null>(null);
-  const { addCreation } = useHistory();
+  const [variations, setVariations] = useState<GenerationVariation[]>([]);
+  const [pendingSave, setPendingSave] = useState<{ name: string; params: GeneratedParams } | null>(null);
+  const [isSavingVariations, setIsSavingVariations] = useState(false);
+  const saveVariations = useSaveVariations();
   const { toast } = useToast();
+  const { presets: stylePresets } = useStylePresets();
+  const { cultures } = useCultures();
 
   const form = useForm<CreateMythFormData>({
     resolver: zodResolver(createMythSchema),
     defaultValues: {
       name: '',
-      culture: MYTHOLOGICAL_CULTURES[0],
+      culture: DEFAULT_CULTURE_NAME,
       customCultureDetails: '',
       entity: '',
       details: '',
-      style: IMAGE_STYLES[0],
+      style: DEFAULT_STYLE_NAME,
       aspectRatio: ASPECT_RATIOS[0],
       imageQuality: IMAGE_QUALITIES[0],
-      provider: 'google-ai',
+      provider: DEFAULT_IMAGE_PROVIDER_ID,
       checkpoint: '',
+      variations: 1,
+      ...SD_ADVANCED_FORM_DEFAULTS,
     },
   });
 
   const selectedCulture = form.watch('culture');
   const selectedProvider = form.watch('provider');
+  const selectedProviderCapabilities = findImageProvider(selectedProvider)?.capabilities;
 
   useEffect(() => {
-    const fetchSdCheckpoint = async () => {
-      if (selectedProvider === 'stable-diffusion') {
-          try {
-              const response = await fetch('http://127.0.0.1:7860/sdapi/v1/options', {
-                  method: 'GET',
-                  headers: { 'Content-Type': 'application/json' },
-                  mode: 'cors',
-              });
-              if (response.ok) {
-                  const options = await response.json();
-                  if (options.sd_model_checkpoint) {
-                      form.setValue('checkpoint', options.sd_model_checkpoint);
-                      toast({ title: "Checkpoint Detectado", description: `Se ha cargado automáticamente el checkpoint: ${options.sd_model_checkpoint}`, duration: 3000 });
-                  }
-              }
-          } catch (error) {
-              console.warn("No se pudo conectar a la API de Stable Diffusion para obtener el checkpoint. Se requiere entrada manual.");
+    const fetchCurrentModel = async () => {
+      const provider = findImageProvider(selectedProvider);
+      if (provider?.capabilities.modelSelection) {
+          const checkpoint = await provider.getCurrentModel();
+          if (checkpoint) {
+              form.setValue('checkpoint', checkpoint);
+              toast({ title: "Checkpoint Detectado", description: `Se ha cargado automáticamente el checkpoint: ${checkpoint}`, duration: 3000 });
           }
       }
     };
-    fetchSdCheckpoint();
+    fetchCurrentModel();
   }, [selectedProvider, form, toast]);
 
-
-  async function generateWithStableDiffusion(prompt: string, aspectRatio: string, imageQuality: string, checkpoint?: string) {
-    const apiUrl = 'http://127.0.0.1:7860';
-    const dimensions = mapAspectRatioToDimensions(aspectRatio);
-    const steps = mapQualityToSteps(imageQuality);
-
-    const payload = {
-        prompt,
-        negative_prompt: "deformed, bad anatomy, disfigured, poorly drawn face, mutation, mutated, extra limb, ugly, disgusting, poorly drawn hands, missing limb, floating limbs, disconnected limbs, malformed hands, blurry, ((((mutated hands and fingers)))), watermark, watermarked, oversaturated, censorship, censored, sensible, text, bare breasts, nude",
-        seed: -1,
-        sampler_name: "DPM++ 2M Karras",
-        batch_size: 1,
-        n_iter: 1,
-        steps: steps,
-        cfg_scale: 7,
-        width: dimensions.width,
-        height: dimensions.height,
-        restore_faces: true,
-        override_settings: checkpoint ? { sd_model_checkpoint: checkpoint } : {},
-    };
-
-    try {
-        const response = await fetch(`${apiUrl}/sdapi/v1/txt2img`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload),
-            mode: 'cors',
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Error de la API de Stable Diffusion: ${response.status} - ${errorText}`);
-        }
-        
-        const result = await response.json();
-        
-        if (!result.images || result.images.length === 0) {
-            throw new Error("La API de Stable Diffusion no devolvió ninguna imagen.");
-        }
-
-        return { imageUrl: `data:image/png;base64,${result.images[0]}`, prompt };
-    } catch (e: any) {
-        if (e.message.includes('Failed to fetch')) {
-             throw new Error(`Error de red o CORS. Asegúrate de que Stable Diffusion Web UI se ejecuta con '--cors-allow-origins="*"' y que puedes acceder a ${apiUrl}/docs`);
-        }
-        throw e;
-    }
-  }
-
   async function onSubmit(data: CreateMythFormData) {
     setIsLoading(true);
     setGeneratedImage(null);
     setGeneratedPrompt(null);
     setGenerationError(null);
+    setVariations([]);
+    setPendingSave(null);
 
     const aiInputParams: GeneratedParams = {
-      culture: data.culture === 'Personalizada' ? data.customCultureDetails || 'Personalizada' : data.culture,
+      culture: data.culture === CUSTOM_CULTURE_NAME ? data.customCultureDetails || CUSTOM_CULTURE_NAME : data.culture,
       entity: data.entity,
       details: data.details,
       style: data.style,
+      ...toStylePromptParams(findStylePresetByName(stylePresets, data.style)),
+      ...toCulturePromptParams(findCulture(cultures, data.culture)),
       aspectRatio: data.aspectRatio,
       imageQuality: data.imageQuality,
       provider: data.provider,
       checkpoint: data.checkpoint,
+      ...(getImageProvider(data.provider).capabilities.advancedParams ? pickSdGenerationParams(data) : {}),
     };
 
     try {
-      let result;
-      
-      if (data.provider === 'stable-diffusion') {
-        const fullPrompt = `A visually rich image in the style of ${aiInputParams.style}. The primary subject is the entity '${aiInputParams.entity}' from ${aiInputParams.culture} mythology. Key scene details include: ${aiInputParams.details}. The desired image quality is ${aiInputParams.imageQuality}.`;
-        result = await generateWithStableDiffusion(fullPrompt, aiInputParams.aspectRatio, aiInputParams.imageQuality, aiInputParams.checkpoint);
-      } else {
-        result = await generateMythImageAction(aiInputParams);
+      const results: GenerationVariation[] = await getImageProvider(aiInputParams.provider).txt2img({ params: aiInputParams, count: data.variations });
+
+      if (results.length > 1) {
+        setVariations(results);
+        setPendingSave({ name: data.name, params: aiInputParams });
+        toast({ title: "Variaciones Listas", description: `Elige cuáles de las ${results.length} imágenes quieres guardar.` });
+        return;
       }
-      
-      setGeneratedImage(result.imageUrl);
-      setGeneratedPrompt(result.prompt);
 
-      await addCreation(
-        'generated',
-        data.name,
-        aiInputParams,
-        { prompt: result.prompt },
-        result.imageUrl
-      );
+      setGeneratedImage(results[0].imageUrl);
+      setGeneratedPrompt(results[0].prompt);
+      // The seed and model the provider reported are saved with the params (see useSaveVariations)
+      await saveVariations({ type: 'generated', name: data.name, params: aiInputParams, variations: results, mode: 'separate' });
       toast({ title: "¡Mito Creado!", description: "Tu creación ha sido guardada en tu galería." });
     } catch (error: any) {
       console.error("Error generating myth:", error);
@@ -185,6 +144,26 @@ export default function CreateMythPage() {
     }
   }
 
+  const handleSaveVariations = async (selected: GenerationVariation[], mode: SaveVariationsMode) => {
+    if (!pendingSave) return;
+    setIsSavingVariations(true);
+    try {
+      const savedCount = await saveVariations({ type: 'generated', ...pendingSave, variations: selected, mode });
+      setPendingSave(null);
+      toast({
+        title: "¡Mito Creado!",
+        description: mode === 'alternates'
+          ? `Se guardó una creación con ${selected.length - 1} alternativas.`
+          : `Se guardaron ${savedCount} creaciones en tu galería.`,
+      });
+    } catch (error: any) {
+      console.error("Error saving variations:", error);
+      toast({ variant: "destructive", title: "Error al Guardar", description: error.message });
+    } finally {
+      setIsSavingVariations(false);
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({ title: "¡Copiado!", description: "Prompt copiado al portapapeles." });
@@ -225,29 +204,8 @@ export default function CreateMythPage() {
                     )}
                   />
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="culture"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Cultura Mitológica</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Selecciona una cultura" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {MYTHOLOGICAL_CULTURES.map(culture => (
-                                <SelectItem key={culture} value={culture}>{culture}</SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    {selectedCulture === 'Personalizada' && (
+                    <CultureField control={form.control} name="culture" label="Cultura Mitológica" allowCustom onCultureSelected={(culture) => applyCultureToForm(form.setValue, culture, 'style')} />
+                    {selectedCulture === CUSTOM_CULTURE_NAME && (
                       <FormField
                         control={form.control}
                         name="customCultureDetails"
@@ -302,26 +260,7 @@ export default function CreateMythPage() {
                     )}
                   />
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="style"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Estilo Visual</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger><SelectValue placeholder="Selecciona un estilo" /></SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {IMAGE_STYLES.map(style => (
-                                <SelectItem key={style} value={style}>{style}</SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <StylePresetField control={form.control} name="style" label="Estilo Visual" onPresetSelected={(preset) => applyStylePresetToForm(form.setValue, preset)} />
                      <FormField
                       control={form.control}
                       name="aspectRatio"
@@ -375,7 +314,7 @@ export default function CreateMythPage() {
                                   <SelectTrigger><SelectValue placeholder="Selecciona un motor" /></SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                  {IMAGE_PROVIDERS.map(provider => (
+                                  {listImageProviders().map(provider => (
                                     <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
                                   ))}
                                 </SelectContent>
@@ -385,21 +324,28 @@ export default function CreateMythPage() {
                           )}
                         />
                   </div>
-                  {selectedProvider === 'stable-diffusion' && (
-                    <FormField
-                      control={form.control}
-                      name="checkpoint"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Checkpoint Base (automático o manual)</FormLabel>
+                  {selectedProviderCapabilities?.modelSelection && <CheckpointField control={form.control} providerId={selectedProvider} />}
+                  {selectedProviderCapabilities?.advancedParams && <SdAdvancedFields control={form.control} providerId={selectedProvider} />}
+                  <FormField
+                    control={form.control}
+                    name="variations"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Variaciones</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
                           <FormControl>
-                            <Input placeholder="Detectando checkpoint actual..." {...field} />
+                            <SelectTrigger><SelectValue /></SelectTrigger>
                           </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  )}
+                          <SelectContent>
+                            {VARIATION_COUNTS.map(count => (
+                              <SelectItem key={count} value={String(count)}>{count === 1 ? '1 imagen' : `${count} imágenes (elige las mejores)`}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <Button type="submit" disabled={isLoading} className="w-full">
                     {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
                     Tejer Mi Mito
@@ -440,7 +386,10 @@ export default function CreateMythPage() {
                   />
                 </div>
               )}
-              {!isLoading && !generationError && !generatedImage && (
+              {!isLoading && !generationError && variations.length > 1 && (
+                <VariationsGrid variations={variations} onSave={handleSaveVariations} isSaving={isSavingVariations} isSaved={!pendingSave} />
+              )}
+              {!isLoading && !generationError && !generatedImage && variations.length === 0 && (
                 <div className="text-center text-muted-foreground p-8 border-2 border-dashed rounded-lg">
                   <Eye className="h-12 w-12 mx-auto mb-2" />
                   <p>Tu creación se mostrará aquí una vez generada.</p>
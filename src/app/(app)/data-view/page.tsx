@@ -3,22 +3,30 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useHistory } from '@/contexts/HistoryContext';
-import { List, Search, Download, Loader2, Info, Edit3, Save, X, Languages, Sparkles, Bot, PauseCircle } from 'lucide-react';
+import { List, Search, Download, Loader2, Info, Edit3, Save, X, Languages, Sparkles, Bot, PauseCircle, Tag, Maximize2, GitMerge } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { useCreationSearch } from '@/hooks/use-creation-search';
 import type { Creation, TextOutputModel, GeneratedParams, AnalyzedParams, ReimaginedParams, GeneratedOutputData, AnalyzedOutputData, ReimaginedOutputData } from '@/lib/types';
 import { Badge } from '@/components/ui/badge';
 import Papa from 'papaparse';
 import { Textarea } from '@/components/ui/textarea';
 import { translateTextAction, translateCreationDetailsAction, regenerateCreationNameAction } from '@/lib/actions';
+import { getActivePromptTemplate } from '@/lib/prompt-template-store';
+import { runInJournalBatch } from '@/lib/edit-journal';
+import { formatChangeLog } from '@/lib/change-log';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
+import { OrganizationFilter, matchesOrganizationFilter, DEFAULT_ORGANIZATION_FILTER, type OrganizationFilterValue } from '@/components/OrganizationFilter';
+import { BulkOrganizeDialog } from '@/components/BulkOrganizeDialog';
+import { UpscaleDialog } from '@/components/UpscaleDialog';
+import { NameMergeDialog } from '@/components/NameMergeDialog';
 
 const getCulture = (c: Creation) => (c.params as any).culture || (c.params as any).mythologicalContext || (c.params as any).contextCulture || 'N/A';
 const getEntity = (c: Creation) => (c.params as any).entity || (c.params as any).entityTheme || (c.params as any).contextEntity || 'N/A';
@@ -86,6 +94,7 @@ export default function DataViewPage() {
     const { creations, updateCreationName, updateCreationParams, updateCreationTranslatedStatus, updateCreationNameAndParams, updateCreationNameAndEntity, loading: historyLoading } = useHistory();
     const { toast } = useToast();
     const [searchTerm, setSearchTerm] = useState('');
+    const { scores: searchScores, isSearching } = useCreationSearch(searchTerm);
     
     const [editingCell, setEditingCell] = useState<{ id: string; field: 'name' | 'details' } | null>(null);
     const [editingValue, setEditingValue] = useState('');
@@ -96,27 +105,29 @@ export default function DataViewPage() {
     const [translationFilter, setTranslationFilter] = useState<'all' | 'translated' | 'untranslated'>('all');
     const [selectedIds, setSelectedIds] = useState(new Set<string>());
     const [isProcessingBatch, setIsProcessingBatch] = useState(false);
+    const [organizationFilter, setOrganizationFilter] = useState<OrganizationFilterValue>(DEFAULT_ORGANIZATION_FILTER);
+    const [isOrganizeDialogOpen, setIsOrganizeDialogOpen] = useState(false);
+    const [isUpscaleDialogOpen, setIsUpscaleDialogOpen] = useState(false);
+    const [isNameMergeDialogOpen, setIsNameMergeDialogOpen] = useState(false);
     
     const abortControllerRef = useRef<AbortController | null>(null);
 
 
     const filteredCreations = useMemo(() => {
         const creationsAfterTranslationFilter = creations.filter(c => {
+            if (!matchesOrganizationFilter(c, organizationFilter)) return false;
             if (translationFilter === 'translated') return c.isTranslated;
             if (translationFilter === 'untranslated') return !c.isTranslated;
             return true; // 'all'
         });
 
-        if (!searchTerm) return creationsAfterTranslationFilter;
+        if (!searchScores) return creationsAfterTranslationFilter;
         
-        const lowercasedFilter = searchTerm.toLowerCase();
-        return creationsAfterTranslationFilter.filter(c => 
-            c.name.toLowerCase().includes(lowercasedFilter) ||
-            c.type.toLowerCase().includes(lowercasedFilter) ||
-            getCulture(c).toLowerCase().includes(lowercasedFilter) ||
-            getEntity(c).toLowerCase().includes(lowercasedFilter)
-        );
-    }, [searchTerm, creations, translationFilter]);
+        // Most relevant matches first
+        return creationsAfterTranslationFilter
+            .filter(c => searchScores.has(c.id))
+            .sort((a, b) => searchScores.get(b.id)! - searchScores.get(a.id)!);
+    }, [searchScores, creations, translationFilter, organizationFilter]);
 
     useEffect(() => {
         const newSelected = new Set(selectedIds);
@@ -165,6 +176,7 @@ export default function DataViewPage() {
             "Entidad/Tema": getEntity(c),
             "Detalles de Entrada": getInputDetails(c),
             "Fecha Creación": new Date(c.createdAt).toISOString(),
+            "Registro de Cambios": formatChangeLog(c.changeLog),
         }));
 
         const csv = Papa.unparse(dataForCsv);
@@ -260,8 +272,10 @@ export default function DataViewPage() {
             if (creation.type === 'reimagined') (newParams as ReimaginedParams).contextDetails = result.translatedDetails;
             if (creation.type === 'analyzed') (newParams as AnalyzedParams).additionalDetails = result.translatedDetails;
 
-            await updateCreationNameAndParams(creation.id, result.translatedName, newParams);
-            await updateCreationTranslatedStatus(creation.id, true);
+            await runInJournalBatch('Traducir fila', async (batch) => {
+                await updateCreationNameAndParams(creation.id, result.translatedName, newParams, 'translate', batch);
+                await updateCreationTranslatedStatus(creation.id, true, 'translate', batch);
+            });
 
             toast({ title: "¡Fila Traducida!", description: "La creación ha sido actualizada." });
 
@@ -288,7 +302,8 @@ export default function DataViewPage() {
         toast({ title: "Regenerando nombre...", description: "La IA está creando un nuevo nombre para esta creación." });
 
         try {
-            const result = await regenerateCreationNameAction({ promptText });
+            const { template } = await getActivePromptTemplate('regenerate-name');
+            const result = await regenerateCreationNameAction({ promptText, template });
             await updateCreationNameAndEntity(creation.id, result.creationName, result.entity);
             setEditingValue(result.creationName); // Update the input field with the new name
             toast({ title: "¡Nombre Regenerado!", description: "Se ha actualizado el nombre y la entidad de la creación." });
@@ -315,38 +330,41 @@ export default function DataViewPage() {
         let successCount = 0;
         let failCount = 0;
         let lastError = '';
+        const { template } = await getActivePromptTemplate('regenerate-name');
 
-        for (const creation of creationsToUpdate) {
-            if (signal.aborted) {
-                toast({ title: "Proceso Detenido", description: "La regeneración en lote fue detenida por el usuario." });
-                break;
-            }
-            
-            let attempt = 0;
-            let done = false;
-            while(attempt < 3 && !done && !signal.aborted) {
-                try {
-                    const promptText = getInputDetails(creation);
-                    const result = await regenerateCreationNameAction({ promptText });
-                    await updateCreationNameAndEntity(creation.id, result.creationName, result.entity);
-                    successCount++;
-                    done = true;
-                } catch (e: any) {
-                    const isQuotaError = e.message && (e.message.includes('429') || e.message.toLowerCase().includes('quota'));
-                    if (isQuotaError && attempt < 2) {
-                        const waitTime = attempt === 0 ? 10000 : 30000; // 10s, then 30s
-                        toast({ title: "Error de cuota detectado", description: `Reintentando en ${waitTime / 1000} segundos...` });
-                        await new Promise(resolve => setTimeout(resolve, waitTime));
-                        attempt++;
-                    } else {
-                        console.error(`Error regenerating name for ${creation.name} (ID: ${creation.id}):`, e);
-                        failCount++;
-                        lastError = e.message;
-                        done = true; // Stop trying for this item
+        await runInJournalBatch('Regeneración de nombres en lote', async (batch) => {
+            for (const creation of creationsToUpdate) {
+                if (signal.aborted) {
+                    toast({ title: "Proceso Detenido", description: "La regeneración en lote fue detenida por el usuario." });
+                    break;
+                }
+                
+                let attempt = 0;
+                let done = false;
+                while(attempt < 3 && !done && !signal.aborted) {
+                    try {
+                        const promptText = getInputDetails(creation);
+                        const result = await regenerateCreationNameAction({ promptText, template });
+                        await updateCreationNameAndEntity(creation.id, result.creationName, result.entity, 'regenerate-name', batch);
+                        successCount++;
+                        done = true;
+                    } catch (e: any) {
+                        const isQuotaError = e.message && (e.message.includes('429') || e.message.toLowerCase().includes('quota'));
+                        if (isQuotaError && attempt < 2) {
+                            const waitTime = attempt === 0 ? 10000 : 30000; // 10s, then 30s
+                            toast({ title: "Error de cuota detectado", description: `Reintentando en ${waitTime / 1000} segundos...` });
+                            await new Promise(resolve => setTimeout(resolve, waitTime));
+                            attempt++;
+                        } else {
+                            console.error(`Error regenerating name for ${creation.name} (ID: ${creation.id}):`, e);
+                            failCount++;
+                            lastError = e.message;
+                            done = true; // Stop trying for this item
+                        }
                     }
                 }
             }
-        }
+        });
         
         toast({
             title: "Regeneración en Lote Completa",
@@ -383,47 +401,49 @@ export default function DataViewPage() {
         let failCount = 0;
         let lastError = '';
 
-        for (const creation of creationsToUpdate) {
-             if (signal.aborted) {
-                toast({ title: "Proceso Detenido", description: "La traducción en lote fue detenida por el usuario." });
-                break;
-            }
-
-            let attempt = 0;
-            let done = false;
-            while(attempt < 3 && !done && !signal.aborted) {
-                try {
-                    const details = getInputDetails(creation);
-                    const result = await translateCreationDetailsAction({
-                        name: creation.name,
-                        details: details,
-                    });
+        await runInJournalBatch('Traducción en lote', async (batch) => {
+            for (const creation of creationsToUpdate) {
+                 if (signal.aborted) {
+                    toast({ title: "Proceso Detenido", description: "La traducción en lote fue detenida por el usuario." });
+                    break;
+                }
 
-                    const newParams = { ...creation.params };
-                    if (creation.type === 'generated') (newParams as GeneratedParams).details = result.translatedDetails;
-                    if (creation.type === 'reimagined') (newParams as ReimaginedParams).contextDetails = result.translatedDetails;
-                    if (creation.type === 'analyzed') (newParams as AnalyzedParams).additionalDetails = result.translatedDetails;
-                    
-                    await updateCreationNameAndParams(creation.id, result.translatedName, newParams);
-                    await updateCreationTranslatedStatus(creation.id, true);
-                    successCount++;
-                    done = true;
-                } catch (e: any) {
-                    const isQuotaError = e.message && (e.message.includes('429') || e.message.toLowerCase().includes('quota'));
-                     if (isQuotaError && attempt < 2) {
-                        const waitTime = attempt === 0 ? 10000 : 30000; // 10s, then 30s
-                        toast({ title: "Error de cuota detectado", description: `Reintentando en ${waitTime / 1000} segundos...` });
-                        await new Promise(resolve => setTimeout(resolve, waitTime));
-                        attempt++;
-                    } else {
-                        console.error(`Error translating details for ${creation.name} (ID: ${creation.id}):`, e);
-                        failCount++;
-                        lastError = e.message;
-                        done = true; // Stop trying for this item
+                let attempt = 0;
+                let done = false;
+                while(attempt < 3 && !done && !signal.aborted) {
+                    try {
+                        const details = getInputDetails(creation);
+                        const result = await translateCreationDetailsAction({
+                            name: creation.name,
+                            details: details,
+                        });
+
+                        const newParams = { ...creation.params };
+                        if (creation.type === 'generated') (newParams as GeneratedParams).details = result.translatedDetails;
+                        if (creation.type === 'reimagined') (newParams as ReimaginedParams).contextDetails = result.translatedDetails;
+                        if (creation.type === 'analyzed') (newParams as AnalyzedParams).additionalDetails = result.translatedDetails;
+                        
+                        await updateCreationNameAndParams(creation.id, result.translatedName, newParams, 'translate', batch);
+                        await updateCreationTranslatedStatus(creation.id, true, 'translate', batch);
+                        successCount++;
+                        done = true;
+                    } catch (e: any) {
+                        const isQuotaError = e.message && (e.message.includes('429') || e.message.toLowerCase().includes('quota'));
+                         if (isQuotaError && attempt < 2) {
+                            const waitTime = attempt === 0 ? 10000 : 30000; // 10s, then 30s
+                            toast({ title: "Error de cuota detectado", description: `Reintentando en ${waitTime / 1000} segundos...` });
+                            await new Promise(resolve => setTimeout(resolve, waitTime));
+                            attempt++;
+                        } else {
+                            console.error(`Error translating details for ${creation.name} (ID: ${creation.id}):`, e);
+                            failCount++;
+                            lastError = e.message;
+                            done = true; // Stop trying for this item
+                        }
                     }
                 }
             }
-        }
+        });
         
         toast({
             title: "Traducción en Lote Completa",
@@ -502,11 +522,12 @@ export default function DataViewPage() {
                                         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
                                         <Input
                                             type="search"
-                                            placeholder="Buscar por nombre, tipo, cultura o entidad..."
+                                            placeholder='Buscar en nombres, prompts y análisis... (ej: cultura:Griega tipo:generada)'
                                             className="pl-10 w-full"
                                             value={searchTerm}
                                             onChange={(e) => setSearchTerm(e.target.value)}
                                         />
+                                        {isSearching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />}
                                     </div>
                                 </div>
                                 <div className="flex w-full sm:w-auto gap-2 flex-wrap">
@@ -525,8 +546,17 @@ export default function DataViewPage() {
                                             <Languages className="mr-2 h-4 w-4" />
                                             Traducir Selección ({selectedIds.size})
                                         </Button>
+                                        <Button onClick={() => setIsOrganizeDialogOpen(true)} disabled={selectedIds.size === 0} className="w-full sm:w-auto">
+                                            <Tag className="mr-2 h-4 w-4" />
+                                            Organizar ({selectedIds.size})
+                                        </Button>
+                                        <Button onClick={() => setIsUpscaleDialogOpen(true)} disabled={selectedIds.size === 0} className="w-full sm:w-auto">
+                                            <Maximize2 className="mr-2 h-4 w-4" />
+                                            Escalar ({selectedIds.size})
+                                        </Button>
                                     </>
                                 )}
+                                <OrganizationFilter value={organizationFilter} onChange={setOrganizationFilter} />
                                 <Select value={translationFilter} onValueChange={(value: 'all' | 'translated' | 'untranslated') => setTranslationFilter(value)}>
                                     <SelectTrigger className="w-full sm:w-[200px]">
                                         <SelectValue placeholder="Filtrar por traducción" />
@@ -537,6 +567,10 @@ export default function DataViewPage() {
                                         <SelectItem value="untranslated">Solo No Traducidos</SelectItem>
                                     </SelectContent>
                                 </Select>
+                                <Button variant="outline" onClick={() => setIsNameMergeDialogOpen(true)} disabled={isProcessingBatch} className="w-full sm:w-auto">
+                                    <GitMerge className="mr-2 h-4 w-4"/>
+                                    Unificar Nombres
+                                </Button>
                                 <Button onClick={handleExportToCsv} className="w-full sm:w-auto">
                                     <Download className="mr-2 h-4 w-4"/>
                                     Copiar Tabla como CSV
@@ -597,6 +631,11 @@ export default function DataViewPage() {
                                                     ) : (
                                                         <>
                                                             {creation.name}
+                                                            {(creation.tags ?? []).length > 0 && (
+                                                                <div className="flex flex-wrap gap-1 mt-1">
+                                                                    {creation.tags!.map(tag => <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>)}
+                                                                </div>
+                                                            )}
                                                             <Button variant="ghost" size="icon" className="h-6 w-6 absolute top-2 right-2 opacity-0 group-hover:opacity-100" onClick={() => handleEditClick(creation, 'name')}><Edit3 className="h-4 w-4" /></Button>
                                                         </>
                                                     )}
@@ -684,6 +723,20 @@ export default function DataViewPage() {
                         </CardContent>
                     </Card>
                 )}
+                <BulkOrganizeDialog
+                    selectedIds={Array.from(selectedIds)}
+                    open={isOrganizeDialogOpen}
+                    onOpenChange={setIsOrganizeDialogOpen}
+                />
+                <UpscaleDialog
+                    creationIds={Array.from(selectedIds)}
+                    open={isUpscaleDialogOpen}
+                    onOpenChange={setIsUpscaleDialogOpen}
+                />
+                <NameMergeDialog
+                    open={isNameMergeDialogOpen}
+                    onOpenChange={setIsNameMergeDialogOpen}
+                />
             </div>
         </ScrollArea>
     );
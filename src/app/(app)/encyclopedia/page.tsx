@@ -3,18 +3,27 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { useHistory } from '@/contexts/HistoryContext';
-import { Library, Search, Loader2, Info, BookOpen, FileText, Image as ImageIcon } from 'lucide-react';
+import { Library, Search, Loader2, Info, BookOpen, FileText, Image as ImageIcon, ScrollText, Edit3, Plus } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import type { Creation, TextOutputModel, GeneratedParams, AnalyzedParams, ReimaginedParams, GeneratedOutputData, AnalyzedOutputData, ReimaginedOutputData } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import type { Creation, Entity, TextOutputModel, GeneratedParams, AnalyzedParams, ReimaginedParams, GeneratedOutputData, AnalyzedOutputData, ReimaginedOutputData } from '@/lib/types';
 import { Badge } from '@/components/ui/badge';
 import NextImage from 'next/image';
+import { useCreationSearch } from '@/hooks/use-creation-search';
+import { OrganizationFilter, matchesOrganizationFilter, DEFAULT_ORGANIZATION_FILTER, type OrganizationFilterValue } from '@/components/OrganizationFilter';
+import { EntityEditorDialog } from '@/components/EntityEditorDialog';
+import { useCultures } from '@/contexts/CulturesContext';
+import { useEntities } from '@/contexts/EntitiesContext';
+import { findCulture } from '@/lib/cultures';
+import { ENTITY_RELATION_LABELS, findEntity, getCreationCultureName, getCreationEntityName, normalizeEntityName } from '@/lib/entities';
 
-// --- Helper Functions similar to data-view ---
-const getCulture = (c: Creation) => (c.params as any).culture || (c.params as any).mythologicalContext || (c.params as any).contextCulture || 'Sin Cultura';
-const getEntity = (c: Creation) => (c.params as any).entity || (c.params as any).entityTheme || (c.params as any).contextEntity || 'Sin Entidad';
+const NO_CULTURE = 'Sin Cultura';
+const NO_ENTITY = 'Sin Entidad';
+
+type EncyclopediaData = { [culture: string]: { [entity: string]: Creation[] } };
 
 const getInputDetails = (c: Creation): string => {
     if (c.type === 'generated') return (c.params as GeneratedParams).details;
@@ -23,6 +32,57 @@ const getInputDetails = (c: Creation): string => {
     return '';
 };
 
+// Text of the creations an AI draft of the entity's entry can build on
+const MAX_DRAFT_CREATIONS = 10;
+const getCreationDetailsForDraft = (creations: Creation[]): string =>
+    creations.slice(0, MAX_DRAFT_CREATIONS).map(c => `${c.name}: ${getInputDetails(c)}`.trim()).join('\n');
+
+const entityMatchesSearch = (entity: Entity, term: string): boolean => {
+    const key = normalizeEntityName(term);
+    return [entity.name, ...entity.aliases, entity.description].some(text => normalizeEntityName(text).includes(key));
+};
+
+const EntityLore: React.FC<{ entity?: Entity; onEdit: () => void }> = ({ entity, onEdit }) => {
+    if (!entity) {
+        return (
+            <div className="flex items-center justify-between gap-2 p-3 mb-4 bg-muted/30 rounded-md text-sm text-muted-foreground">
+                <span>Esta entidad aún no tiene ficha.</span>
+                <Button size="sm" variant="outline" onClick={onEdit}><Plus className="mr-2 h-4 w-4" /> Crear Ficha</Button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-3 mb-4 bg-muted/30 rounded-md space-y-2">
+            <div className="flex items-start justify-between gap-2">
+                <h5 className="font-semibold text-sm text-primary flex items-center gap-2"><ScrollText className="h-4 w-4" /> Ficha</h5>
+                <Button size="sm" variant="ghost" onClick={onEdit}><Edit3 className="mr-2 h-4 w-4" /> Editar</Button>
+            </div>
+            {entity.aliases.length > 0 && (
+                <p className="text-xs text-muted-foreground">También conocido como: {entity.aliases.join(', ')}</p>
+            )}
+            {entity.description && <p className="text-sm whitespace-pre-wrap">{entity.description}</p>}
+            {entity.attributes.length > 0 && (
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                    {entity.attributes.map((attribute, index) => (
+                        <React.Fragment key={index}>
+                            <dt className="font-medium text-muted-foreground">{attribute.label}</dt>
+                            <dd>{attribute.value}</dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+            )}
+            {entity.relationships.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {entity.relationships.map((relationship, index) => (
+                        <Badge key={index} variant="outline">{ENTITY_RELATION_LABELS[relationship.type]} {relationship.target}</Badge>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 const OutputDetails: React.FC<{ creation: Creation }> = ({ creation }) => {
     const { getTextOutput } = useHistory();
     const [outputDetails, setOutputDetails] = useState<{label: string, text: string} | null>(null);
@@ -73,7 +133,7 @@ const OutputDetails: React.FC<{ creation: Creation }> = ({ creation }) => {
 };
 
 const EncyclopediaImageItem: React.FC<{ imageId: string, name: string }> = ({ imageId, name }) => {
-  const { getImageData } = useHistory();
+  const { getThumbnail } = useHistory();
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -81,15 +141,15 @@ const EncyclopediaImageItem: React.FC<{ imageId: string, name: string }> = ({ im
     let isActive = true;
     const fetchImage = async () => {
       setLoading(true);
-      const imgData = await getImageData(imageId);
-      if (isActive && imgData) {
-        setImageUrl(imgData.imageDataUri);
+      const thumbnailUrl = await getThumbnail(imageId);
+      if (isActive && thumbnailUrl) {
+        setImageUrl(thumbnailUrl);
       }
       setLoading(false);
     };
     fetchImage();
     return () => { isActive = false; };
-  }, [imageId, getImageData]);
+  }, [imageId, getThumbnail]);
 
   if (loading) {
     return <div className="w-24 h-24 flex items-center justify-center bg-muted rounded-md"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>;
@@ -110,29 +170,44 @@ const EncyclopediaImageItem: React.FC<{ imageId: string, name: string }> = ({ im
 // --- Main Page Component ---
 export default function EncyclopediaPage() {
     const { creations, loading: historyLoading } = useHistory();
+    const { cultures } = useCultures();
+    const { entities } = useEntities();
     const [searchTerm, setSearchTerm] = useState('');
+    const { scores: searchScores, isSearching } = useCreationSearch(searchTerm);
+    const [organizationFilter, setOrganizationFilter] = useState<OrganizationFilterValue>(DEFAULT_ORGANIZATION_FILTER);
+    const [editorTarget, setEditorTarget] = useState<{ culture: string; name: string; entity?: Entity; creationDetails: string } | null>(null);
 
     const encyclopediaData = useMemo(() => {
-        const grouped: { [culture: string]: { [entity: string]: Creation[] } } = {};
-
-        creations.forEach(c => {
-            const culture = getCulture(c);
-            const entity = getEntity(c);
-
+        const grouped: EncyclopediaData = {};
+        const addGroup = (culture: string, entity: string) => {
             if (!grouped[culture]) {
                 grouped[culture] = {};
             }
             if (!grouped[culture][entity]) {
                 grouped[culture][entity] = [];
             }
-            grouped[culture][entity].push(c);
-            grouped[culture][entity].sort((a, b) => a.name.localeCompare(b.name));
+            return grouped[culture][entity];
+        };
+
+        // Aliases of cultures and entities are grouped under their canonical names
+        creations.filter(c => matchesOrganizationFilter(c, organizationFilter)).forEach(c => {
+            const rawCulture = getCreationCultureName(c);
+            const culture = rawCulture ? findCulture(cultures, rawCulture)?.name ?? rawCulture : NO_CULTURE;
+            const rawEntity = getCreationEntityName(c);
+            const entity = rawEntity ? findEntity(entities, culture, rawEntity)?.name ?? rawEntity : NO_ENTITY;
+            addGroup(culture, entity).push(c);
         });
 
+        // Entries without creations only show while nothing filters the creations
+        if (organizationFilter.tag === DEFAULT_ORGANIZATION_FILTER.tag && organizationFilter.collectionId === DEFAULT_ORGANIZATION_FILTER.collectionId) {
+            entities.forEach(entity => addGroup(findCulture(cultures, entity.culture)?.name ?? entity.culture, entity.name));
+        }
+        Object.values(grouped).forEach(group => Object.values(group).forEach(list => list.sort((a, b) => a.name.localeCompare(b.name))));
+
         // Sort cultures alphabetically
         const sortedCultures = Object.keys(grouped).sort((a, b) => a.localeCompare(b));
         
-        const finalData: { [culture: string]: { [entity: string]: Creation[] } } = {};
+        const finalData: EncyclopediaData = {};
         sortedCultures.forEach(culture => {
              // Sort entities alphabetically
             const sortedEntities = Object.keys(grouped[culture]).sort((a, b) => a.localeCompare(b));
@@ -145,31 +220,18 @@ export default function EncyclopediaPage() {
         
         return finalData;
 
-    }, [creations]);
+    }, [creations, organizationFilter, cultures, entities]);
     
      const filteredData = useMemo(() => {
-        if (!searchTerm) return encyclopediaData;
-        const lowercasedFilter = searchTerm.toLowerCase();
-        const filtered: { [culture: string]: { [entity: string]: Creation[] } } = {};
+        if (!searchScores) return encyclopediaData;
+        const filtered: EncyclopediaData = {};
 
         for (const culture in encyclopediaData) {
-            if (culture.toLowerCase().includes(lowercasedFilter)) {
-                filtered[culture] = encyclopediaData[culture];
-                continue;
-            }
-            
             const matchingEntities: { [entity: string]: Creation[] } = {};
             for (const entity in encyclopediaData[culture]) {
-                if (entity.toLowerCase().includes(lowercasedFilter)) {
-                    matchingEntities[entity] = encyclopediaData[culture][entity];
-                    continue;
-                }
-                
-                const matchingCreations = encyclopediaData[culture][entity].filter(
-                    c => c.name.toLowerCase().includes(lowercasedFilter)
-                );
-                
-                if (matchingCreations.length > 0) {
+                const matchingCreations = encyclopediaData[culture][entity].filter(c => searchScores.has(c.id));
+                const record = findEntity(entities, culture, entity);
+                if (matchingCreations.length > 0 || (record && entityMatchesSearch(record, searchTerm))) {
                     matchingEntities[entity] = matchingCreations;
                 }
             }
@@ -179,8 +241,12 @@ export default function EncyclopediaPage() {
             }
         }
         return filtered;
-    }, [searchTerm, encyclopediaData]);
+    }, [searchScores, encyclopediaData, entities, searchTerm]);
+
 
+    const openEntityEditor = (culture: string, name: string, creationList: Creation[]) => {
+        setEditorTarget({ culture, name, entity: findEntity(entities, culture, name), creationDetails: getCreationDetailsForDraft(creationList) });
+    };
 
     if (historyLoading && creations.length === 0) {
         return (
@@ -202,11 +268,11 @@ export default function EncyclopediaPage() {
                         </h1>
                     </div>
                     <p className="text-muted-foreground mt-2 text-lg">
-                        Un índice de solo texto de todas tus creaciones, organizado por cultura y entidad.
+                        Un índice de solo texto de todas tus creaciones, organizado por cultura y entidad, con la ficha de cada entidad.
                     </p>
                 </header>
                 
-                {creations.length === 0 && !historyLoading ? (
+                {creations.length === 0 && entities.length === 0 && !historyLoading ? (
                     <Card className="text-center py-12 shadow-none border-dashed">
                          <CardHeader>
                             <Info className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
@@ -221,32 +287,36 @@ export default function EncyclopediaPage() {
                 ) : (
                     <Card className="shadow-lg">
                         <CardHeader>
-                            <div className="relative">
-                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-                                <Input
-                                    type="search"
-                                    placeholder="Buscar por cultura, entidad o nombre..."
-                                    className="pl-10 w-full"
-                                    value={searchTerm}
-                                    onChange={(e) => setSearchTerm(e.target.value)}
-                                />
+                            <div className="flex flex-col sm:flex-row gap-4">
+                                <div className="relative flex-grow">
+                                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                                    <Input
+                                        type="search"
+                                        placeholder="Buscar por cultura, entidad, nombre o texto..."
+                                        className="pl-10 w-full"
+                                        value={searchTerm}
+                                        onChange={(e) => setSearchTerm(e.target.value)}
+                                    />
+                                    {isSearching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />}
+                                </div>
+                                <OrganizationFilter value={organizationFilter} onChange={setOrganizationFilter} />
                             </div>
                         </CardHeader>
                         <CardContent>
                             <ScrollArea className="h-[65vh]">
                                 <Accordion type="multiple" className="w-full">
-                                    {Object.keys(filteredData).length > 0 ? Object.entries(filteredData).map(([culture, entities], cultureIndex) => (
+                                    {Object.keys(filteredData).length > 0 ? Object.entries(filteredData).map(([culture, entityGroups], cultureIndex) => (
                                         <AccordionItem value={`culture-${cultureIndex}`} key={cultureIndex}>
                                             <AccordionTrigger className="text-xl font-headline hover:no-underline">
                                                 <div className="flex items-center gap-3">
                                                     <BookOpen className="h-6 w-6 text-primary/70" />
                                                     {culture}
-                                                     <Badge variant="secondary">{Object.values(entities).reduce((acc, creations) => acc + creations.length, 0)}</Badge>
+                                                     <Badge variant="secondary">{Object.values(entityGroups).reduce((acc, creations) => acc + creations.length, 0)}</Badge>
                                                 </div>
                                             </AccordionTrigger>
                                             <AccordionContent>
                                                 <Accordion type="multiple" className="w-full pl-6 border-l ml-3">
-                                                    {Object.entries(entities).map(([entity, creationList], entityIndex) => (
+                                                    {Object.entries(entityGroups).map(([entity, creationList], entityIndex) => (
                                                         <AccordionItem value={`entity-${entityIndex}`} key={entityIndex} className="border-b-0">
                                                             <AccordionTrigger className="text-lg font-headline font-medium hover:no-underline">
                                                                  <div className="flex items-center gap-3">
@@ -255,6 +325,9 @@ export default function EncyclopediaPage() {
                                                                  </div>
                                                             </AccordionTrigger>
                                                             <AccordionContent>
+                                                                {culture !== NO_CULTURE && entity !== NO_ENTITY && (
+                                                                    <EntityLore entity={findEntity(entities, culture, entity)} onEdit={() => openEntityEditor(culture, entity, creationList)} />
+                                                                )}
                                                                 <div className="space-y-4 pl-6 border-l ml-3">
                                                                     {creationList.map(creation => (
                                                                         <div key={creation.id} className="pb-3 border-b last:border-b-0 border-dashed flex items-start gap-4">
@@ -297,6 +370,16 @@ export default function EncyclopediaPage() {
                     </Card>
                 )}
             </div>
+            {editorTarget && (
+                <EntityEditorDialog
+                    open={!!editorTarget}
+                    onOpenChange={(open) => !open && setEditorTarget(null)}
+                    entity={editorTarget.entity}
+                    culture={editorTarget.culture}
+                    name={editorTarget.name}
+                    creationDetails={editorTarget.creationDetails}
+                />
+            )}
         </ScrollArea>
     );
 }
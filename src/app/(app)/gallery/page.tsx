@@ -3,12 +3,14 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import Image from 'next/image';
-import { GalleryVerticalEnd, Search, Trash2, Edit3, Copy, ExternalLink, Loader2, Info, Wand2, ZoomIn, ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Languages } from 'lucide-react';
+import { GalleryVerticalEnd, Search, Trash2, Edit3, Copy, ExternalLink, Loader2, Info, Wand2, ZoomIn, ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Languages, Brush, Maximize2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
 
 import { useHistory } from '@/contexts/HistoryContext';
-import type { Creation, ImageDataModel, TextOutputModel, GeneratedParams, AnalyzedParams, ReimaginedParams, ReimaginedOutputData, GeneratedOutputData } from '@/lib/types';
+import { useStylePresets } from '@/contexts/StylePresetsContext';
+import { useCultures } from '@/contexts/CulturesContext';
+import type { Creation, ImageDataModel, TextOutputModel, GeneratedParams, AnalyzedParams, ReimaginedParams, ReimaginedOutputData, GeneratedOutputData, SdGenerationParams } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -27,14 +29,29 @@ import {
 } from "@/components/ui/alert-dialog";
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
+import { useCreationSearch } from '@/hooks/use-creation-search';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { useImageProviderOptions } from '@/hooks/use-image-provider-options';
+import { imageToDataUri } from '@/lib/image-data';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue, SelectLabel, SelectGroup } from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { cn } from '@/lib/utils';
+import { cn, formatBytes } from '@/lib/utils';
 import { CreateFromPromptDialog } from '@/components/CreateFromPromptDialog';
-import { MYTHOLOGICAL_CULTURES, IMAGE_STYLES, ASPECT_RATIOS, IMAGE_QUALITIES, IMAGE_PROVIDERS } from '@/lib/types';
+import { InpaintDialog } from '@/components/InpaintDialog';
+import { UpscaleDialog } from '@/components/UpscaleDialog';
+import { CreationVersionHistory } from '@/components/CreationVersionHistory';
+import { CreationOrganizer } from '@/components/CreationOrganizer';
+import { CreationChangeLog } from '@/components/CreationChangeLog';
+import { OrganizationFilter, matchesOrganizationFilter, DEFAULT_ORGANIZATION_FILTER, type OrganizationFilterValue } from '@/components/OrganizationFilter';
+import { ASPECT_RATIOS, IMAGE_QUALITIES } from '@/lib/types';
 import { Label } from '@/components/ui/label';
-import { generateMythImageAction, reimagineUploadedImageAction, translateTextAction } from '@/lib/actions';
+import { translateTextAction } from '@/lib/actions';
+import { findStylePresetByName, toStylePromptParams } from '@/lib/style-presets';
+import { findCulture, toCulturePromptParams } from '@/lib/cultures';
+import { formatPromptTemplateRef } from '@/lib/prompt-templates';
+import { formatSdLoras, pickSdGenerationParams, SD_SAMPLERS } from '@/lib/stable-diffusion';
+import { applyProviderResult, findImageProvider, getImageProvider, getImageProviderName, listImageProviders } from '@/lib/image-providers';
 
 
 interface CreationFull extends Creation {
@@ -58,15 +75,24 @@ const ITEMS_PER_PAGE_OPTIONS = [2, 4, 6, 8, 10, 20, 50, 100, 200, 300, 400, 500,
 const NUM_COLUMNS_OPTIONS = [2, 3, 4, 5, 6];
 
 export default function GalleryPage() {
-  const { creations, getImageData, getTextOutput, deleteCreation, updateCreationName, updateCreationParams, updateCreationImageAndOutput, loading: historyLoading } = useHistory();
+  const { creations, getImageData, getTextOutput, deleteCreation, updateCreationName, updateCreationParams, updateCreationImageAndOutput, restoreCreationVersion, getCreationById, loading: historyLoading } = useHistory();
+  const { presets: stylePresets } = useStylePresets();
+  const styleNames = useMemo(() => stylePresets.map(preset => preset.name), [stylePresets]);
+  const { cultures } = useCultures();
+  const cultureNames = useMemo(() => cultures.map(culture => culture.name), [cultures]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<'createdAtDesc' | 'createdAtAsc' | 'nameAsc' | 'nameDesc'>('createdAtDesc');
+  const [sortBy, setSortBy] = useState<'relevance' | 'createdAtDesc' | 'createdAtAsc' | 'nameAsc' | 'nameDesc'>('relevance');
+  const { scores: searchScores, isSearching } = useCreationSearch(searchTerm);
+  const [organizationFilter, setOrganizationFilter] = useState<OrganizationFilterValue>(DEFAULT_ORGANIZATION_FILTER);
   const [selectedCreation, setSelectedCreation] = useState<CreationFull | null>(null);
+  const selectedImageUrl = useObjectUrl(selectedCreation?.imageData?.blob);
+  const selectedOriginalImageUrl = useObjectUrl(selectedCreation?.originalImageData?.blob);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
   const [isEditingName, setIsEditingName] = useState(false);
   const [newName, setNewName] = useState('');
   const [isEditingParams, setIsEditingParams] = useState(false);
   const [editedParams, setEditedParams] = useState<Creation['params'] | null>(null);
+  const { options: editedProviderOptions } = useImageProviderOptions((editedParams as GeneratedParams | ReimaginedParams | null)?.provider);
   const { toast } = useToast();
   const [copyingId, setCopyingId] = useState<string | null>(null);
   const [usingPromptId, setUsingPromptId] = useState<string | null>(null);
@@ -80,17 +106,19 @@ export default function GalleryPage() {
   const [isTranslating, setIsTranslating] = useState(false);
   const [translatingField, setTranslatingField] = useState<string | null>(null);
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isRestoringVersion, setIsRestoringVersion] = useState(false);
+  const [isInpaintOpen, setIsInpaintOpen] = useState(false);
+  const [isUpscaleOpen, setIsUpscaleOpen] = useState(false);
 
   const filteredAndSortedCreations = useMemo(() => {
     let filtered = creations.filter(creation =>
-      creation.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (creation.params as any).culture?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (creation.params as any).entity?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (creation.params as any).mythologicalContext?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      creation.type.toLowerCase().includes(searchTerm.toLowerCase())
+      matchesOrganizationFilter(creation, organizationFilter) && (!searchScores || searchScores.has(creation.id))
     );
 
     switch (sortBy) {
+      case 'relevance':
+        filtered.sort((a, b) => (searchScores?.get(b.id) ?? 0) - (searchScores?.get(a.id) ?? 0) || b.createdAt - a.createdAt);
+        break;
       case 'createdAtAsc':
         filtered.sort((a, b) => a.createdAt - b.createdAt);
         break;
@@ -106,7 +134,7 @@ export default function GalleryPage() {
         break;
     }
     return filtered;
-  }, [creations, searchTerm, sortBy]);
+  }, [creations, searchScores, sortBy, organizationFilter]);
 
   const totalPages = Math.ceil(filteredAndSortedCreations.length / itemsPerPage);
   const paginatedCreations = useMemo(() => {
@@ -116,24 +144,40 @@ export default function GalleryPage() {
 
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, sortBy, itemsPerPage]);
+  }, [searchTerm, sortBy, itemsPerPage, organizationFilter]);
 
-  const handleViewDetails = async (creation: Creation) => {
+  const loadCreationFull = async (creation: Creation): Promise<CreationFull> => {
     let imageData, textOutput, originalImageData;
     if (creation.imageId) imageData = await getImageData(creation.imageId);
     if (creation.outputId) textOutput = await getTextOutput(creation.outputId);
     if (creation.type === 'reimagined' && creation.originalImageId) {
       originalImageData = await getImageData(creation.originalImageId);
     }
-    setSelectedCreation({ ...creation, imageData, textOutput, originalImageData });
+    return { ...creation, imageData, textOutput, originalImageData };
+  };
+
+  const handleViewDetails = async (creation: Creation) => {
+    setSelectedCreation(await loadCreationFull(creation));
     setIsDetailModalOpen(true);
     setIsEditingName(false);
     setIsEditingParams(false);
   };
 
+  const handleInpaintCreated = async (creationId: string) => {
+    const created = await getCreationById(creationId);
+    if (created) await handleViewDetails(created);
+  };
+
+  // An upscale saved as a new version replaces the image shown in the modal
+  const handleUpscaleComplete = async () => {
+    if (!selectedCreation) return;
+    const refreshed = await getCreationById(selectedCreation.id);
+    if (refreshed) setSelectedCreation(await loadCreationFull(refreshed));
+  };
+
   const handleDelete = async (id: string) => {
     await deleteCreation(id);
-    toast({ title: "Creación Eliminada", description: "El elemento ha sido eliminado de tu galería." });
+    toast({ title: "Movida a la Papelera", description: "Puedes restaurarla desde la Papelera." });
   };
 
   const handleEditName = () => {
@@ -267,41 +311,57 @@ export default function GalleryPage() {
     try {
         let newImageUrl: string;
         let newOutputData: GeneratedOutputData | ReimaginedOutputData;
+        let newParams = editedParams;
 
         if (selectedCreation.type === 'generated') {
-            const result = await generateMythImageAction(editedParams as GeneratedParams);
+            // A fresh render isn't upscaled
+            const { upscale: _upscale, ...editedGeneratedParams } = editedParams as GeneratedParams;
+            const provider = getImageProvider(editedGeneratedParams.provider);
+            const params: GeneratedParams = provider.capabilities.advancedParams
+                ? { ...editedGeneratedParams, ...pickSdGenerationParams(editedGeneratedParams) }
+                : editedGeneratedParams;
+            const [result] = await provider.txt2img({ params });
             newImageUrl = result.imageUrl;
             newOutputData = { prompt: result.prompt };
+            newParams = applyProviderResult(params, result);
         } else if (selectedCreation.type === 'reimagined' && selectedCreation.originalImageId) {
             const originalImage = await getImageData(selectedCreation.originalImageId);
             if (!originalImage) throw new Error("No se pudo encontrar la imagen original para la regeneración.");
-            
-            const result = await reimagineUploadedImageAction({
-                originalImage: originalImage.imageDataUri,
-                ...(editedParams as ReimaginedParams),
+            const originalImageDataUri = await imageToDataUri(originalImage);
+            const { upscale: _upscale, ...editedReimaginedParams } = editedParams as ReimaginedParams;
+            const provider = getImageProvider(editedReimaginedParams.provider);
+            const params: ReimaginedParams = provider.capabilities.advancedParams
+                ? { ...editedReimaginedParams, ...pickSdGenerationParams(editedReimaginedParams) }
+                : editedReimaginedParams;
+
+            // Reusing the stored prompt when the context is unchanged keeps a fixed-seed render identical
+            const previousParams = selectedCreation.params as ReimaginedParams;
+            const storedPrompt = (selectedCreation.textOutput?.data as ReimaginedOutputData | undefined)?.derivedPrompt;
+            const contextUnchanged = (['contextCulture', 'contextEntity', 'contextDetails', 'visualStyle'] as const)
+                .every(key => params[key] === previousParams[key]);
+
+            const [result] = await provider.img2img({
+                params,
+                initImage: originalImageDataUri,
+                prompt: contextUnchanged ? storedPrompt : undefined,
             });
-            newImageUrl = result.reimaginedImage;
-            newOutputData = { derivedPrompt: result.derivedPrompt };
+            newImageUrl = result.imageUrl;
+            newOutputData = { derivedPrompt: result.prompt };
+            newParams = applyProviderResult(params, result);
         } else {
             throw new Error("Este tipo de creación no se puede regenerar.");
         }
 
         const updatedCreation = await updateCreationImageAndOutput(
             selectedCreation.id,
-            editedParams,
+            newParams,
             newImageUrl,
             newOutputData
         );
 
         if (updatedCreation) {
             // Fetch all data again to refresh the modal view
-            let imageData, textOutput, originalImageData;
-            if (updatedCreation.imageId) imageData = await getImageData(updatedCreation.imageId);
-            if (updatedCreation.outputId) textOutput = await getTextOutput(updatedCreation.outputId);
-            if (updatedCreation.type === 'reimagined' && updatedCreation.originalImageId) {
-                originalImageData = await getImageData(updatedCreation.originalImageId);
-            }
-            setSelectedCreation({ ...updatedCreation, imageData, textOutput, originalImageData });
+            setSelectedCreation(await loadCreationFull(updatedCreation));
             setIsEditingParams(false); // Exit edit mode on success
             setEditedParams(null);
         }
@@ -314,15 +374,46 @@ export default function GalleryPage() {
     }
   };
 
+  const handleRestoreVersion = async (version: number) => {
+    if (!selectedCreation) return;
+    setIsRestoringVersion(true);
+    try {
+        const restoredCreation = await restoreCreationVersion(selectedCreation.id, version);
+        if (!restoredCreation) throw new Error("No se pudo restaurar la versión seleccionada.");
+        setSelectedCreation(await loadCreationFull(restoredCreation));
+        setIsEditingParams(false);
+        setEditedParams(null);
+        toast({ title: "Versión Restaurada", description: `La versión ${version} es ahora la versión actual de la creación.` });
+    } catch (err: any) {
+        toast({ variant: "destructive", title: "Error al Restaurar", description: err.message });
+    } finally {
+        setIsRestoringVersion(false);
+    }
+  };
+
   const handleParamChange = (field: keyof Creation['params'], value: string) => {
     setEditedParams(prev => {
         if (!prev) return null;
         const newParams = { ...prev };
         (newParams as any)[field] = value;
+        // Changing the style swaps in the affixes of the chosen preset
+        if ((field as string) === 'style' || (field as string) === 'visualStyle') {
+            const { stylePrefix: _prefix, styleSuffix: _suffix, ...rest } = newParams as GeneratedParams | ReimaginedParams;
+            return { ...rest, ...toStylePromptParams(findStylePresetByName(stylePresets, value)) } as Creation['params'];
+        }
+        // Likewise for the culture's motifs
+        if ((field as string) === 'culture' || (field as string) === 'contextCulture') {
+            const { cultureMotifs: _motifs, ...rest } = newParams as GeneratedParams | ReimaginedParams;
+            return { ...rest, ...toCulturePromptParams(findCulture(cultures, value)) } as Creation['params'];
+        }
         return newParams;
     });
   };
 
+  const handleSdParamChange = <K extends keyof SdGenerationParams>(field: K, value: SdGenerationParams[K]) => {
+    setEditedParams(prev => prev ? { ...prev, [field]: value } : null);
+  };
+
   if (historyLoading && creations.length === 0) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -384,15 +475,53 @@ export default function GalleryPage() {
     );
   };
   
+  // Negative prompt, seed, sampler and CFG of Stable Diffusion creations
+  const renderSdAdvancedFields = () => {
+    if (!editedParams) return null;
+    const p = editedParams as SdGenerationParams;
+    const parseNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+    return (
+        <div className="space-y-3 border-t pt-3">
+            <div>
+                <Label htmlFor="negativePrompt" className="text-sm font-medium text-foreground">Prompt Negativo</Label>
+                <Textarea id="negativePrompt" value={p.negativePrompt ?? ''} onChange={(e) => handleSdParamChange('negativePrompt', e.target.value)} className="bg-background" rows={3} />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                    <Label htmlFor="seed" className="text-sm font-medium text-foreground">Semilla</Label>
+                    <Input id="seed" type="number" step={1} min={-1} value={p.seed ?? ''} onChange={(e) => handleSdParamChange('seed', parseNumber(e.target.value))} placeholder="-1 = aleatoria" className="bg-background" />
+                </div>
+                <div>
+                    <Label htmlFor="sampler" className="text-sm font-medium text-foreground">Sampler</Label>
+                    <Select value={p.sampler} onValueChange={(value) => handleSdParamChange('sampler', value)}>
+                        <SelectTrigger id="sampler" className="bg-background"><SelectValue placeholder="Por defecto" /></SelectTrigger>
+                        <SelectContent>
+                            {(editedProviderOptions.samplers.length > 0 ? editedProviderOptions.samplers : SD_SAMPLERS).map(sampler => <SelectItem key={sampler} value={sampler}>{sampler}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div>
+                    <Label htmlFor="cfgScale" className="text-sm font-medium text-foreground">CFG Scale</Label>
+                    <Input id="cfgScale" type="number" step={0.5} min={1} max={30} value={p.cfgScale ?? ''} onChange={(e) => handleSdParamChange('cfgScale', parseNumber(e.target.value))} className="bg-background" />
+                </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Con la misma semilla, la regeneración reproduce la imagen original. Usa -1 para obtener una variación nueva.</p>
+        </div>
+    );
+  };
+
   const renderSelectField = (label: string, field: keyof Creation['params'], options: readonly string[] | readonly {id: string, name: string}[]) => {
       if (!editedParams) return null;
       const p = editedParams as any;
+      // Values outside the list (a deleted style or culture, a custom culture) stay selectable
+      const isListed = options.some(o => (typeof o === 'string' ? o : o.id) === p[field]);
       return (
           <div>
               <Label htmlFor={field as string} className="text-sm font-medium text-foreground">{label}</Label>
               <Select value={p[field]} onValueChange={(value) => handleParamChange(field, value)}>
                   <SelectTrigger id={field as string} className="bg-background"><SelectValue /></SelectTrigger>
                   <SelectContent>
+                    {p[field] && !isListed && <SelectItem value={p[field]}>{p[field]}</SelectItem>}
                     {options.map(o => {
                         const value = typeof o === 'string' ? o : o.id;
                         const label = typeof o === 'string' ? o : o.name;
@@ -423,17 +552,20 @@ export default function GalleryPage() {
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
             <Input
               type="search"
-              placeholder="Buscar por nombre, cultura, entidad..."
+              placeholder='Buscar en nombres, prompts y análisis... (ej: culture:Nórdica type:reimagined)'
               className="pl-10 w-full"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
             />
+            {isSearching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />}
           </div>
+          <OrganizationFilter value={organizationFilter} onChange={setOrganizationFilter} />
           <Select value={sortBy} onValueChange={(value) => setSortBy(value as any)}>
             <SelectTrigger className="w-full sm:w-[180px]">
               <SelectValue placeholder="Ordenar por" />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="relevance">Relevancia</SelectItem>
               <SelectItem value="createdAtDesc">Fecha (Más recientes)</SelectItem>
               <SelectItem value="createdAtAsc">Fecha (Más antiguos)</SelectItem>
               <SelectItem value="nameAsc">Nombre (A-Z)</SelectItem>
@@ -580,13 +712,13 @@ export default function GalleryPage() {
                           <AlertDialogHeader>
                             <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
                             <AlertDialogDescription>
-                              Esta acción no se puede deshacer. Esto eliminará permanentemente "{creation.name}".
+                              "{creation.name}" se moverá a la papelera, desde donde podrás restaurarla mientras no se vacíe.
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
                             <AlertDialogCancel>Cancelar</AlertDialogCancel>
                             <AlertDialogAction onClick={() => handleDelete(creation.id)} className="bg-destructive hover:bg-destructive/90">
-                              Eliminar
+                              Mover a la Papelera
                             </AlertDialogAction>
                           </AlertDialogFooter>
                         </AlertDialogContent>
@@ -672,16 +804,32 @@ export default function GalleryPage() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 my-4">
                 <div className="space-y-4">
                   <h3 className="font-semibold text-lg text-primary">Imagen</h3>
-                  {selectedCreation.imageData?.imageDataUri ? (
-                    <div
-                      className="relative group/zoom cursor-zoom-in"
-                      onClick={() => setZoomedImageUrl(selectedCreation.imageData!.imageDataUri)}
-                    >
-                      <Image src={selectedCreation.imageData.imageDataUri} alt={selectedCreation.name} width={400} height={400} className="rounded-lg shadow-md object-contain w-full" data-ai-hint="mythological art" />
-                      <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover/zoom:opacity-100 transition-opacity duration-300 rounded-lg">
-                        <ZoomIn className="h-12 w-12 text-white" />
+                  {selectedCreation.imageData && selectedImageUrl ? (
+                    <>
+                      <div
+                        className="relative group/zoom cursor-zoom-in"
+                        onClick={() => setZoomedImageUrl(selectedImageUrl)}
+                      >
+                        <Image src={selectedImageUrl} alt={selectedCreation.name} width={400} height={400} className="rounded-lg shadow-md object-contain w-full" data-ai-hint="mythological art" />
+                        <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover/zoom:opacity-100 transition-opacity duration-300 rounded-lg">
+                          <ZoomIn className="h-12 w-12 text-white" />
+                        </div>
                       </div>
-                    </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-muted-foreground">
+                          {selectedCreation.imageData.width > 0 && `${selectedCreation.imageData.width} × ${selectedCreation.imageData.height} px · `}
+                          {selectedCreation.imageData.mimeType} · {formatBytes(selectedCreation.imageData.size)}
+                        </p>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setIsUpscaleOpen(true)} disabled={isRegenerating}>
+                            <Maximize2 className="mr-1 h-4 w-4" /> Escalar
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => setIsInpaintOpen(true)} disabled={isRegenerating}>
+                            <Brush className="mr-1 h-4 w-4" /> Editar región
+                          </Button>
+                        </div>
+                      </div>
+                    </>
                   ) : (
                     <p className="text-muted-foreground">No hay imagen asociada.</p>
                   )}
@@ -734,14 +882,14 @@ export default function GalleryPage() {
                     return null;
                   })()}
 
-                  {selectedCreation.type === 'reimagined' && selectedCreation.originalImageData?.imageDataUri && (
+                  {selectedCreation.type === 'reimagined' && selectedOriginalImageUrl && (
                     <>
                       <h3 className="font-semibold text-lg text-primary mt-4">Imagen Original</h3>
                        <div
                         className="relative group/zoom cursor-zoom-in"
-                        onClick={() => setZoomedImageUrl(selectedCreation.originalImageData!.imageDataUri)}
+                        onClick={() => setZoomedImageUrl(selectedOriginalImageUrl)}
                       >
-                        <Image src={selectedCreation.originalImageData.imageDataUri} alt={`Original para ${selectedCreation.name}`} width={200} height={200} className="rounded-lg shadow-md object-contain w-full" data-ai-hint="source image" />
+                        <Image src={selectedOriginalImageUrl} alt={`Original para ${selectedCreation.name}`} width={200} height={200} className="rounded-lg shadow-md object-contain w-full" data-ai-hint="source image" />
                          <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover/zoom:opacity-100 transition-opacity duration-300 rounded-lg">
                           <ZoomIn className="h-12 w-12 text-white" />
                         </div>
@@ -769,19 +917,20 @@ export default function GalleryPage() {
                               case 'generated':
                                   return (
                                       <div className="space-y-3">
-                                          {renderSelectField('Cultura', 'culture', MYTHOLOGICAL_CULTURES)}
+                                          {renderSelectField('Cultura', 'culture', cultureNames)}
                                           {renderTextField('Entidad', 'entity', 'Ej: Zeus, Fénix', true)}
-                                          {renderSelectField('Motor de Generación', 'provider', IMAGE_PROVIDERS)}
-                                          {(editedParams as GeneratedParams).provider === 'stable-diffusion' && renderTextField('Checkpoint Base', 'checkpoint', 'Ej: Juggernaut')}
-                                          {renderSelectField('Estilo', 'style', IMAGE_STYLES)}
+                                          {renderSelectField('Motor de Generación', 'provider', listImageProviders())}
+                                          {findImageProvider((editedParams as GeneratedParams).provider)?.capabilities.modelSelection && renderTextField('Checkpoint Base', 'checkpoint', 'Ej: Juggernaut')}
+                                          {renderSelectField('Estilo', 'style', styleNames)}
                                           {renderSelectField('Relación de Aspecto', 'aspectRatio', ASPECT_RATIOS)}
                                           {renderSelectField('Calidad', 'imageQuality', IMAGE_QUALITIES)}
+                                          {findImageProvider((editedParams as GeneratedParams).provider)?.capabilities.advancedParams && renderSdAdvancedFields()}
                                       </div>
                                   );
                               case 'analyzed':
                                   return (
                                       <div className="space-y-3">
-                                          {renderSelectField('Contexto Mitológico', 'mythologicalContext', MYTHOLOGICAL_CULTURES)}
+                                          {renderSelectField('Contexto Mitológico', 'mythologicalContext', cultureNames)}
                                           {renderTextField('Entidad/Tema', 'entityTheme', 'Ej: Medusa, Anubis', true)}
                                       </div>
                                   );
@@ -789,16 +938,17 @@ export default function GalleryPage() {
                                   return (
                                       <div className="space-y-3">
                                           <Label className="text-base font-semibold text-primary/90">Contexto Original</Label>
-                                          {renderSelectField('Cultura del Contexto', 'contextCulture', MYTHOLOGICAL_CULTURES)}
+                                          {renderSelectField('Cultura del Contexto', 'contextCulture', cultureNames)}
                                           {renderTextField('Entidad del Contexto', 'contextEntity', 'Ej: Atenea, Esfinge', true)}
                                           <div className="border-t pt-3 mt-3">
                                             <Label className="text-base font-semibold text-primary">Nuevos Parámetros</Label>
                                           </div>
-                                          {renderSelectField('Motor de Generación', 'provider', IMAGE_PROVIDERS)}
-                                          {(editedParams as ReimaginedParams).provider === 'stable-diffusion' && renderTextField('Checkpoint Base', 'checkpoint', 'Ej: Juggernaut')}
-                                          {renderSelectField('Nuevo Estilo Visual', 'visualStyle', IMAGE_STYLES)}
+                                          {renderSelectField('Motor de Generación', 'provider', listImageProviders())}
+                                          {findImageProvider((editedParams as ReimaginedParams).provider)?.capabilities.modelSelection && renderTextField('Checkpoint Base', 'checkpoint', 'Ej: Juggernaut')}
+                                          {renderSelectField('Nuevo Estilo Visual', 'visualStyle', styleNames)}
                                           {renderSelectField('Nueva Relación de Aspecto', 'aspectRatio', ASPECT_RATIOS)}
                                           {renderSelectField('Nueva Calidad', 'imageQuality', IMAGE_QUALITIES)}
+                                          {findImageProvider((editedParams as ReimaginedParams).provider)?.capabilities.advancedParams && renderSdAdvancedFields()}
                                       </div>
                                   );
                               default:
@@ -808,7 +958,8 @@ export default function GalleryPage() {
                       <div className="flex justify-end gap-2 mt-4 flex-wrap">
                         <Button variant="ghost" size="sm" onClick={handleCancelEditParams} disabled={isRegenerating}>Cancelar</Button>
                         <Button size="sm" onClick={handleSaveParams} disabled={isRegenerating}>Guardar Metadatos</Button>
-                        {['generated', 'reimagined'].includes(selectedCreation.type) && (
+                        {/* Region edits don't keep their mask, so they can't be re-rendered from the parameters */}
+                        {['generated', 'reimagined'].includes(selectedCreation.type) && !(selectedCreation.params as ReimaginedParams).inpaintPrompt && (
                             <Button size="sm" onClick={handleRegenerate} disabled={isRegenerating}>
                                 {isRegenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
                                 Regenerar Imagen
@@ -839,16 +990,37 @@ export default function GalleryPage() {
                           return <>
                             <p><strong>Contexto Original:</strong> {p.contextCulture} - {p.contextEntity}</p>
                             <p><strong>Nuevo Estilo:</strong> {p.visualStyle}</p>
+                            {p.inpaintPrompt && <p className="break-words"><strong>Edición por región:</strong> {p.inpaintPrompt}</p>}
+                          </>;
+                        })()}
+                        {(selectedCreation.params as any).provider && (() => {
+                          const p = selectedCreation.params as GeneratedParams | ReimaginedParams;
+                          // Older creations didn't record the model; fall back to what was requested or the provider's default
+                          const model = p.model || p.checkpoint || findImageProvider(p.provider)?.defaultModel;
+                          return <>
+                            <p><strong>Motor:</strong> {getImageProviderName(p.provider)}</p>
+                            {model && <p className="break-words"><strong>Modelo:</strong> {model}</p>}
+                          </>;
+                        })()}
+                        {findImageProvider((selectedCreation.params as any).provider)?.capabilities.advancedParams && (() => {
+                          const p = selectedCreation.params as SdGenerationParams;
+                          return <>
+                            {p.seed !== undefined && <p><strong>Semilla:</strong> {p.seed === -1 ? 'Aleatoria (no registrada)' : p.seed}</p>}
+                            {p.sampler && <p><strong>Sampler:</strong> {p.sampler}</p>}
+                            {p.cfgScale !== undefined && <p><strong>CFG Scale:</strong> {p.cfgScale}</p>}
+                            {p.loras && p.loras.length > 0 && <p className="break-words"><strong>LoRAs:</strong> {formatSdLoras(p.loras)}</p>}
+                            {p.hiresUpscaler && <p><strong>Hires. fix:</strong> {p.hiresUpscaler} (x2)</p>}
+                            {p.negativePrompt && <p className="break-words"><strong>Prompt Negativo:</strong> {p.negativePrompt}</p>}
                           </>;
                         })()}
-                        {(selectedCreation.params as any).provider && (
-                          <p><strong>Motor:</strong> {IMAGE_PROVIDERS.find(prov => prov.id === (selectedCreation.params as any).provider)?.name || (selectedCreation.params as any).provider || 'N/D'}</p>
-                        )}
-                        {(selectedCreation.params as any).provider === 'stable-diffusion' && (selectedCreation.params as any).checkpoint && (
-                          <p><strong>Checkpoint Base:</strong> {(selectedCreation.params as any).checkpoint}</p>
-                        )}
                         <p><strong>Calidad:</strong> {(selectedCreation.params as any).imageQuality || 'N/D'}</p>
                         <p><strong>Relación de Aspecto:</strong> {(selectedCreation.params as any).aspectRatio || 'N/D'}</p>
+                        {selectedCreation.params.upscale && (
+                          <p><strong>Escalado:</strong> {selectedCreation.params.upscale.upscaler} (x{selectedCreation.params.upscale.factor})</p>
+                        )}
+                        {selectedCreation.params.promptTemplate && (
+                          <p><strong>Plantilla de Prompt:</strong> {formatPromptTemplateRef(selectedCreation.params.promptTemplate)}</p>
+                        )}
                       </div>
                     </div>
                   )}
@@ -893,6 +1065,16 @@ export default function GalleryPage() {
                       </div>
                     </>
                   )}
+
+                  <CreationOrganizer creation={selectedCreation} />
+
+                  <CreationVersionHistory
+                    creation={selectedCreation}
+                    onRestore={handleRestoreVersion}
+                    isRestoring={isRestoringVersion || isRegenerating}
+                  />
+
+                  <CreationChangeLog creation={selectedCreation} />
                 </div>
               </div>
               </ScrollArea>
@@ -905,6 +1087,27 @@ export default function GalleryPage() {
           </Dialog>
         )}
 
+        {selectedCreation?.imageData && selectedImageUrl && (
+          <InpaintDialog
+            open={isInpaintOpen}
+            onOpenChange={setIsInpaintOpen}
+            creation={selectedCreation}
+            image={selectedCreation.imageData}
+            imageUrl={selectedImageUrl}
+            outputData={selectedCreation.textOutput?.data}
+            onCreated={handleInpaintCreated}
+          />
+        )}
+
+        {selectedCreation && (
+          <UpscaleDialog
+            creationIds={[selectedCreation.id]}
+            open={isUpscaleOpen}
+            onOpenChange={setIsUpscaleOpen}
+            onComplete={handleUpscaleComplete}
+          />
+        )}
+
         {zoomedImageUrl && (
           <Dialog open={!!zoomedImageUrl} onOpenChange={(open) => !open && setZoomedImageUrl(null)}>
             <DialogContent className="p-0 border-0 max-w-5xl bg-transparent shadow-none w-auto h-auto">
@@ -928,7 +1131,7 @@ export default function GalleryPage() {
 
 // Helper component to fetch and display image to avoid re-fetching on parent re-render
 const ImageItem: React.FC<{ imageId: string, alt: string }> = ({ imageId, alt }) => {
-  const { getImageData } = useHistory();
+  const { getThumbnail } = useHistory();
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -936,15 +1139,15 @@ const ImageItem: React.FC<{ imageId: string, alt: string }> = ({ imageId, alt })
     let isActive = true;
     const fetchImage = async () => {
       setLoading(true);
-      const imgData = await getImageData(imageId);
-      if (isActive && imgData) {
-        setImageUrl(imgData.imageDataUri);
+      const thumbnailUrl = await getThumbnail(imageId);
+      if (isActive && thumbnailUrl) {
+        setImageUrl(thumbnailUrl);
       }
       setLoading(false);
     };
     fetchImage();
     return () => { isActive = false; };
-  }, [imageId, getImageData]);
+  }, [imageId, getThumbnail]);
 
   if (loading) {
     return <div className="w-full h-full flex items-center justify-center bg-muted/50"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
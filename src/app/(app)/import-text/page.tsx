@@ -12,6 +12,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import type { ExtractMythologiesOutput } from '@/ai/flows/extract-mythologies-flow';
 import { extractMythologiesAction } from '@/lib/actions';
+import { getActivePromptTemplate } from '@/lib/prompt-template-store';
+import { useCultures } from '@/contexts/CulturesContext';
 import { CreateFromPromptDialog } from '@/components/CreateFromPromptDialog';
 import { Badge } from '@/components/ui/badge';
 
@@ -22,6 +24,7 @@ export default function ImportTextPage() {
     const [extractedText, setExtractedText] = useState<string | null>(null);
     const [analysisResult, setAnalysisResult] = useState<ExtractMythologiesOutput | null>(null);
     const { toast } = useToast();
+    const { cultures } = useCultures();
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -79,7 +82,8 @@ export default function ImportTextPage() {
         setIsLoading(true);
         setAnalysisResult(null);
         try {
-            const result = await extractMythologiesAction({ text: extractedText });
+            const { template } = await getActivePromptTemplate('extract-mythologies');
+            const result = await extractMythologiesAction({ text: extractedText, template, cultures: cultures.map(({ name, aliases }) => ({ name, aliases })) });
             setAnalysisResult(result);
             const cachedData = JSON.parse(localStorage.getItem('mythWeaverTextImportCache') || '{}');
             localStorage.setItem('mythWeaverTextImportCache', JSON.stringify({ ...cachedData, results: result }));
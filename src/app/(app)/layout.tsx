@@ -1,5 +1,10 @@
 import { AppSidebar } from '@/components/layout/AppSidebar';
 import { HistoryProvider } from '@/contexts/HistoryContext';
+import { BatchJobProvider } from '@/contexts/BatchJobContext';
+import { StylePresetsProvider } from '@/contexts/StylePresetsContext';
+import { CulturesProvider } from '@/contexts/CulturesContext';
+import { EntitiesProvider } from '@/contexts/EntitiesContext';
+import { MigrationProgressBanner } from '@/components/MigrationProgressBanner';
 import { SidebarProvider } from "@/components/ui/sidebar";
 
 export default function AppLayout({
@@ -10,12 +15,21 @@ export default function AppLayout({
   return (
     <SidebarProvider defaultOpen>
       <HistoryProvider>
-        <div className="flex min-h-screen">
-          <AppSidebar />
-          <main className="flex-1 flex flex-col overflow-hidden bg-background">
-            {children}
-          </main>
-        </div>
+        <BatchJobProvider>
+          <StylePresetsProvider>
+            <CulturesProvider>
+              <EntitiesProvider>
+                <div className="flex min-h-screen">
+                  <AppSidebar />
+                  <main className="flex-1 flex flex-col overflow-hidden bg-background">
+                    {children}
+                  </main>
+                </div>
+                <MigrationProgressBanner />
+              </EntitiesProvider>
+            </CulturesProvider>
+          </StylePresetsProvider>
+        </BatchJobProvider>
       </HistoryProvider>
     </SidebarProvider>
   );
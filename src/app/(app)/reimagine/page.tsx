@@ -14,13 +14,22 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter, CardDescription } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { useHistory } from '@/contexts/HistoryContext';
 import { useToast } from '@/hooks/use-toast';
-import { reimagineUploadedImageAction } from '@/lib/actions';
-import type { ReimaginedParams } from '@/lib/types';
-import { MYTHOLOGICAL_CULTURES, IMAGE_STYLES, ASPECT_RATIOS, IMAGE_QUALITIES, IMAGE_PROVIDERS } from '@/lib/types';
+import type { ReimaginedParams, GenerationVariation } from '@/lib/types';
+import { ASPECT_RATIOS, IMAGE_QUALITIES, VARIATION_COUNTS } from '@/lib/types';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { mapAspectRatioToDimensions, mapQualityToSteps } from '@/lib/utils';
+import { pickSdGenerationParams } from '@/lib/stable-diffusion';
+import { findImageProvider, getImageProvider, listImageProviders, DEFAULT_IMAGE_PROVIDER_ID } from '@/lib/image-providers';
+import { CheckpointField } from '@/components/CheckpointField';
+import { StylePresetField, applyStylePresetToForm } from '@/components/StylePresetField';
+import { CultureField, applyCultureToForm } from '@/components/CultureField';
+import { useCultures } from '@/contexts/CulturesContext';
+import { useStylePresets } from '@/contexts/StylePresetsContext';
+import { DEFAULT_STYLE_NAME, findStylePresetByName, toStylePromptParams } from '@/lib/style-presets';
+import { DEFAULT_CULTURE_NAME, findCulture, toCulturePromptParams } from '@/lib/cultures';
+import { SdAdvancedFields, sdAdvancedFormFields, SD_ADVANCED_FORM_DEFAULTS } from '@/components/SdAdvancedFields';
+import { VariationsGrid } from '@/components/VariationsGrid';
+import { useSaveVariations, type SaveVariationsMode } from '@/hooks/use-save-variations';
 
 const reimagineImageSchema = z.object({
   name: z.string().min(1, "El nombre de la creación es obligatorio.").max(100),
@@ -31,8 +40,10 @@ const reimagineImageSchema = z.object({
   visualStyle: z.string().min(1, "El nuevo estilo visual es obligatorio."),
   aspectRatio: z.string().min(1, "La nueva relación de aspecto es obligatoria."),
   imageQuality: z.string().min(1, "La nueva calidad de imagen es obligatoria."),
-  provider: z.enum(['google-ai', 'stable-diffusion']).default('google-ai'),
+  provider: z.string().min(1, "El motor de generación es obligatorio."),
   checkpoint: z.string().optional(),
+  variations: z.coerce.number().int().min(1).max(VARIATION_COUNTS[VARIATION_COUNTS.length - 1]),
+  ...sdAdvancedFormFields,
 });
 
 type ReimagineImageFormData = z.infer<typeof reimagineImageSchema>;
@@ -53,49 +64,47 @@ export default function ReimagineImagePage() {
   const [reimaginedImage, setReimaginedImage] = useState<string | null>(null);
   const [derivedPrompt, setDerivedPrompt] = useState<string | null>(null);
   const [generationError, setGenerationError] = useState<string | null>(null);
-  const { addCreation } = useHistory();
+  const [variations, setVariations] = useState<GenerationVariation[]>([]);
+  const [pendingSave, setPendingSave] = useState<{ name: string; params: ReimaginedParams; originalImageDataUri: string } | null>(null);
+  const [isSavingVariations, setIsSavingVariations] = useState(false);
+  const saveVariations = useSaveVariations();
   const { toast } = useToast();
+  const { presets: stylePresets } = useStylePresets();
+  const { cultures } = useCultures();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const form = useForm<ReimagineImageFormData>({
     resolver: zodResolver(reimagineImageSchema),
     defaultValues: {
       name: '',
-      contextCulture: MYTHOLOGICAL_CULTURES[0],
+      contextCulture: DEFAULT_CULTURE_NAME,
       contextEntity: '',
       contextDetails: '',
-      visualStyle: IMAGE_STYLES[0],
+      visualStyle: DEFAULT_STYLE_NAME,
       aspectRatio: ASPECT_RATIOS[0],
       imageQuality: IMAGE_QUALITIES[0],
-      provider: 'google-ai',
+      provider: DEFAULT_IMAGE_PROVIDER_ID,
       checkpoint: '',
+      variations: 1,
+      ...SD_ADVANCED_FORM_DEFAULTS,
     },
   });
 
   const selectedProvider = form.watch('provider');
+  const selectedProviderCapabilities = findImageProvider(selectedProvider)?.capabilities;
 
   useEffect(() => {
-    const fetchSdCheckpoint = async () => {
-      if (selectedProvider === 'stable-diffusion') {
-          try {
-              const response = await fetch('http://127.0.0.1:7860/sdapi/v1/options', {
-                  method: 'GET',
-                  headers: { 'Content-Type': 'application/json' },
-                  mode: 'cors',
-              });
-              if (response.ok) {
-                  const options = await response.json();
-                  if (options.sd_model_checkpoint) {
-                      form.setValue('checkpoint', options.sd_model_checkpoint);
-                      toast({ title: "Checkpoint Detectado", description: `Se ha cargado automáticamente el checkpoint: ${options.sd_model_checkpoint}`, duration: 3000 });
-                  }
-              }
-          } catch (error) {
-              console.warn("No se pudo conectar a la API de Stable Diffusion para obtener el checkpoint. Se requiere entrada manual.");
+    const fetchCurrentModel = async () => {
+      const provider = findImageProvider(selectedProvider);
+      if (provider?.capabilities.modelSelection) {
+          const checkpoint = await provider.getCurrentModel();
+          if (checkpoint) {
+              form.setValue('checkpoint', checkpoint);
+              toast({ title: "Checkpoint Detectado", description: `Se ha cargado automáticamente el checkpoint: ${checkpoint}`, duration: 3000 });
           }
       }
     };
-    fetchSdCheckpoint();
+    fetchCurrentModel();
   }, [selectedProvider, form, toast]);
 
  const handleImageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -114,72 +123,13 @@ export default function ReimagineImagePage() {
     }
   };
 
-  async function reimagineWithStableDiffusion(originalImage: string, params: ReimaginedParams, checkpoint?: string) {
-    const apiUrl = 'http://127.0.0.1:7860';
-    
-    // We need to derive a prompt using the Google AI flow first, even for SD
-    const { derivedPrompt: sdPrompt } = await reimagineUploadedImageAction({
-        originalImage: originalImage,
-        ...params
-    });
-
-    const dimensions = mapAspectRatioToDimensions(params.aspectRatio);
-    const steps = mapQualityToSteps(params.imageQuality);
-
-    // For img2img, the original image must not include the 'data:image/png;base64,' prefix.
-    const base64Image = originalImage.split(',')[1];
-    
-    const payload = {
-        init_images: [base64Image],
-        prompt: sdPrompt,
-        negative_prompt: "deformed, bad anatomy, disfigured, poorly drawn face, mutation, mutated, extra limb, ugly, disgusting, poorly drawn hands, missing limb, floating limbs, disconnected limbs, malformed hands, blurry, ((((mutated hands and fingers)))), watermark, watermarked, oversaturated, censorship, censored, sensible, text, bare breasts, nude",
-        seed: -1,
-        sampler_name: "DPM++ 2M Karras",
-        batch_size: 1,
-        n_iter: 1,
-        steps: steps,
-        cfg_scale: 7,
-        width: dimensions.width,
-        height: dimensions.height,
-        restore_faces: true,
-        denoising_strength: 0.75, // Important for img2img
-        override_settings: checkpoint ? { sd_model_checkpoint: checkpoint } : {},
-    };
-
-    try {
-        const response = await fetch(`${apiUrl}/sdapi/v1/img2img`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload),
-            mode: 'cors',
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Error de la API de Stable Diffusion (img2img): ${response.status} - ${errorText}`);
-        }
-        
-        const result = await response.json();
-        
-        if (!result.images || result.images.length === 0) {
-            throw new Error("La API de Stable Diffusion (img2img) no devolvió ninguna imagen.");
-        }
-
-        return { reimaginedImage: `data:image/png;base64,${result.images[0]}`, derivedPrompt: sdPrompt };
-    } catch (e: any) {
-        if (e.message.includes('Failed to fetch')) {
-             throw new Error(`Error de red o CORS. Asegúrate de que Stable Diffusion Web UI se ejecuta con '--cors-allow-origins="*"' y que puedes acceder a ${apiUrl}/docs`);
-        }
-        throw e;
-    }
-  }
-
-
   async function onSubmit(data: ReimagineImageFormData) {
     setIsLoading(true);
     setReimaginedImage(null);
     setDerivedPrompt(null);
     setGenerationError(null);
+    setVariations([]);
+    setPendingSave(null);
 
     if (!data.originalImageFile || data.originalImageFile.length === 0) {
       toast({ variant: "destructive", title: "Error", description: "Por favor, sube una imagen original." });
@@ -202,35 +152,33 @@ export default function ReimagineImagePage() {
       contextEntity: data.contextEntity,
       contextDetails: data.contextDetails,
       visualStyle: data.visualStyle,
+      ...toStylePromptParams(findStylePresetByName(stylePresets, data.visualStyle)),
+      ...toCulturePromptParams(findCulture(cultures, data.contextCulture)),
       aspectRatio: data.aspectRatio,
       imageQuality: data.imageQuality,
       provider: data.provider,
       checkpoint: data.checkpoint,
+      ...(getImageProvider(data.provider).capabilities.advancedParams ? pickSdGenerationParams(data) : {}),
     };
 
     try {
-      let result;
-      
-      if (data.provider === 'stable-diffusion') {
-        result = await reimagineWithStableDiffusion(originalImageDataUri, aiInputParams, data.checkpoint);
-      } else {
-        result = await reimagineUploadedImageAction({
-          originalImage: originalImageDataUri,
-          ...aiInputParams,
-        });
+      const results: GenerationVariation[] = await getImageProvider(aiInputParams.provider).img2img({
+        params: aiInputParams,
+        initImage: originalImageDataUri,
+        count: data.variations,
+      });
+
+      if (results.length > 1) {
+        setVariations(results);
+        setPendingSave({ name: data.name, params: aiInputParams, originalImageDataUri });
+        toast({ title: "Variaciones Listas", description: `Elige cuáles de las ${results.length} imágenes quieres guardar.` });
+        return;
       }
-      
-      setReimaginedImage(result.reimaginedImage);
-      setDerivedPrompt(result.derivedPrompt);
 
-      await addCreation(
-        'reimagined',
-        data.name,
-        aiInputParams,
-        { derivedPrompt: result.derivedPrompt },
-        result.reimaginedImage,
-        originalImageDataUri
-      );
+      setReimaginedImage(results[0].imageUrl);
+      setDerivedPrompt(results[0].prompt);
+      // The seed and model the provider reported are saved with the params (see useSaveVariations)
+      await saveVariations({ type: 'reimagined', name: data.name, params: aiInputParams, variations: results, mode: 'separate', originalImageDataUri });
       toast({ title: "¡Imagen Reimaginada!", description: "Tu nueva creación se ha guardado en tu galería." });
     } catch (error: any) {
       console.error("Error reimagining image:", error);
@@ -242,6 +190,26 @@ export default function ReimagineImagePage() {
     }
   }
   
+  const handleSaveVariations = async (selected: GenerationVariation[], mode: SaveVariationsMode) => {
+    if (!pendingSave) return;
+    setIsSavingVariations(true);
+    try {
+      const savedCount = await saveVariations({ type: 'reimagined', ...pendingSave, variations: selected, mode });
+      setPendingSave(null);
+      toast({
+        title: "¡Imagen Reimaginada!",
+        description: mode === 'alternates'
+          ? `Se guardó una creación con ${selected.length - 1} alternativas.`
+          : `Se guardaron ${savedCount} creaciones en tu galería.`,
+      });
+    } catch (error: any) {
+      console.error("Error saving variations:", error);
+      toast({ variant: "destructive", title: "Error al Guardar", description: error.message });
+    } finally {
+      setIsSavingVariations(false);
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({ title: "¡Copiado!", description: "Prompt copiado al portapapeles." });
@@ -319,23 +287,7 @@ export default function ReimagineImagePage() {
                   />
                   <CardDescription>Contexto de Imagen Original:</CardDescription>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="contextCulture"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Cultura</FormLabel>
-                           <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger><SelectValue placeholder="Selecciona cultura" /></SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {MYTHOLOGICAL_CULTURES.map(c => (<SelectItem key={c} value={c}>{c}</SelectItem>))}</SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <CultureField control={form.control} name="contextCulture" label="Cultura" onCultureSelected={(culture) => applyCultureToForm(form.setValue, culture, 'visualStyle')} />
                     <FormField
                       control={form.control}
                       name="contextEntity"
@@ -362,20 +314,7 @@ export default function ReimagineImagePage() {
                   
                   <CardDescription>Nuevos Parámetros Visuales:</CardDescription>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="visualStyle"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Nuevo Estilo Visual</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl><SelectTrigger><SelectValue placeholder="Selecciona nuevo estilo" /></SelectTrigger></FormControl>
-                            <SelectContent>{IMAGE_STYLES.map(s => (<SelectItem key={s} value={s}>{s}</SelectItem>))}</SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <StylePresetField control={form.control} name="visualStyle" label="Nuevo Estilo Visual" onPresetSelected={(preset) => applyStylePresetToForm(form.setValue, preset)} />
                     <FormField
                       control={form.control}
                       name="aspectRatio"
@@ -417,7 +356,7 @@ export default function ReimagineImagePage() {
                                     <SelectTrigger><SelectValue placeholder="Selecciona un motor" /></SelectTrigger>
                                     </FormControl>
                                     <SelectContent>
-                                    {IMAGE_PROVIDERS.map(provider => (
+                                    {listImageProviders().map(provider => (
                                         <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
                                     ))}
                                     </SelectContent>
@@ -427,21 +366,28 @@ export default function ReimagineImagePage() {
                             )}
                         />
                    </div>
-                   {selectedProvider === 'stable-diffusion' && (
-                    <FormField
-                      control={form.control}
-                      name="checkpoint"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Checkpoint Base (automático o manual)</FormLabel>
+                   {selectedProviderCapabilities?.modelSelection && <CheckpointField control={form.control} providerId={selectedProvider} />}
+                  {selectedProviderCapabilities?.advancedParams && <SdAdvancedFields control={form.control} providerId={selectedProvider} mode="img2img" />}
+                  <FormField
+                    control={form.control}
+                    name="variations"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Variaciones</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
                           <FormControl>
-                            <Input placeholder="Detectando checkpoint actual..." {...field} />
+                            <SelectTrigger><SelectValue /></SelectTrigger>
                           </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  )}
+                          <SelectContent>
+                            {VARIATION_COUNTS.map(count => (
+                              <SelectItem key={count} value={String(count)}>{count === 1 ? '1 imagen' : `${count} imágenes (elige las mejores)`}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <Button type="submit" disabled={isLoading || !originalImagePreview} className="w-full">
                     {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Palette className="mr-2 h-4 w-4" />}
                     Reimaginar Imagen
@@ -484,7 +430,10 @@ export default function ReimagineImagePage() {
                 {!isLoading && !generationError && reimaginedImage && (
                   <Image src={reimaginedImage} alt="Imagen reimaginada" width={300} height={300} className="rounded-lg object-contain max-h-[250px] shadow-md" data-ai-hint="transformed art" />
                 )}
-                {!isLoading && !generationError && !reimaginedImage && (
+                {!isLoading && !generationError && variations.length > 1 && (
+                  <VariationsGrid variations={variations} onSave={handleSaveVariations} isSaving={isSavingVariations} isSaved={!pendingSave} />
+                )}
+                {!isLoading && !generationError && !reimaginedImage && variations.length === 0 && (
                   <div className="text-center text-muted-foreground p-4 border-2 border-dashed rounded-lg">
                      <Palette className="h-10 w-10 mx-auto mb-2 opacity-50" />
                     <p>La nueva imagen aparecerá aquí.</p>
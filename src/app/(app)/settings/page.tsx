@@ -1,8 +1,8 @@
 
 "use client";
 
-import React, { useState, useRef } from 'react';
-import { Settings as SettingsIcon, Download, Upload, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Settings as SettingsIcon, Download, Upload, Trash2, Loader2, AlertTriangle, Server, PlugZap, Save } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useHistory } from '@/contexts/HistoryContext';
@@ -22,12 +22,50 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { CollectionsManager } from '@/components/CollectionsManager';
+import { StylePresetsManager } from '@/components/StylePresetsManager';
+import { CulturesManager } from '@/components/CulturesManager';
+import { PromptTemplatesEditor } from '@/components/PromptTemplatesEditor';
+import { MigrationsHistoryCard } from '@/components/MigrationsHistoryCard';
+import { LibraryIntegrityCard } from '@/components/LibraryIntegrityCard';
+import { ImageProvidersStatus } from '@/components/ImageProvidersStatus';
+import { ComfyUiSettingsCard } from '@/components/ComfyUiSettingsCard';
+import { DEFAULT_SD_SETTINGS, getSdSettings, saveSdSettings, testSdConnection, type StableDiffusionSettings } from '@/lib/stable-diffusion';
+import { BROKEN_CREATION_TAG } from '@/lib/integrity';
 
 export default function SettingsPage() {
   const { exportData, importData, clearAllData, loading, error } = useHistory();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [sdSettings, setSdSettings] = useState<StableDiffusionSettings>(DEFAULT_SD_SETTINGS);
+  const [isTestingSd, setIsTestingSd] = useState(false);
+
+  useEffect(() => {
+    setSdSettings(getSdSettings());
+  }, []);
+
+  const handleSdSettingChange = <K extends keyof StableDiffusionSettings>(field: K, value: StableDiffusionSettings[K]) => {
+    setSdSettings(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSaveSdSettings = () => {
+    const saved = saveSdSettings(sdSettings);
+    setSdSettings(saved);
+    toast({ title: "Ajustes Guardados", description: `Stable Diffusion se conectará a ${saved.baseUrl}.` });
+  };
+
+  const handleTestSdConnection = async () => {
+    setIsTestingSd(true);
+    try {
+      const { checkpoint } = await testSdConnection(sdSettings);
+      toast({ title: "Conexión Exitosa", description: checkpoint ? `Checkpoint cargado: ${checkpoint}` : "La API de Stable Diffusion respondió correctamente." });
+    } catch (testError: any) {
+      toast({ variant: "destructive", title: "Conexión Fallida", description: testError.message || "No se pudo conectar con Stable Diffusion." });
+    } finally {
+      setIsTestingSd(false);
+    }
+  };
 
   const handleExport = async () => {
     try {
@@ -46,8 +84,9 @@ export default function SettingsPage() {
     const file = event.target.files?.[0];
     if (file) {
       try {
-        await importData(file, importMode);
-        toast({ title: "Importación Exitosa", description: `Los datos de la galería han sido ${importMode === 'merge' ? 'fusionados' : 'reemplazados'}.` });
+        const skippedImages = await importData(file, importMode);
+        const skippedNote = skippedImages > 0 ? ` ${skippedImages} imágenes dañadas no se pudieron importar; sus creaciones llevan la etiqueta "${BROKEN_CREATION_TAG}".` : '';
+        toast({ title: "Importación Exitosa", description: `Los datos de la galería han sido ${importMode === 'merge' ? 'fusionados' : 'reemplazados'}.${skippedNote}` });
       } catch (importError: any) {
         toast({ variant: "destructive", title: "Importación Fallida", description: importError.message || "No se pudo importar el archivo." });
       } finally {
@@ -58,10 +97,12 @@ export default function SettingsPage() {
     }
   };
   
-  const handleClearAll = async () => {
-    await clearAllData();
+  const handleClearAll = async (moveToTrash: boolean) => {
+    await clearAllData({ moveToTrash });
      if (!error && !loading) {
-        toast({ title: "Datos Borrados", description: "Todos los datos de tu galería han sido eliminados." });
+        toast(moveToTrash
+          ? { title: "Galería Vaciada", description: "Todas tus creaciones están en la papelera." }
+          : { title: "Datos Borrados", description: "Todos los datos de tu galería han sido eliminados." });
     } else if(error) {
        toast({ variant: "destructive", title: "Error al Borrar", description: error });
     }
@@ -127,10 +168,69 @@ export default function SettingsPage() {
           </CardFooter>
         </Card>
 
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center"><Server className="mr-2 h-5 w-5 text-primary" /> Stable Diffusion</CardTitle>
+            <CardDescription>Configura la conexión con tu Stable Diffusion Web UI (AUTOMATIC1111). Todas las páginas de generación usan estos ajustes.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="sd-base-url">URL Base</Label>
+              <Input id="sd-base-url" value={sdSettings.baseUrl} onChange={(e) => handleSdSettingChange('baseUrl', e.target.value)} placeholder={DEFAULT_SD_SETTINGS.baseUrl} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="sd-username">Usuario (--api-auth)</Label>
+                <Input id="sd-username" value={sdSettings.username} onChange={(e) => handleSdSettingChange('username', e.target.value)} autoComplete="off" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sd-password">Contraseña</Label>
+                <Input id="sd-password" type="password" value={sdSettings.password} onChange={(e) => handleSdSettingChange('password', e.target.value)} autoComplete="new-password" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="sd-connect-timeout">Espera de conexión (s)</Label>
+                <Input id="sd-connect-timeout" type="number" min={1} value={sdSettings.connectTimeoutSeconds} onChange={(e) => handleSdSettingChange('connectTimeoutSeconds', Number(e.target.value))} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sd-generation-timeout">Espera de generación (s)</Label>
+                <Input id="sd-generation-timeout" type="number" min={1} value={sdSettings.generationTimeoutSeconds} onChange={(e) => handleSdSettingChange('generationTimeoutSeconds', Number(e.target.value))} />
+              </div>
+            </div>
+          </CardContent>
+          <CardFooter className="flex gap-2">
+            <Button variant="outline" onClick={handleTestSdConnection} disabled={isTestingSd} className="flex-1">
+              {isTestingSd ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlugZap className="mr-2 h-4 w-4" />}
+              Probar Conexión
+            </Button>
+            <Button onClick={handleSaveSdSettings} className="flex-1">
+              <Save className="mr-2 h-4 w-4" />
+              Guardar
+            </Button>
+          </CardFooter>
+        </Card>
+
+        <ComfyUiSettingsCard />
+
+        <ImageProvidersStatus />
+
+        <CollectionsManager />
+
+        <StylePresetsManager />
+
+        <CulturesManager />
+
+        <PromptTemplatesEditor />
+
+        <LibraryIntegrityCard />
+
+        <MigrationsHistoryCard />
+
         <Card className="shadow-lg border-destructive/50">
           <CardHeader>
             <CardTitle className="flex items-center text-destructive"><Trash2 className="mr-2 h-5 w-5" /> Borrar Todos los Datos</CardTitle>
-            <CardDescription>Elimina permanentemente toda tu galería de este navegador. Esta acción no se puede deshacer. Exporta tus datos primero si quieres una copia de seguridad.</CardDescription>
+            <CardDescription>Vacía toda tu galería de este navegador. Puedes mover las creaciones a la papelera para poder restaurarlas, o borrarlo todo (papelera incluida) de forma permanente. Exporta tus datos primero si quieres una copia de seguridad.</CardDescription>
           </CardHeader>
           <CardFooter>
             <AlertDialog>
@@ -144,13 +244,16 @@ export default function SettingsPage() {
                 <AlertDialogHeader>
                   <AlertDialogTitle>¿Estás completamente seguro?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    Esto eliminará permanentemente todas tus creaciones, imágenes y salidas de IA almacenadas en este navegador. Esta acción es irreversible.
+                    Mover todo a la papelera vacía la galería y los lotes, pero conserva tus creaciones durante el periodo de retención de la papelera. Borrar permanentemente elimina todas tus creaciones, imágenes y salidas de IA, también las de la papelera, y es irreversible.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
                   <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                  <AlertDialogAction onClick={handleClearAll} className="bg-destructive hover:bg-destructive/90">
-                    Sí, borrar todo
+                  <AlertDialogAction onClick={() => handleClearAll(true)}>
+                    Mover todo a la papelera
+                  </AlertDialogAction>
+                  <AlertDialogAction onClick={() => handleClearAll(false)} className="bg-destructive hover:bg-destructive/90">
+                    Borrar permanentemente
                   </AlertDialogAction>
                 </AlertDialogFooter>
               </AlertDialogContent>
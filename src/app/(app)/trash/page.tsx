@@ -0,0 +1,262 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format, formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import NextImage from 'next/image';
+import { Trash2, Loader2, Info, RotateCcw, Image as ImageIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useHistory } from '@/contexts/HistoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { db } from '@/lib/db';
+import {
+  deleteFromTrash,
+  emptyTrash,
+  getTrashExpiry,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+  restoreFromTrash,
+  saveTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+} from '@/lib/trash';
+import type { Creation, TrashedCreation } from '@/lib/types';
+
+const TYPE_LABELS: Record<Creation['type'], string> = {
+  generated: 'Generada',
+  analyzed: 'Analizada',
+  reimagined: 'Reimaginada',
+};
+
+const retentionLabel = (days: number) => days === 0 ? 'Hasta vaciarla' : `${days} días`;
+
+const TrashThumbnail: React.FC<{ imageId?: string; name: string }> = ({ imageId, name }) => {
+  const { getThumbnail } = useHistory();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    if (imageId) getThumbnail(imageId).then(url => { if (isActive) setImageUrl(url ?? null); });
+    return () => { isActive = false; };
+  }, [imageId, getThumbnail]);
+
+  if (!imageUrl) {
+    return <div className="w-16 h-16 flex items-center justify-center bg-muted/50 rounded-md flex-shrink-0"><ImageIcon className="h-6 w-6 text-muted-foreground" /></div>;
+  }
+  return (
+    <div className="w-16 h-16 relative flex-shrink-0">
+      <NextImage src={imageUrl} alt={`Miniatura de: ${name}`} fill className="rounded-md object-cover" />
+    </div>
+  );
+};
+
+export default function TrashPage() {
+  const { toast } = useToast();
+  const items = useLiveQuery(() => db.trash.orderBy('deletedAt').reverse().toArray(), []);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  const handleRetentionChange = async (value: string) => {
+    const days = saveTrashRetentionDays(Number(value));
+    setRetentionDays(days);
+    try {
+      const purged = await purgeExpiredTrash(days);
+      if (purged > 0) toast({ title: "Papelera Actualizada", description: `Se eliminaron ${purged} creaciones que superaban el nuevo plazo.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Purgar", description: error.message });
+    }
+  };
+
+  const handleRestore = async (item: TrashedCreation) => {
+    setBusyId(item.id);
+    try {
+      const restored = await restoreFromTrash([item.id]);
+      toast(restored > 0
+        ? { title: "Creación Restaurada", description: `"${item.name}" ha vuelto a tu galería.` }
+        : { variant: "destructive", title: "No se pudo Restaurar", description: "Ya existe una creación con el mismo identificador en la galería." });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Restaurar", description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (item: TrashedCreation) => {
+    setBusyId(item.id);
+    try {
+      await deleteFromTrash([item.id]);
+      toast({ title: "Eliminada Permanentemente", description: `"${item.name}" y sus imágenes se han borrado.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Eliminar", description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestoreAll = async () => {
+    if (!items) return;
+    setIsEmptying(true);
+    try {
+      const restored = await restoreFromTrash(items.map(item => item.id));
+      toast({ title: "Papelera Restaurada", description: `${restored} creaciones han vuelto a tu galería.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Restaurar", description: error.message });
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  const handleEmpty = async () => {
+    setIsEmptying(true);
+    try {
+      const deleted = await emptyTrash();
+      toast({ title: "Papelera Vaciada", description: `Se eliminaron ${deleted} creaciones de forma permanente.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Vaciar", description: error.message });
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  if (!items) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+        <span className="ml-4 text-xl text-muted-foreground">Cargando Papelera...</span>
+      </div>
+    );
+  }
+
+  const isBusy = isEmptying || busyId !== null;
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="container mx-auto p-4 md:p-8">
+        <header className="mb-8">
+          <div className="flex items-center gap-4">
+            <h1 className="text-4xl font-headline font-bold text-primary flex items-center">
+              <Trash2 className="mr-3 h-10 w-10" />
+              Papelera
+            </h1>
+            <Badge variant="secondary" className="text-lg">{items.length}</Badge>
+          </div>
+          <p className="text-muted-foreground mt-2 text-lg">
+            Las creaciones eliminadas se guardan aquí, con sus imágenes y salidas, hasta que vacíes la papelera o pase el plazo de retención.
+          </p>
+        </header>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row gap-4 justify-between sm:items-end">
+              <div className="space-y-1">
+                <Label>Conservar durante</Label>
+                <Select value={String(retentionDays)} onValueChange={handleRetentionChange} disabled={isBusy}>
+                  <SelectTrigger className="w-full sm:w-[200px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TRASH_RETENTION_OPTIONS.map(days => <SelectItem key={days} value={String(days)}>{retentionLabel(days)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2 flex-wrap">
+                <Button variant="outline" onClick={handleRestoreAll} disabled={isBusy || items.length === 0}>
+                  <RotateCcw className="mr-2 h-4 w-4" /> Restaurar Todo
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" disabled={isBusy || items.length === 0}>
+                      {isEmptying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                      Vaciar Papelera
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>¿Vaciar la papelera?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Se eliminarán permanentemente {items.length} creaciones con sus imágenes y salidas de IA. Esta acción no se puede deshacer.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleEmpty} className="bg-destructive hover:bg-destructive/90">
+                        Vaciar
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {items.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Info className="h-12 w-12 mx-auto mb-4" />
+                <CardTitle className="text-xl">La Papelera está Vacía</CardTitle>
+                <CardDescription className="mt-2">Las creaciones que elimines de la galería aparecerán aquí.</CardDescription>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {items.map(item => {
+                  const expiry = getTrashExpiry(item, retentionDays);
+                  return (
+                    <div key={item.id} className="flex items-center gap-4 p-2 bg-muted/30 rounded-md">
+                      <TrashThumbnail imageId={item.imageId} name={item.name} />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{item.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {TYPE_LABELS[item.type]} · Eliminada el {format(new Date(item.deletedAt), "d MMM yyyy, HH:mm", { locale: es })}
+                          {expiry !== undefined && ` · se borrará ${formatDistanceToNow(new Date(expiry), { locale: es, addSuffix: true })}`}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => handleRestore(item)} disabled={isBusy}>
+                        {busyId === item.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                        Restaurar
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="icon" variant="ghost" className="text-destructive hover:bg-destructive/10" disabled={isBusy} title="Eliminar permanentemente">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>¿Eliminar permanentemente?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{item.name}" y sus imágenes se borrarán para siempre. Esta acción no se puede deshacer.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(item)} className="bg-destructive hover:bg-destructive/90">
+                              Eliminar
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Loader2, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useHistory } from '@/contexts/HistoryContext';
+import { useToast } from '@/hooks/use-toast';
+import type { OrganizationChanges } from '@/lib/types';
+
+interface BulkOrganizeDialogProps {
+  selectedIds: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_COLLECTION = 'none';
+const NEW_COLLECTION = 'new';
+
+const splitTags = (value: string) => value.split(',').map(t => t.trim()).filter(Boolean);
+
+export function BulkOrganizeDialog({ selectedIds, open, onOpenChange }: BulkOrganizeDialogProps) {
+  const { collections, updateCreationsOrganization, addCollection } = useHistory();
+  const { toast } = useToast();
+  const [tagsToAdd, setTagsToAdd] = useState('');
+  const [tagsToRemove, setTagsToRemove] = useState('');
+  const [collectionToAdd, setCollectionToAdd] = useState(NO_COLLECTION);
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [collectionToRemove, setCollectionToRemove] = useState(NO_COLLECTION);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setTagsToAdd('');
+    setTagsToRemove('');
+    setCollectionToAdd(NO_COLLECTION);
+    setNewCollectionName('');
+    setCollectionToRemove(NO_COLLECTION);
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    try {
+      const changes: OrganizationChanges = {
+        addTags: splitTags(tagsToAdd),
+        removeTags: splitTags(tagsToRemove),
+        removeCollectionIds: collectionToRemove !== NO_COLLECTION ? [collectionToRemove] : [],
+      };
+      if (collectionToAdd === NEW_COLLECTION) {
+        const collection = await addCollection(newCollectionName);
+        if (!collection) throw new Error("No se pudo crear la colección.");
+        changes.addCollectionIds = [collection.id];
+      } else if (collectionToAdd !== NO_COLLECTION) {
+        changes.addCollectionIds = [collectionToAdd];
+      }
+
+      await updateCreationsOrganization(selectedIds, changes);
+      toast({ title: "Organización Actualizada", description: `Se actualizaron ${selectedIds.length} creaciones.` });
+      resetForm();
+      onOpenChange(false);
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error al Organizar", description: err.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hasChanges = tagsToAdd.trim() || tagsToRemove.trim() || collectionToRemove !== NO_COLLECTION ||
+    (collectionToAdd === NEW_COLLECTION ? !!newCollectionName.trim() : collectionToAdd !== NO_COLLECTION);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Tag className="h-5 w-5" /> Organizar Selección</DialogTitle>
+          <DialogDescription>Los cambios se aplicarán a las {selectedIds.length} creaciones seleccionadas.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="bulk-add-tags">Añadir etiquetas</Label>
+            <Input id="bulk-add-tags" value={tagsToAdd} onChange={(e) => setTagsToAdd(e.target.value)} placeholder="ej: portada, revisar" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bulk-remove-tags">Quitar etiquetas</Label>
+            <Input id="bulk-remove-tags" value={tagsToRemove} onChange={(e) => setTagsToRemove(e.target.value)} placeholder="Separa varias con comas" />
+          </div>
+          <div className="space-y-1">
+            <Label>Añadir a colección</Label>
+            <Select value={collectionToAdd} onValueChange={setCollectionToAdd}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLLECTION}>Ninguna</SelectItem>
+                <SelectItem value={NEW_COLLECTION}>Nueva colección...</SelectItem>
+                {collections.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {collectionToAdd === NEW_COLLECTION && (
+              <Input value={newCollectionName} onChange={(e) => setNewCollectionName(e.target.value)} placeholder="Nombre de la nueva colección" />
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label>Quitar de colección</Label>
+            <Select value={collectionToRemove} onValueChange={setCollectionToRemove}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLLECTION}>Ninguna</SelectItem>
+                {collections.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancelar</Button>
+          <Button onClick={handleApply} disabled={isSaving || !hasChanges}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Aplicar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
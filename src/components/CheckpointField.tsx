@@ -0,0 +1,53 @@
+"use client";
+
+import React from 'react';
+import type { Control } from 'react-hook-form';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useImageProviderOptions } from '@/hooks/use-image-provider-options';
+import type { ImageProviderId } from '@/lib/types';
+
+interface CheckpointFieldProps {
+  control: Control<any>;
+  providerId: ImageProviderId;
+}
+
+// Checkpoint picker for providers with model selection. Falls back to free text when the
+// provider's model list can't be loaded, so a name can still be typed in while it's offline.
+export function CheckpointField({ control, providerId }: CheckpointFieldProps) {
+  const { options, loading } = useImageProviderOptions(providerId);
+
+  return (
+    <FormField
+      control={control}
+      name="checkpoint"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Checkpoint Base</FormLabel>
+          {options.models.length > 0 ? (
+            <Select onValueChange={field.onChange} value={field.value || undefined}>
+              <FormControl>
+                <SelectTrigger><SelectValue placeholder="Selecciona un checkpoint" /></SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {/* Keep a value the provider no longer lists selectable, e.g. one typed in earlier */}
+                {field.value && !options.models.some(model => model.id === field.value) && (
+                  <SelectItem value={field.value}>{field.value}</SelectItem>
+                )}
+                {options.models.map(model => (
+                  <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <FormControl>
+              <Input placeholder={loading ? "Cargando checkpoints..." : "Nombre del checkpoint"} {...field} />
+            </FormControl>
+          )}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import React, { useState } from 'react';
+import { FolderOpen, Edit3, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useHistory } from '@/contexts/HistoryContext';
+import { useToast } from '@/hooks/use-toast';
+
+// Settings card to rename or delete collections. Creations are assigned from the gallery and data view.
+export function CollectionsManager() {
+  const { collections, creations, renameCollection, deleteCollection } = useHistory();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const countFor = (collectionId: string) => creations.filter(c => c.collectionIds?.includes(collectionId)).length;
+
+  const handleSave = async () => {
+    if (!editingId || !editingName.trim()) return;
+    await renameCollection(editingId, editingName);
+    setEditingId(null);
+    toast({ title: "Colección Renombrada", description: `Ahora se llama "${editingName.trim()}".` });
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    await deleteCollection(id);
+    toast({ title: "Colección Eliminada", description: `Se eliminó "${name}". Sus creaciones se conservan.` });
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><FolderOpen className="mr-2 h-5 w-5 text-primary" /> Colecciones</CardTitle>
+        <CardDescription>Renombra o elimina colecciones. Al eliminar una colección sus creaciones no se borran.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {collections.length === 0 && (
+          <p className="text-sm text-muted-foreground">Aún no hay colecciones. Créalas desde el detalle de una creación en la galería o desde la Vista de Datos.</p>
+        )}
+        {collections.map(collection => (
+          <div key={collection.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded-md">
+            {editingId === collection.id ? (
+              <>
+                <Input value={editingName} onChange={(e) => setEditingName(e.target.value)} className="h-8" autoFocus />
+                <Button size="icon" className="h-8 w-8" onClick={handleSave} disabled={!editingName.trim()}><Save className="h-4 w-4" /></Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}><X className="h-4 w-4" /></Button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 text-sm font-medium">{collection.name}</span>
+                <Badge variant="secondary">{countFor(collection.id)}</Badge>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => { setEditingId(collection.id); setEditingName(collection.name); }} title="Renombrar"><Edit3 className="h-4 w-4" /></Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => handleDelete(collection.id, collection.name)} title="Eliminar"><Trash2 className="h-4 w-4" /></Button>
+              </>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Workflow, Loader2, PlugZap, Save, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { useToast } from '@/hooks/use-toast';
+import {
+  COMFY_WORKFLOW_PLACEHOLDERS,
+  DEFAULT_COMFY_IMG2IMG_WORKFLOW,
+  DEFAULT_COMFY_SETTINGS,
+  DEFAULT_COMFY_TXT2IMG_WORKFLOW,
+  getComfySettings,
+  saveComfySettings,
+  testComfyConnection,
+  type ComfyUiSettings,
+} from '@/lib/comfyui';
+
+const WORKFLOW_FIELDS = [
+  { field: 'txt2imgWorkflow', label: 'Flujo de texto a imagen', fallback: DEFAULT_COMFY_TXT2IMG_WORKFLOW },
+  { field: 'img2imgWorkflow', label: 'Flujo de imagen a imagen (Reimaginar)', fallback: DEFAULT_COMFY_IMG2IMG_WORKFLOW },
+] as const;
+
+// Settings card for the ComfyUI provider: connection values and optional custom workflow templates.
+export function ComfyUiSettingsCard() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<ComfyUiSettings>(DEFAULT_COMFY_SETTINGS);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    setSettings(getComfySettings());
+  }, []);
+
+  const handleChange = <K extends keyof ComfyUiSettings>(field: K, value: ComfyUiSettings[K]) => {
+    setSettings(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveComfySettings(settings);
+      setSettings(saved);
+      toast({ title: "Ajustes Guardados", description: `ComfyUI se conectará a ${saved.baseUrl}.` });
+    } catch (saveError: any) {
+      toast({ variant: "destructive", title: "Plantilla no Válida", description: saveError.message });
+    }
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const { device, version } = await testComfyConnection(settings);
+      toast({ title: "Conexión Exitosa", description: `ComfyUI respondió correctamente${version ? ` (v${version})` : ''}${device ? ` · ${device}` : ''}.` });
+    } catch (testError: any) {
+      toast({ variant: "destructive", title: "Conexión Fallida", description: testError.message || "No se pudo conectar con ComfyUI." });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><Workflow className="mr-2 h-5 w-5 text-primary" /> ComfyUI</CardTitle>
+        <CardDescription>Configura la conexión con ComfyUI (ejecútalo con --enable-cors-header). Los flujos se envían en formato API.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="comfy-base-url">URL Base</Label>
+          <Input id="comfy-base-url" value={settings.baseUrl} onChange={(e) => handleChange('baseUrl', e.target.value)} placeholder={DEFAULT_COMFY_SETTINGS.baseUrl} />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="comfy-connect-timeout">Conexión (s)</Label>
+            <Input id="comfy-connect-timeout" type="number" min={1} value={settings.connectTimeoutSeconds} onChange={(e) => handleChange('connectTimeoutSeconds', Number(e.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="comfy-generation-timeout">Generación (s)</Label>
+            <Input id="comfy-generation-timeout" type="number" min={1} value={settings.generationTimeoutSeconds} onChange={(e) => handleChange('generationTimeoutSeconds', Number(e.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="comfy-poll-interval">Sondeo (s)</Label>
+            <Input id="comfy-poll-interval" type="number" min={0.2} step={0.1} value={settings.pollIntervalSeconds} onChange={(e) => handleChange('pollIntervalSeconds', Number(e.target.value))} />
+          </div>
+        </div>
+        <Accordion type="single" collapsible className="border rounded-md px-3">
+          <AccordionItem value="comfy-workflows" className="border-b-0">
+            <AccordionTrigger className="text-sm">Plantillas de flujo</AccordionTrigger>
+            <AccordionContent className="space-y-4 px-1">
+              <p className="text-xs text-muted-foreground">
+                Déjalas vacías para usar las integradas. Marcadores disponibles: {COMFY_WORKFLOW_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}.
+              </p>
+              {WORKFLOW_FIELDS.map(({ field, label, fallback }) => (
+                <div key={field} className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor={`comfy-${field}`}>{label}</Label>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleChange(field, '')} disabled={!settings[field]}>
+                      <RotateCcw className="mr-1 h-3 w-3" /> Usar integrada
+                    </Button>
+                  </div>
+                  <Textarea
+                    id={`comfy-${field}`}
+                    rows={6}
+                    className="font-mono text-xs"
+                    value={settings[field]}
+                    onChange={(e) => handleChange(field, e.target.value)}
+                    placeholder={fallback}
+                  />
+                </div>
+              ))}
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Button variant="outline" onClick={handleTest} disabled={isTesting} className="flex-1">
+          {isTesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlugZap className="mr-2 h-4 w-4" />}
+          Probar Conexión
+        </Button>
+        <Button onClick={handleSave} className="flex-1">
+          <Save className="mr-2 h-4 w-4" />
+          Guardar
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
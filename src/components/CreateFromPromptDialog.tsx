@@ -17,11 +17,18 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from '@/components/ui/dialog';
 import { useHistory } from '@/contexts/HistoryContext';
 import { useToast } from '@/hooks/use-toast';
-import { generateMythImageAction } from '@/lib/actions';
 import type { GeneratedParams } from '@/lib/types';
-import { MYTHOLOGICAL_CULTURES, IMAGE_STYLES, ASPECT_RATIOS, IMAGE_QUALITIES, IMAGE_PROVIDERS } from '@/lib/types';
+import { ASPECT_RATIOS, IMAGE_QUALITIES } from '@/lib/types';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { mapAspectRatioToDimensions, mapQualityToSteps } from '@/lib/utils';
+import { CheckpointField } from '@/components/CheckpointField';
+import { StylePresetField, applyStylePresetToForm } from '@/components/StylePresetField';
+import { CultureField, applyCultureToForm } from '@/components/CultureField';
+import { useCultures } from '@/contexts/CulturesContext';
+import { useStylePresets } from '@/contexts/StylePresetsContext';
+import { DEFAULT_STYLE_NAME, findStylePresetByName, toStylePromptParams } from '@/lib/style-presets';
+import { CUSTOM_CULTURE_NAME, DEFAULT_CULTURE_NAME, findCulture, toCulturePromptParams } from '@/lib/cultures';
+import { pickSdGenerationParams } from '@/lib/stable-diffusion';
+import { applyProviderResult, findImageProvider, getImageProvider, listImageProviders, DEFAULT_IMAGE_PROVIDER_ID } from '@/lib/image-providers';
 
 interface CreateFromPromptDialogProps {
     open: boolean;
@@ -38,50 +45,55 @@ const createMythSchema = z.object({
   style: z.string().min(1, "El estilo visual es obligatorio."),
   aspectRatio: z.string().min(1, "La relación de aspecto es obligatoria."),
   imageQuality: z.string().min(1, "La calidad de imagen es obligatoria."),
-  provider: z.enum(['google-ai', 'stable-diffusion']).default('google-ai'),
+  provider: z.string().min(1, "El motor de generación es obligatorio."),
   checkpoint: z.string().optional(),
 });
 
 type CreateMythFormData = z.infer<typeof createMythSchema>;
 
+const DIALOG_NEGATIVE_PROMPT = "ugly, tiling, poorly drawn hands, poorly drawn feet, poorly drawn face, out of frame, extra limbs, disfigured, deformed, body out of frame, bad anatomy, watermark, signature, cut off, low contrast, underexposed, overexposed, bad art, beginner, amateur, distorted face, blurry, draft, grainy";
+
 export function CreateFromPromptDialog({ open, onOpenChange, prompt }: CreateFromPromptDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [generatedPrompt, setGeneratedPrompt] = useState<string | null>(null);
   const { addCreation } = useHistory();
   const { toast } = useToast();
+  const { presets: stylePresets } = useStylePresets();
+  const { cultures } = useCultures();
 
   const form = useForm<CreateMythFormData>({
     resolver: zodResolver(createMythSchema),
     defaultValues: {
       name: '',
-      culture: MYTHOLOGICAL_CULTURES[0],
+      culture: DEFAULT_CULTURE_NAME,
       customCultureDetails: '',
       entity: '',
       details: prompt || '',
-      style: IMAGE_STYLES[0],
+      style: DEFAULT_STYLE_NAME,
       aspectRatio: ASPECT_RATIOS[0],
       imageQuality: IMAGE_QUALITIES[0],
-      provider: 'google-ai',
+      provider: DEFAULT_IMAGE_PROVIDER_ID,
       checkpoint: '',
     },
   });
   
   const selectedCulture = form.watch('culture');
   const selectedProvider = form.watch('provider');
+  const selectedProviderCapabilities = findImageProvider(selectedProvider)?.capabilities;
 
   useEffect(() => {
     // Reset form and results when dialog is re-opened with a new prompt
     form.reset({
       name: '',
-      culture: MYTHOLOGICAL_CULTURES[0],
+      culture: DEFAULT_CULTURE_NAME,
       customCultureDetails: '',
       entity: '',
       details: prompt,
-      style: IMAGE_STYLES[0],
+      style: DEFAULT_STYLE_NAME,
       aspectRatio: ASPECT_RATIOS[0],
       imageQuality: IMAGE_QUALITIES[0],
-      provider: 'google-ai',
+      provider: DEFAULT_IMAGE_PROVIDER_ID,
       checkpoint: '',
     });
     setGeneratedImage(null);
@@ -89,103 +101,42 @@ export function CreateFromPromptDialog({ open, onOpenChange, prompt }: CreateFro
   }, [prompt, form, open]);
 
   useEffect(() => {
-    const fetchSdCheckpoint = async () => {
-      if (open && selectedProvider === 'stable-diffusion') {
-          try {
-              const response = await fetch('http://127.0.0.1:7860/sdapi/v1/options', {
-                  method: 'GET',
-                  headers: { 'Content-Type': 'application/json' },
-                  mode: 'cors',
-              });
-              if (response.ok) {
-                  const options = await response.json();
-                  if (options.sd_model_checkpoint) {
-                      form.setValue('checkpoint', options.sd_model_checkpoint);
-                      toast({ title: "Checkpoint Detectado", description: `Se ha cargado automáticamente el checkpoint: ${options.sd_model_checkpoint}`, duration: 3000 });
-                  }
-              }
-          } catch (error) {
-              console.warn("No se pudo conectar a la API de Stable Diffusion para obtener el checkpoint. Se requiere entrada manual.");
+    const fetchCurrentModel = async () => {
+      const provider = findImageProvider(selectedProvider);
+      if (open && provider?.capabilities.modelSelection) {
+          const checkpoint = await provider.getCurrentModel();
+          if (checkpoint) {
+              form.setValue('checkpoint', checkpoint);
+              toast({ title: "Checkpoint Detectado", description: `Se ha cargado automáticamente el checkpoint: ${checkpoint}`, duration: 3000 });
           }
       }
     };
-    fetchSdCheckpoint();
+    fetchCurrentModel();
   }, [selectedProvider, form, toast, open]);
 
-  async function generateWithStableDiffusion(prompt: string, aspectRatio: string, imageQuality: string, checkpoint?: string) {
-    const apiUrl = 'http://127.0.0.1:7860';
-    const dimensions = mapAspectRatioToDimensions(aspectRatio);
-    const steps = mapQualityToSteps(imageQuality);
-
-    const payload = {
-        prompt,
-        negative_prompt: "ugly, tiling, poorly drawn hands, poorly drawn feet, poorly drawn face, out of frame, extra limbs, disfigured, deformed, body out of frame, bad anatomy, watermark, signature, cut off, low contrast, underexposed, overexposed, bad art, beginner, amateur, distorted face, blurry, draft, grainy",
-        seed: -1,
-        sampler_name: "DPM++ 2M Karras",
-        batch_size: 1,
-        n_iter: 1,
-        steps: steps,
-        cfg_scale: 7,
-        width: dimensions.width,
-        height: dimensions.height,
-        restore_faces: true,
-        override_settings: checkpoint ? { sd_model_checkpoint: checkpoint } : {},
-    };
-
-    try {
-        const response = await fetch(`${apiUrl}/sdapi/v1/txt2img`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload),
-            mode: 'cors',
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Error de la API de Stable Diffusion: ${response.status} - ${errorText}`);
-        }
-        
-        const result = await response.json();
-        
-        if (!result.images || result.images.length === 0) {
-            throw new Error("La API de Stable Diffusion no devolvió ninguna imagen.");
-        }
-
-        return { imageUrl: `data:image/png;base64,${result.images[0]}`, prompt };
-    } catch (e: any) {
-        if (e.message.includes('Failed to fetch')) {
-             throw new Error(`Error de red o CORS. Asegúrate de que Stable Diffusion Web UI se ejecuta con '--cors-allow-origins="*"' y que puedes acceder a ${apiUrl}/docs`);
-        }
-        throw e;
-    }
-  }
-
   async function onSubmit(data: CreateMythFormData) {
     setIsLoading(true);
     setGeneratedImage(null);
     setGeneratedPrompt(null);
 
-    const aiInputParams: GeneratedParams = {
-      culture: data.culture === 'Personalizada' ? data.customCultureDetails || 'Personalizada' : data.culture,
+    let aiInputParams: GeneratedParams = {
+      culture: data.culture === CUSTOM_CULTURE_NAME ? data.customCultureDetails || CUSTOM_CULTURE_NAME : data.culture,
       entity: data.entity,
       details: data.details,
       style: data.style,
+      ...toStylePromptParams(findStylePresetByName(stylePresets, data.style)),
+      ...toCulturePromptParams(findCulture(cultures, data.culture)),
       aspectRatio: data.aspectRatio,
       imageQuality: data.imageQuality,
       provider: data.provider,
       checkpoint: data.checkpoint,
+      ...(getImageProvider(data.provider).capabilities.advancedParams ? pickSdGenerationParams({ negativePrompt: DIALOG_NEGATIVE_PROMPT }) : {}),
     };
 
     try {
-      let result;
-      
-      if (data.provider === 'stable-diffusion') {
-        const fullPrompt = `A visually rich image in the style of ${aiInputParams.style}. The primary subject is the entity '${aiInputParams.entity}' from ${aiInputParams.culture} mythology. Key scene details include: ${aiInputParams.details}. The desired image quality is ${aiInputParams.imageQuality}.`;
-        result = await generateWithStableDiffusion(fullPrompt, aiInputParams.aspectRatio, aiInputParams.imageQuality, aiInputParams.checkpoint);
-      } else {
-        result = await generateMythImageAction(aiInputParams);
-      }
-      
+      const [result] = await getImageProvider(aiInputParams.provider).txt2img({ params: aiInputParams });
+      aiInputParams = applyProviderResult(aiInputParams, result);
+
       setGeneratedImage(result.imageUrl);
       setGeneratedPrompt(result.prompt);
 
@@ -239,21 +190,8 @@ export function CreateFromPromptDialog({ open, onOpenChange, prompt }: CreateFro
                     )}
                   />
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="culture"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Cultura Mitológica</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl><SelectTrigger><SelectValue placeholder="Selecciona una cultura" /></SelectTrigger></FormControl>
-                            <SelectContent>{MYTHOLOGICAL_CULTURES.map(c => (<SelectItem key={c} value={c}>{c}</SelectItem>))}</SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    {selectedCulture === 'Personalizada' && (
+                    <CultureField control={form.control} name="culture" label="Cultura Mitológica" allowCustom onCultureSelected={(culture) => applyCultureToForm(form.setValue, culture, 'style')} />
+                    {selectedCulture === CUSTOM_CULTURE_NAME && (
                       <FormField
                         control={form.control}
                         name="customCultureDetails"
@@ -290,20 +228,7 @@ export function CreateFromPromptDialog({ open, onOpenChange, prompt }: CreateFro
                     )}
                   />
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="style"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Estilo Visual</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl><SelectTrigger><SelectValue placeholder="Selecciona un estilo" /></SelectTrigger></FormControl>
-                            <SelectContent>{IMAGE_STYLES.map(s => (<SelectItem key={s} value={s}>{s}</SelectItem>))}</SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <StylePresetField control={form.control} name="style" label="Estilo Visual" onPresetSelected={(preset) => applyStylePresetToForm(form.setValue, preset)} />
                      <FormField
                       control={form.control}
                       name="aspectRatio"
@@ -345,7 +270,7 @@ export function CreateFromPromptDialog({ open, onOpenChange, prompt }: CreateFro
                                   <SelectTrigger><SelectValue placeholder="Selecciona un motor" /></SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                  {IMAGE_PROVIDERS.map(provider => (
+                                  {listImageProviders().map(provider => (
                                     <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
                                   ))}
                                 </SelectContent>
@@ -355,21 +280,7 @@ export function CreateFromPromptDialog({ open, onOpenChange, prompt }: CreateFro
                           )}
                         />
                   </div>
-                   {selectedProvider === 'stable-diffusion' && (
-                    <FormField
-                      control={form.control}
-                      name="checkpoint"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Checkpoint Base (automático o manual)</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Detectando checkpoint actual..." {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  )}
+                   {selectedProviderCapabilities?.modelSelection && <CheckpointField control={form.control} providerId={selectedProvider} />}
                   <Button type="submit" disabled={isLoading} className="w-full">
                     {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
                     Tejer Mi Mito
@@ -0,0 +1,61 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ClipboardList } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useHistory } from '@/contexts/HistoryContext';
+import { CHANGE_SOURCE_LABELS, formatChangeValue, getChangeFieldLabel } from '@/lib/change-log';
+import type { Creation, CreationChange } from '@/lib/types';
+
+const ENTRIES_SHOWN = 10;
+
+// Audit trail shown in the gallery detail modal, newest change first.
+export function CreationChangeLog({ creation }: { creation: Creation }) {
+  const { creations, collections } = useHistory();
+  const [showAll, setShowAll] = useState(false);
+
+  // The modal keeps a snapshot of the creation; read the log from the live list instead.
+  const liveCreation = creations.find(c => c.id === creation.id) ?? creation;
+  const changes = [...(liveCreation.changeLog ?? [])].reverse();
+
+  if (changes.length === 0) return null;
+
+  const collectionNames = new Map(collections.map(collection => [collection.id, collection.name]));
+  const formatValue = (change: CreationChange, value: unknown): string =>
+    change.field === 'collectionIds' && Array.isArray(value)
+      ? formatChangeValue(change.field, value.map(id => collectionNames.get(id) ?? id))
+      : formatChangeValue(change.field, value);
+
+  const shown = showAll ? changes : changes.slice(0, ENTRIES_SHOWN);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold text-lg text-primary flex items-center gap-2">
+        <ClipboardList className="h-5 w-5" /> Registro de Cambios
+        <Badge variant="secondary">{changes.length}</Badge>
+      </h3>
+      <div className="space-y-1">
+        {shown.map((change, index) => (
+          <div key={`${change.timestamp}-${change.field}-${index}`} className="p-2 bg-muted/50 rounded-md text-xs space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium text-sm">{getChangeFieldLabel(change.field)}</span>
+              <Badge variant="outline">{CHANGE_SOURCE_LABELS[change.source] ?? change.source}</Badge>
+              <span className="text-muted-foreground ml-auto">{format(new Date(change.timestamp), "d MMM yyyy, HH:mm", { locale: es })}</span>
+            </div>
+            <p className="text-muted-foreground break-words">
+              <span className="line-through">{formatValue(change, change.oldValue)}</span> → <span className="text-foreground">{formatValue(change, change.newValue)}</span>
+            </p>
+          </div>
+        ))}
+      </div>
+      {changes.length > ENTRIES_SHOWN && (
+        <Button variant="ghost" size="sm" onClick={() => setShowAll(prev => !prev)}>
+          {showAll ? 'Ver menos' : `Ver los ${changes.length} cambios`}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Tag, FolderPlus, X, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useHistory } from '@/contexts/HistoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import type { Creation } from '@/lib/types';
+
+// Tag and collection editor shown in the gallery detail modal.
+export function CreationOrganizer({ creation }: { creation: Creation }) {
+  const { creations, collections, updateCreationsOrganization, addCollection } = useHistory();
+  const { toast } = useToast();
+  const [newTag, setNewTag] = useState('');
+  const [newCollectionName, setNewCollectionName] = useState('');
+
+  // The modal keeps a snapshot of the creation; read tags/collections from the live list instead.
+  const liveCreation = creations.find(c => c.id === creation.id) ?? creation;
+  const tags = liveCreation.tags ?? [];
+  const collectionIds = liveCreation.collectionIds ?? [];
+
+  const applyChanges = async (changes: Parameters<typeof updateCreationsOrganization>[1]) => {
+    try {
+      await updateCreationsOrganization([creation.id], changes);
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error al Organizar", description: err.message });
+    }
+  };
+
+  const handleAddTag = async () => {
+    const tagsToAdd = newTag.split(',').map(t => t.trim()).filter(Boolean);
+    if (tagsToAdd.length === 0) return;
+    await applyChanges({ addTags: tagsToAdd });
+    setNewTag('');
+  };
+
+  const handleToggleCollection = (collectionId: string) => {
+    const isMember = collectionIds.includes(collectionId);
+    applyChanges(isMember ? { removeCollectionIds: [collectionId] } : { addCollectionIds: [collectionId] });
+  };
+
+  const handleCreateCollection = async () => {
+    if (!newCollectionName.trim()) return;
+    const collection = await addCollection(newCollectionName);
+    if (collection) {
+      await applyChanges({ addCollectionIds: [collection.id] });
+      setNewCollectionName('');
+    } else {
+      toast({ variant: "destructive", title: "Error", description: "No se pudo crear la colección." });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold text-lg text-primary flex items-center gap-2"><Tag className="h-5 w-5" /> Etiquetas y Colecciones</h3>
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {tags.length === 0 && <p className="text-xs text-muted-foreground">Sin etiquetas.</p>}
+          {tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button type="button" onClick={() => applyChanges({ removeTags: [tag] })} aria-label={`Quitar etiqueta ${tag}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddTag(); } }}
+            placeholder="Nueva etiqueta (separa varias con comas)"
+            className="h-8"
+          />
+          <Button size="sm" variant="outline" onClick={handleAddTag} disabled={!newTag.trim()}><Plus className="h-4 w-4" /></Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {collections.length === 0 && <p className="text-xs text-muted-foreground">Aún no hay colecciones.</p>}
+          {collections.map(collection => {
+            const isMember = collectionIds.includes(collection.id);
+            return (
+              <Badge
+                key={collection.id}
+                variant={isMember ? "default" : "outline"}
+                className={cn("cursor-pointer", !isMember && "text-muted-foreground")}
+                onClick={() => handleToggleCollection(collection.id)}
+              >
+                {collection.name}
+              </Badge>
+            );
+          })}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={newCollectionName}
+            onChange={(e) => setNewCollectionName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleCreateCollection(); } }}
+            placeholder="Nueva colección"
+            className="h-8"
+          />
+          <Button size="sm" variant="outline" onClick={handleCreateCollection} disabled={!newCollectionName.trim()}><FolderPlus className="h-4 w-4" /></Button>
+        </div>
+      </div>
+    </div>
+  );
+}
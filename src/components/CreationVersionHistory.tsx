@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { History, Loader2, RotateCcw, Columns2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useHistory } from '@/contexts/HistoryContext';
+import { formatParamValue, PARAM_LABELS } from '@/lib/change-log';
+import type { Creation, CreationVersion } from '@/lib/types';
+
+interface CreationVersionHistoryProps {
+  creation: Creation;
+  onRestore: (version: number) => Promise<void>;
+  isRestoring: boolean;
+}
+
+// A snapshot of either the current render or an archived version, in a shape both can share.
+interface VersionSnapshot {
+  version: number;
+  createdAt: number;
+  params: Creation['params'];
+  imageId?: string;
+  outputId?: string;
+}
+
+const getChangedParamKeys = (a: Creation['params'], b: Creation['params']): string[] => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).filter(key => JSON.stringify((a as any)[key]) !== JSON.stringify((b as any)[key]));
+};
+
+// `thumbnail` loads the small preview instead of the full image (used by the version list)
+const useSnapshotData = (snapshot: VersionSnapshot | null, thumbnail = false) => {
+  const { getImageData, getThumbnail, getTextOutput } = useHistory();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isActive = true;
+    let objectUrl: string | null = null;
+    const fetchData = async () => {
+      setLoading(true);
+      setImageUrl(null);
+      setPrompt(null);
+      if (snapshot?.imageId) {
+        if (thumbnail) {
+          const url = await getThumbnail(snapshot.imageId);
+          if (isActive && url) setImageUrl(url);
+        } else {
+          const imgData = await getImageData(snapshot.imageId);
+          if (isActive && imgData) {
+            objectUrl = URL.createObjectURL(imgData.blob);
+            setImageUrl(objectUrl);
+          }
+        }
+      }
+      if (snapshot?.outputId) {
+        const textOutput = await getTextOutput(snapshot.outputId);
+        if (isActive && textOutput) {
+          setPrompt((textOutput.data as any).prompt || (textOutput.data as any).derivedPrompt || null);
+        }
+      }
+      if (isActive) setLoading(false);
+    };
+    fetchData();
+    return () => {
+      isActive = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [snapshot?.imageId, snapshot?.outputId, thumbnail, getImageData, getThumbnail, getTextOutput]);
+
+  return { imageUrl, prompt, loading };
+};
+
+const VersionThumbnail: React.FC<{ snapshot: VersionSnapshot }> = ({ snapshot }) => {
+  const { imageUrl, loading } = useSnapshotData(snapshot, true);
+
+  if (loading) {
+    return <div className="w-16 h-16 flex items-center justify-center bg-muted/50 rounded-md"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>;
+  }
+  if (!imageUrl) {
+    return <div className="w-16 h-16 flex items-center justify-center bg-muted/50 text-xs text-muted-foreground p-1 text-center rounded-md">Sin imagen</div>;
+  }
+  return <Image src={imageUrl} alt={`Versión ${snapshot.version}`} width={64} height={64} className="w-16 h-16 rounded-md object-cover shadow-md" data-ai-hint="mythological art" />;
+};
+
+const VersionColumn: React.FC<{ title: string; snapshot: VersionSnapshot; changedKeys: string[] }> = ({ title, snapshot, changedKeys }) => {
+  const { imageUrl, prompt, loading } = useSnapshotData(snapshot);
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold text-primary flex items-center gap-2">
+        {title}
+        <span className="text-xs text-muted-foreground font-normal">
+          {formatDistanceToNow(new Date(snapshot.createdAt), { addSuffix: true, locale: es })}
+        </span>
+      </h4>
+      <div className="relative aspect-square bg-muted/30 rounded-lg flex items-center justify-center">
+        {loading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        ) : imageUrl ? (
+          <Image src={imageUrl} alt={title} fill className="object-contain rounded-lg" data-ai-hint="mythological art" />
+        ) : (
+          <p className="text-sm text-muted-foreground">Sin imagen</p>
+        )}
+      </div>
+      {changedKeys.length > 0 && (
+        <div className="bg-muted p-2 rounded-md space-y-1 text-xs text-muted-foreground">
+          {changedKeys.map(key => (
+            <p key={key} className="break-words"><strong>{PARAM_LABELS[key] || key}:</strong> {formatParamValue(key, (snapshot.params as any)[key])}</p>
+          ))}
+        </div>
+      )}
+      {prompt && (
+        <p className="text-xs text-muted-foreground bg-muted/50 p-2 rounded-md break-words">{prompt}</p>
+      )}
+    </div>
+  );
+};
+
+export function CreationVersionHistory({ creation, onRestore, isRestoring }: CreationVersionHistoryProps) {
+  const [comparedVersion, setComparedVersion] = useState<CreationVersion | null>(null);
+  const versions = [...(creation.versions ?? [])].sort((a, b) => b.version - a.version);
+
+  if (versions.length === 0) return null;
+
+  const currentSnapshot: VersionSnapshot = {
+    version: creation.version ?? 1,
+    createdAt: creation.updatedAt,
+    params: creation.params,
+    imageId: creation.imageId,
+    outputId: creation.outputId,
+  };
+
+  const handleRestore = async (version: number) => {
+    await onRestore(version);
+    setComparedVersion(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold text-lg text-primary flex items-center gap-2">
+        <History className="h-5 w-5" /> Versiones
+        <Badge variant="secondary">Actual: v{currentSnapshot.version}</Badge>
+      </h3>
+      <div className="space-y-2">
+        {versions.map(version => (
+          <div key={version.version} className="flex items-center gap-3 p-2 bg-muted/50 rounded-lg">
+            <VersionThumbnail snapshot={version} />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">{version.isAlternate ? `Alternativa ${version.version}` : `Versión ${version.version}`}</p>
+              <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(version.createdAt), { addSuffix: true, locale: es })}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setComparedVersion(version)} disabled={isRestoring}>
+              <Columns2 className="mr-1 h-4 w-4" /> Comparar
+            </Button>
+            <Button size="sm" onClick={() => handleRestore(version.version)} disabled={isRestoring}>
+              {isRestoring ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-1 h-4 w-4" />}
+              {version.isAlternate ? 'Usar' : 'Restaurar'}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {comparedVersion && (
+        <Dialog open={!!comparedVersion} onOpenChange={(open) => !open && setComparedVersion(null)}>
+          <DialogContent className="sm:max-w-4xl max-h-[90vh]">
+            <DialogHeader>
+              <DialogTitle>Comparar Versiones</DialogTitle>
+              <DialogDescription>
+                Versión actual (v{currentSnapshot.version}) frente a la versión {comparedVersion.version}. Solo se muestran los parámetros que cambiaron.
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-[70vh] pr-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <VersionColumn
+                  title={`Actual (v${currentSnapshot.version})`}
+                  snapshot={currentSnapshot}
+                  changedKeys={getChangedParamKeys(currentSnapshot.params, comparedVersion.params)}
+                />
+                <VersionColumn
+                  title={`Versión ${comparedVersion.version}`}
+                  snapshot={comparedVersion}
+                  changedKeys={getChangedParamKeys(currentSnapshot.params, comparedVersion.params)}
+                />
+              </div>
+            </ScrollArea>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setComparedVersion(null)}>Cerrar</Button>
+              <Button onClick={() => handleRestore(comparedVersion.version)} disabled={isRestoring}>
+                {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                Restaurar v{comparedVersion.version}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
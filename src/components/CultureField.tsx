@@ -0,0 +1,60 @@
+"use client";
+
+import React from 'react';
+import type { Control, UseFormSetValue } from 'react-hook-form';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCultures } from '@/contexts/CulturesContext';
+import { CUSTOM_CULTURE_NAME } from '@/lib/cultures';
+import type { Culture } from '@/lib/types';
+
+interface CultureFieldProps {
+  control: Control<any>;
+  name: string; // 'culture', 'contextCulture' or 'mythologicalContext'
+  label: string;
+  allowCustom?: boolean; // Offers "Personalizada", for forms with a customCultureDetails field
+  onCultureSelected?: (culture: Culture) => void;
+}
+
+// Picks the culture's default style, if it has one. `styleField` is 'style' or 'visualStyle'.
+export const applyCultureToForm = (setValue: UseFormSetValue<any>, culture: Culture, styleField: string) => {
+  if (culture.defaultStyle) setValue(styleField, culture.defaultStyle);
+};
+
+// Culture picker over the built-in and user cultures; the culture's name is what creations store.
+export function CultureField({ control, name, label, allowCustom = false, onCultureSelected }: CultureFieldProps) {
+  const { cultures } = useCultures();
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            onValueChange={(value) => {
+              field.onChange(value);
+              const culture = cultures.find(c => c.name === value);
+              if (culture) onCultureSelected?.(culture);
+            }}
+            value={field.value}
+          >
+            <FormControl>
+              <SelectTrigger><SelectValue placeholder="Selecciona una cultura" /></SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {/* Keep a culture that's no longer in the catalog (e.g. a deleted one) selectable */}
+              {field.value && field.value !== CUSTOM_CULTURE_NAME && !cultures.some(culture => culture.name === field.value) && (
+                <SelectItem value={field.value}>{field.value}</SelectItem>
+              )}
+              {cultures.map(culture => <SelectItem key={culture.id} value={culture.name}>{culture.name}</SelectItem>)}
+              {allowCustom && <SelectItem value={CUSTOM_CULTURE_NAME}>{CUSTOM_CULTURE_NAME}</SelectItem>}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Globe2, Plus, Edit3, Trash2, Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useCultures } from '@/contexts/CulturesContext';
+import { useStylePresets } from '@/contexts/StylePresetsContext';
+import { useToast } from '@/hooks/use-toast';
+import { parseCultureList, type CultureInput } from '@/lib/cultures';
+import type { Culture } from '@/lib/types';
+
+// Radix selects can't hold an empty value
+const NO_STYLE = '__none__';
+
+// Lists are edited as comma-separated text and parsed on save
+interface CultureDraft {
+  name: string;
+  aliases: string;
+  description: string;
+  motifs: string;
+  defaultStyle?: string;
+}
+
+const toDraft = (culture?: Culture): CultureDraft => ({
+  name: culture?.name ?? '',
+  aliases: culture?.aliases.join(', ') ?? '',
+  description: culture?.description ?? '',
+  motifs: culture?.motifs.join(', ') ?? '',
+  defaultStyle: culture?.defaultStyle,
+});
+
+// Settings card for the culture catalog. Editing a built-in culture saves a user culture with the same name that replaces it.
+export function CulturesManager() {
+  const { cultures, userCultures, saveCulture, deleteCulture } = useCultures();
+  const { presets: stylePresets } = useStylePresets();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
+  const [draft, setDraft] = useState<CultureDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openEditor = (culture?: Culture) => {
+    setEditingId(culture && !culture.builtIn ? culture.id : undefined);
+    setDraft(toDraft(culture));
+  };
+
+  const updateDraft = (changes: Partial<CultureDraft>) => setDraft(prev => prev ? { ...prev, ...changes } : prev);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const input: CultureInput = {
+        name: draft.name,
+        aliases: parseCultureList(draft.aliases),
+        description: draft.description,
+        motifs: parseCultureList(draft.motifs),
+        defaultStyle: draft.defaultStyle,
+      };
+      const saved = await saveCulture(input, editingId);
+      toast({ title: editingId ? "Cultura Actualizada" : "Cultura Guardada", description: `"${saved.name}" ya está disponible en los selectores de cultura.` });
+      setDraft(null);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Guardar", description: error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (culture: Culture) => {
+    try {
+      await deleteCulture(culture.id);
+      toast({ title: "Cultura Eliminada", description: `Se eliminó "${culture.name}". Las creaciones que la usan la conservan.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Eliminar", description: error.message });
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><Globe2 className="mr-2 h-5 w-5 text-primary" /> Culturas</CardTitle>
+        <CardDescription>Añade culturas propias (yoruba, polinesia, eslava...) o completa las incluidas. Sus motivos visuales se añaden al prompt de imagen y sus alias se reconocen al importar textos y lotes.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {cultures.map(culture => {
+          const isUserCulture = userCultures.some(c => c.id === culture.id);
+          return (
+            <div key={culture.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded-md">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  {culture.name}
+                  {culture.builtIn && <Badge variant="outline" className="text-xs">Incluida</Badge>}
+                  {culture.defaultStyle && <Badge variant="secondary" className="text-xs">{culture.defaultStyle}</Badge>}
+                </p>
+                {(culture.motifs.length > 0 || culture.aliases.length > 0) && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[culture.motifs.join(', '), culture.aliases.length > 0 ? `alias: ${culture.aliases.join(', ')}` : ''].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+              </div>
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEditor(culture)} title="Editar"><Edit3 className="h-4 w-4" /></Button>
+              {isUserCulture && (
+                <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => handleDelete(culture)} title="Eliminar"><Trash2 className="h-4 w-4" /></Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={() => openEditor()}><Plus className="mr-2 h-4 w-4" /> Nueva Cultura</Button>
+      </CardFooter>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && !isSaving && setDraft(null)}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar Cultura' : 'Nueva Cultura'}</DialogTitle>
+            <DialogDescription>Separa los alias y los motivos con comas.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="culture-name">Nombre</Label>
+                <Input id="culture-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="Ej: Yoruba" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="culture-aliases">Alias</Label>
+                <Input id="culture-aliases" value={draft.aliases} onChange={(e) => updateDraft({ aliases: e.target.value })} placeholder="Ej: Yorùbá, Orisha" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="culture-description">Descripción</Label>
+                <Textarea id="culture-description" value={draft.description} onChange={(e) => updateDraft({ description: e.target.value })} rows={3} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="culture-motifs">Motivos visuales</Label>
+                <Textarea id="culture-motifs" value={draft.motifs} onChange={(e) => updateDraft({ motifs: e.target.value })} rows={2} placeholder="Ej: beaded crowns, adire indigo patterns, bronze heads of Ife" />
+              </div>
+              <div className="space-y-1">
+                <Label>Estilo por defecto</Label>
+                <Select value={draft.defaultStyle || NO_STYLE} onValueChange={(value) => updateDraft({ defaultStyle: value === NO_STYLE ? undefined : value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_STYLE}>Sin estilo por defecto</SelectItem>
+                    {stylePresets.map(preset => <SelectItem key={preset.id} value={preset.name}>{preset.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft?.name.trim()}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
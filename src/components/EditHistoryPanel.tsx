@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { History, Loader2, Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useEditJournal } from '@/hooks/use-edit-journal';
+import { useToast } from '@/hooks/use-toast';
+import type { JournaledField, JournalEntry } from '@/lib/edit-journal';
+
+const FIELD_LABELS: Record<JournaledField, string> = {
+  name: 'nombre',
+  params: 'detalles',
+  isTranslated: 'traducción',
+  tags: 'etiquetas',
+  collectionIds: 'colecciones',
+  imageId: 'imagen',
+  imageDimensions: 'imagen',
+  outputId: 'imagen',
+  version: 'versión',
+  versions: 'versión',
+};
+
+const describeEntry = (entry: JournalEntry): string => {
+  const fieldLabels = new Set(entry.edits.flatMap(edit => (Object.keys(edit.after) as JournaledField[]).map(field => FIELD_LABELS[field])));
+  const creationCount = new Set(entry.edits.map(edit => edit.creationId)).size;
+  const target = creationCount === 1 ? `"${entry.edits[0].creationName}"` : `${creationCount} creaciones`;
+  const description = `${target} · ${Array.from(fieldLabels).join(', ')}`;
+  if (!entry.deletedCollection) return description;
+  return creationCount > 0 ? `Colección "${entry.deletedCollection.name}" · ${description}` : `Colección "${entry.deletedCollection.name}"`;
+};
+
+// Text fields keep their own undo; the shortcut only applies outside them
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Sidebar button and sheet listing the journaled edits, plus the Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) shortcuts.
+export function EditHistoryPanel() {
+  const { undoEntries, redoEntries, batchLabels, canUndo, canRedo, undo, redo } = useEditJournal();
+  const { toast } = useToast();
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  const replay = async (direction: 'undo' | 'redo') => {
+    setIsReplaying(true);
+    try {
+      const result = await (direction === 'undo' ? undo() : redo());
+      if (!result) return;
+      const skippedNote = result.skipped > 0 ? ` ${result.skipped} se omitieron porque se eliminaron o cambiaron después.` : '';
+      toast({
+        title: `${direction === 'undo' ? 'Deshecho' : 'Rehecho'}: ${result.entry.label}`,
+        description: `${result.applied} creaciones actualizadas.${skippedNote}`,
+      });
+    } catch (error: any) {
+      console.error(`Failed to ${direction} edit:`, error);
+      toast({ variant: "destructive", title: direction === 'undo' ? "Error al Deshacer" : "Error al Rehacer", description: error.message });
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      const isUndo = key === 'z' && !event.shiftKey;
+      const isRedo = (key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey);
+      if ((isUndo && canUndo) || (isRedo && canRedo)) {
+        event.preventDefault();
+        if (!isReplaying) replay(isUndo ? 'undo' : 'redo');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const renderEntry = (entry: JournalEntry, isUndone: boolean) => (
+    <div key={entry.id} className={`p-2 rounded-md bg-muted/30 ${isUndone ? 'opacity-60' : ''}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium truncate">{entry.label}</p>
+        {entry.edits.length > 1 && <Badge variant="secondary">{entry.edits.length}</Badge>}
+      </div>
+      <p className="text-xs text-muted-foreground truncate">{describeEntry(entry)}</p>
+      <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true, locale: es })}</p>
+    </div>
+  );
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" title="Historial de cambios">
+          <History className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">Historial de cambios</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2"><History className="h-5 w-5" /> Historial de Cambios</SheetTitle>
+          <SheetDescription>
+            Ediciones de nombres, detalles, etiquetas, colecciones, imágenes regeneradas y versiones restauradas de esta sesión. Deshaz con Ctrl+Z y rehaz con Ctrl+Shift+Z o Ctrl+Y.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => replay('undo')} disabled={!canUndo || isReplaying}>
+            {isReplaying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />} Deshacer
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={() => replay('redo')} disabled={!canRedo || isReplaying}>
+            <Redo2 className="mr-2 h-4 w-4" /> Rehacer
+          </Button>
+        </div>
+        {batchLabels.map((label, index) => (
+          <p key={index} className="text-xs text-muted-foreground flex items-center gap-2">
+            <Loader2 className="h-3 w-3 animate-spin" /> Registrando "{label}"; podrás deshacerlo al terminar.
+          </p>
+        ))}
+        <ScrollArea className="flex-1 pr-3">
+          {undoEntries.length === 0 && redoEntries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Aún no hay cambios que deshacer.</p>
+          ) : (
+            <div className="space-y-2">
+              {/* Newest first: undone entries sit above the rest, the next one to redo just above the last edit */}
+              {redoEntries.map(entry => renderEntry(entry, true))}
+              {[...undoEntries].reverse().map(entry => renderEntry(entry, false))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
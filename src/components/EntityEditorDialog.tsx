@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Plus, Save, Sparkles, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useCultures } from '@/contexts/CulturesContext';
+import { useEntities } from '@/contexts/EntitiesContext';
+import { useToast } from '@/hooks/use-toast';
+import { draftEntityAction } from '@/lib/actions';
+import { normalizeCultureName, parseCultureList } from '@/lib/cultures';
+import { emptyEntityInput, ENTITY_RELATION_LABELS, ENTITY_RELATION_TYPES, normalizeEntityName, type EntityInput } from '@/lib/entities';
+import { getActivePromptTemplate } from '@/lib/prompt-template-store';
+import type { Entity, EntityRelationType } from '@/lib/types';
+
+interface EntityEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entity?: Entity; // Edits this entry; otherwise creates one for `culture` and `name`
+  culture: string;
+  name: string;
+  creationDetails?: string; // Context for the AI draft
+}
+
+// Aliases are edited as comma-separated text and parsed on save
+type EntityDraft = Omit<EntityInput, 'aliases'> & { aliases: string };
+
+const toDraft = (input: EntityInput): EntityDraft => ({ ...input, aliases: input.aliases.join(', ') });
+
+// Create/edit dialog for a knowledge base entry; "Redactar con IA" fills the form without saving it.
+export function EntityEditorDialog({ open, onOpenChange, entity, culture, name, creationDetails }: EntityEditorDialogProps) {
+  const { entities, saveEntity, deleteEntity } = useEntities();
+  const { cultures } = useCultures();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<EntityDraft>(() => toDraft(entity ?? emptyEntityInput(culture, name)));
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(toDraft(entity ?? emptyEntityInput(culture, name)));
+  }, [open, entity, culture, name]);
+
+  const updateDraft = (changes: Partial<EntityDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+  const isBusy = isDrafting || isSaving;
+
+  const handleDraftWithAi = async () => {
+    setIsDrafting(true);
+    try {
+      const { template } = await getActivePromptTemplate('draft-entity');
+      const knownEntities = entities
+        .filter(other => other.id !== entity?.id && normalizeCultureName(other.culture) === normalizeCultureName(draft.culture))
+        .map(other => other.name);
+      const result = await draftEntityAction({
+        name: draft.name || name,
+        culture: draft.culture,
+        creationDetails: creationDetails || undefined,
+        knownEntities: knownEntities.join(', ') || undefined,
+        template,
+      });
+      // Keep the name the creations use as an alias, so they still link to the entry
+      const aliases = [...parseCultureList(draft.aliases), ...result.aliases, draft.name]
+        .filter(alias => alias.trim() && normalizeEntityName(alias) !== normalizeEntityName(result.name));
+      setDraft(prev => ({
+        ...prev,
+        name: result.name,
+        aliases: Array.from(new Set(aliases)).join(', '),
+        description: result.description,
+        attributes: result.attributes,
+        relationships: result.relationships,
+      }));
+      toast({ title: "Borrador Listo", description: "Revisa la ficha antes de guardarla." });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Redactar", description: error.message });
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveEntity({ ...draft, aliases: parseCultureList(draft.aliases) }, entity?.id);
+      toast({ title: entity ? "Ficha Actualizada" : "Ficha Creada", description: `Se guardó la ficha de "${saved.name}".` });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Guardar", description: error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entity) return;
+    setIsSaving(true);
+    try {
+      await deleteEntity(entity.id);
+      toast({ title: "Ficha Eliminada", description: `Se eliminó la ficha de "${entity.name}". Sus creaciones no cambian.` });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Eliminar", description: error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isBusy && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{entity ? `Ficha de ${entity.name}` : 'Nueva Ficha de Entidad'}</DialogTitle>
+          <DialogDescription>Las creaciones de la cultura {draft.culture} cuyo tema sea el nombre o un alias de la entidad se muestran junto a esta ficha.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="entity-name">Nombre</Label>
+                <Input id="entity-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Cultura</Label>
+                <Select value={draft.culture} onValueChange={(value) => updateDraft({ culture: value })}>
+                  <SelectTrigger><SelectValue placeholder="Selecciona una cultura" /></SelectTrigger>
+                  <SelectContent>
+                    {/* Keep a culture that's not in the catalog (e.g. a deleted one) selectable */}
+                    {draft.culture && !cultures.some(c => c.name === draft.culture) && <SelectItem value={draft.culture}>{draft.culture}</SelectItem>}
+                    {cultures.map(c => <SelectItem key={c.id} value={c.name}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="entity-aliases">Alias</Label>
+              <Input id="entity-aliases" value={draft.aliases} onChange={(e) => updateDraft({ aliases: e.target.value })} placeholder="Separados por comas, ej: Júpiter, Dyaus" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="entity-description">Descripción</Label>
+              <Textarea id="entity-description" value={draft.description} onChange={(e) => updateDraft({ description: e.target.value })} rows={4} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Atributos</Label>
+              {draft.attributes.map((attribute, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input className="w-1/3" value={attribute.label} placeholder="Ej: Dominio"
+                    onChange={(e) => updateDraft({ attributes: draft.attributes.map((a, i) => i === index ? { ...a, label: e.target.value } : a) })} />
+                  <Input className="flex-1" value={attribute.value} placeholder="Ej: El cielo y el trueno"
+                    onChange={(e) => updateDraft({ attributes: draft.attributes.map((a, i) => i === index ? { ...a, value: e.target.value } : a) })} />
+                  <Button size="icon" variant="ghost" onClick={() => updateDraft({ attributes: draft.attributes.filter((_, i) => i !== index) })} title="Quitar"><X className="h-4 w-4" /></Button>
+                </div>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => updateDraft({ attributes: [...draft.attributes, { label: '', value: '' }] })}>
+                <Plus className="mr-2 h-4 w-4" /> Añadir Atributo
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Relaciones</Label>
+              {draft.relationships.map((relationship, index) => (
+                <div key={index} className="flex gap-2">
+                  <Select value={relationship.type}
+                    onValueChange={(value: EntityRelationType) => updateDraft({ relationships: draft.relationships.map((r, i) => i === index ? { ...r, type: value } : r) })}>
+                    <SelectTrigger className="w-1/3"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {ENTITY_RELATION_TYPES.map(type => <SelectItem key={type} value={type}>{ENTITY_RELATION_LABELS[type]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Input className="flex-1" value={relationship.target} placeholder="Ej: Atenea"
+                    onChange={(e) => updateDraft({ relationships: draft.relationships.map((r, i) => i === index ? { ...r, target: e.target.value } : r) })} />
+                  <Button size="icon" variant="ghost" onClick={() => updateDraft({ relationships: draft.relationships.filter((_, i) => i !== index) })} title="Quitar"><X className="h-4 w-4" /></Button>
+                </div>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => updateDraft({ relationships: [...draft.relationships, { type: 'parent', target: '' }] })}>
+                <Plus className="mr-2 h-4 w-4" /> Añadir Relación
+              </Button>
+            </div>
+          </div>
+        </ScrollArea>
+        <DialogFooter className="flex-wrap gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={handleDraftWithAi} disabled={isBusy || !draft.name.trim()}>
+              {isDrafting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+              Redactar con IA
+            </Button>
+            {entity && (
+              <Button variant="ghost" className="text-destructive" onClick={handleDelete} disabled={isBusy}>
+                <Trash2 className="mr-2 h-4 w-4" /> Eliminar
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isBusy}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isBusy || !draft.name.trim() || !draft.culture.trim()}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Guardar
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
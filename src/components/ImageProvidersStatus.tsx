@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Cpu, Loader2, PlugZap, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { listImageProviders, type ImageProvider, type ImageProviderCapabilities, type ImageProviderHealth } from '@/lib/image-providers';
+
+const CAPABILITY_LABELS: Record<keyof ImageProviderCapabilities, string> = {
+  txt2img: 'Texto a imagen',
+  img2img: 'Imagen a imagen',
+  nativeBatch: 'Lotes nativos',
+  modelSelection: 'Selección de modelo',
+  advancedParams: 'Opciones avanzadas',
+  inpaint: 'Edición por región',
+};
+
+interface ProviderStatus extends ImageProviderHealth {
+  modelCount?: number;
+}
+
+// Settings card listing the registered image providers, with a health check for each one.
+export function ImageProvidersStatus() {
+  const providers = listImageProviders();
+  const [statuses, setStatuses] = useState<Record<string, ProviderStatus>>({});
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+
+  const handleCheck = async (provider: ImageProvider) => {
+    setCheckingId(provider.id);
+    try {
+      const health = await provider.checkHealth();
+      const models = health.ok ? await provider.listModels().catch(() => undefined) : undefined;
+      setStatuses(prev => ({ ...prev, [provider.id]: { ...health, modelCount: models?.length } }));
+    } catch (error: any) {
+      setStatuses(prev => ({ ...prev, [provider.id]: { ok: false, message: error.message || "No se pudo comprobar el motor." } }));
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><Cpu className="mr-2 h-5 w-5 text-primary" /> Motores de Imagen</CardTitle>
+        <CardDescription>Motores de generación disponibles y lo que admite cada uno. Comprueba si están listos antes de lanzar un lote.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {providers.map(provider => {
+          const status = statuses[provider.id];
+          return (
+            <div key={provider.id} className="space-y-2 border-b pb-3 last:border-b-0 last:pb-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">{provider.name}</span>
+                <Button variant="outline" size="sm" onClick={() => handleCheck(provider)} disabled={checkingId === provider.id}>
+                  {checkingId === provider.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlugZap className="mr-2 h-4 w-4" />}
+                  Comprobar
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {(Object.keys(CAPABILITY_LABELS) as (keyof ImageProviderCapabilities)[])
+                  .filter(capability => provider.capabilities[capability])
+                  .map(capability => <Badge key={capability} variant="secondary">{CAPABILITY_LABELS[capability]}</Badge>)}
+              </div>
+              {status && (
+                <p className={`text-xs flex items-start gap-1 ${status.ok ? 'text-muted-foreground' : 'text-destructive'}`}>
+                  {status.ok ? <CheckCircle className="h-3 w-3 mt-0.5 shrink-0" /> : <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />}
+                  <span className="break-words">
+                    {status.message}
+                    {status.modelCount !== undefined && ` · ${status.modelCount} modelo(s) disponible(s)`}
+                  </span>
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
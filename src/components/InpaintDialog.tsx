@@ -0,0 +1,354 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Brush, Eraser, Loader2, Save, Trash2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useHistory } from '@/contexts/HistoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { imageToDataUri } from '@/lib/image-data';
+import { pickSdGenerationParams, SD_RANDOM_SEED } from '@/lib/stable-diffusion';
+import { applyProviderResult, findImageProvider, listImageProviders, type ImageProviderResult, type InpaintRegion } from '@/lib/image-providers';
+import { ASPECT_RATIOS, IMAGE_QUALITIES } from '@/lib/types';
+import { DEFAULT_STYLE_NAME } from '@/lib/style-presets';
+import type { AnalyzedOutputData, AnalyzedParams, Creation, GeneratedParams, ImageDataModel, ImageProviderId, ReimaginedParams, TextOutputModel } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface InpaintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  creation: Creation;
+  image: ImageDataModel;
+  imageUrl: string; // Object URL of `image`
+  outputData?: TextOutputModel['data'];
+  onCreated?: (creationId: string) => void;
+}
+
+const MASK_COLOR = 'rgb(239, 68, 68)'; // Painted strokes; shown semi-transparent over the image
+
+// Rebuilds the painted strokes as a black and white mask (white = repaint), the format SD expects.
+const exportMask = (canvas: HTMLCanvasElement): string => {
+  const mask = document.createElement('canvas');
+  mask.width = canvas.width;
+  mask.height = canvas.height;
+  const context = mask.getContext('2d')!;
+  context.drawImage(canvas, 0, 0);
+  context.globalCompositeOperation = 'source-in';
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, mask.width, mask.height);
+  context.globalCompositeOperation = 'destination-over';
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, mask.width, mask.height);
+  return mask.toDataURL('image/png');
+};
+
+// Bounding box of the painted pixels, or undefined when nothing is painted.
+const findMaskRegion = (canvas: HTMLCanvasElement): InpaintRegion | undefined => {
+  const { width, height } = canvas;
+  const alpha = canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (alpha[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  if (right < 0) return undefined;
+  return { left: left / width, top: top / height, width: (right - left + 1) / width, height: (bottom - top + 1) / height };
+};
+
+// The edit is saved as a reimagined creation, so the source's context is carried over whatever its type.
+const toReimaginedParams = (creation: Creation, outputData: TextOutputModel['data'] | undefined, providerId: ImageProviderId): ReimaginedParams => {
+  let base: ReimaginedParams;
+  if (creation.type === 'generated') {
+    const { culture, entity, details, style, ...rest } = creation.params as GeneratedParams;
+    base = { ...rest, contextCulture: culture, contextEntity: entity, contextDetails: details, visualStyle: style };
+  } else if (creation.type === 'reimagined') {
+    base = creation.params as ReimaginedParams;
+  } else {
+    const { mythologicalContext, entityTheme, additionalDetails } = creation.params as AnalyzedParams;
+    base = {
+      contextCulture: mythologicalContext,
+      contextEntity: entityTheme,
+      contextDetails: additionalDetails ?? '',
+      visualStyle: (outputData as AnalyzedOutputData | undefined)?.visualStyle || DEFAULT_STYLE_NAME,
+      aspectRatio: ASPECT_RATIOS[0],
+      imageQuality: IMAGE_QUALITIES[0],
+      provider: providerId,
+    };
+  }
+
+  const { contextCulture, contextEntity, contextDetails, visualStyle, aspectRatio, imageQuality } = base;
+  const params: ReimaginedParams = { contextCulture, contextEntity, contextDetails, visualStyle, aspectRatio, imageQuality, provider: providerId };
+  // Model and SD settings only carry over when the same provider renders the edit; the seed is always new
+  if (base.provider === providerId) {
+    if (base.checkpoint) params.checkpoint = base.checkpoint;
+    if (findImageProvider(providerId)?.capabilities.advancedParams) {
+      Object.assign(params, pickSdGenerationParams({ ...base, seed: SD_RANDOM_SEED }));
+    }
+  }
+  return params;
+};
+
+// Mask-painting editor for the gallery modal: the painted region is repainted by an
+// inpainting-capable provider and the result is saved as a new reimagined creation.
+export function InpaintDialog({ open, onOpenChange, creation, image, imageUrl, outputData, onCreated }: InpaintDialogProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<'brush' | 'eraser'>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [providerId, setProviderId] = useState<ImageProviderId>('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [result, setResult] = useState<{ params: ReimaginedParams; output: ImageProviderResult; sourceDataUri: string } | null>(null);
+  const { addCreation } = useHistory();
+  const { toast } = useToast();
+
+  const inpaintProviders = listImageProviders().filter(provider => provider.capabilities.inpaint);
+
+  useEffect(() => {
+    if (!open) return;
+    const sourceProvider = (creation.params as GeneratedParams | ReimaginedParams).provider;
+    setProviderId(inpaintProviders.some(provider => provider.id === sourceProvider) ? sourceProvider : inpaintProviders[0]?.id ?? '');
+    setInstruction('');
+    setResult(null);
+    setHasMask(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, creation.id]);
+
+  // The mask is drawn at the image's real resolution; older records may not know their size
+  useEffect(() => {
+    if (!open) return;
+    if (image.width > 0 && image.height > 0) {
+      setSize({ width: image.width, height: image.height });
+      return;
+    }
+    let cancelled = false;
+    const probe = new window.Image();
+    probe.onload = () => { if (!cancelled) setSize({ width: probe.naturalWidth, height: probe.naturalHeight }); };
+    probe.src = imageUrl;
+    return () => { cancelled = true; };
+  }, [open, image, imageUrl]);
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const drawTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    const point = toCanvasPoint(event);
+    const from = lastPointRef.current ?? point;
+    // The brush size is picked in screen pixels, so it's scaled to the image's resolution
+    context.lineWidth = brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = MASK_COLOR;
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isEditing || result) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    drawTo(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.buttons !== 1 || isEditing || result) return;
+    drawTo(event);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+    if (canvasRef.current) setHasMask(!!findMaskRegion(canvasRef.current));
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleEdit = async () => {
+    const canvas = canvasRef.current;
+    const provider = findImageProvider(providerId);
+    const region = canvas ? findMaskRegion(canvas) : undefined;
+    if (!canvas || !size || !region) {
+      toast({ variant: "destructive", title: "Falta la máscara", description: "Pinta sobre la imagen la zona que quieres cambiar." });
+      return;
+    }
+    if (!provider?.inpaint) {
+      toast({ variant: "destructive", title: "Motor no compatible", description: "El motor seleccionado no puede editar regiones de una imagen." });
+      return;
+    }
+
+    setIsEditing(true);
+    try {
+      const sourceDataUri = await imageToDataUri(image);
+      const params = toReimaginedParams(creation, outputData, provider.id);
+      const [output] = await provider.inpaint({
+        params,
+        initImage: sourceDataUri,
+        mask: exportMask(canvas),
+        region,
+        size,
+        prompt: instruction.trim(),
+      });
+      setResult({ params, output, sourceDataUri });
+    } catch (error: any) {
+      console.error("Inpainting failed:", error);
+      toast({ variant: "destructive", title: "Error al editar la región", description: error.message });
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!result) return;
+    setIsSaving(true);
+    try {
+      const params: ReimaginedParams = { ...applyProviderResult(result.params, result.output), inpaintPrompt: instruction.trim() };
+      const saved = await addCreation('reimagined', `${creation.name} (retocada)`, params, { derivedPrompt: result.output.prompt }, result.output.imageUrl, result.sourceDataUri);
+      if (!saved) throw new Error("Error al guardar la creación en la base de datos.");
+      toast({ title: "Edición guardada", description: "La imagen retocada se guardó como una nueva creación." });
+      onOpenChange(false);
+      onCreated?.(saved.creationId);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al guardar", description: error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canEdit = hasMask && instruction.trim().length > 0 && !!providerId && !isEditing;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isEditing && !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Editar una región</DialogTitle>
+          <DialogDescription>
+            Pinta la zona que quieres cambiar y describe qué debe aparecer en ella. El resultado se guarda como una nueva creación reimaginada.
+          </DialogDescription>
+        </DialogHeader>
+
+        {inpaintProviders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Ningún motor de imágenes disponible admite la edición por región.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{result ? 'Original' : 'Máscara'}</Label>
+              <div className="relative">
+                <Image src={imageUrl} alt={creation.name} width={size?.width ?? 512} height={size?.height ?? 512} className="w-full h-auto rounded-md" />
+                {size && (
+                  <canvas
+                    ref={canvasRef}
+                    width={size.width}
+                    height={size.height}
+                    className={cn("absolute inset-0 w-full h-full rounded-md opacity-50 touch-none", !result && "cursor-crosshair")}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerLeave={() => { lastPointRef.current = null; }}
+                  />
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button type="button" size="sm" variant={tool === 'brush' ? 'default' : 'outline'} onClick={() => setTool('brush')} disabled={!!result}>
+                  <Brush className="mr-1 h-4 w-4" /> Pincel
+                </Button>
+                <Button type="button" size="sm" variant={tool === 'eraser' ? 'default' : 'outline'} onClick={() => setTool('eraser')} disabled={!!result}>
+                  <Eraser className="mr-1 h-4 w-4" /> Borrador
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={clearMask} disabled={!hasMask || !!result}>
+                  <Trash2 className="mr-1 h-4 w-4" /> Limpiar
+                </Button>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Tamaño del pincel: {brushSize}px</Label>
+                <Slider min={5} max={120} step={5} value={[brushSize]} onValueChange={([value]) => setBrushSize(value)} disabled={!!result} />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {result ? (
+                <div className="space-y-2">
+                  <Label>Resultado</Label>
+                  <Image src={result.output.imageUrl} alt="Imagen retocada" width={size?.width ?? 512} height={size?.height ?? 512} className="w-full h-auto rounded-md" />
+                  <p className="text-xs text-muted-foreground break-words">{result.output.prompt}</p>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="inpaint-instruction">¿Qué debe aparecer en la zona pintada?</Label>
+                    <Textarea
+                      id="inpaint-instruction"
+                      rows={4}
+                      placeholder="Ej: una corona de laurel dorada"
+                      value={instruction}
+                      onChange={(event) => setInstruction(event.target.value)}
+                      disabled={isEditing}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Motor de Generación</Label>
+                    <Select value={providerId} onValueChange={setProviderId} disabled={isEditing}>
+                      <SelectTrigger><SelectValue placeholder="Selecciona un motor" /></SelectTrigger>
+                      <SelectContent>
+                        {inpaintProviders.map(provider => <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Los motores sin soporte de máscaras reciben la zona descrita en el prompt, así que pueden cambiar algo más que lo pintado.</p>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <>
+              <Button variant="outline" onClick={() => setResult(null)} disabled={isSaving}>Descartar</Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Guardar como nueva creación
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isEditing}>Cancelar</Button>
+              <Button onClick={handleEdit} disabled={!canEdit}>
+                {isEditing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+                Editar región
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ShieldCheck, Loader2, Trash2, Link2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BROKEN_CREATION_TAG,
+  deleteOrphans,
+  INTEGRITY_ISSUE_LABELS,
+  markBrokenCreations,
+  relinkCreations,
+  verifyLibrary,
+  type IntegrityIssue,
+  type IntegrityIssueKind,
+  type IntegrityReport,
+} from '@/lib/integrity';
+
+const ORPHAN_KINDS: IntegrityIssueKind[] = ['orphan-image', 'orphan-output', 'orphan-thumbnail', 'orphan-search-document'];
+const BROKEN_KINDS: IntegrityIssueKind[] = ['missing-image', 'missing-original-image', 'missing-output', 'missing-version-data', 'undecodable-image'];
+const EXAMPLES_SHOWN = 5;
+
+type RepairAction = 'orphans' | 'relink' | 'broken';
+
+// Settings card for "Verificar biblioteca": scans the stores and offers one-click repairs.
+export function LibraryIntegrityCard() {
+  const { toast } = useToast();
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [repairing, setRepairing] = useState<RepairAction | null>(null);
+
+  const scan = async () => {
+    setIsScanning(true);
+    try {
+      setReport(await verifyLibrary());
+    } catch (error: any) {
+      console.error("Library verification failed:", error);
+      toast({ variant: "destructive", title: "Error al Verificar", description: error.message || "No se pudo verificar la biblioteca." });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const repair = async (action: RepairAction) => {
+    if (!report) return;
+    setRepairing(action);
+    try {
+      if (action === 'orphans') {
+        const deleted = await deleteOrphans(report);
+        toast({ title: "Huérfanos Eliminados", description: `Se eliminaron ${deleted} registros sin referencias.` });
+      } else if (action === 'relink') {
+        const relinked = await relinkCreations(report);
+        toast({ title: "Creaciones Re-enlazadas", description: `${relinked} creaciones recuperaron una imagen.` });
+      } else {
+        const marked = await markBrokenCreations(report);
+        toast({ title: "Creaciones Marcadas", description: `Se limpiaron ${marked} creaciones; las afectadas llevan la etiqueta "${BROKEN_CREATION_TAG}".` });
+      }
+      setReport(await verifyLibrary());
+    } catch (error: any) {
+      console.error("Library repair failed:", error);
+      toast({ variant: "destructive", title: "Error al Reparar", description: error.message || "No se pudo reparar la biblioteca." });
+    } finally {
+      setRepairing(null);
+    }
+  };
+
+  const issuesByKind = (report?.issues ?? []).reduce<Partial<Record<IntegrityIssueKind, IntegrityIssue[]>>>((groups, issue) => {
+    (groups[issue.kind] ??= []).push(issue);
+    return groups;
+  }, {});
+  const countOf = (kinds: IntegrityIssueKind[]) => kinds.reduce((sum, kind) => sum + (issuesByKind[kind]?.length ?? 0), 0);
+  const orphanCount = countOf(ORPHAN_KINDS);
+  const brokenCount = countOf(BROKEN_KINDS);
+  const relinkCount = report?.relinks.length ?? 0;
+  const isBusy = isScanning || repairing !== null;
+
+  const renderSpinner = (action: RepairAction) => repairing === action && <Loader2 className="mr-2 h-4 w-4 animate-spin" />;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><ShieldCheck className="mr-2 h-5 w-5 text-primary" /> Verificar Biblioteca</CardTitle>
+        <CardDescription>Comprueba que cada creación apunta a imágenes y salidas de texto existentes, y busca registros que ninguna creación usa.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {report ? (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Revisado el {format(new Date(report.scannedAt), "d MMM yyyy, HH:mm", { locale: es })}: {report.totals.creations} creaciones, {report.totals.images} imágenes, {report.totals.outputs} salidas de texto y {report.totals.thumbnails} miniaturas.
+            </p>
+            {report.issues.length === 0 ? (
+              <p className="text-sm flex items-center gap-2 text-green-600"><CheckCircle2 className="h-4 w-4" /> No se encontraron problemas.</p>
+            ) : (
+              (Object.keys(INTEGRITY_ISSUE_LABELS) as IntegrityIssueKind[]).filter(kind => issuesByKind[kind]).map(kind => {
+                const issues = issuesByKind[kind]!;
+                const examples = issues.slice(0, EXAMPLES_SHOWN)
+                  .map(issue => issue.creationName ? `${issue.creationName}${issue.detail ? ` (${issue.detail})` : ''}` : issue.detail ?? issue.recordId);
+                return (
+                  <div key={kind} className="p-2 bg-muted/50 rounded-md">
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 text-amber-500" /> {INTEGRITY_ISSUE_LABELS[kind]} <Badge variant="secondary">{issues.length}</Badge>
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {examples.join(', ')}{issues.length > EXAMPLES_SHOWN && ` y ${issues.length - EXAMPLES_SHOWN} más`}
+                    </p>
+                  </div>
+                );
+              })
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Aún no se ha verificado la biblioteca.</p>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button onClick={scan} disabled={isBusy}>
+          {isScanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+          {report ? 'Volver a Verificar' : 'Verificar Biblioteca'}
+        </Button>
+        {report && orphanCount > 0 && (
+          <Button variant="outline" onClick={() => repair('orphans')} disabled={isBusy}>
+            {renderSpinner('orphans') || <Trash2 className="mr-2 h-4 w-4" />} Eliminar Huérfanos ({orphanCount})
+          </Button>
+        )}
+        {report && relinkCount > 0 && (
+          <Button variant="outline" onClick={() => repair('relink')} disabled={isBusy}>
+            {renderSpinner('relink') || <Link2 className="mr-2 h-4 w-4" />} Re-enlazar ({relinkCount})
+          </Button>
+        )}
+        {report && brokenCount > 0 && (
+          <Button variant="outline" onClick={() => repair('broken')} disabled={isBusy}>
+            {renderSpinner('broken') || <AlertTriangle className="mr-2 h-4 w-4" />} Marcar Dañadas ({brokenCount})
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
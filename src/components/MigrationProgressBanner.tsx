@@ -0,0 +1,35 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DatabaseZap } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { subscribeToMigrations, type MigrationProgress } from '@/lib/migrations';
+
+// Shows the data migration that's running while the database upgrades, then a summary toast.
+export function MigrationProgressBanner() {
+  const { toast } = useToast();
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const announced = useRef(0);
+
+  useEffect(() => subscribeToMigrations((current, applied) => {
+    setProgress(current);
+    if (!current && applied.length > announced.current) {
+      const changed = applied.slice(announced.current).reduce((sum, record) => sum + record.changedRecords, 0);
+      announced.current = applied.length;
+      toast({ title: "Datos Actualizados", description: `Se aplicaron ${applied.length} migraciones de datos (${changed} registros modificados).` });
+    }
+  }), [toast]);
+
+  if (!progress) return null;
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 rounded-lg border bg-background p-4 shadow-lg space-y-2">
+      <p className="text-sm font-medium flex items-center gap-2"><DatabaseZap className="h-4 w-4 text-primary" /> Actualizando tus datos...</p>
+      <p className="text-xs text-muted-foreground">{progress.migration.description}</p>
+      <Progress value={percent} className="h-2" />
+      <p className="text-xs text-muted-foreground text-right">{progress.done}/{progress.total}</p>
+    </div>
+  );
+}
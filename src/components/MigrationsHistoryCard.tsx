@@ -0,0 +1,37 @@
+"use client";
+
+import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { DatabaseZap } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { db } from '@/lib/db';
+
+// Settings card listing the data migrations applied to this browser's database
+export function MigrationsHistoryCard() {
+  const records = useLiveQuery(() => db.migrations.orderBy('appliedAt').reverse().toArray(), []);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><DatabaseZap className="mr-2 h-5 w-5 text-primary" /> Migraciones de Datos</CardTitle>
+        <CardDescription>Correcciones y conversiones que se aplicaron a tus datos al actualizar la aplicación. Una base de datos creada desde cero no necesita ninguna.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {records && records.length > 0 ? records.map(record => (
+          <div key={record.id} className="flex items-start gap-2 p-2 bg-muted/50 rounded-md text-sm">
+            <div className="flex-1">
+              <p className="font-medium">{record.description}</p>
+              <p className="text-xs text-muted-foreground">
+                {record.id} · {format(new Date(record.appliedAt), "d MMM yyyy, HH:mm", { locale: es })} · {record.changedRecords} registros modificados
+              </p>
+            </div>
+          </div>
+        )) : (
+          <p className="text-sm text-muted-foreground">No se ha aplicado ninguna migración.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitMerge, Loader2, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useHistory } from '@/contexts/HistoryContext';
+import { useCultures } from '@/contexts/CulturesContext';
+import { useToast } from '@/hooks/use-toast';
+import { suggestNameMergesAction } from '@/lib/actions';
+import { getActivePromptTemplate } from '@/lib/prompt-template-store';
+import { runInJournalBatch } from '@/lib/edit-journal';
+import { findNameClusters, listNameValues, renameInParams, type NameCluster, type NameField, type NameMergeSuggestion } from '@/lib/name-clusters';
+import type { Creation } from '@/lib/types';
+
+interface NameMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// What the user picked for one cluster: the spellings to rewrite and the name they become
+interface ClusterSelection {
+  target: string;
+  variants: string[];
+}
+
+const FIELD_LABELS: Record<NameField, string> = { entity: 'entidades', culture: 'culturas' };
+const MAX_AI_NAMES = 400; // Keeps the suggestion prompt within a reasonable size
+const PREVIEW_NAMES = 5;
+
+// The creations a selection would change
+const getAffectedIds = (cluster: NameCluster, selection: ClusterSelection): string[] =>
+  cluster.variants
+    .filter(variant => selection.variants.includes(variant.value) && variant.value !== selection.target.trim())
+    .flatMap(variant => variant.creationIds);
+
+// Finds near-duplicate entity and culture names (case, accents, typos, epithets, AI suggestions)
+// and rewrites the picked spellings in every affected creation.
+export function NameMergeDialog({ open, onOpenChange }: NameMergeDialogProps) {
+  const { creations, updateCreationParams } = useHistory();
+  const { cultures } = useCultures();
+  const { toast } = useToast();
+  const [field, setField] = useState<NameField>('entity');
+  const [suggestions, setSuggestions] = useState<NameMergeSuggestion[]>([]);
+  const [selections, setSelections] = useState<Record<string, ClusterSelection>>({});
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const clusters = useMemo(
+    () => open ? findNameClusters(creations, field, cultures, suggestions) : [],
+    [open, creations, field, cultures, suggestions],
+  );
+  const creationsById = useMemo(() => new Map(creations.map(c => [c.id, c])), [creations]);
+
+  // Cluster ids are only stable within one analysis
+  useEffect(() => {
+    setSelections({});
+  }, [field, suggestions]);
+
+  useEffect(() => {
+    if (!open) {
+      setSuggestions([]);
+      setSelections({});
+    }
+  }, [open]);
+
+  const toggleCluster = (cluster: NameCluster, checked: boolean) => {
+    setSelections(prev => {
+      const next = { ...prev };
+      if (checked) next[cluster.id] = { target: cluster.suggestedName, variants: cluster.variants.map(v => v.value) };
+      else delete next[cluster.id];
+      return next;
+    });
+  };
+
+  const updateSelection = (clusterId: string, changes: Partial<ClusterSelection>) =>
+    setSelections(prev => prev[clusterId] ? { ...prev, [clusterId]: { ...prev[clusterId], ...changes } } : prev);
+
+  const toggleVariant = (clusterId: string, value: string, checked: boolean) => {
+    const selection = selections[clusterId];
+    if (!selection) return;
+    updateSelection(clusterId, { variants: checked ? [...selection.variants, value] : selection.variants.filter(v => v !== value) });
+  };
+
+  const plannedChanges = useMemo(() => clusters.flatMap(cluster => {
+    const selection = selections[cluster.id];
+    if (!selection?.target.trim()) return [];
+    return getAffectedIds(cluster, selection).map(id => ({ id, fromValues: selection.variants, toValue: selection.target.trim() }));
+  }), [clusters, selections]);
+
+  const handleSuggest = async () => {
+    setIsSuggesting(true);
+    try {
+      const values = listNameValues(creations, field, cultures).slice(0, MAX_AI_NAMES);
+      const names = values.map(({ value, culture }) => culture ? `${value} [${culture}]` : value).join('\n');
+      const { template } = await getActivePromptTemplate('suggest-name-merges');
+      const result = await suggestNameMergesAction({ fieldLabel: FIELD_LABELS[field], names, template });
+      setSuggestions(result.groups.filter(group => group.variants.length > 1));
+      toast({ title: "Sugerencias Listas", description: `La IA propuso ${result.groups.length} grupos de nombres.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Sugerir", description: error.message });
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setProgress({ done: 0, total: plannedChanges.length });
+    let updated = 0;
+    try {
+      await runInJournalBatch('Unificar nombres', async (batch) => {
+        for (const change of plannedChanges) {
+          const creation = creationsById.get(change.id);
+          const newParams = creation && renameInParams(creation.params, field, change.fromValues, change.toValue);
+          if (newParams) {
+            await updateCreationParams(change.id, newParams, 'manual', batch);
+            updated++;
+          }
+          setProgress(prev => prev && { ...prev, done: prev.done + 1 });
+        }
+      });
+      toast({ title: "Nombres Unificados", description: `Se actualizaron ${updated} creaciones.` });
+      setSelections({});
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Unificar", description: `${error.message} (${updated} creaciones ya actualizadas)` });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isBusy = isSuggesting || progress !== null;
+
+  const renderPreview = (cluster: NameCluster, selection: ClusterSelection) => {
+    const affected = getAffectedIds(cluster, selection).map(id => creationsById.get(id)).filter((c): c is Creation => !!c);
+    if (affected.length === 0) return <p className="text-xs text-muted-foreground">Ninguna creación cambia.</p>;
+    const shown = affected.slice(0, PREVIEW_NAMES).map(c => c.name).join(', ');
+    return (
+      <p className="text-xs text-muted-foreground">
+        {affected.length} {affected.length === 1 ? 'creación pasará' : 'creaciones pasarán'} a "{selection.target.trim()}": {shown}
+        {affected.length > PREVIEW_NAMES && ` y ${affected.length - PREVIEW_NAMES} más`}
+      </p>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isBusy && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><GitMerge className="h-5 w-5" /> Unificar Nombres</DialogTitle>
+          <DialogDescription>Agrupa las variantes de un mismo nombre (mayúsculas, tildes, erratas, epítetos) y reescríbelas en todas sus creaciones.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2 justify-between">
+          <Tabs value={field} onValueChange={(value) => !isBusy && setField(value as NameField)}>
+            <TabsList>
+              <TabsTrigger value="entity">Entidades</TabsTrigger>
+              <TabsTrigger value="culture">Culturas</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="secondary" onClick={handleSuggest} disabled={isBusy || creations.length === 0}>
+            {isSuggesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+            Sugerir con IA
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[50vh] pr-4">
+          {clusters.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">No se encontraron {FIELD_LABELS[field]} duplicadas.</p>
+          ) : (
+            <div className="space-y-3">
+              {clusters.map(cluster => {
+                const selection = selections[cluster.id];
+                return (
+                  <div key={cluster.id} className="p-3 border rounded-md space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Checkbox checked={!!selection} onCheckedChange={(checked) => toggleCluster(cluster, !!checked)} disabled={isBusy} aria-label="Unificar este grupo" />
+                      {cluster.culture && <Badge variant="secondary">{cluster.culture}</Badge>}
+                      {cluster.isPlaceholder && <Badge variant="outline">Genérico</Badge>}
+                      {cluster.aiSuggested && <Badge variant="outline"><Sparkles className="mr-1 h-3 w-3" /> IA</Badge>}
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {cluster.variants.map(variant => (
+                          <label key={variant.value} className="flex items-center gap-1 text-sm">
+                            {selection && (
+                              <Checkbox checked={selection.variants.includes(variant.value)} onCheckedChange={(checked) => toggleVariant(cluster.id, variant.value, !!checked)} disabled={isBusy} />
+                            )}
+                            <span>{variant.value}</span>
+                            <span className="text-xs text-muted-foreground">({variant.creationIds.length})</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    {selection && (
+                      <div className="pl-6 space-y-1">
+                        <Input value={selection.target} onChange={(e) => updateSelection(cluster.id, { target: e.target.value })} placeholder="Nombre unificado" disabled={isBusy} />
+                        {renderPreview(cluster, selection)}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="items-center gap-2">
+          <span className="text-sm text-muted-foreground mr-auto">
+            {progress ? `Actualizando ${progress.done}/${progress.total}...` : `${plannedChanges.length} creaciones se actualizarán`}
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isBusy}>Cerrar</Button>
+          <Button onClick={handleApply} disabled={isBusy || plannedChanges.length === 0}>
+            {progress && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Unificar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
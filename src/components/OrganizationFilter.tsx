@@ -0,0 +1,81 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue, SelectGroup, SelectLabel } from '@/components/ui/select';
+import { useHistory } from '@/contexts/HistoryContext';
+import type { Creation } from '@/lib/types';
+
+export interface OrganizationFilterValue {
+  tag: string; // 'all' or a tag
+  collectionId: string; // 'all', 'none' or a collection id
+}
+
+export const DEFAULT_ORGANIZATION_FILTER: OrganizationFilterValue = { tag: 'all', collectionId: 'all' };
+
+export const matchesOrganizationFilter = (creation: Creation, filter: OrganizationFilterValue): boolean => {
+  if (filter.tag !== 'all' && !(creation.tags ?? []).some(tag => tag.toLowerCase() === filter.tag.toLowerCase())) {
+    return false;
+  }
+  if (filter.collectionId === 'none') return (creation.collectionIds ?? []).length === 0;
+  if (filter.collectionId !== 'all' && !(creation.collectionIds ?? []).includes(filter.collectionId)) {
+    return false;
+  }
+  return true;
+};
+
+// Every tag in use, sorted alphabetically
+export const useAllTags = (): string[] => {
+  const { creations } = useHistory();
+  return useMemo(() => {
+    const tags = new Map<string, string>();
+    creations.forEach(c => (c.tags ?? []).forEach(tag => {
+      if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    }));
+    return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+  }, [creations]);
+};
+
+interface OrganizationFilterProps {
+  value: OrganizationFilterValue;
+  onChange: (value: OrganizationFilterValue) => void;
+  className?: string;
+}
+
+export function OrganizationFilter({ value, onChange, className = "w-full sm:w-[180px]" }: OrganizationFilterProps) {
+  const { collections } = useHistory();
+  const allTags = useAllTags();
+
+  return (
+    <>
+      <Select value={value.tag} onValueChange={(tag) => onChange({ ...value, tag })}>
+        <SelectTrigger className={className}>
+          <SelectValue placeholder="Filtrar por etiqueta" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Todas las etiquetas</SelectItem>
+          {allTags.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Etiquetas</SelectLabel>
+              {allTags.map(tag => <SelectItem key={tag} value={tag}>{tag}</SelectItem>)}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+      <Select value={value.collectionId} onValueChange={(collectionId) => onChange({ ...value, collectionId })}>
+        <SelectTrigger className={className}>
+          <SelectValue placeholder="Filtrar por colección" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Todas las colecciones</SelectItem>
+          <SelectItem value="none">Sin colección</SelectItem>
+          {collections.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Colecciones</SelectLabel>
+              {collections.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
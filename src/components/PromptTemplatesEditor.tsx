@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { FileCode2, Loader2, RotateCcw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { listPromptTemplates, PROMPT_TEMPLATES, validatePromptTemplate, type PromptTemplateId } from '@/lib/prompt-templates';
+import { listPromptTemplateVersions, savePromptTemplate } from '@/lib/prompt-template-store';
+
+// Settings card to override the prompts sent to the models. Every save is a new version, and
+// creations record the version their prompt was built with.
+export function PromptTemplatesEditor() {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('generate-image');
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const versions = useLiveQuery(() => listPromptTemplateVersions(templateId), [templateId]);
+
+  const definition = PROMPT_TEMPLATES[templateId];
+  const latest = versions?.[0];
+  const activeTemplate = latest?.template ?? definition.defaultTemplate;
+  const activeVersion = latest?.version ?? 0;
+  const isLoaded = versions !== undefined;
+
+  // Reload the editor when switching templates or when a new version becomes active
+  useEffect(() => {
+    if (isLoaded) setDraft(activeTemplate);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [templateId, activeVersion, isLoaded]);
+
+  const validationError = useMemo(() => {
+    try {
+      validatePromptTemplate(templateId, draft);
+      return null;
+    } catch (error: any) {
+      return error.message as string;
+    }
+  }, [templateId, draft]);
+
+  const save = async (template: string | null) => {
+    setIsSaving(true);
+    try {
+      const saved = await savePromptTemplate(templateId, template);
+      toast(saved
+        ? { title: "Plantilla Guardada", description: `"${definition.name}" está ahora en la versión ${saved.version}.` }
+        : { title: "Sin Cambios", description: "La plantilla ya tenía este texto." });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Guardar", description: error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><FileCode2 className="mr-2 h-5 w-5 text-primary" /> Plantillas de Prompt</CardTitle>
+        <CardDescription>Edita el texto que se envía a la IA en cada flujo. Usa marcadores como {'{{style}}'} o bloques {'{{#if ...}}...{{/if}}'}. Cada creación guarda la versión de plantilla que armó su prompt.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label>Plantilla</Label>
+          <Select value={templateId} onValueChange={(value: PromptTemplateId) => setTemplateId(value)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {listPromptTemplates().map(template => <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{definition.description}</p>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(definition.variables).map(([name, description]) => (
+            <Badge key={name} variant="outline" title={description} className="font-mono text-xs">
+              {definition.mediaVariables?.includes(name) ? `{{media url=${name}}}` : `{{${name}}}`}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="prompt-template-text">Texto</Label>
+            <span className="text-xs text-muted-foreground">
+              {activeVersion === 0 ? 'Versión 0 (predeterminada)' : `Versión ${activeVersion}${latest?.template === null ? ' (predeterminada)' : ''}`}
+            </span>
+          </div>
+          <Textarea
+            id="prompt-template-text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={10}
+            className="font-mono text-xs"
+            disabled={!versions}
+          />
+          {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+        </div>
+
+        {versions && versions.length > 0 && (
+          <div className="space-y-1">
+            <Label>Historial</Label>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {versions.map(version => (
+                <div key={version.version} className="flex items-center gap-2 text-xs p-1.5 bg-muted/50 rounded-md">
+                  <span className="font-medium">v{version.version}</span>
+                  <span className="flex-1 text-muted-foreground">
+                    {format(new Date(version.createdAt), "d MMM yyyy, HH:mm", { locale: es })}
+                    {version.template === null && ' · predeterminada'}
+                  </span>
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setDraft(version.template ?? definition.defaultTemplate)}>
+                    Cargar
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button onClick={() => save(draft)} disabled={isSaving || !!validationError || draft === activeTemplate}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Guardar Versión
+        </Button>
+        <Button variant="outline" onClick={() => save(null)} disabled={isSaving || activeTemplate === definition.defaultTemplate}>
+          <RotateCcw className="mr-2 h-4 w-4" /> Restaurar Predeterminada
+        </Button>
+        <Button variant="ghost" onClick={() => setDraft(activeTemplate)} disabled={isSaving || draft === activeTemplate}>
+          Descartar Cambios
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import React from 'react';
+import * as z from 'zod';
+import type { Control } from 'react-hook-form';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { DEFAULT_SD_GENERATION_PARAMS, SD_DEFAULT_LORA_WEIGHT, SD_SAMPLERS } from '@/lib/stable-diffusion';
+import { useImageProviderOptions } from '@/hooks/use-image-provider-options';
+import type { ImageProviderId, SdLora } from '@/lib/types';
+
+// Zod fields shared by the create, reimagine and batch-create forms.
+export const sdAdvancedFormFields = {
+  negativePrompt: z.string().optional(),
+  seed: z.coerce.number().int("La semilla debe ser un número entero.").min(-1, "Usa -1 para una semilla aleatoria.").optional(),
+  sampler: z.string().optional(),
+  cfgScale: z.coerce.number().min(1, "El CFG debe estar entre 1 y 30.").max(30, "El CFG debe estar entre 1 y 30.").optional(),
+  loras: z.array(z.object({
+    name: z.string(),
+    weight: z.coerce.number().min(-2, "El peso del LoRA debe estar entre -2 y 2.").max(2, "El peso del LoRA debe estar entre -2 y 2."),
+  })).optional(),
+  hiresUpscaler: z.string().optional(),
+};
+
+export const SD_ADVANCED_FORM_DEFAULTS = { ...DEFAULT_SD_GENERATION_PARAMS, loras: [] as SdLora[], hiresUpscaler: '' };
+
+// Radix Select can't hold an empty value, so "no upscaler" gets its own sentinel
+const NO_UPSCALER = 'none';
+
+interface SdAdvancedFieldsProps {
+  control: Control<any>;
+  providerId: ImageProviderId;
+  mode?: 'txt2img' | 'img2img'; // Hires. fix only applies to txt2img
+}
+
+export function SdAdvancedFields({ control, providerId, mode = 'txt2img' }: SdAdvancedFieldsProps) {
+  const { options } = useImageProviderOptions(providerId);
+  const samplers = options.samplers.length > 0 ? options.samplers : SD_SAMPLERS;
+
+  return (
+    <Accordion type="single" collapsible className="border rounded-md px-3">
+      <AccordionItem value="sd-advanced" className="border-b-0">
+        <AccordionTrigger className="text-sm">
+          <span className="flex items-center gap-2"><SlidersHorizontal className="h-4 w-4" /> Opciones avanzadas de Stable Diffusion</span>
+        </AccordionTrigger>
+        <AccordionContent className="space-y-4 px-1">
+          <FormField
+            control={control}
+            name="negativePrompt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Prompt Negativo</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} placeholder="Lo que no debe aparecer en la imagen" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <FormField
+              control={control}
+              name="seed"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Semilla</FormLabel>
+                  <FormControl>
+                    <Input type="number" step={1} min={-1} {...field} />
+                  </FormControl>
+                  <FormDescription>-1 = aleatoria</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name="sampler"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sampler</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue placeholder="Selecciona un sampler" /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {field.value && !samplers.includes(field.value) && <SelectItem value={field.value}>{field.value}</SelectItem>}
+                      {samplers.map(sampler => (
+                        <SelectItem key={sampler} value={sampler}>{sampler}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name="cfgScale"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>CFG Scale</FormLabel>
+                  <FormControl>
+                    <Input type="number" step={0.5} min={1} max={30} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={control}
+            name="loras"
+            render={({ field }) => {
+              const selected: SdLora[] = field.value ?? [];
+              const available = options.loras.filter(lora => !selected.some(s => s.name === lora.name));
+              if (options.loras.length === 0 && selected.length === 0) return <></>;
+              const update = (next: SdLora[]) => field.onChange(next);
+              return (
+                <FormItem>
+                  <FormLabel>LoRAs</FormLabel>
+                  <div className="space-y-2">
+                    {selected.map((lora, index) => (
+                      <div key={lora.name} className="flex items-center gap-2">
+                        <span className="flex-1 truncate text-sm" title={lora.name}>{lora.name}</span>
+                        <Input
+                          type="number"
+                          step={0.05}
+                          min={-2}
+                          max={2}
+                          className="w-24"
+                          aria-label={`Peso de ${lora.name}`}
+                          value={lora.weight}
+                          onChange={(e) => update(selected.map((l, i) => i === index ? { ...l, weight: e.target.value === '' ? 0 : Number(e.target.value) } : l))}
+                        />
+                        <Button type="button" variant="ghost" size="icon" onClick={() => update(selected.filter((_, i) => i !== index))} aria-label={`Quitar ${lora.name}`}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {available.length > 0 && (
+                      <Select value="" onValueChange={(name) => update([...selected, { name, weight: SD_DEFAULT_LORA_WEIGHT }])}>
+                        <SelectTrigger><SelectValue placeholder="Añadir LoRA..." /></SelectTrigger>
+                        <SelectContent>
+                          {available.map(lora => (
+                            <SelectItem key={lora.name} value={lora.name}>{lora.alias ? `${lora.alias} (${lora.name})` : lora.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  <FormDescription>Se añaden al prompt como &lt;lora:nombre:peso&gt;.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              );
+            }}
+          />
+          {mode === 'txt2img' && options.upscalers.length > 0 && (
+            <FormField
+              control={control}
+              name="hiresUpscaler"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Upscaler (Hires. fix)</FormLabel>
+                  <Select onValueChange={(value) => field.onChange(value === NO_UPSCALER ? '' : value)} value={field.value || NO_UPSCALER}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_UPSCALER}>Sin hires. fix</SelectItem>
+                      {options.upscalers.map(upscaler => (
+                        <SelectItem key={upscaler} value={upscaler}>{upscaler}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Genera al tamaño base y reescala x2 refinando los detalles. Tarda más.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import React from 'react';
+import type { Control, UseFormSetValue } from 'react-hook-form';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStylePresets } from '@/contexts/StylePresetsContext';
+import type { StylePreset } from '@/lib/types';
+
+interface StylePresetFieldProps {
+  control: Control<any>;
+  name: string; // 'style' or 'visualStyle'
+  label: string;
+  onPresetSelected?: (preset: StylePreset) => void;
+}
+
+// Fills in the fields a preset recommends. Forms without one of these fields just ignore the value.
+export const applyStylePresetToForm = (setValue: UseFormSetValue<any>, preset: StylePreset) => {
+  if (preset.negativePrompt) setValue('negativePrompt', preset.negativePrompt);
+  for (const [key, value] of Object.entries(preset.settings ?? {})) {
+    if (value !== undefined && value !== '') setValue(key, value);
+  }
+};
+
+// Style picker over the built-in and user presets; the preset's name is the stored style.
+export function StylePresetField({ control, name, label, onPresetSelected }: StylePresetFieldProps) {
+  const { presets } = useStylePresets();
+  const builtInPresets = presets.filter(preset => preset.builtIn);
+  const userPresets = presets.filter(preset => !preset.builtIn);
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            onValueChange={(value) => {
+              field.onChange(value);
+              const preset = presets.find(p => p.name === value);
+              if (preset) onPresetSelected?.(preset);
+            }}
+            value={field.value}
+          >
+            <FormControl>
+              <SelectTrigger><SelectValue placeholder="Selecciona un estilo" /></SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {/* Keep a style that's no longer a preset (e.g. a deleted one) selectable */}
+              {field.value && !presets.some(preset => preset.name === field.value) && (
+                <SelectItem value={field.value}>{field.value}</SelectItem>
+              )}
+              {userPresets.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Mis estilos</SelectLabel>
+                  {userPresets.map(preset => <SelectItem key={preset.id} value={preset.name}>{preset.name}</SelectItem>)}
+                </SelectGroup>
+              )}
+              <SelectGroup>
+                {userPresets.length > 0 && <SelectLabel>Estilos incluidos</SelectLabel>}
+                {builtInPresets.map(preset => <SelectItem key={preset.id} value={preset.name}>{preset.name}</SelectItem>)}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { Palette, Plus, Edit3, Trash2, Upload, Download, Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useStylePresets } from '@/contexts/StylePresetsContext';
+import { useToast } from '@/hooks/use-toast';
+import { listImageProviders } from '@/lib/image-providers';
+import { SD_SAMPLERS } from '@/lib/stable-diffusion';
+import { ASPECT_RATIOS, IMAGE_QUALITIES } from '@/lib/types';
+import type { StylePreset, StylePresetSettings } from '@/lib/types';
+import type { StylePresetInput } from '@/lib/style-presets';
+
+// Radix selects can't hold an empty value, so "no recommendation" gets its own sentinel
+const NO_SETTING = '__none__';
+
+const EMPTY_PRESET: StylePresetInput = { name: '', promptPrefix: '', promptSuffix: '', negativePrompt: '', settings: {} };
+
+// Settings card to create, edit, delete and share style presets. Built-in styles are listed but read-only.
+export function StylePresetsManager() {
+  const { presets, userPresets, saveStylePreset, deleteStylePreset, importStylePresets, exportStylePresets } = useStylePresets();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
+  const [draft, setDraft] = useState<StylePresetInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const builtInPresets = presets.filter(preset => preset.builtIn);
+
+  const openEditor = (preset?: StylePreset) => {
+    setEditingId(preset?.id);
+    setDraft(preset
+      ? { name: preset.name, promptPrefix: preset.promptPrefix, promptSuffix: preset.promptSuffix, negativePrompt: preset.negativePrompt ?? '', settings: { ...preset.settings } }
+      : EMPTY_PRESET);
+  };
+
+  const updateDraft = (changes: Partial<StylePresetInput>) => setDraft(prev => prev ? { ...prev, ...changes } : prev);
+
+  const updateSetting = <K extends keyof StylePresetSettings>(key: K, value: StylePresetSettings[K]) =>
+    setDraft(prev => prev ? { ...prev, settings: { ...prev.settings, [key]: value } } : prev);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveStylePreset(draft, editingId);
+      toast({ title: editingId ? "Estilo Actualizado" : "Estilo Creado", description: `"${saved.name}" ya está disponible en los selectores de estilo.` });
+      setDraft(null);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Guardar", description: error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: StylePreset) => {
+    try {
+      await deleteStylePreset(preset.id);
+      toast({ title: "Estilo Eliminado", description: `Se eliminó "${preset.name}". Las creaciones que lo usan lo conservan.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error al Eliminar", description: error.message });
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const { added, updated } = await importStylePresets(file);
+      toast({ title: "Estilos Importados", description: `${added} nuevos, ${updated} actualizados.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Importación Fallida", description: error.message || "No se pudo importar el archivo." });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const renderSettingSelect = (label: string, key: 'provider' | 'aspectRatio' | 'imageQuality' | 'sampler', options: readonly { value: string; label: string }[]) => (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select value={draft?.settings?.[key] || NO_SETTING} onValueChange={(value) => updateSetting(key, value === NO_SETTING ? undefined : value)}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SETTING}>Sin recomendación</SelectItem>
+          {options.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const toOptions = (values: readonly string[]) => values.map(value => ({ value, label: value }));
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><Palette className="mr-2 h-5 w-5 text-primary" /> Estilos</CardTitle>
+        <CardDescription>Crea estilos propios con texto antes y después del prompt, un prompt negativo y ajustes recomendados. Aparecen en todos los selectores de estilo.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {userPresets.length === 0 && (
+          <p className="text-sm text-muted-foreground">Aún no has creado estilos propios.</p>
+        )}
+        {userPresets.map(preset => (
+          <div key={preset.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded-md">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">{preset.name}</p>
+              {(preset.promptPrefix || preset.promptSuffix) && (
+                <p className="text-xs text-muted-foreground truncate">{[preset.promptPrefix, '…', preset.promptSuffix].filter(Boolean).join(' ')}</p>
+              )}
+            </div>
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEditor(preset)} title="Editar"><Edit3 className="h-4 w-4" /></Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => handleDelete(preset)} title="Eliminar"><Trash2 className="h-4 w-4" /></Button>
+          </div>
+        ))}
+        <div className="flex flex-wrap gap-1 pt-2">
+          {builtInPresets.map(preset => <Badge key={preset.id} variant="outline">{preset.name}</Badge>)}
+        </div>
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button onClick={() => openEditor()}><Plus className="mr-2 h-4 w-4" /> Nuevo Estilo</Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}><Upload className="mr-2 h-4 w-4" /> Importar JSON</Button>
+        <Button variant="outline" onClick={exportStylePresets} disabled={userPresets.length === 0}><Download className="mr-2 h-4 w-4" /> Exportar JSON</Button>
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
+      </CardFooter>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && !isSaving && setDraft(null)}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar Estilo' : 'Nuevo Estilo'}</DialogTitle>
+            <DialogDescription>El prefijo y el sufijo se añaden al prompt de cada imagen generada con este estilo.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="style-preset-name">Nombre</Label>
+                <Input id="style-preset-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="Ej: Grabado en madera" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="style-preset-prefix">Prefijo del prompt</Label>
+                <Textarea id="style-preset-prefix" value={draft.promptPrefix} onChange={(e) => updateDraft({ promptPrefix: e.target.value })} rows={2} placeholder="Ej: woodcut print, bold black lines," />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="style-preset-suffix">Sufijo del prompt</Label>
+                <Textarea id="style-preset-suffix" value={draft.promptSuffix} onChange={(e) => updateDraft({ promptSuffix: e.target.value })} rows={2} placeholder="Ej: high contrast, textured paper" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="style-preset-negative">Prompt negativo</Label>
+                <Textarea id="style-preset-negative" value={draft.negativePrompt ?? ''} onChange={(e) => updateDraft({ negativePrompt: e.target.value })} rows={2} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {renderSettingSelect('Motor recomendado', 'provider', listImageProviders().map(provider => ({ value: provider.id, label: provider.name })))}
+                {renderSettingSelect('Relación de aspecto', 'aspectRatio', toOptions(ASPECT_RATIOS))}
+                {renderSettingSelect('Calidad', 'imageQuality', toOptions(IMAGE_QUALITIES))}
+                {renderSettingSelect('Sampler', 'sampler', toOptions(SD_SAMPLERS))}
+                <div className="space-y-1">
+                  <Label htmlFor="style-preset-cfg">CFG Scale</Label>
+                  <Input
+                    id="style-preset-cfg"
+                    type="number"
+                    min={1}
+                    max={30}
+                    step={0.5}
+                    value={draft.settings?.cfgScale ?? ''}
+                    onChange={(e) => updateSetting('cfgScale', e.target.value ? Number(e.target.value) : undefined)}
+                    placeholder="Sin recomendación"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft?.name.trim()}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
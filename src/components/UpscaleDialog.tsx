@@ -0,0 +1,196 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, Maximize2, PauseCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useHistory } from '@/contexts/HistoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { imageToDataUri } from '@/lib/image-data';
+import { listSdUpscalers, SD_UPSCALE_FACTORS, upscaleWithStableDiffusion } from '@/lib/stable-diffusion';
+import type { Creation } from '@/lib/types';
+
+interface UpscaleDialogProps {
+  creationIds: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onComplete?: () => void; // Called after a run, even a partial one, so callers can refresh
+}
+
+type UpscaleSaveMode = 'version' | 'creation';
+
+// Upscales the current image of one or many creations with the SD WebUI extras and stores
+// the result as a new version of each creation or as a new creation.
+export function UpscaleDialog({ creationIds, open, onOpenChange, onComplete }: UpscaleDialogProps) {
+  const { getCreationById, getImageData, getTextOutput, addCreation, updateCreationImageAndOutput } = useHistory();
+  const { toast } = useToast();
+  const [upscalers, setUpscalers] = useState<string[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoadingUpscalers, setIsLoadingUpscalers] = useState(false);
+  const [upscaler, setUpscaler] = useState('');
+  const [factor, setFactor] = useState(SD_UPSCALE_FACTORS[0]);
+  const [saveMode, setSaveMode] = useState<UpscaleSaveMode>('version');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const stopRequestedRef = useRef(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIsLoadingUpscalers(true);
+    setLoadError(null);
+    listSdUpscalers()
+      .then(list => {
+        if (cancelled) return;
+        setUpscalers(list);
+        setUpscaler(current => list.includes(current) ? current : list[0] ?? '');
+      })
+      .catch((error: any) => { if (!cancelled) setLoadError(error.message || "No se pudo conectar con Stable Diffusion."); })
+      .finally(() => { if (!cancelled) setIsLoadingUpscalers(false); });
+    return () => { cancelled = true; };
+  }, [open]);
+
+  const upscaleCreation = async (creation: Creation) => {
+    if (!creation.imageId) throw new Error(`"${creation.name}" no tiene imagen.`);
+    const image = await getImageData(creation.imageId);
+    if (!image) throw new Error(`No se encontró la imagen de "${creation.name}".`);
+    const output = creation.outputId ? await getTextOutput(creation.outputId) : undefined;
+    if (!output) throw new Error(`No se encontró la salida de IA de "${creation.name}".`);
+
+    const upscaled = await upscaleWithStableDiffusion({ image: await imageToDataUri(image), upscaler, factor });
+    // Upscaling an already upscaled image compounds, so the recorded factor is relative to the original render
+    const params: Creation['params'] = { ...creation.params, upscale: { upscaler, factor: (creation.params.upscale?.factor ?? 1) * factor } };
+
+    if (saveMode === 'version') {
+      await updateCreationImageAndOutput(creation.id, params, upscaled, output.data);
+      return;
+    }
+
+    // Analyzed creations keep their image as the "original"; reimagined ones also need their source image
+    let originalImageDataUri: string | undefined;
+    if (creation.type === 'analyzed') {
+      originalImageDataUri = upscaled;
+    } else if (creation.type === 'reimagined' && creation.originalImageId) {
+      const originalImage = await getImageData(creation.originalImageId);
+      if (originalImage) originalImageDataUri = await imageToDataUri(originalImage);
+    }
+    const saved = await addCreation(creation.type, `${creation.name} (x${factor})`, params, output.data,
+      creation.type === 'analyzed' ? undefined : upscaled, originalImageDataUri);
+    if (!saved) throw new Error(`Error al guardar la versión escalada de "${creation.name}".`);
+  };
+
+  const handleUpscale = async () => {
+    stopRequestedRef.current = false;
+    setProgress({ done: 0, total: creationIds.length });
+    let successCount = 0;
+    let failCount = 0;
+    let lastError = '';
+
+    // One at a time: the WebUI processes requests sequentially anyway
+    for (const [index, id] of creationIds.entries()) {
+      if (stopRequestedRef.current) break;
+      try {
+        const creation = await getCreationById(id);
+        if (!creation) throw new Error("La creación ya no existe.");
+        await upscaleCreation(creation);
+        successCount++;
+      } catch (error: any) {
+        console.error(`Error upscaling creation ${id}:`, error);
+        failCount++;
+        lastError = error.message;
+      }
+      setProgress({ done: index + 1, total: creationIds.length });
+    }
+
+    setProgress(null);
+    onComplete?.();
+    if (failCount > 0) {
+      toast({ variant: "destructive", title: `Fallaron ${failCount} escalados`, description: `Último error: ${lastError}` });
+    }
+    if (successCount > 0) {
+      toast({
+        title: "Escalado Completo",
+        description: saveMode === 'version'
+          ? `Se añadió una versión escalada a ${successCount} creaciones.`
+          : `Se guardaron ${successCount} creaciones escaladas.`,
+      });
+      onOpenChange(false);
+    }
+  };
+
+  const isRunning = progress !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRunning && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Maximize2 className="h-5 w-5" /> Escalar Imagen</DialogTitle>
+          <DialogDescription>
+            {creationIds.length === 1 ? 'La imagen' : `Las imágenes de las ${creationIds.length} creaciones seleccionadas`} se amplían con los upscalers de Stable Diffusion, sin volver a generarlas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Upscaler</Label>
+              <Select value={upscaler} onValueChange={setUpscaler} disabled={isRunning || isLoadingUpscalers}>
+                <SelectTrigger><SelectValue placeholder={isLoadingUpscalers ? "Cargando upscalers..." : "Selecciona un upscaler"} /></SelectTrigger>
+                <SelectContent>
+                  {upscalers.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Factor</Label>
+                <Select value={String(factor)} onValueChange={(value) => setFactor(Number(value))} disabled={isRunning}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SD_UPSCALE_FACTORS.map(value => <SelectItem key={value} value={String(value)}>x{value}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Guardar como</Label>
+                <Select value={saveMode} onValueChange={(value: UpscaleSaveMode) => setSaveMode(value)} disabled={isRunning}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="version">Nueva versión</SelectItem>
+                    <SelectItem value="creation">Nueva creación</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={(progress.done / progress.total) * 100} />
+                <p className="text-xs text-muted-foreground">Escaladas {progress.done} de {progress.total}...</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {isRunning ? (
+            <Button variant="destructive" onClick={() => { stopRequestedRef.current = true; }}>
+              <PauseCircle className="mr-2 h-4 w-4" /> Detener
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+              <Button onClick={handleUpscale} disabled={!upscaler || creationIds.length === 0 || !!loadError}>
+                {isLoadingUpscalers ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Maximize2 className="mr-2 h-4 w-4" />}
+                Escalar{creationIds.length > 1 ? ` (${creationIds.length})` : ''}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
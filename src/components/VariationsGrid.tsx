@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { CheckCircle2, Layers, Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { cn } from '@/lib/utils';
+import type { GenerationVariation } from '@/lib/types';
+import type { SaveVariationsMode } from '@/hooks/use-save-variations';
+
+interface VariationsGridProps {
+  variations: GenerationVariation[];
+  onSave: (selected: GenerationVariation[], mode: SaveVariationsMode) => Promise<void>;
+  isSaving: boolean;
+  isSaved: boolean; // Disables saving again once the picks are stored
+}
+
+// Result grid of a multi-image generation: pick the good images and save them.
+export function VariationsGrid({ variations, onSave, isSaving, isSaved }: VariationsGridProps) {
+  const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setSelectedIndices(new Set());
+  }, [variations]);
+
+  const toggle = (index: number) => {
+    if (isSaved) return;
+    setSelectedIndices(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const selected = variations.filter((_, index) => selectedIndices.has(index));
+  const canSave = selected.length > 0 && !isSaving && !isSaved;
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {isSaved ? 'Selección guardada en tu galería.' : `Selecciona las imágenes que quieres conservar (${selected.length}/${variations.length}).`}
+        </p>
+        {!isSaved && (
+          <Button variant="ghost" size="sm" onClick={() => setSelectedIndices(new Set(variations.map((_, index) => index)))}>
+            Seleccionar todas
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {variations.map((variation, index) => {
+          const isSelected = selectedIndices.has(index);
+          return (
+            <div
+              key={index}
+              className={cn(
+                "relative aspect-square rounded-lg overflow-hidden border-2 cursor-pointer transition-colors",
+                isSelected ? "border-primary" : "border-transparent hover:border-primary/40",
+                isSaved && !isSelected && "opacity-50 cursor-default"
+              )}
+              onClick={() => toggle(index)}
+            >
+              <Image src={variation.imageUrl} alt={`Variación ${index + 1}`} fill className="object-cover" data-ai-hint="mythological art" />
+              <div className="absolute top-2 left-2 bg-background/80 rounded-sm p-0.5">
+                <Checkbox checked={isSelected} onCheckedChange={() => toggle(index)} onClick={(e) => e.stopPropagation()} disabled={isSaved} aria-label={`Seleccionar variación ${index + 1}`} />
+              </div>
+              {variation.seed !== undefined && (
+                <span className="absolute bottom-1 right-1 text-[10px] bg-background/80 rounded px-1">Semilla {variation.seed}</span>
+              )}
+              {isSaved && isSelected && <CheckCircle2 className="absolute top-2 right-2 h-5 w-5 text-primary" />}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button className="flex-1" onClick={() => onSave(selected, 'separate')} disabled={!canSave}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Guardar como creaciones separadas
+        </Button>
+        <Button className="flex-1" variant="secondary" onClick={() => onSave(selected, 'alternates')} disabled={!canSave || selected.length < 2}>
+          <Layers className="mr-2 h-4 w-4" />
+          Guardar como una con alternativas
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { ScrollText, Wand2, ImageIcon, GalleryVerticalEnd, Settings, Sparkles, Palette, FileText, Layers, FileSpreadsheet, FileSignature, List, Library } from "lucide-react";
+import { ScrollText, Wand2, ImageIcon, GalleryVerticalEnd, Settings, Sparkles, Palette, FileText, Layers, FileSpreadsheet, FileSignature, List, Library, Trash2 } from "lucide-react";
 import {
   Sidebar,
   SidebarHeader,
@@ -17,8 +17,11 @@ import {
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { EditHistoryPanel } from "@/components/EditHistoryPanel";
 import { Separator } from "@/components/ui/separator";
+import { useLiveQuery } from "dexie-react-hooks";
 import { useHistory } from "@/contexts/HistoryContext";
+import { db } from "@/lib/db";
 
 const navItems = [
   { href: "/create", label: "Crear Mito", icon: Wand2 },
@@ -31,12 +34,14 @@ const navItems = [
   { href: "/gallery", label: "Mi Galería", icon: GalleryVerticalEnd },
   { href: "/data-view", label: "Vista de Datos", icon: List },
   { href: "/encyclopedia", label: "Enciclopedia", icon: Library },
+  { href: "/trash", label: "Papelera", icon: Trash2 },
   { href: "/settings", label: "Ajustes", icon: Settings },
 ];
 
 export function AppSidebar() {
   const pathname = usePathname();
   const { creations } = useHistory();
+  const trashCount = useLiveQuery(() => db.trash.count(), []) ?? 0;
 
   return (
     <Sidebar variant="sidebar" collapsible="icon" side="left" className="border-r">
@@ -69,6 +74,9 @@ export function AppSidebar() {
                   {item.href === "/gallery" && creations && creations.length > 0 && (
                     <SidebarMenuBadge>{creations.length}</SidebarMenuBadge>
                   )}
+                  {item.href === "/trash" && trashCount > 0 && (
+                    <SidebarMenuBadge>{trashCount}</SidebarMenuBadge>
+                  )}
                 </Link>
               </SidebarMenuButton>
             </SidebarMenuItem>
@@ -82,7 +90,10 @@ export function AppSidebar() {
             Ver Código Fuente
           </Button>
          </div>
-        <ThemeToggle />
+        <div className="flex items-center group-data-[collapsible=icon]:flex-col">
+          <EditHistoryPanel />
+          <ThemeToggle />
+        </div>
       </SidebarFooter>
     </Sidebar>
   );
@@ -0,0 +1,386 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { useHistory } from '@/contexts/HistoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { regenerateCreationNameAction } from '@/lib/actions';
+import { renderPromptTemplate } from '@/lib/prompt-templates';
+import { findCulture, mergeCultures, toCulturePromptParams } from '@/lib/cultures';
+import { getActivePromptTemplate } from '@/lib/prompt-template-store';
+import { pickSdGenerationParams } from '@/lib/stable-diffusion';
+import { getBatchLimits, getProviderBatchLimits, createRateLimiter, withQuotaBackoff, type RateLimiter } from '@/lib/batch-limits';
+import { applyProviderResult, getImageProvider, DEFAULT_IMAGE_PROVIDER_ID } from '@/lib/image-providers';
+import type { BatchJob, BatchJobItem, BatchJobSettings, GeneratedParams, ImageProviderId } from '@/lib/types';
+
+const LEGACY_BATCH_CACHE_KEY = 'mythWeaverBatchCreateCache';
+// A tab renews its claims on the items it's processing; a claim left unrenewed this long belongs to
+// a tab that was closed or reloaded mid-generation
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const CLAIM_RENEW_MS = 30 * 1000;
+
+// Puts items whose claim expired back in the queue. Claims another open tab is still renewing are left alone.
+const releaseExpiredClaims = () =>
+  db.batchJobItems.where('status').equals('processing')
+    .and(item => item.updatedAt < Date.now() - CLAIM_LEASE_MS)
+    .modify({ status: 'pending', updatedAt: Date.now() });
+
+// Keeps the claim on an item alive while it's processed. Returns the function that stops renewing it.
+const renewClaim = (itemId: string): (() => void) => {
+  const timer = setInterval(() => {
+    db.batchJobItems.where('id').equals(itemId).and(item => item.status === 'processing')
+      .modify({ updatedAt: Date.now() })
+      .catch(e => console.error("Failed to renew batch item claim:", e));
+  }, CLAIM_RENEW_MS);
+  return () => clearInterval(timer);
+};
+
+export interface BatchTask {
+  prompt: string;
+  culture: string;
+}
+
+interface BatchJobContextType {
+  jobs: BatchJob[];
+  createJob: (name: string, settings: BatchJobSettings, tasks: BatchTask[]) => Promise<string>;
+  pauseJob: (jobId: string) => Promise<void>;
+  resumeJob: (jobId: string) => Promise<void>;
+  deleteJob: (jobId: string) => Promise<void>;
+  retryFailedItems: (jobId: string) => Promise<void>;
+  retryItem: (itemId: string) => Promise<void>;
+  updateItemPrompt: (itemId: string, prompt: string, culture: string) => Promise<void>;
+  clearSuccessfulItems: (jobId: string) => Promise<void>;
+}
+
+const BatchJobContext = createContext<BatchJobContextType | undefined>(undefined);
+
+// Runs queued batch jobs with a worker pool sized per provider (see batch-limits.ts). The queue
+// lives in IndexedDB, so jobs keep their progress across reloads and keep running while the user
+// navigates to other pages of the app.
+export const BatchJobProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { addCreation } = useHistory();
+  const { toast } = useToast();
+  const isRunnerActiveRef = useRef(false);
+  const [isQueueReady, setIsQueueReady] = useState(false);
+
+  const jobs = useLiveQuery(
+    () => db.batchJobs.orderBy('createdAt').reverse().toArray(),
+    []
+  ) || [];
+
+  // Items left in 'processing' by a closed or reloaded tab are queued again once their claim expires.
+  // Also moves a batch saved by older versions of the app (localStorage) into the queue.
+  useEffect(() => {
+    const prepareQueue = async () => {
+      try {
+        await releaseExpiredClaims();
+
+        const legacyCache = localStorage.getItem(LEGACY_BATCH_CACHE_KEY);
+        if (legacyCache) {
+          const { results, formState } = JSON.parse(legacyCache);
+          if (Array.isArray(results) && results.length > 0) {
+            const now = Date.now();
+            const jobId = uuidv4();
+            await db.transaction('rw', db.batchJobs, db.batchJobItems, async () => {
+              await db.batchJobs.add({
+                id: jobId,
+                name: 'Lote recuperado',
+                status: 'paused',
+                settings: {
+                  style: formState?.style,
+                  aspectRatio: formState?.aspectRatio,
+                  imageQuality: formState?.imageQuality,
+                  provider: formState?.provider || DEFAULT_IMAGE_PROVIDER_ID,
+                  checkpoint: formState?.checkpoint,
+                },
+                createdAt: now,
+                updatedAt: now,
+              });
+              await db.batchJobItems.bulkAdd(results.map((r: any, position: number) => ({
+                id: uuidv4(),
+                jobId,
+                position,
+                prompt: r.prompt,
+                culture: r.culture,
+                status: r.status === 'processing' ? 'pending' : r.status,
+                attempts: r.status === 'pending' ? 0 : 1,
+                error: r.error,
+                imageId: r.imageId,
+                name: r.name,
+                entity: r.entity,
+                updatedAt: now,
+              })));
+            });
+          }
+          localStorage.removeItem(LEGACY_BATCH_CACHE_KEY);
+        }
+      } catch (e) {
+        console.error("Error preparing batch job queue:", e);
+      } finally {
+        setIsQueueReady(true);
+      }
+    };
+    prepareQueue();
+  }, []);
+
+  // Shared by all workers, so the per-minute caps hold no matter how many items run in parallel.
+  const rateLimitersRef = useRef(new Map<ImageProviderId, RateLimiter>());
+
+  const getRateLimiter = (providerId: ImageProviderId) => {
+    let limiter = rateLimitersRef.current.get(providerId);
+    if (!limiter) {
+      limiter = createRateLimiter(() => getProviderBatchLimits(getBatchLimits(), providerId).requestsPerMinute);
+      rateLimitersRef.current.set(providerId, limiter);
+    }
+    return limiter;
+  };
+
+  // Marks the item as processing. Returns undefined if another worker (or tab) already took it.
+  const claimItem = async (itemId: string): Promise<BatchJobItem | undefined> => {
+    return db.transaction('rw', db.batchJobItems, async () => {
+      const current = await db.batchJobItems.get(itemId);
+      if (!current || current.status !== 'pending') return undefined;
+      await db.batchJobItems.update(itemId, { status: 'processing', error: undefined, attempts: current.attempts + 1, updatedAt: Date.now() });
+      return current;
+    });
+  };
+
+  const processItem = useCallback(async (job: BatchJob, item: BatchJobItem) => {
+    const { settings } = job;
+    let creationName = `Creación en Lote #${item.position + 1}`;
+    let entity = 'Desconocido';
+
+    try {
+      // Step 1: Extract Name and Entity (always done with Google AI)
+      const [batchTemplate, namingTemplate] = await Promise.all([getActivePromptTemplate('batch-image'), getActivePromptTemplate('regenerate-name')]);
+      const fullPromptForNaming = renderPromptTemplate(batchTemplate.template, { ...settings, culture: item.culture, details: item.prompt });
+      const nameResult = await withQuotaBackoff(getRateLimiter('google-ai'), () =>
+        regenerateCreationNameAction({ promptText: fullPromptForNaming, template: namingTemplate.template })
+      );
+      creationName = nameResult.creationName;
+      entity = nameResult.entity;
+    } catch (e) {
+      console.warn(`Name extraction failed for batch item #${item.position}. Using generic names.`, e);
+      // Fallback to generic names, continue with image generation
+    }
+
+    try {
+      // Step 2: Generate Image
+      const provider = getImageProvider(settings.provider);
+      const culture = findCulture(mergeCultures(await db.cultures.toArray()), item.culture);
+      let aiInputParams: GeneratedParams = {
+        culture: item.culture,
+        entity: entity,
+        details: item.prompt,
+        style: settings.style,
+        stylePrefix: settings.stylePrefix,
+        styleSuffix: settings.styleSuffix,
+        ...toCulturePromptParams(culture),
+        aspectRatio: settings.aspectRatio,
+        imageQuality: settings.imageQuality,
+        provider: settings.provider,
+        checkpoint: settings.checkpoint,
+        ...(provider.capabilities.advancedParams ? pickSdGenerationParams(settings) : {}),
+      };
+
+      const [imageResult] = await withQuotaBackoff(getRateLimiter(settings.provider), () => provider.txt2img({ params: aiInputParams }), 4);
+      aiInputParams = applyProviderResult(aiInputParams, imageResult);
+
+      const creationResult = await addCreation('generated', creationName, aiInputParams, { prompt: imageResult.prompt }, imageResult.imageUrl);
+      if (!creationResult) {
+        throw new Error("Error al guardar la creación en la base de datos.");
+      }
+
+      await db.batchJobItems.update(item.id, {
+        status: 'success',
+        creationId: creationResult.creationId,
+        imageId: creationResult.imageId,
+        name: creationName,
+        entity,
+        updatedAt: Date.now(),
+      });
+    } catch (error: any) {
+      console.error(`Error processing batch prompt: ${item.prompt}`, error);
+      await db.batchJobItems.update(item.id, {
+        status: 'error',
+        error: error.message || "Error desconocido",
+        name: item.name || `Fallido #${item.position + 1}`,
+        updatedAt: Date.now(),
+      });
+    }
+  }, [addCreation]);
+
+  // Marks a running job as completed once nothing is left pending or in flight.
+  const completeJobIfDone = useCallback(async (jobId: string) => {
+    const completedJob = await db.transaction('rw', db.batchJobs, db.batchJobItems, async () => {
+      const job = await db.batchJobs.get(jobId);
+      if (!job || job.status !== 'running') return undefined;
+      const remaining = await db.batchJobItems.where('[jobId+status]').anyOf([[jobId, 'pending'], [jobId, 'processing']]).count();
+      if (remaining > 0) return undefined;
+      await db.batchJobs.update(jobId, { status: 'completed', updatedAt: Date.now() });
+      return job;
+    });
+    if (!completedJob) return;
+
+    const failedCount = await db.batchJobItems.where('[jobId+status]').equals([jobId, 'error']).count();
+    toast({
+      title: "Lote Terminado",
+      description: failedCount > 0
+        ? `"${completedJob.name}" ha terminado con ${failedCount} elemento(s) fallido(s).`
+        : `"${completedJob.name}" se ha completado correctamente.`,
+    });
+  }, [toast]);
+
+  const runQueue = useCallback(async () => {
+    if (isRunnerActiveRef.current) return;
+    isRunnerActiveRef.current = true;
+    const inFlight = new Set<Promise<void>>();
+    const activeByProvider: Record<ImageProviderId, number> = {};
+    let failed = false;
+
+    try {
+      while (true) {
+        // Jobs and limits are re-read on every pass so pausing and limit changes take effect right away.
+        // Older jobs get their free worker slots filled first.
+        const limits = getBatchLimits();
+        await releaseExpiredClaims();
+        const runningJobs = await db.batchJobs.where('status').equals('running').sortBy('createdAt');
+        let launched = false;
+
+        for (const job of runningJobs) {
+          const provider = job.settings.provider;
+          if ((activeByProvider[provider] ?? 0) >= getProviderBatchLimits(limits, provider).concurrency) continue;
+
+          const [nextItem] = await db.batchJobItems.where('[jobId+status]').equals([job.id, 'pending']).sortBy('position');
+          if (!nextItem) {
+            await completeJobIfDone(job.id);
+            continue;
+          }
+
+          const item = await claimItem(nextItem.id);
+          if (!item) continue;
+
+          activeByProvider[provider] = (activeByProvider[provider] ?? 0) + 1;
+          const stopRenewing = renewClaim(item.id);
+          const task: Promise<void> = processItem(job, item).finally(async () => {
+            stopRenewing();
+            activeByProvider[provider]--;
+            inFlight.delete(task);
+            await completeJobIfDone(job.id);
+          });
+          inFlight.add(task);
+          launched = true;
+          break;
+        }
+
+        if (!launched) {
+          // Items claimed by another tab keep their job open: wait for them to finish or for the claims to expire
+          if (inFlight.size === 0 && await db.batchJobItems.where('status').equals('processing').count() === 0) break;
+          // Wait for a worker to free up, or poll so resumed jobs are picked up.
+          await Promise.race([...inFlight, new Promise(resolve => setTimeout(resolve, 1000))]);
+        }
+      }
+    } catch (e) {
+      failed = true;
+      console.error("Batch job runner stopped unexpectedly:", e);
+      await Promise.allSettled(inFlight);
+    } finally {
+      isRunnerActiveRef.current = false;
+    }
+    // A job may have been resumed while the runner was shutting down.
+    if (!failed && await db.batchJobs.where('status').equals('running').count() > 0) {
+      runQueue();
+    }
+  }, [processItem, completeJobIfDone]);
+
+  useEffect(() => {
+    if (isQueueReady && jobs.some(job => job.status === 'running')) {
+      runQueue();
+    }
+  }, [isQueueReady, jobs, runQueue]);
+
+  const createJob = async (name: string, settings: BatchJobSettings, tasks: BatchTask[]): Promise<string> => {
+    const now = Date.now();
+    const jobId = uuidv4();
+    await db.transaction('rw', db.batchJobs, db.batchJobItems, async () => {
+      await db.batchJobs.add({ id: jobId, name, status: 'running', settings, createdAt: now, updatedAt: now });
+      await db.batchJobItems.bulkAdd(tasks.map((task, position) => ({
+        id: uuidv4(),
+        jobId,
+        position,
+        prompt: task.prompt,
+        culture: task.culture,
+        status: 'pending' as const,
+        attempts: 0,
+        updatedAt: now,
+      })));
+    });
+    return jobId;
+  };
+
+  const setJobStatus = (jobId: string, status: BatchJob['status']) =>
+    db.batchJobs.update(jobId, { status, updatedAt: Date.now() });
+
+  const pauseJob = async (jobId: string) => {
+    await setJobStatus(jobId, 'paused');
+  };
+
+  const resumeJob = async (jobId: string) => {
+    await setJobStatus(jobId, 'running');
+  };
+
+  const deleteJob = async (jobId: string) => {
+    // Generated creations stay in the library; only the queue entries are removed.
+    await db.transaction('rw', db.batchJobs, db.batchJobItems, async () => {
+      await db.batchJobItems.where('jobId').equals(jobId).delete();
+      await db.batchJobs.delete(jobId);
+    });
+  };
+
+  const retryFailedItems = async (jobId: string) => {
+    await db.transaction('rw', db.batchJobs, db.batchJobItems, async () => {
+      await db.batchJobItems.where('[jobId+status]').equals([jobId, 'error']).modify({ status: 'pending', updatedAt: Date.now() });
+      await setJobStatus(jobId, 'running');
+    });
+  };
+
+  const requeueItem = async (itemId: string, changes: Partial<BatchJobItem> = {}) => {
+    await db.transaction('rw', db.batchJobs, db.batchJobItems, async () => {
+      const item = await db.batchJobItems.get(itemId);
+      if (!item) return;
+      await db.batchJobItems.update(itemId, { ...changes, status: 'pending', error: undefined, updatedAt: Date.now() });
+      await setJobStatus(item.jobId, 'running');
+    });
+  };
+
+  const retryItem = (itemId: string) => requeueItem(itemId);
+
+  const updateItemPrompt = (itemId: string, prompt: string, culture: string) => requeueItem(itemId, { prompt, culture });
+
+  const clearSuccessfulItems = async (jobId: string) => {
+    await db.batchJobItems.where('[jobId+status]').equals([jobId, 'success']).delete();
+  };
+
+  return (
+    <BatchJobContext.Provider value={{ jobs, createJob, pauseJob, resumeJob, deleteJob, retryFailedItems, retryItem, updateItemPrompt, clearSuccessfulItems }}>
+      {children}
+    </BatchJobContext.Provider>
+  );
+};
+
+export const useBatchJobs = (): BatchJobContextType => {
+  const context = useContext(BatchJobContext);
+  if (context === undefined) {
+    throw new Error('useBatchJobs must be used within a BatchJobProvider');
+  }
+  return context;
+};
+
+export const useBatchJobItems = (jobId: string | null): BatchJobItem[] => {
+  return useLiveQuery(
+    () => jobId ? db.batchJobItems.where('[jobId+position]').between([jobId, -Infinity], [jobId, Infinity]).toArray() : [],
+    [jobId]
+  ) || [];
+};
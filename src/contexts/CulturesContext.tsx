@@ -0,0 +1,76 @@
+"use client";
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { mergeCultures, normalizeCultureName, type CultureInput } from '@/lib/cultures';
+import type { Culture } from '@/lib/types';
+
+interface CulturesContextType {
+  cultures: Culture[]; // Built-in and user cultures, as offered in the culture pickers
+  userCultures: Culture[];
+  saveCulture: (input: CultureInput, id?: string) => Promise<Culture>;
+  deleteCulture: (id: string) => Promise<void>;
+}
+
+const CulturesContext = createContext<CulturesContextType | undefined>(undefined);
+
+const normalizeInput = (input: CultureInput): CultureInput => ({
+  name: input.name.trim(),
+  aliases: input.aliases.map(alias => alias.trim()).filter(Boolean),
+  description: input.description.trim(),
+  motifs: input.motifs.map(motif => motif.trim()).filter(Boolean),
+  defaultStyle: input.defaultStyle || undefined,
+});
+
+export const CulturesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const userCultures = useLiveQuery(() => db.cultures.orderBy('name').toArray(), []) || [];
+  const cultures = useMemo(() => mergeCultures(userCultures), [userCultures]);
+
+  // Names and aliases identify the culture in creations and imports, so they can't clash with another user culture
+  const saveCulture = async (input: CultureInput, id?: string): Promise<Culture> => {
+    try {
+      const values = normalizeInput(input);
+      if (!values.name) throw new Error("El nombre de la cultura es obligatorio.");
+      const others = (await db.cultures.toArray()).filter(culture => culture.id !== id);
+      for (const name of [values.name, ...values.aliases]) {
+        const key = normalizeCultureName(name);
+        const clash = others.find(culture => [culture.name, ...culture.aliases].some(other => normalizeCultureName(other) === key));
+        if (clash) throw new Error(`"${name}" ya es el nombre o un alias de "${clash.name}".`);
+      }
+
+      const now = Date.now();
+      const existing = id ? await db.cultures.get(id) : undefined;
+      const culture: Culture = { ...values, id: existing?.id ?? uuidv4(), createdAt: existing?.createdAt ?? now, updatedAt: now };
+      await db.cultures.put(culture);
+      return culture;
+    } catch (e: any) {
+      console.error("Failed to save culture:", e);
+      throw new Error(e.message || "No se pudo guardar la cultura.");
+    }
+  };
+
+  const deleteCulture = async (id: string) => {
+    try {
+      await db.cultures.delete(id);
+    } catch (e: any) {
+      console.error("Failed to delete culture:", e);
+      throw new Error(e.message || "No se pudo eliminar la cultura.");
+    }
+  };
+
+  return (
+    <CulturesContext.Provider value={{ cultures, userCultures, saveCulture, deleteCulture }}>
+      {children}
+    </CulturesContext.Provider>
+  );
+};
+
+export const useCultures = (): CulturesContextType => {
+  const context = useContext(CulturesContext);
+  if (context === undefined) {
+    throw new Error('useCultures must be used within a CulturesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,83 @@
+"use client";
+
+import React, { createContext, useContext } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { normalizeCultureName } from '@/lib/cultures';
+import { normalizeEntityName, type EntityInput } from '@/lib/entities';
+import type { Entity } from '@/lib/types';
+
+interface EntitiesContextType {
+  entities: Entity[];
+  saveEntity: (input: EntityInput, id?: string) => Promise<Entity>;
+  deleteEntity: (id: string) => Promise<void>;
+}
+
+const EntitiesContext = createContext<EntitiesContextType | undefined>(undefined);
+
+const normalizeInput = (input: EntityInput): EntityInput => ({
+  name: input.name.trim(),
+  culture: input.culture.trim(),
+  aliases: Array.from(new Set(input.aliases.map(alias => alias.trim()).filter(Boolean))),
+  description: input.description.trim(),
+  attributes: input.attributes
+    .map(attribute => ({ label: attribute.label.trim(), value: attribute.value.trim() }))
+    .filter(attribute => attribute.label && attribute.value),
+  relationships: input.relationships
+    .map(relationship => ({ ...relationship, target: relationship.target.trim() }))
+    .filter(relationship => relationship.target),
+});
+
+export const EntitiesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const entities = useLiveQuery(() => db.entities.orderBy('name').toArray(), []) || [];
+
+  // Creations link to an entry by name or alias, so those can't clash with another entry of the same culture
+  const saveEntity = async (input: EntityInput, id?: string): Promise<Entity> => {
+    try {
+      const values = normalizeInput(input);
+      if (!values.name) throw new Error("El nombre de la entidad es obligatorio.");
+      if (!values.culture) throw new Error("La cultura de la entidad es obligatoria.");
+      const cultureKey = normalizeCultureName(values.culture);
+      const others = (await db.entities.toArray())
+        .filter(entity => entity.id !== id && normalizeCultureName(entity.culture) === cultureKey);
+      for (const name of [values.name, ...values.aliases]) {
+        const key = normalizeEntityName(name);
+        const clash = others.find(entity => [entity.name, ...entity.aliases].some(other => normalizeEntityName(other) === key));
+        if (clash) throw new Error(`"${name}" ya es el nombre o un alias de "${clash.name}" (${clash.culture}).`);
+      }
+
+      const now = Date.now();
+      const existing = id ? await db.entities.get(id) : undefined;
+      const entity: Entity = { ...values, id: existing?.id ?? uuidv4(), createdAt: existing?.createdAt ?? now, updatedAt: now };
+      await db.entities.put(entity);
+      return entity;
+    } catch (e: any) {
+      console.error("Failed to save entity:", e);
+      throw new Error(e.message || "No se pudo guardar la entidad.");
+    }
+  };
+
+  const deleteEntity = async (id: string) => {
+    try {
+      await db.entities.delete(id);
+    } catch (e: any) {
+      console.error("Failed to delete entity:", e);
+      throw new Error(e.message || "No se pudo eliminar la entidad.");
+    }
+  };
+
+  return (
+    <EntitiesContext.Provider value={{ entities, saveEntity, deleteEntity }}>
+      {children}
+    </EntitiesContext.Provider>
+  );
+};
+
+export const useEntities = (): EntitiesContextType => {
+  const context = useContext(EntitiesContext);
+  if (context === undefined) {
+    throw new Error('useEntities must be used within a EntitiesProvider');
+  }
+  return context;
+};
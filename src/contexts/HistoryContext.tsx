@@ -6,7 +6,15 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { v4 as uuidv4 } from 'uuid';
 import JSZip from 'jszip';
 import { db } from '@/lib/db';
-import type { Creation, ImageDataModel, TextOutputModel, GeneratedParams, AnalyzedParams, ReimaginedParams, GeneratedOutputData, AnalyzedOutputData, ReimaginedOutputData } from '@/lib/types';
+import { normalizeTags } from '@/lib/utils';
+import { dataUriToImageRecord, createImageRecord, getImageExtension, getImageDimensions } from '@/lib/image-data';
+import { tryCreateThumbnailDataUri, getOrCreateThumbnail, generateMissingThumbnails } from '@/lib/thumbnails';
+import { moveToTrash, purgeExpiredTrash } from '@/lib/trash';
+import { reindexCreations } from '@/lib/search';
+import { clearJournal, diffCreation, recordCollectionDeletion, recordEdits, type JournalBatch } from '@/lib/edit-journal';
+import { appendChanges, withImportChanges } from '@/lib/change-log';
+import { BROKEN_CREATION_TAG } from '@/lib/integrity';
+import type { Creation, CreationChangeSource, CreationVersion, Collection, TrashedCreation, OrganizationChanges, NewCreationAlternate, ImageDataModel, TextOutputModel, GeneratedParams, AnalyzedParams, ReimaginedParams, AnalyzedOutputData } from '@/lib/types';
 
 interface HistoryContextType {
   creations: Creation[];
@@ -16,21 +24,31 @@ interface HistoryContextType {
     params: Creation['params'],
     outputData: TextOutputModel['data'],
     imageDataUri?: string, // For generated/reimagined image
-    originalImageDataUri?: string // For original image in analyzed/reimagined
+    originalImageDataUri?: string, // For original image in analyzed/reimagined
+    alternates?: NewCreationAlternate[] // Other picks from the same generation, stored as alternate versions
   ) => Promise<{ creationId: string; imageId?: string; } | undefined>;
-  updateCreationName: (id: string, newName: string) => Promise<void>;
-  updateCreationParams: (id: string, newParams: Creation['params']) => Promise<void>;
-  updateCreationNameAndParams: (id: string, newName: string, newParams: Creation['params']) => Promise<void>;
-  updateCreationNameAndEntity: (id: string, newName: string, newEntity: string) => Promise<void>;
-  updateCreationTranslatedStatus: (id: string, isTranslated: boolean) => Promise<void>;
-  updateCreationImageAndOutput: (id: string, params: Creation['params'], newImageDataUri: string, newOutputData: GeneratedOutputData | ReimaginedOutputData) => Promise<Creation | undefined>;
-  deleteCreation: (id: string) => Promise<void>;
+  // `source` is recorded in the creation's change log; with `batch` the edit joins that undo entry (see lib/edit-journal.ts)
+  updateCreationName: (id: string, newName: string, source?: CreationChangeSource, batch?: JournalBatch) => Promise<void>;
+  updateCreationParams: (id: string, newParams: Creation['params'], source?: CreationChangeSource, batch?: JournalBatch) => Promise<void>;
+  updateCreationNameAndParams: (id: string, newName: string, newParams: Creation['params'], source?: CreationChangeSource, batch?: JournalBatch) => Promise<void>;
+  updateCreationNameAndEntity: (id: string, newName: string, newEntity: string, source?: CreationChangeSource, batch?: JournalBatch) => Promise<void>;
+  updateCreationTranslatedStatus: (id: string, isTranslated: boolean, source?: CreationChangeSource, batch?: JournalBatch) => Promise<void>;
+  updateCreationsOrganization: (ids: string[], changes: OrganizationChanges) => Promise<void>;
+  collections: Collection[];
+  addCollection: (name: string) => Promise<Collection | undefined>;
+  renameCollection: (id: string, name: string) => Promise<void>;
+  deleteCollection: (id: string) => Promise<void>;
+  updateCreationImageAndOutput: (id: string, params: Creation['params'], newImageDataUri: string, newOutputData: TextOutputModel['data']) => Promise<Creation | undefined>;
+  restoreCreationVersion: (id: string, version: number) => Promise<Creation | undefined>;
+  deleteCreation: (id: string) => Promise<void>; // Moves it to the trash (see lib/trash.ts)
   getCreationById: (id: string) => Promise<Creation | undefined>;
   getImageData: (id: string) => Promise<ImageDataModel | undefined>;
+  // Small preview for list views; falls back to the full image if a thumbnail can't be built
+  getThumbnail: (imageId: string) => Promise<string | undefined>;
   getTextOutput: (id: string) => Promise<TextOutputModel | undefined>;
   exportData: () => Promise<void>;
-  importData: (file: File, mode: 'merge' | 'replace') => Promise<void>;
-  clearAllData: () => Promise<void>;
+  importData: (file: File, mode: 'merge' | 'replace') => Promise<number>; // Resolves with how many images were skipped
+  clearAllData: (options?: { moveToTrash?: boolean }) => Promise<void>;
   loading: boolean;
   error: string | null;
 }
@@ -41,87 +59,14 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // One-time data migration to fix encoding issues
+  // Trashed creations past the retention period are deleted for good
   useEffect(() => {
-    const runMigration = async () => {
-      const migrationKey = 'data_migration_v3_fix_general_encoding'; // New key for the general fix
-      if (localStorage.getItem(migrationKey)) {
-        return; // Migration already done
-      }
-
-      console.log("Running one-time data migration to fix general encoding issues...");
-      
-      const fixEncoding = (str: string | undefined): string | undefined => {
-          if (!str) return str;
-          // This function handles common UTF-8 characters misinterpreted as ISO-8859-1/Windows-1252
-          return str
-              .replace(/Ã¡/g, 'á')
-              .replace(/Ã©/g, 'é')
-              .replace(/Ã­/g, 'í')
-              .replace(/Ã³/g, 'ó')
-              .replace(/Ãº/g, 'ú')
-              .replace(/Ã±/g, 'ñ')
-              .replace(/Ã/g, 'Á')
-              .replace(/Ã‰/g, 'É')
-              .replace(/Ã/g, 'Í')
-              .replace(/Ã“/g, 'Ó')
-              .replace(/Ãš/g, 'Ú')
-              .replace(/Ã‘/g, 'Ñ')
-              .replace(/Â¿/g, '¿')
-              .replace(/Â¡/g, '¡')
-              // Also fix the specific case of the replacement character if it's found
-              .replace(/Nrdica/g, 'Nórdica');
-      };
-
-      try {
-        await db.transaction('rw', db.creations, async () => {
-          const creationsToFix = await db.creations.toArray();
-          let updates = 0;
-
-          for (const creation of creationsToFix) {
-            let needsUpdate = false;
-            
-            const newName = fixEncoding(creation.name);
-            const newParams = { ...creation.params } as any;
-
-            if (newName !== creation.name) {
-              needsUpdate = true;
-            }
-
-            // Fix all relevant string fields in params
-            for (const key in newParams) {
-              if (typeof newParams[key] === 'string') {
-                const fixedValue = fixEncoding(newParams[key]);
-                if (fixedValue !== newParams[key]) {
-                  newParams[key] = fixedValue;
-                  needsUpdate = true;
-                }
-              }
-            }
-
-            if (needsUpdate) {
-              await db.creations.update(creation.id, { 
-                name: newName,
-                params: newParams, 
-                updatedAt: Date.now() 
-              });
-              updates++;
-            }
-          }
-          if (updates > 0) {
-            console.log(`Migration successful: Updated ${updates} entries with encoding fixes.`);
-          } else {
-             console.log("Migration check complete: No entries needed encoding fixes.");
-          }
-        });
-        
-        localStorage.setItem(migrationKey, 'true');
-      } catch (e) {
-        console.error("Data migration for encoding fixes failed:", e);
-      }
-    };
+    purgeExpiredTrash().catch(e => console.error("Trash purge failed:", e));
+  }, []);
 
-    runMigration();
+  // One-time thumbnail generation for images saved before thumbnails existed
+  useEffect(() => {
+    generateMissingThumbnails().catch(e => console.error("Thumbnail migration failed:", e));
   }, []);
 
   const creations = useLiveQuery(
@@ -135,7 +80,8 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     params: Creation['params'],
     outputData: TextOutputModel['data'],
     imageDataUri?: string,
-    originalImageDataUri?: string
+    originalImageDataUri?: string,
+    alternates: NewCreationAlternate[] = []
   ): Promise<{ creationId: string; imageId?: string; } | undefined> => {
     setLoading(true);
     setError(null);
@@ -143,28 +89,63 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
       const creationId = uuidv4();
       let imageId: string | undefined = undefined;
       let originalImageId: string | undefined = undefined;
+      let imageDimensions: Creation['imageDimensions'];
       const outputId = uuidv4();
       const now = Date.now();
 
-      await db.transaction('rw', db.creations, db.imageDataStore, db.textOutputStore, async () => {
+      // Built before the transaction: decoding images isn't a Dexie operation and would commit it early.
+      const mainImageDataUri = imageDataUri ?? (type === 'analyzed' ? originalImageDataUri : undefined);
+      const thumbnailDataUri = mainImageDataUri ? await tryCreateThumbnailDataUri(mainImageDataUri) : undefined;
+      const alternateThumbnails = await Promise.all(alternates.map(alternate => tryCreateThumbnailDataUri(alternate.imageDataUri)));
+
+      await db.transaction('rw', [db.creations, db.imageDataStore, db.textOutputStore, db.thumbnailStore], async () => {
         // Handle main image (generated or reimagined result)
         if (imageDataUri) {
           imageId = uuidv4();
-          await db.imageDataStore.add({ id: imageId, imageDataUri });
+          const imageRecord = dataUriToImageRecord(imageId, imageDataUri);
+          imageDimensions = getImageDimensions(imageRecord);
+          await db.imageDataStore.add(imageRecord);
         }
 
         // Handle original image (for analyzed or reimagined source)
         if (originalImageDataUri) {
           originalImageId = uuidv4();
+          const originalImageRecord = dataUriToImageRecord(originalImageId, originalImageDataUri);
           // If it's an 'analyzed' type, this originalImageDataUri is the main image linked via imageId
           if (type === 'analyzed') {
             imageId = originalImageId;
+            imageDimensions = getImageDimensions(originalImageRecord);
           }
-          await db.imageDataStore.add({ id: originalImageId, imageDataUri: originalImageDataUri });
+          await db.imageDataStore.add(originalImageRecord);
+        }
+
+        if (imageId && thumbnailDataUri) {
+          await db.thumbnailStore.add({ id: imageId, thumbnailDataUri });
         }
         
         await db.textOutputStore.add({ id: outputId, data: outputData });
 
+        // Each alternate gets its own image and output so every record stays referenced exactly once
+        const alternateVersions: CreationVersion[] = [];
+        for (const [index, alternate] of alternates.entries()) {
+          const alternateImageId = uuidv4();
+          const alternateOutputId = uuidv4();
+          await db.imageDataStore.add(dataUriToImageRecord(alternateImageId, alternate.imageDataUri));
+          const alternateThumbnail = alternateThumbnails[index];
+          if (alternateThumbnail) {
+            await db.thumbnailStore.add({ id: alternateImageId, thumbnailDataUri: alternateThumbnail });
+          }
+          await db.textOutputStore.add({ id: alternateOutputId, data: alternate.outputData });
+          alternateVersions.push({
+            version: index + 2,
+            createdAt: now,
+            params: alternate.params,
+            imageId: alternateImageId,
+            outputId: alternateOutputId,
+            isAlternate: true,
+          });
+        }
+
         const newCreation: Creation = {
           id: creationId,
           name,
@@ -174,11 +155,14 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
           params,
           isTranslated: false, // Default to not translated
           imageId,
+          imageDimensions,
           originalImageId: type === 'reimagined' ? originalImageId : undefined, // Only for reimagined
           outputId,
+          ...(alternateVersions.length > 0 ? { version: 1, versions: alternateVersions } : {}),
         };
         await db.creations.add(newCreation);
       });
+      await reindexCreations([creationId]);
       setLoading(false);
       return { creationId, imageId };
     } catch (e: any) {
@@ -189,11 +173,16 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   }, []);
 
-  const updateCreationName = async (id: string, newName: string) => {
+  const updateCreationName = async (id: string, newName: string, source: CreationChangeSource = 'manual', batch?: JournalBatch) => {
     setLoading(true);
     setError(null);
     try {
-      await db.creations.update(id, { name: newName, updatedAt: Date.now() });
+      const creation = await db.creations.get(id);
+      if (creation) {
+        await db.creations.update(id, { name: newName, changeLog: appendChanges(creation, { name: newName }, source), updatedAt: Date.now() });
+        recordEdits('Renombrar', [diffCreation(creation, { name: newName })], batch);
+        await reindexCreations([id]);
+      }
       setLoading(false);
     } catch (e: any) {
       console.error("Failed to update creation name:", e);
@@ -202,11 +191,16 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const updateCreationParams = async (id: string, newParams: Creation['params']) => {
+  const updateCreationParams = async (id: string, newParams: Creation['params'], source: CreationChangeSource = 'manual', batch?: JournalBatch) => {
     setLoading(true);
     setError(null);
     try {
-      await db.creations.update(id, { params: newParams, updatedAt: Date.now() });
+      const creation = await db.creations.get(id);
+      if (creation) {
+        await db.creations.update(id, { params: newParams, changeLog: appendChanges(creation, { params: newParams }, source), updatedAt: Date.now() });
+        recordEdits('Editar detalles', [diffCreation(creation, { params: newParams })], batch);
+        await reindexCreations([id]);
+      }
       setLoading(false);
     } catch (e: any) {
       console.error("Failed to update creation params:", e);
@@ -215,15 +209,21 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const updateCreationNameAndParams = async (id: string, newName: string, newParams: Creation['params']) => {
+  const updateCreationNameAndParams = async (id: string, newName: string, newParams: Creation['params'], source: CreationChangeSource = 'manual', batch?: JournalBatch) => {
     setLoading(true);
     setError(null);
     try {
-      await db.creations.update(id, {
-        name: newName,
-        params: newParams,
-        updatedAt: Date.now()
-      });
+      const creation = await db.creations.get(id);
+      if (creation) {
+        await db.creations.update(id, {
+          name: newName,
+          params: newParams,
+          changeLog: appendChanges(creation, { name: newName, params: newParams }, source),
+          updatedAt: Date.now()
+        });
+        recordEdits('Editar nombre y detalles', [diffCreation(creation, { name: newName, params: newParams })], batch);
+        await reindexCreations([id]);
+      }
       setLoading(false);
     } catch (e: any) {
       console.error("Failed to update creation name and params:", e);
@@ -232,7 +232,7 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const updateCreationNameAndEntity = async (id: string, newName: string, newEntity: string) => {
+  const updateCreationNameAndEntity = async (id: string, newName: string, newEntity: string, source: CreationChangeSource = 'regenerate-name', batch?: JournalBatch) => {
     setLoading(true);
     setError(null);
     try {
@@ -249,8 +249,11 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
         await db.creations.update(id, {
           name: newName,
           params: newParams,
+          changeLog: appendChanges(creation, { name: newName, params: newParams }, source),
           updatedAt: Date.now()
         });
+        recordEdits('Regenerar nombre', [diffCreation(creation, { name: newName, params: newParams })], batch);
+        await reindexCreations([id]);
       }
       setLoading(false);
     } catch (e: any) {
@@ -260,11 +263,16 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const updateCreationTranslatedStatus = async (id: string, isTranslated: boolean) => {
+  const updateCreationTranslatedStatus = async (id: string, isTranslated: boolean, source: CreationChangeSource = 'manual', batch?: JournalBatch) => {
     // This is a lightweight update, so we might not need a global loading state
     // unless the operation proves to be slow.
     try {
-        await db.creations.update(id, { isTranslated, updatedAt: Date.now() });
+        const creation = await db.creations.get(id);
+        if (creation) {
+            await db.creations.update(id, { isTranslated, changeLog: appendChanges(creation, { isTranslated }, source), updatedAt: Date.now() });
+            recordEdits(isTranslated ? 'Marcar como traducida' : 'Marcar como no traducida', [diffCreation(creation, { isTranslated })], batch);
+            await reindexCreations([id]);
+        }
     } catch (e: any) {
         console.error("Failed to update translated status:", e);
         setError(e.message || "Failed to update translated status.");
@@ -272,33 +280,140 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
   
-  const updateCreationImageAndOutput = useCallback(async (id: string, params: Creation['params'], newImageDataUri: string, newOutputData: GeneratedOutputData | ReimaginedOutputData): Promise<Creation | undefined> => {
+  const updateCreationsOrganization = async (ids: string[], changes: OrganizationChanges) => {
+    setError(null);
+    try {
+      const removeTagKeys = new Set((changes.removeTags ?? []).map(tag => tag.toLowerCase()));
+      const removeCollectionIds = new Set(changes.removeCollectionIds ?? []);
+      const edits: ReturnType<typeof diffCreation>[] = [];
+      await db.transaction('rw', db.creations, async () => {
+        await db.creations.where('id').anyOf(ids).modify(creation => {
+          const keptTags = (creation.tags ?? []).filter(tag => !removeTagKeys.has(tag.toLowerCase()));
+          const keptCollections = (creation.collectionIds ?? []).filter(id => !removeCollectionIds.has(id));
+          const organized = {
+            tags: normalizeTags([...keptTags, ...(changes.addTags ?? [])]),
+            collectionIds: Array.from(new Set([...keptCollections, ...(changes.addCollectionIds ?? [])])),
+          };
+          edits.push(diffCreation(creation, organized));
+          Object.assign(creation, organized, { changeLog: appendChanges(creation, organized, 'manual'), updatedAt: Date.now() });
+        });
+      });
+      recordEdits('Organizar etiquetas y colecciones', edits);
+      await reindexCreations(ids);
+    } catch (e: any) {
+      console.error("Failed to update tags/collections:", e);
+      const errorMessage = e.message || "Failed to update tags and collections.";
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  const collections = useLiveQuery(
+    () => db.collections.orderBy('name').toArray(),
+    []
+  ) || [];
+
+  const addCollection = async (name: string): Promise<Collection | undefined> => {
+    setError(null);
+    try {
+      const trimmedName = name.trim();
+      if (!trimmedName) throw new Error("El nombre de la colección no puede estar vacío.");
+      const existing = (await db.collections.toArray()).find(c => c.name.toLowerCase() === trimmedName.toLowerCase());
+      if (existing) return existing;
+      const collection: Collection = { id: uuidv4(), name: trimmedName, createdAt: Date.now() };
+      await db.collections.add(collection);
+      return collection;
+    } catch (e: any) {
+      console.error("Failed to add collection:", e);
+      setError(e.message || "Failed to add collection.");
+      return undefined;
+    }
+  };
+
+  const renameCollection = async (id: string, name: string) => {
+    setError(null);
+    try {
+      if (!name.trim()) throw new Error("El nombre de la colección no puede estar vacío.");
+      await db.collections.update(id, { name: name.trim() });
+    } catch (e: any) {
+      console.error("Failed to rename collection:", e);
+      setError(e.message || "Failed to rename collection.");
+    }
+  };
+
+  const deleteCollection = async (id: string) => {
+    setError(null);
+    try {
+      // Creations stay; they are only removed from the collection.
+      const edits: ReturnType<typeof diffCreation>[] = [];
+      let collection: Collection | undefined;
+      await db.transaction('rw', db.creations, db.collections, async () => {
+        collection = await db.collections.get(id);
+        await db.creations.where('collectionIds').equals(id).modify(creation => {
+          const collectionIds = (creation.collectionIds ?? []).filter(collectionId => collectionId !== id);
+          edits.push(diffCreation(creation, { collectionIds }));
+          Object.assign(creation, { collectionIds, changeLog: appendChanges(creation, { collectionIds }, 'manual'), updatedAt: Date.now() });
+        });
+        await db.collections.delete(id);
+      });
+      if (collection) recordCollectionDeletion(collection, edits);
+      await reindexCreations(edits.flatMap(edit => edit ? [edit.creationId] : []));
+    } catch (e: any) {
+      console.error("Failed to delete collection:", e);
+      setError(e.message || "Failed to delete collection.");
+    }
+  };
+
+  const updateCreationImageAndOutput = useCallback(async (id: string, params: Creation['params'], newImageDataUri: string, newOutputData: TextOutputModel['data']): Promise<Creation | undefined> => {
     setLoading(true);
     setError(null);
     try {
         let updatedCreation: Creation | undefined;
-        await db.transaction('rw', db.creations, db.imageDataStore, db.textOutputStore, async () => {
+        let edit: ReturnType<typeof diffCreation>;
+        const thumbnailDataUri = await tryCreateThumbnailDataUri(newImageDataUri);
+        await db.transaction('rw', [db.creations, db.imageDataStore, db.textOutputStore, db.thumbnailStore], async () => {
             const creation = await db.creations.get(id);
             if (!creation) throw new Error("Creation not found");
 
-            // Delete old image and output
-            if (creation.imageId) await db.imageDataStore.delete(creation.imageId);
-            if (creation.outputId) await db.textOutputStore.delete(creation.outputId);
+            // Keep the current render as a numbered version instead of deleting it
+            const currentVersion = creation.version ?? 1;
+            const previousVersions = creation.versions ?? [];
+            const archivedVersion: CreationVersion = {
+                version: currentVersion,
+                createdAt: creation.updatedAt,
+                params: creation.params,
+                imageId: creation.imageId,
+                outputId: creation.outputId,
+            };
             
             // Add new image and output
             const newImageId = uuidv4();
-            await db.imageDataStore.add({ id: newImageId, imageDataUri: newImageDataUri });
+            const newImageRecord = dataUriToImageRecord(newImageId, newImageDataUri);
+            await db.imageDataStore.add(newImageRecord);
+            if (thumbnailDataUri) {
+                await db.thumbnailStore.add({ id: newImageId, thumbnailDataUri });
+            }
 
             const newOutputId = uuidv4();
             await db.textOutputStore.add({ id: newOutputId, data: newOutputData });
 
             // Prepare updates
-            const updates: Partial<Creation> = {
+            const highestVersion = Math.max(currentVersion, ...previousVersions.map(v => v.version));
+            const render = {
                 params,
                 imageId: newImageId,
+                imageDimensions: getImageDimensions(newImageRecord),
                 outputId: newOutputId,
+                version: highestVersion + 1,
+                versions: [...previousVersions, archivedVersion],
+            };
+            const updates: Partial<Creation> = {
+                ...render,
+                changeLog: appendChanges(creation, { params, version: highestVersion + 1 }, 'regenerate-image'),
                 updatedAt: Date.now(),
             };
+            // Undoing leaves the new image and output in their stores, so redo can bring them back
+            edit = diffCreation(creation, render);
 
             // Update the creation record
             await db.creations.update(id, updates);
@@ -306,6 +421,8 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
             // Construct the full updated creation object to return
             updatedCreation = { ...creation, ...updates };
         });
+        recordEdits('Regenerar imagen', [edit]);
+        await reindexCreations([id]);
         setLoading(false);
         return updatedCreation;
     } catch (e: any) {
@@ -317,19 +434,69 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   }, []);
 
+  const restoreCreationVersion = useCallback(async (id: string, version: number): Promise<Creation | undefined> => {
+    setLoading(true);
+    setError(null);
+    try {
+        let updatedCreation: Creation | undefined;
+        let edit: ReturnType<typeof diffCreation>;
+        await db.transaction('rw', [db.creations, db.imageDataStore], async () => {
+            const creation = await db.creations.get(id);
+            if (!creation) throw new Error("Creation not found");
+
+            const versions = creation.versions ?? [];
+            const target = versions.find(v => v.version === version);
+            if (!target) throw new Error(`Version ${version} not found`);
+
+            // Swap: the current render becomes a version and the target becomes current,
+            // so every stored image/output stays referenced exactly once.
+            const archivedVersion: CreationVersion = {
+                version: creation.version ?? 1,
+                createdAt: creation.updatedAt,
+                params: creation.params,
+                imageId: creation.imageId,
+                outputId: creation.outputId,
+                // Picking another alternate keeps the previous pick among the alternates
+                isAlternate: target.isAlternate,
+            };
+            // Versions can differ in size (e.g. an upscaled render), so the dimensions follow the image
+            const targetImage = target.imageId ? await db.imageDataStore.get(target.imageId) : undefined;
+            const render = {
+                params: target.params,
+                imageId: target.imageId,
+                imageDimensions: targetImage ? getImageDimensions(targetImage) : undefined,
+                outputId: target.outputId,
+                version: target.version,
+                versions: [...versions.filter(v => v.version !== version), archivedVersion],
+            };
+            const updates: Partial<Creation> = {
+                ...render,
+                changeLog: appendChanges(creation, { params: target.params, version: target.version }, 'manual'),
+                updatedAt: Date.now(),
+            };
+
+            await db.creations.update(id, updates);
+            updatedCreation = { ...creation, ...updates };
+            edit = diffCreation(creation, render);
+        });
+        recordEdits(`Restaurar versión ${version}`, [edit]);
+        await reindexCreations([id]);
+        setLoading(false);
+        return updatedCreation;
+    } catch (e: any) {
+        console.error("Failed to restore creation version:", e);
+        const errorMessage = e.message || "Failed to restore version.";
+        setError(errorMessage);
+        setLoading(false);
+        throw new Error(errorMessage);
+    }
+  }, []);
+
   const deleteCreation = async (id: string) => {
     setLoading(true);
     setError(null);
     try {
-      await db.transaction('rw', db.creations, db.imageDataStore, db.textOutputStore, async () => {
-        const creation = await db.creations.get(id);
-        if (creation) {
-          if (creation.imageId) await db.imageDataStore.delete(creation.imageId);
-          if (creation.originalImageId) await db.imageDataStore.delete(creation.originalImageId);
-          if (creation.outputId) await db.textOutputStore.delete(creation.outputId);
-          await db.creations.delete(id);
-        }
-      });
+      await moveToTrash([id]);
       setLoading(false);
     } catch (e: any) {
       console.error("Failed to delete creation:", e);
@@ -340,6 +507,7 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
   
   const getCreationById = async (id: string) => db.creations.get(id);
   const getImageData = async (id: string) => db.imageDataStore.get(id);
+  const getThumbnail = useCallback((imageId: string) => getOrCreateThumbnail(imageId), []);
   const getTextOutput = async (id: string) => db.textOutputStore.get(id);
 
   const exportData = async () => {
@@ -360,23 +528,19 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
       }
 
       for (const image of allImageData) {
-        const { id, imageDataUri } = image;
-        const match = imageDataUri.match(/^data:(image\/.*?);base64,(.*)$/);
-        if (match) {
-          const mimeType = match[1];
-          const base64Data = match[2];
-          const extension = mimeType.split('/')[1] || 'png';
-          const fileName = `${id}.${extension}`;
-          
-          imagesFolder.file(fileName, base64Data, { base64: true });
-          imageDataMetadata.push({ id, fileName, mimeType });
-        }
+        const { id, blob, mimeType, width, height, size } = image;
+        const fileName = `${id}.${getImageExtension(mimeType)}`;
+        imagesFolder.file(fileName, blob);
+        imageDataMetadata.push({ id, fileName, mimeType, width, height, size });
       }
 
       const exportObject = {
         creations: creationsData,
         imageDataStore: imageDataMetadata,
         textOutputStore: textOutputData,
+        collections: await db.collections.toArray(),
+        // Trashed creations still own images in the backup, so they travel with it
+        trash: await db.trash.toArray(),
       };
 
       zip.file("data.json", JSON.stringify(exportObject, null, 2));
@@ -400,10 +564,30 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
   
-  const importData = async (file: File, mode: 'merge' | 'replace'): Promise<void> => {
+  // Creations that overwrite existing ones get what changed in their change log; call it before clearing anything
+  const withExistingChanges = async (imported: Creation[]): Promise<Creation[]> => {
+    const existing = await db.creations.bulkGet(imported.map(creation => creation.id));
+    return imported.map((creation, index) => withImportChanges(creation, existing[index]));
+  };
+
+  // Creations whose image couldn't be imported get the "dañada" tag, so "Verificar biblioteca" can find them
+  const tagBrokenCreations = (creations: Creation[], skippedImageIds: Set<string>): Creation[] =>
+    creations.map(creation =>
+      [creation.imageId, creation.originalImageId].some(imageId => imageId && skippedImageIds.has(imageId))
+        ? { ...creation, tags: normalizeTags([...(creation.tags ?? []), BROKEN_CREATION_TAG]) }
+        : creation
+    );
+
+  // A trashed copy of a creation the backup also has live stays out of the trash
+  const withoutImportedIds = (trashed: TrashedCreation[], importedIds: string[]): TrashedCreation[] =>
+    trashed.filter(item => !importedIds.includes(item.id));
+
+  const importData = async (file: File, mode: 'merge' | 'replace'): Promise<number> => {
     setLoading(true);
     setError(null);
     try {
+      let importedIds: string[] = [];
+      const skippedImageIds = new Set<string>();
       if (file.name.endsWith('.zip') || file.type === 'application/zip') {
         // Handle ZIP import (new format)
         const zip = await JSZip.loadAsync(file);
@@ -429,23 +613,39 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
           const { id, fileName, mimeType } = imageMeta;
           const imageFile = imagesFolder.file(fileName);
           if (imageFile) {
-            const base64Data = await imageFile.async('base64');
-            const imageDataUri = `data:${mimeType};base64,${base64Data}`;
-            newImageDataStore.push({ id, imageDataUri });
+            const bytes = await imageFile.async('uint8array');
+            newImageDataStore.push(createImageRecord(id, bytes, mimeType));
           } else {
             console.warn(`Image file ${fileName} not found in zip for id ${id}. Skipping.`);
+            skippedImageIds.add(id);
           }
         }
+        const creationsToImport = tagBrokenCreations(importObj.creations as Creation[], skippedImageIds);
 
-        await db.transaction('rw', db.creations, db.imageDataStore, db.textOutputStore, async () => {
+        await db.transaction('rw', [db.creations, db.imageDataStore, db.textOutputStore, db.collections, db.thumbnailStore, db.trash, db.searchIndex], async () => {
+          const importedCreations = await withExistingChanges(creationsToImport);
           if (mode === 'replace') {
             await db.creations.clear();
             await db.imageDataStore.clear();
             await db.textOutputStore.clear();
+            await db.collections.clear();
+            await db.thumbnailStore.clear();
+            await db.trash.clear();
+            await db.searchIndex.clear();
           }
-          await db.creations.bulkPut(importObj.creations as Creation[]);
+          await db.creations.bulkPut(importedCreations);
+          importedIds = importedCreations.map(creation => creation.id);
           await db.imageDataStore.bulkPut(newImageDataStore);
+          // Overwritten images get fresh thumbnails after the import
+          await db.thumbnailStore.bulkDelete(newImageDataStore.map(image => image.id));
           await db.textOutputStore.bulkPut(importObj.textOutputStore as TextOutputModel[]);
+          // Backups made before collections existed don't have this section
+          if (Array.isArray(importObj.collections)) {
+            await db.collections.bulkPut(importObj.collections as Collection[]);
+          }
+          if (Array.isArray(importObj.trash)) {
+            await db.trash.bulkPut(withoutImportedIds(importObj.trash as TrashedCreation[], importedIds));
+          }
         });
 
       } else if (file.name.endsWith('.json') || file.type === 'application/json') {
@@ -460,20 +660,53 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
           throw new Error("Formato de archivo de respaldo JSON no válido. Faltan secciones requeridas.");
         }
 
-        await db.transaction('rw', db.creations, db.imageDataStore, db.textOutputStore, async () => {
+        // Old JSON backups store each image as a data URI; a malformed one is skipped rather than failing the whole import
+        const importedImages: ImageDataModel[] = [];
+        for (const image of importObj.imageDataStore as { id: string; imageDataUri: string }[]) {
+          try {
+            importedImages.push(dataUriToImageRecord(image.id, image.imageDataUri));
+          } catch (e) {
+            console.warn(`Image ${image.id} has an invalid data URI. Skipping.`, e);
+            skippedImageIds.add(image.id);
+          }
+        }
+        const creationsToImport = tagBrokenCreations(importObj.creations as Creation[], skippedImageIds);
+
+        await db.transaction('rw', [db.creations, db.imageDataStore, db.textOutputStore, db.collections, db.thumbnailStore, db.trash, db.searchIndex], async () => {
+            const importedCreations = await withExistingChanges(creationsToImport);
             if (mode === 'replace') {
                 await db.creations.clear();
                 await db.imageDataStore.clear();
                 await db.textOutputStore.clear();
+                await db.collections.clear();
+                await db.thumbnailStore.clear();
+                await db.trash.clear();
+                await db.searchIndex.clear();
             }
-            await db.creations.bulkPut(importObj.creations as Creation[]);
-            await db.imageDataStore.bulkPut(importObj.imageDataStore as ImageDataModel[]);
+            await db.creations.bulkPut(importedCreations);
+            importedIds = importedCreations.map(creation => creation.id);
+            await db.imageDataStore.bulkPut(importedImages);
+            await db.thumbnailStore.bulkDelete(importedImages.map(image => image.id));
             await db.textOutputStore.bulkPut(importObj.textOutputStore as TextOutputModel[]);
+            if (Array.isArray(importObj.collections)) {
+                await db.collections.bulkPut(importObj.collections as Collection[]);
+            }
+            if (Array.isArray(importObj.trash)) {
+                await db.trash.bulkPut(withoutImportedIds(importObj.trash as TrashedCreation[], importedIds));
+            }
         });
       } else {
         throw new Error("Tipo de archivo no soportado. Por favor, selecciona un archivo .zip o .json.");
       }
 
+      // Imported creations replace the ones the undo journal refers to
+      clearJournal();
+      await reindexCreations(importedIds);
+
+      // Thumbnails aren't part of backups; build them in the background
+      generateMissingThumbnails().catch(e => console.error("Failed to generate thumbnails after import:", e));
+      return skippedImageIds.size;
+
     } catch (e: any) {
       console.error("Failed to import data:", e);
       const errorMessage = e.message || "Error al importar datos. Verifique el formato e integridad del archivo.";
@@ -484,15 +717,32 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const clearAllData = async () => {
+  // With `moveToTrash` the creations (and their images and outputs) go to the trash and collections are kept so they can be restored
+  const clearAllData = async ({ moveToTrash: toTrash = false }: { moveToTrash?: boolean } = {}) => {
     setLoading(true);
     setError(null);
     try {
-      await db.transaction('rw', db.creations, db.imageDataStore, db.textOutputStore, async () => {
-        await db.creations.clear();
-        await db.imageDataStore.clear();
-        await db.textOutputStore.clear();
-      });
+      if (toTrash) {
+        await moveToTrash(await db.creations.toCollection().primaryKeys());
+        await db.transaction('rw', [db.batchJobs, db.batchJobItems, db.searchIndex], async () => {
+          await db.searchIndex.clear();
+          await db.batchJobs.clear();
+          await db.batchJobItems.clear();
+        });
+      } else {
+        await db.transaction('rw', [db.creations, db.imageDataStore, db.textOutputStore, db.batchJobs, db.batchJobItems, db.collections, db.searchIndex, db.thumbnailStore, db.trash], async () => {
+          await db.creations.clear();
+          await db.trash.clear();
+          await db.collections.clear();
+          await db.searchIndex.clear();
+          await db.imageDataStore.clear();
+          await db.thumbnailStore.clear();
+          await db.textOutputStore.clear();
+          await db.batchJobs.clear();
+          await db.batchJobItems.clear();
+        });
+      }
+      clearJournal();
       setLoading(false);
     } catch (e: any) {
       console.error("Failed to clear data:", e);
@@ -502,7 +752,7 @@ export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ child
   };
 
   return (
-    <HistoryContext.Provider value={{ creations, addCreation, updateCreationName, updateCreationParams, updateCreationNameAndParams, updateCreationNameAndEntity, updateCreationTranslatedStatus, updateCreationImageAndOutput, deleteCreation, getCreationById, getImageData, getTextOutput, exportData, importData, clearAllData, loading, error }}>
+    <HistoryContext.Provider value={{ creations, addCreation, updateCreationName, updateCreationParams, updateCreationNameAndParams, updateCreationNameAndEntity, updateCreationTranslatedStatus, updateCreationsOrganization, collections, addCollection, renameCollection, deleteCollection, updateCreationImageAndOutput, restoreCreationVersion, deleteCreation, getCreationById, getImageData, getThumbnail, getTextOutput, exportData, importData, clearAllData, loading, error }}>
       {children}
     </HistoryContext.Provider>
   );
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { mergeStylePresets, parseStylePresetsFile, serializeStylePresets, type StylePresetInput } from '@/lib/style-presets';
+import type { StylePreset } from '@/lib/types';
+
+interface StylePresetsContextType {
+  presets: StylePreset[]; // Built-in and user presets, as offered in the style pickers
+  userPresets: StylePreset[];
+  saveStylePreset: (input: StylePresetInput, id?: string) => Promise<StylePreset>;
+  deleteStylePreset: (id: string) => Promise<void>;
+  importStylePresets: (file: File) => Promise<{ added: number; updated: number }>;
+  exportStylePresets: () => void;
+}
+
+const StylePresetsContext = createContext<StylePresetsContextType | undefined>(undefined);
+
+const normalizeInput = (input: StylePresetInput): StylePresetInput => ({
+  name: input.name.trim(),
+  promptPrefix: input.promptPrefix.trim(),
+  promptSuffix: input.promptSuffix.trim(),
+  negativePrompt: input.negativePrompt?.trim() || undefined,
+  settings: input.settings && Object.values(input.settings).some(value => value !== undefined && value !== '') ? input.settings : undefined,
+});
+
+export const StylePresetsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const userPresets = useLiveQuery(() => db.stylePresets.orderBy('name').toArray(), []) || [];
+  const presets = useMemo(() => mergeStylePresets(userPresets), [userPresets]);
+
+  // Names identify the style stored in creations, so saving under a taken name is refused
+  const saveStylePreset = async (input: StylePresetInput, id?: string): Promise<StylePreset> => {
+    try {
+      const values = normalizeInput(input);
+      if (!values.name) throw new Error("El nombre del estilo es obligatorio.");
+      const duplicate = (await db.stylePresets.toArray())
+        .find(preset => preset.id !== id && preset.name.toLowerCase() === values.name.toLowerCase());
+      if (duplicate) throw new Error(`Ya existe un estilo llamado "${duplicate.name}".`);
+
+      const now = Date.now();
+      const existing = id ? await db.stylePresets.get(id) : undefined;
+      const preset: StylePreset = { ...values, id: existing?.id ?? uuidv4(), createdAt: existing?.createdAt ?? now, updatedAt: now };
+      await db.stylePresets.put(preset);
+      return preset;
+    } catch (e: any) {
+      console.error("Failed to save style preset:", e);
+      throw new Error(e.message || "No se pudo guardar el estilo.");
+    }
+  };
+
+  const deleteStylePreset = async (id: string) => {
+    try {
+      await db.stylePresets.delete(id);
+    } catch (e: any) {
+      console.error("Failed to delete style preset:", e);
+      throw new Error(e.message || "No se pudo eliminar el estilo.");
+    }
+  };
+
+  // Presets are matched by name: an imported preset updates the local one with the same name
+  const importStylePresets = async (file: File): Promise<{ added: number; updated: number }> => {
+    const imported = parseStylePresetsFile(await file.text());
+    let added = 0;
+    let updated = 0;
+    try {
+      await db.transaction('rw', db.stylePresets, async () => {
+        const existing = await db.stylePresets.toArray();
+        const now = Date.now();
+        for (const input of imported) {
+          const values = normalizeInput(input);
+          const match = existing.find(preset => preset.name.toLowerCase() === values.name.toLowerCase());
+          if (match) {
+            await db.stylePresets.put({ ...values, id: match.id, createdAt: match.createdAt, updatedAt: now });
+            updated++;
+          } else {
+            const preset: StylePreset = { ...values, id: uuidv4(), createdAt: now, updatedAt: now };
+            await db.stylePresets.add(preset);
+            existing.push(preset);
+            added++;
+          }
+        }
+      });
+      return { added, updated };
+    } catch (e: any) {
+      console.error("Failed to import style presets:", e);
+      throw new Error(e.message || "No se pudieron importar los estilos.");
+    }
+  };
+
+  const exportStylePresets = () => {
+    const blob = new Blob([serializeStylePresets(userPresets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `mythweaver_styles_${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <StylePresetsContext.Provider value={{ presets, userPresets, saveStylePreset, deleteStylePreset, importStylePresets, exportStylePresets }}>
+      {children}
+    </StylePresetsContext.Provider>
+  );
+};
+
+export const useStylePresets = (): StylePresetsContextType => {
+  const context = useContext(StylePresetsContext);
+  if (context === undefined) {
+    throw new Error('useStylePresets must be used within a StylePresetsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useHistory } from '@/contexts/HistoryContext';
+import { searchCreations } from '@/lib/search';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Ranked full-text search shared by the gallery, data view and encyclopedia.
+// `scores` maps creation id -> relevance and is null while the query is empty.
+export function useCreationSearch(query: string) {
+  // The search re-runs when creations change, so edits show up in the results
+  const { creations } = useHistory();
+  const [scores, setScores] = useState<Map<string, number> | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setScores(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let isActive = true;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await searchCreations(query);
+        if (isActive) setScores(result);
+      } catch (e) {
+        console.error("Search failed:", e);
+        if (isActive) setScores(new Map());
+      } finally {
+        if (isActive) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isActive = false;
+      clearTimeout(timer);
+    };
+  }, [query, creations]);
+
+  return { scores, isSearching };
+}
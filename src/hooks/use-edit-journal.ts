@@ -0,0 +1,21 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { redoLastEdit, subscribeToJournal, undoLastEdit, type JournalState } from '@/lib/edit-journal';
+
+// Undo/redo stacks of the edit journal (see lib/edit-journal.ts). Undo is unavailable while a batch is being recorded.
+export function useEditJournal() {
+  const [state, setState] = useState<JournalState>({ undo: [], redo: [], batchLabels: [] });
+
+  useEffect(() => subscribeToJournal(setState), []);
+
+  return {
+    undoEntries: state.undo,
+    redoEntries: state.redo,
+    batchLabels: state.batchLabels,
+    canUndo: state.undo.length > 0 && state.batchLabels.length === 0,
+    canRedo: state.redo.length > 0 && state.batchLabels.length === 0,
+    undo: undoLastEdit,
+    redo: redoLastEdit,
+  };
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { findImageProvider, type ImageProvider, type ImageProviderLora, type ImageProviderModel } from '@/lib/image-providers';
+import type { ImageProviderId } from '@/lib/types';
+
+export interface ImageProviderOptions {
+  models: ImageProviderModel[];
+  samplers: string[];
+  loras: ImageProviderLora[];
+  upscalers: string[];
+}
+
+const EMPTY_OPTIONS: ImageProviderOptions = { models: [], samplers: [], loras: [], upscalers: [] };
+
+// Shared by every picker on the page, so one provider's lists are fetched once per session.
+// Nothing is cached while the provider is unreachable, so starting it later fills the pickers in.
+const optionsCache = new Map<ImageProviderId, Promise<ImageProviderOptions>>();
+
+const loadList = async <T>(label: string, list: (() => Promise<T[]>) | undefined): Promise<T[]> => {
+  if (!list) return [];
+  try {
+    return await list();
+  } catch (error) {
+    console.warn(`No se pudo cargar la lista de ${label} del motor de imágenes.`, error);
+    return [];
+  }
+};
+
+const loadOptions = (provider: ImageProvider): Promise<ImageProviderOptions> => {
+  const cached = optionsCache.get(provider.id);
+  if (cached) return cached;
+
+  const pending = Promise.all([
+    loadList('modelos', provider.listModels.bind(provider)),
+    loadList('samplers', provider.listSamplers?.bind(provider)),
+    loadList('LoRAs', provider.listLoras?.bind(provider)),
+    loadList('upscalers', provider.listUpscalers?.bind(provider)),
+  ]).then(([models, samplers, loras, upscalers]) => {
+    if (models.length === 0) optionsCache.delete(provider.id);
+    return { models, samplers, loras, upscalers };
+  });
+  optionsCache.set(provider.id, pending);
+  return pending;
+};
+
+// Models, samplers, LoRAs and upscalers the provider currently offers; empty lists while loading or offline.
+export function useImageProviderOptions(providerId: ImageProviderId | undefined): { options: ImageProviderOptions; loading: boolean } {
+  const [options, setOptions] = useState<ImageProviderOptions>(EMPTY_OPTIONS);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const provider = findImageProvider(providerId);
+    // Fixed-model providers have nothing to pick from
+    if (!provider || !provider.capabilities.modelSelection) {
+      setOptions(EMPTY_OPTIONS);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    loadOptions(provider).then(loaded => {
+      if (!cancelled) setOptions(loaded);
+    }).finally(() => {
+      if (!cancelled) setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [providerId]);
+
+  return { options, loading };
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+// Object URL for a stored image Blob, revoked when the Blob changes or the component unmounts.
+export function useObjectUrl(blob: Blob | null | undefined): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback } from 'react';
+import { useHistory } from '@/contexts/HistoryContext';
+import { applyProviderResult } from '@/lib/image-providers';
+import type { GeneratedParams, GenerationVariation, ReimaginedParams, TextOutputModel } from '@/lib/types';
+
+export type SaveVariationsMode = 'separate' | 'alternates';
+
+interface SaveVariationsInput<P extends GeneratedParams | ReimaginedParams> {
+  type: 'generated' | 'reimagined';
+  name: string;
+  params: P;
+  variations: GenerationVariation[];
+  mode: SaveVariationsMode;
+  originalImageDataUri?: string; // Source image of reimagined creations
+}
+
+// Saves picks from the variations grid, either one creation per image or a single
+// creation whose extra images are stored as alternates. Returns the number of creations saved.
+export function useSaveVariations() {
+  const { addCreation } = useHistory();
+
+  return useCallback(async <P extends GeneratedParams | ReimaginedParams>({ type, name, params, variations, mode, originalImageDataUri }: SaveVariationsInput<P>): Promise<number> => {
+    if (variations.length === 0) return 0;
+
+    const toOutputData = (variation: GenerationVariation): TextOutputModel['data'] =>
+      type === 'generated' ? { prompt: variation.prompt } : { derivedPrompt: variation.prompt };
+    // Each image keeps the seed (SD) and model it was rendered with, which is what makes it reproducible
+    const toParams = (variation: GenerationVariation): P => applyProviderResult(params, variation);
+
+    if (mode === 'alternates') {
+      const [main, ...others] = variations;
+      const result = await addCreation(type, name, toParams(main), toOutputData(main), main.imageUrl, originalImageDataUri,
+        others.map(variation => ({ imageDataUri: variation.imageUrl, params: toParams(variation), outputData: toOutputData(variation) })));
+      if (!result) throw new Error("Error al guardar la creación en la base de datos.");
+      return 1;
+    }
+
+    for (const [index, variation] of variations.entries()) {
+      const variationName = variations.length > 1 ? `${name} (${index + 1})` : name;
+      const result = await addCreation(type, variationName, toParams(variation), toOutputData(variation), variation.imageUrl, originalImageDataUri);
+      if (!result) throw new Error(`Error al guardar "${variationName}" en la base de datos.`);
+    }
+    return variations.length;
+  }, [addCreation]);
+}
@@ -4,22 +4,50 @@
 import { generateMythImage as generateMythImageFlow, type GenerateMythImageOutput } from "@/ai/flows/generate-myth-image";
 import { analyzeUploadedImage as analyzeUploadedImageFlow, type AnalyzeUploadedImageInput, type AnalyzeUploadedImageOutput } from "@/ai/flows/analyze-uploaded-image";
 import { reimagineUploadedImage as reimagineUploadedImageFlow, type ReimagineUploadedImageInput, type ReimagineUploadedImageOutput } from "@/ai/flows/reimagine-uploaded-image";
+import { editImageRegion as editImageRegionFlow, type EditImageRegionInput, type EditImageRegionOutput } from "@/ai/flows/edit-image-region";
 import { extractMythologiesFromText as extractMythologiesFlow, type ExtractMythologiesInput, type ExtractMythologiesOutput } from "@/ai/flows/extract-mythologies-flow";
 import { fixImagePrompt as fixImagePromptFlow, type FixImagePromptInput, type FixImagePromptOutput } from "@/ai/flows/fix-image-prompt";
 import { translateText as translateTextFlow, type TranslateTextInput, type TranslateTextOutput } from "@/ai/flows/translate-text-flow";
 import { translateCreationDetails as translateCreationDetailsFlow, type TranslateCreationDetailsInput, type TranslateCreationDetailsOutput } from "@/ai/flows/translate-creation-details-flow";
 import { regenerateCreationName as regenerateCreationNameFlow, type RegenerateCreationNameInput, type RegenerateCreationNameOutput } from "@/ai/flows/regenerate-creation-name-flow";
+import { draftEntity as draftEntityFlow, type DraftEntityInput, type DraftEntityOutput } from "@/ai/flows/draft-entity-flow";
+import { suggestNameMerges as suggestNameMergesFlow, type SuggestNameMergesInput, type SuggestNameMergesOutput } from "@/ai/flows/suggest-name-merges-flow";
 import type { GeneratedParams } from "./types";
 
 // Helper for exponential backoff
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-const handleActionError = (error: any, defaultMessage: string) => {
+function handleActionError(error: any, defaultMessage: string): never {
     console.error(`Error in action:`, error);
     throw new Error(error.message || defaultMessage);
-};
+}
+
+const isQuotaError = (error: any): boolean =>
+    !!error?.message && (error.message.includes('429') || error.message.toLowerCase().includes('quota'));
+
+// Retries `fn` with exponential backoff (2s, 4s, 8s...) while the API reports rate-limit/quota errors.
+async function withQuotaRetry<T>(fn: () => Promise<T>, actionName: string, defaultMessage: string, maxRetries = 3): Promise<T> {
+  let retries = 0;
+
+  while (true) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (isQuotaError(error) && retries < maxRetries - 1) {
+        retries++;
+        const waitTime = Math.pow(2, retries) * 1000;
+        console.log(`Quota error in ${actionName}. Retrying in ${waitTime / 1000}s... (Attempt ${retries}/${maxRetries})`);
+        await delay(waitTime);
+      } else {
+        handleActionError(error, defaultMessage);
+      }
+    }
+  }
+}
 
-export async function generateMythImageAction(input: GeneratedParams): Promise<GenerateMythImageOutput> {
+// Image generation and name regeneration run in loops (batch jobs, bulk edits) that retry quota
+// errors themselves, so these two make a single call.
+export async function generateMythImageAction(input: GeneratedParams & { template?: string }): Promise<GenerateMythImageOutput> {
   try {
     const result = await generateMythImageFlow(input);
     return result;
@@ -46,29 +74,12 @@ export async function reimagineUploadedImageAction(input: ReimagineUploadedImage
   }
 }
 
-export async function extractMythologiesAction(input: ExtractMythologiesInput): Promise<ExtractMythologiesOutput> {
-  let retries = 0;
-  const maxRetries = 3;
+export async function editImageRegionAction(input: EditImageRegionInput): Promise<EditImageRegionOutput> {
+  return withQuotaRetry(() => editImageRegionFlow(input), 'editImageRegionAction', "No se pudo editar la región de la imagen con Google AI.");
+}
 
-  while (retries < maxRetries) {
-    try {
-      const result = await extractMythologiesFlow(input);
-      return result;
-    } catch (error: any) {
-      const isQuotaError = error.message && (error.message.includes('429') || error.message.toLowerCase().includes('quota'));
-      
-      if (isQuotaError && retries < maxRetries - 1) {
-        retries++;
-        const waitTime = Math.pow(2, retries) * 1000; // 2s, 4s
-        console.log(`Quota error in extractMythologiesAction. Retrying in ${waitTime / 1000}s... (Attempt ${retries}/${maxRetries})`);
-        await delay(waitTime);
-      } else {
-        handleActionError(error, "No se pudieron extraer las mitologías del texto.");
-      }
-    }
-  }
-  // This part should not be reachable if logic is correct, but as a fallback:
-  throw new Error("No se pudieron extraer las mitologías del texto tras varios intentos.");
+export async function extractMythologiesAction(input: ExtractMythologiesInput): Promise<ExtractMythologiesOutput> {
+  return withQuotaRetry(() => extractMythologiesFlow(input), 'extractMythologiesAction', "No se pudieron extraer las mitologías del texto.");
 }
 
 export async function fixImagePromptAction(input: FixImagePromptInput): Promise<FixImagePromptOutput> {
@@ -106,3 +117,16 @@ export async function regenerateCreationNameAction(input: RegenerateCreationName
     handleActionError(error, "No se pudo regenerar el nombre de la creación.");
   }
 }
+
+export async function draftEntityAction(input: DraftEntityInput): Promise<DraftEntityOutput> {
+  return withQuotaRetry(() => draftEntityFlow(input), 'draftEntityAction', "No se pudo redactar la ficha de la entidad.");
+}
+
+export async function suggestNameMergesAction(input: SuggestNameMergesInput): Promise<SuggestNameMergesOutput> {
+  return withQuotaRetry(() => suggestNameMergesFlow(input), 'suggestNameMergesAction', "No se pudieron sugerir agrupaciones de nombres.");
+}
+
+// The API key only exists on the server, so the Google AI provider's health check asks here.
+export async function checkGoogleAiConfigAction(): Promise<{ configured: boolean }> {
+  return { configured: !!(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || process.env.GOOGLE_GENAI_API_KEY) };
+}
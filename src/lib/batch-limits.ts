@@ -0,0 +1,96 @@
+import type { ImageProviderId } from './types';
+import { findImageProvider, listImageProviders } from './image-providers';
+
+// Worker pool limits for batch generation, configured per provider on the batch-create page
+// and persisted in localStorage so the background runner always reads the latest values.
+// Defaults come from each image provider's adapter.
+
+export interface BatchProviderLimits {
+  concurrency: number; // Items processed in parallel
+  requestsPerMinute: number; // API calls allowed per minute; 0 disables the cap
+}
+
+export type BatchLimits = Record<ImageProviderId, BatchProviderLimits>;
+
+export const BATCH_LIMITS_STORAGE_KEY = 'mythWeaverBatchLimits';
+
+const FALLBACK_BATCH_LIMITS: BatchProviderLimits = { concurrency: 1, requestsPerMinute: 0 };
+
+export const getDefaultBatchLimits = (): BatchLimits =>
+  Object.fromEntries(listImageProviders().map(provider => [provider.id, provider.batchLimits]));
+
+// Limits for one provider; jobs whose provider is no longer registered fall back to a single worker.
+export const getProviderBatchLimits = (limits: BatchLimits, providerId: ImageProviderId): BatchProviderLimits =>
+  limits[providerId] ?? findImageProvider(providerId)?.batchLimits ?? FALLBACK_BATCH_LIMITS;
+
+const normalizeLimits = (limits: Partial<BatchProviderLimits> | undefined, fallback: BatchProviderLimits): BatchProviderLimits => {
+  const requestsPerMinute = Math.floor(Number(limits?.requestsPerMinute));
+  return {
+    concurrency: Math.min(10, Math.max(1, Math.floor(Number(limits?.concurrency)) || fallback.concurrency)),
+    requestsPerMinute: Number.isFinite(requestsPerMinute) ? Math.max(0, requestsPerMinute) : fallback.requestsPerMinute,
+  };
+};
+
+const normalizeAllLimits = (limits: Partial<BatchLimits>): BatchLimits =>
+  Object.fromEntries(listImageProviders().map(provider => [provider.id, normalizeLimits(limits[provider.id], provider.batchLimits)]));
+
+export const getBatchLimits = (): BatchLimits => {
+  if (typeof window === 'undefined') return getDefaultBatchLimits();
+  try {
+    const stored = localStorage.getItem(BATCH_LIMITS_STORAGE_KEY);
+    if (!stored) return getDefaultBatchLimits();
+    return normalizeAllLimits(JSON.parse(stored));
+  } catch (e) {
+    console.error("Error loading batch limits:", e);
+    return getDefaultBatchLimits();
+  }
+};
+
+export const saveBatchLimits = (limits: BatchLimits): BatchLimits => {
+  const normalized = normalizeAllLimits(limits);
+  localStorage.setItem(BATCH_LIMITS_STORAGE_KEY, JSON.stringify(normalized));
+  return normalized;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Sliding one-minute window shared by all workers of a provider.
+// The limit is read on every call so changes in the UI apply to jobs already running.
+export const createRateLimiter = (getRequestsPerMinute: () => number) => {
+  const timestamps: number[] = [];
+
+  const acquire = async (): Promise<void> => {
+    while (true) {
+      const limit = getRequestsPerMinute();
+      const now = Date.now();
+      while (timestamps.length > 0 && now - timestamps[0] >= 60_000) timestamps.shift();
+
+      if (limit <= 0 || timestamps.length < limit) {
+        timestamps.push(now);
+        return;
+      }
+      await delay(timestamps[0] + 60_000 - now);
+    }
+  };
+
+  return { acquire };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+export const isQuotaError = (error: any): boolean =>
+  !!error?.message && (error.message.includes('429') || error.message.toLowerCase().includes('quota'));
+
+// Calls `fn` once a slot of `limiter` is free, retrying quota errors with exponential backoff (2s, 4s, 8s...).
+// Each retry takes a new slot, so retries count against the provider's requests-per-minute cap.
+export const withQuotaBackoff = async <T>(limiter: RateLimiter, fn: () => Promise<T>, maxAttempts = 3): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    await limiter.acquire();
+    try {
+      return await fn();
+    } catch (error) {
+      if (!isQuotaError(error) || attempt >= maxAttempts) throw error;
+      await delay(Math.pow(2, attempt) * 1000);
+    }
+  }
+};
@@ -0,0 +1,58 @@
+import { appendChanges, withImportChanges } from './change-log';
+import type { Creation, CreationChange } from './types';
+
+const makeCreation = (overrides: Partial<Creation> = {}): Creation => ({
+  id: 'c1',
+  name: 'Odín',
+  type: 'generated',
+  createdAt: 1,
+  updatedAt: 1,
+  params: { culture: 'Nórdica', entity: 'Odín', details: 'Un cuervo', style: 'Óleo' },
+  ...overrides,
+} as Creation);
+
+const change = (timestamp: number, field: string, newValue: unknown, source: CreationChange['source'] = 'manual'): CreationChange =>
+  ({ field, oldValue: 'antes', newValue, source, timestamp });
+
+describe('withImportChanges', () => {
+  it('returns the imported creation as is when nothing is overwritten', () => {
+    const imported = makeCreation({ changeLog: [change(5, 'name', 'Odín')] });
+    expect(withImportChanges(imported)).toBe(imported);
+  });
+
+  it('keeps the local history of an overwritten creation', () => {
+    const shared = change(10, 'name', 'Odín');
+    const existing = makeCreation({ name: 'Odín el Sabio', changeLog: [shared, change(30, 'name', 'Odín el Sabio')] });
+    const imported = makeCreation({ tags: ['nórdico'], changeLog: [shared, change(20, 'tags', ['nórdico'], 'translate')] });
+
+    const result = withImportChanges(imported, existing);
+
+    const log = result.changeLog!;
+    // Shared entries appear once, both histories in time order, then what the import changed
+    expect(log.slice(0, 3).map(entry => [entry.timestamp, entry.field, entry.source])).toEqual([
+      [10, 'name', 'manual'],
+      [20, 'tags', 'translate'],
+      [30, 'name', 'manual'],
+    ]);
+    expect(log.slice(3).map(entry => [entry.field, entry.oldValue, entry.newValue, entry.source])).toEqual([
+      ['name', 'Odín el Sabio', 'Odín', 'import'],
+      ['tags', undefined, ['nórdico'], 'import'],
+    ]);
+    expect(result).toMatchObject({ name: 'Odín', tags: ['nórdico'] });
+  });
+
+  it('keeps the local history even when the import changes nothing', () => {
+    const existing = makeCreation({ changeLog: [change(10, 'name', 'Odín')] });
+    expect(withImportChanges(makeCreation(), existing).changeLog).toEqual(existing.changeLog);
+  });
+});
+
+describe('appendChanges', () => {
+  it('logs params key by key', () => {
+    const creation = makeCreation();
+    const log = appendChanges(creation, { params: { ...creation.params, details: 'Dos cuervos' } }, 'translate');
+    expect(log?.map(entry => [entry.field, entry.oldValue, entry.newValue, entry.source])).toEqual([
+      ['params.details', 'Un cuervo', 'Dos cuervos', 'translate'],
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { formatSdLoras } from './stable-diffusion';
+import { formatPromptTemplateRef } from './prompt-templates';
+import type { Creation, CreationChange, CreationChangeSource, ImageUpscale, PromptTemplateRef } from './types';
+
+// Audit trail kept on each creation (`changeLog`): which field changed, from what to what, when
+// and why. Params are logged key by key so a translated description doesn't hide an edited seed.
+
+export const CHANGE_SOURCE_LABELS: Record<CreationChangeSource, string> = {
+  manual: 'Edición manual',
+  translate: 'Traducción',
+  'regenerate-name': 'Nombre regenerado',
+  'regenerate-image': 'Imagen regenerada',
+  import: 'Importación',
+  undo: 'Deshacer',
+  redo: 'Rehacer',
+  repair: 'Reparación',
+};
+
+// Labels of the creation params, shared by the version history and the change log
+export const PARAM_LABELS: Record<string, string> = {
+  culture: 'Cultura',
+  entity: 'Entidad',
+  details: 'Detalles',
+  style: 'Estilo',
+  stylePrefix: 'Prefijo de estilo',
+  styleSuffix: 'Sufijo de estilo',
+  cultureMotifs: 'Motivos de la cultura',
+  contextCulture: 'Cultura del Contexto',
+  contextEntity: 'Entidad del Contexto',
+  contextDetails: 'Detalles del Contexto',
+  visualStyle: 'Estilo Visual',
+  aspectRatio: 'Relación de Aspecto',
+  imageQuality: 'Calidad',
+  provider: 'Motor',
+  checkpoint: 'Checkpoint',
+  model: 'Modelo',
+  negativePrompt: 'Prompt Negativo',
+  seed: 'Semilla',
+  sampler: 'Sampler',
+  cfgScale: 'CFG Scale',
+  loras: 'LoRAs',
+  hiresUpscaler: 'Hires. fix',
+  inpaintPrompt: 'Edición por región',
+  upscale: 'Escalado',
+  promptTemplate: 'Plantilla de prompt',
+  mythologicalContext: 'Contexto Mitológico',
+  entityTheme: 'Entidad/Tema',
+  additionalDetails: 'Detalles Adicionales',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nombre',
+  isTranslated: 'Traducida',
+  tags: 'Etiquetas',
+  collectionIds: 'Colecciones',
+  version: 'Versión',
+  imageId: 'Imagen',
+  originalImageId: 'Imagen original',
+  outputId: 'Salida de texto',
+};
+
+type LoggedField = 'name' | 'isTranslated' | 'tags' | 'collectionIds' | 'version' | 'imageId' | 'originalImageId' | 'outputId';
+export type LoggedChanges = Partial<Pick<Creation, LoggedField | 'params'>>;
+
+const LOGGED_FIELDS: LoggedField[] = ['name', 'isTranslated', 'tags', 'collectionIds', 'version', 'imageId', 'originalImageId', 'outputId'];
+const MAX_CHANGE_LOG_ENTRIES = 200; // Per creation; the oldest entries are dropped first
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+export const getChangeFieldLabel = (field: string): string =>
+  field.startsWith('params.') ? PARAM_LABELS[field.slice(7)] ?? field.slice(7) : FIELD_LABELS[field] ?? field;
+
+// LoRAs, upscale and the prompt template are the only structured params; everything else is a plain value
+export const formatParamValue = (key: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (key === 'loras' && Array.isArray(value)) return formatSdLoras(value) || '—';
+  if (key === 'upscale') {
+    const { upscaler, factor } = value as ImageUpscale;
+    return `${upscaler} (x${factor})`;
+  }
+  if (key === 'promptTemplate') return formatPromptTemplateRef(value as PromptTemplateRef);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const formatChangeValue = (field: string, value: unknown): string => {
+  if (field.startsWith('params.')) return formatParamValue(field.slice(7), value);
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return value === undefined || value === null || value === '' ? '—' : String(value);
+};
+
+// The entries describing what `changes` would change in `creation`
+export const diffChanges = (creation: Creation, changes: LoggedChanges, source: CreationChangeSource, timestamp = Date.now()): CreationChange[] => {
+  const entries: CreationChange[] = [];
+  const push = (field: string, oldValue: unknown, newValue: unknown) => {
+    if (!sameValue(oldValue, newValue)) entries.push({ field, oldValue, newValue, source, timestamp });
+  };
+  for (const field of LOGGED_FIELDS) {
+    if (field in changes) push(field, creation[field], changes[field]);
+  }
+  if (changes.params) {
+    const keys = new Set([...Object.keys(creation.params), ...Object.keys(changes.params)]);
+    keys.forEach(key => push(`params.${key}`, (creation.params as any)[key], (changes.params as any)[key]));
+  }
+  return entries;
+};
+
+// The creation's change log with the entries for `changes` appended
+export const appendChanges = (creation: Creation, changes: LoggedChanges, source: CreationChangeSource): CreationChange[] | undefined => {
+  const entries = diffChanges(creation, changes, source);
+  if (entries.length === 0) return creation.changeLog;
+  return [...(creation.changeLog ?? []), ...entries].slice(-MAX_CHANGE_LOG_ENTRIES);
+};
+
+// Both logs in time order; entries present in both (same timestamp, field and source) are kept once
+const mergeChangeLogs = (a: CreationChange[] = [], b: CreationChange[] = []): CreationChange[] => {
+  const merged = new Map<string, CreationChange>();
+  [...a, ...b].forEach(change => merged.set(`${change.timestamp}|${change.field}|${change.source}`, change));
+  return Array.from(merged.values()).sort((x, y) => x.timestamp - y.timestamp);
+};
+
+// An imported creation that overwrites `existing` keeps the history of both copies plus what the import changed
+export const withImportChanges = (imported: Creation, existing?: Creation): Creation => {
+  if (!existing) return imported;
+  const { name, isTranslated, tags, collectionIds, version, params } = imported;
+  const entries = diffChanges(existing, { name, isTranslated, tags, collectionIds, version, params }, 'import');
+  const changeLog = [...mergeChangeLogs(existing.changeLog, imported.changeLog), ...entries].slice(-MAX_CHANGE_LOG_ENTRIES);
+  return changeLog.length > 0 ? { ...imported, changeLog } : imported;
+};
+
+// One line per change, for plain-text exports
+export const formatChangeLog = (changeLog: CreationChange[] = []): string =>
+  changeLog.map(change => `${new Date(change.timestamp).toISOString()} · ${getChangeFieldLabel(change.field)} · ${CHANGE_SOURCE_LABELS[change.source] ?? change.source}: ${formatChangeValue(change.field, change.oldValue)} → ${formatChangeValue(change.field, change.newValue)}`).join('\n');
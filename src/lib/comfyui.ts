@@ -0,0 +1,337 @@
+import { v4 as uuidv4 } from 'uuid';
+import { mapAspectRatioToDimensions, mapQualityToSteps } from './utils';
+import { dataUriToBytes } from './image-data';
+import { SD_DEFAULT_CFG_SCALE, SD_DEFAULT_NEGATIVE_PROMPT, SD_DEFAULT_SAMPLER, SD_RANDOM_SEED } from './stable-diffusion';
+import type { SdGenerationParams } from './types';
+
+// Client for the ComfyUI HTTP API. A workflow template (ComfyUI "API format" JSON) is filled with
+// the generation values, queued on /prompt, polled on /history until it finishes and the result is
+// read back from /view. Connection settings and custom templates are edited on the Settings page
+// and persisted in localStorage, like the Stable Diffusion ones.
+
+export interface ComfyUiSettings {
+  baseUrl: string;
+  connectTimeoutSeconds: number; // Used for every single HTTP call
+  generationTimeoutSeconds: number; // Max time to wait for /history to report the prompt as done
+  pollIntervalSeconds: number;
+  txt2imgWorkflow: string; // Custom API-format workflow JSON; empty uses the built-in template
+  img2imgWorkflow: string;
+}
+
+export const COMFY_SETTINGS_STORAGE_KEY = 'mythWeaverComfyUiSettings';
+
+export const DEFAULT_COMFY_SETTINGS: ComfyUiSettings = {
+  baseUrl: 'http://127.0.0.1:8188',
+  connectTimeoutSeconds: 10,
+  generationTimeoutSeconds: 300,
+  pollIntervalSeconds: 1,
+  txt2imgWorkflow: '',
+  img2imgWorkflow: '',
+};
+
+// Placeholders a template may use. A string that is exactly "{{name}}" is replaced by the raw value
+// (so numbers stay numbers); placeholders inside longer strings are replaced as text.
+export const COMFY_WORKFLOW_PLACEHOLDERS = [
+  'prompt', 'negative_prompt', 'seed', 'steps', 'cfg', 'sampler', 'scheduler',
+  'width', 'height', 'checkpoint', 'init_image', 'denoise', 'filename_prefix',
+] as const;
+
+type ComfyWorkflowValues = Partial<Record<typeof COMFY_WORKFLOW_PLACEHOLDERS[number], string | number>>;
+
+const txt2imgNodes = {
+  "3": { class_type: "KSampler", inputs: { seed: "{{seed}}", steps: "{{steps}}", cfg: "{{cfg}}", sampler_name: "{{sampler}}", scheduler: "{{scheduler}}", denoise: 1, model: ["4", 0], positive: ["6", 0], negative: ["7", 0], latent_image: ["5", 0] } },
+  "4": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: "{{checkpoint}}" } },
+  "5": { class_type: "EmptyLatentImage", inputs: { width: "{{width}}", height: "{{height}}", batch_size: 1 } },
+  "6": { class_type: "CLIPTextEncode", inputs: { text: "{{prompt}}", clip: ["4", 1] } },
+  "7": { class_type: "CLIPTextEncode", inputs: { text: "{{negative_prompt}}", clip: ["4", 1] } },
+  "8": { class_type: "VAEDecode", inputs: { samples: ["3", 0], vae: ["4", 2] } },
+  "9": { class_type: "SaveImage", inputs: { filename_prefix: "{{filename_prefix}}", images: ["8", 0] } },
+};
+
+// Same graph, but the latent comes from the uploaded image scaled to the requested size.
+const img2imgNodes = {
+  ...txt2imgNodes,
+  "3": { class_type: "KSampler", inputs: { ...txt2imgNodes["3"].inputs, denoise: "{{denoise}}", latent_image: ["12", 0] } },
+  "5": undefined,
+  "10": { class_type: "LoadImage", inputs: { image: "{{init_image}}" } },
+  "11": { class_type: "ImageScale", inputs: { upscale_method: "lanczos", width: "{{width}}", height: "{{height}}", crop: "center", image: ["10", 0] } },
+  "12": { class_type: "VAEEncode", inputs: { pixels: ["11", 0], vae: ["4", 2] } },
+};
+
+export const DEFAULT_COMFY_TXT2IMG_WORKFLOW = JSON.stringify(txt2imgNodes, null, 2);
+export const DEFAULT_COMFY_IMG2IMG_WORKFLOW = JSON.stringify(img2imgNodes, null, 2);
+
+// ComfyUI names samplers and schedulers separately; these are the AUTOMATIC1111 names offered in the forms.
+const COMFY_SAMPLERS: Record<string, { sampler: string; scheduler: string }> = {
+  "DPM++ 2M Karras": { sampler: 'dpmpp_2m', scheduler: 'karras' },
+  "DPM++ SDE Karras": { sampler: 'dpmpp_sde', scheduler: 'karras' },
+  "DPM++ 2M SDE Karras": { sampler: 'dpmpp_2m_sde', scheduler: 'karras' },
+  "DPM++ 2S a Karras": { sampler: 'dpmpp_2s_ancestral', scheduler: 'karras' },
+  "DPM++ 2M": { sampler: 'dpmpp_2m', scheduler: 'normal' },
+  "DPM++ SDE": { sampler: 'dpmpp_sde', scheduler: 'normal' },
+  "Euler a": { sampler: 'euler_ancestral', scheduler: 'normal' },
+  "Euler": { sampler: 'euler', scheduler: 'normal' },
+  "Heun": { sampler: 'heun', scheduler: 'normal' },
+  "DPM2 Karras": { sampler: 'dpm_2', scheduler: 'karras' },
+  "DDIM": { sampler: 'ddim', scheduler: 'ddim_uniform' },
+  "UniPC": { sampler: 'uni_pc', scheduler: 'normal' },
+};
+
+const COMFY_MAX_SEED = 2 ** 32;
+const COMFY_FILENAME_PREFIX = 'TejedorMitos';
+
+const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const getComfySettings = (): ComfyUiSettings => {
+  if (typeof window === 'undefined') return DEFAULT_COMFY_SETTINGS;
+  try {
+    const stored = localStorage.getItem(COMFY_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_COMFY_SETTINGS;
+    return { ...DEFAULT_COMFY_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("Error loading ComfyUI settings:", e);
+    return DEFAULT_COMFY_SETTINGS;
+  }
+};
+
+// Throws if a custom template isn't valid JSON, so the Settings page can refuse to save it.
+export const saveComfySettings = (settings: ComfyUiSettings): ComfyUiSettings => {
+  const normalized: ComfyUiSettings = {
+    ...settings,
+    baseUrl: normalizeBaseUrl(settings.baseUrl) || DEFAULT_COMFY_SETTINGS.baseUrl,
+    connectTimeoutSeconds: Math.max(1, Number(settings.connectTimeoutSeconds) || DEFAULT_COMFY_SETTINGS.connectTimeoutSeconds),
+    generationTimeoutSeconds: Math.max(1, Number(settings.generationTimeoutSeconds) || DEFAULT_COMFY_SETTINGS.generationTimeoutSeconds),
+    pollIntervalSeconds: Math.max(0.2, Number(settings.pollIntervalSeconds) || DEFAULT_COMFY_SETTINGS.pollIntervalSeconds),
+    txt2imgWorkflow: settings.txt2imgWorkflow.trim(),
+    img2imgWorkflow: settings.img2imgWorkflow.trim(),
+  };
+  if (normalized.txt2imgWorkflow) parseWorkflowTemplate(normalized.txt2imgWorkflow, 'texto a imagen');
+  if (normalized.img2imgWorkflow) parseWorkflowTemplate(normalized.img2imgWorkflow, 'imagen a imagen');
+  localStorage.setItem(COMFY_SETTINGS_STORAGE_KEY, JSON.stringify(normalized));
+  return normalized;
+};
+
+const parseWorkflowTemplate = (template: string, label: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(template);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error("not an object");
+    return parsed;
+  } catch {
+    throw new Error(`La plantilla de ComfyUI de ${label} no es un JSON de flujo válido (formato API).`);
+  }
+};
+
+// Replaces the placeholders of a workflow template. Unknown or unset placeholders are an error,
+// since ComfyUI would otherwise fail later with a less helpful message.
+export function fillComfyWorkflow(template: string, values: ComfyWorkflowValues, label = 'texto a imagen'): Record<string, unknown> {
+  const lookup = (name: string) => {
+    const value = values[name as keyof ComfyWorkflowValues];
+    if (value === undefined) throw new Error(`La plantilla de ComfyUI de ${label} usa el marcador desconocido o vacío "{{${name}}}".`);
+    return value;
+  };
+  const fill = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      const exact = node.match(/^\{\{(\w+)\}\}$/);
+      if (exact) return lookup(exact[1]);
+      return node.replace(/\{\{(\w+)\}\}/g, (_, name) => String(lookup(name)));
+    }
+    if (Array.isArray(node)) return node.map(fill);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).filter(([, value]) => value !== undefined).map(([key, value]) => [key, fill(value)]));
+    }
+    return node;
+  };
+  return fill(parseWorkflowTemplate(template, label)) as Record<string, unknown>;
+}
+
+interface ComfyRequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown; // JSON-encoded unless it is FormData
+  settings?: ComfyUiSettings;
+}
+
+async function comfyFetch(path: string, { method = 'GET', body, settings = getComfySettings() }: ComfyRequestOptions = {}): Promise<Response> {
+  const apiUrl = normalizeBaseUrl(settings.baseUrl);
+  const timeout = settings.connectTimeoutSeconds;
+  const isForm = typeof FormData !== 'undefined' && body instanceof FormData;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout * 1000);
+
+  try {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers: body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : undefined,
+      body: body === undefined ? undefined : isForm ? body as FormData : JSON.stringify(body),
+      mode: 'cors',
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      // /prompt explains rejected workflows in `error.message` and `node_errors`
+      let detail = errorText;
+      try {
+        const parsed = JSON.parse(errorText);
+        detail = [parsed.error?.message, parsed.error?.details].filter(Boolean).join(': ') || errorText;
+      } catch {
+        // Not JSON; keep the raw text
+      }
+      throw new Error(`Error de la API de ComfyUI: ${response.status} - ${detail}`);
+    }
+    return response;
+  } catch (e: any) {
+    if (e.name === 'AbortError') {
+      throw new Error(`La API de ComfyUI no respondió en ${timeout} segundos (${apiUrl}${path}). Puedes ajustar los tiempos de espera en Ajustes.`);
+    }
+    if (e.message?.includes('Failed to fetch')) {
+      throw new Error(`Error de red o CORS. Asegúrate de que ComfyUI se ejecuta con '--enable-cors-header' y que puedes acceder a ${apiUrl}/system_stats`);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const comfyJson = async <T>(path: string, options?: ComfyRequestOptions): Promise<T> =>
+  await (await comfyFetch(path, options)).json() as T;
+
+interface ComfySystemStats {
+  system?: { comfyui_version?: string };
+  devices?: { name: string }[];
+}
+
+interface ComfyOutputImage {
+  filename: string;
+  subfolder: string;
+  type: string; // 'output' for SaveImage, 'temp' for previews
+}
+
+interface ComfyHistoryEntry {
+  status?: { status_str?: string; completed?: boolean; messages?: [string, { exception_message?: string }][] };
+  outputs?: Record<string, { images?: ComfyOutputImage[] }>;
+}
+
+// Used by the Settings page to validate unsaved connection values.
+export async function testComfyConnection(settings: ComfyUiSettings): Promise<{ device?: string; version?: string }> {
+  const stats = await comfyJson<ComfySystemStats>('/system_stats', { settings });
+  return { device: stats.devices?.[0]?.name, version: stats.system?.comfyui_version };
+}
+
+// Checkpoint file names accepted by CheckpointLoaderSimple.
+export async function listComfyCheckpoints(settings?: ComfyUiSettings): Promise<string[]> {
+  const info = await comfyJson<Record<string, any>>('/object_info/CheckpointLoaderSimple', { settings });
+  const ckptInput = info.CheckpointLoaderSimple?.input?.required?.ckpt_name;
+  // Older versions list the options directly, newer ones as ["COMBO", { options }]
+  const options = Array.isArray(ckptInput?.[0]) ? ckptInput[0] : ckptInput?.[1]?.options;
+  return Array.isArray(options) ? options : [];
+}
+
+// ComfyUI has no "loaded" checkpoint; the first one available is offered as the default.
+export async function getDefaultComfyCheckpoint(): Promise<string | undefined> {
+  try {
+    return (await listComfyCheckpoints())[0];
+  } catch (error) {
+    console.warn("No se pudo conectar a la API de ComfyUI para obtener los checkpoints. Se requiere entrada manual.", error);
+    return undefined;
+  }
+}
+
+const bytesToDataUri = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+async function uploadInitImage(initImage: string, settings: ComfyUiSettings): Promise<string> {
+  const { bytes, mimeType } = dataUriToBytes(initImage);
+  const form = new FormData();
+  // One file per request, so concurrent generations don't overwrite each other's init image
+  form.append('image', new Blob([bytes], { type: mimeType }), `${COMFY_FILENAME_PREFIX}_init_${uuidv4()}.${mimeType.split('/')[1] || 'png'}`);
+  const uploaded = await comfyJson<{ name: string; subfolder?: string }>('/upload/image', { method: 'POST', body: form, settings });
+  return uploaded.subfolder ? `${uploaded.subfolder}/${uploaded.name}` : uploaded.name;
+}
+
+// Queues the workflow and polls /history until it reports outputs (or an error).
+async function runWorkflow(workflow: Record<string, unknown>, settings: ComfyUiSettings): Promise<ComfyOutputImage[]> {
+  const { prompt_id: promptId } = await comfyJson<{ prompt_id: string }>('/prompt', { method: 'POST', body: { prompt: workflow }, settings });
+  const deadline = Date.now() + settings.generationTimeoutSeconds * 1000;
+
+  while (true) {
+    const history = await comfyJson<Record<string, ComfyHistoryEntry>>(`/history/${encodeURIComponent(promptId)}`, { settings });
+    const entry = history[promptId];
+
+    if (entry?.status?.status_str === 'error') {
+      const failure = entry.status.messages?.find(([type]) => type === 'execution_error')?.[1];
+      throw new Error(`ComfyUI no pudo ejecutar el flujo: ${failure?.exception_message || 'error desconocido'}`);
+    }
+    if (entry && entry.status?.completed !== false && entry.outputs) {
+      const images = Object.values(entry.outputs).flatMap(output => output.images ?? []);
+      const saved = images.filter(image => image.type === 'output');
+      if (images.length === 0) throw new Error("El flujo de ComfyUI terminó sin devolver ninguna imagen. Revisa que tenga un nodo SaveImage.");
+      return saved.length > 0 ? saved : images;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`ComfyUI no terminó la imagen en ${settings.generationTimeoutSeconds} segundos. Puedes ajustar los tiempos de espera en Ajustes.`);
+    }
+    await delay(settings.pollIntervalSeconds * 1000);
+  }
+}
+
+async function fetchOutputImage({ filename, subfolder, type }: ComfyOutputImage, settings: ComfyUiSettings): Promise<string> {
+  const query = new URLSearchParams({ filename, subfolder, type });
+  const response = await comfyFetch(`/view?${query}`, { settings });
+  const mimeType = response.headers.get('Content-Type')?.split(';')[0] || 'image/png';
+  return bytesToDataUri(new Uint8Array(await response.arrayBuffer()), mimeType);
+}
+
+export interface ComfyGenerationInput extends SdGenerationParams {
+  prompt: string;
+  aspectRatio: string;
+  imageQuality: string;
+  checkpoint?: string;
+  initImage?: string; // Data URI; switches to the img2img template
+  denoisingStrength?: number;
+}
+
+export interface ComfyImageResult {
+  imageUrl: string; // Data URI
+  seed: number; // Always concrete: random seeds are picked here, since ComfyUI has no -1
+  model: string; // Checkpoint file the workflow loaded
+}
+
+export async function generateWithComfyUi({ prompt, aspectRatio, imageQuality, checkpoint, negativePrompt, seed, sampler, cfgScale, initImage, denoisingStrength = 0.75 }: ComfyGenerationInput): Promise<ComfyImageResult> {
+  const settings = getComfySettings();
+  const model = checkpoint || await getDefaultComfyCheckpoint();
+  if (!model) throw new Error("No hay ningún checkpoint disponible en ComfyUI. Indica uno en el campo Checkpoint Base.");
+
+  const resolvedSeed = seed === undefined || seed === SD_RANDOM_SEED ? Math.floor(Math.random() * COMFY_MAX_SEED) : seed;
+  const { sampler: samplerName, scheduler } = COMFY_SAMPLERS[sampler || SD_DEFAULT_SAMPLER] ?? COMFY_SAMPLERS[SD_DEFAULT_SAMPLER];
+  const dimensions = mapAspectRatioToDimensions(aspectRatio);
+
+  const values: ComfyWorkflowValues = {
+    prompt,
+    negative_prompt: negativePrompt ?? SD_DEFAULT_NEGATIVE_PROMPT,
+    seed: resolvedSeed,
+    steps: mapQualityToSteps(imageQuality),
+    cfg: cfgScale ?? SD_DEFAULT_CFG_SCALE,
+    sampler: samplerName,
+    scheduler,
+    width: dimensions.width,
+    height: dimensions.height,
+    checkpoint: model,
+    denoise: denoisingStrength,
+    filename_prefix: COMFY_FILENAME_PREFIX,
+  };
+
+  const workflow = initImage
+    ? fillComfyWorkflow(settings.img2imgWorkflow || DEFAULT_COMFY_IMG2IMG_WORKFLOW, { ...values, init_image: await uploadInitImage(initImage, settings) }, 'imagen a imagen')
+    : fillComfyWorkflow(settings.txt2imgWorkflow || DEFAULT_COMFY_TXT2IMG_WORKFLOW, values);
+
+  const [image] = await runWorkflow(workflow, settings);
+  return { imageUrl: await fetchOutputImage(image, settings), seed: resolvedSeed, model };
+}
@@ -0,0 +1,81 @@
+import { MYTHOLOGICAL_CULTURES } from './types';
+import type { Culture, CulturePromptParams } from './types';
+
+// Culture catalog: the classic cultures are built in; user cultures are stored in Dexie and can
+// also redefine a built-in one (same name) to give it a description, aliases or motifs.
+
+// Free-text option of the forms: the user describes the culture in `customCultureDetails` instead
+export const CUSTOM_CULTURE_NAME = 'Personalizada';
+
+export const DEFAULT_CULTURE_NAME = MYTHOLOGICAL_CULTURES[0];
+
+// Other names the extraction flow and batch lines commonly use for the built-in cultures
+const BUILT_IN_ALIASES: Record<string, string[]> = {
+  Azteca: ['Aztec', 'Mexica'],
+  Celta: ['Celtic', 'Irlandesa', 'Galesa'],
+  China: ['Chinese', 'China antigua'],
+  Egipcia: ['Egyptian', 'Egipto'],
+  Griega: ['Greek', 'Grecia', 'Helénica'],
+  Hebrea: ['Hebrew', 'Judía'],
+  Hindú: ['Hindu', 'India', 'Védica'],
+  Inca: ['Andina', 'Incan'],
+  Japonesa: ['Japanese', 'Sintoísta', 'Japón'],
+  Maya: ['Mayan'],
+  Mesopotámica: ['Mesopotamian', 'Sumeria', 'Babilónica', 'Acadia'],
+  Nórdica: ['Norse', 'Escandinava', 'Vikinga'],
+  Romana: ['Roman', 'Roma'],
+};
+
+// The built-in cultures have no motifs, so prompts made with them are the same as before the catalog existed.
+export const BUILT_IN_CULTURES: Culture[] = MYTHOLOGICAL_CULTURES
+  .filter(name => name !== CUSTOM_CULTURE_NAME)
+  .map((name, index) => ({
+    id: `builtin:${index}`,
+    name,
+    aliases: BUILT_IN_ALIASES[name] ?? [],
+    description: '',
+    motifs: [],
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  }));
+
+export type CultureInput = Pick<Culture, 'name' | 'aliases' | 'description' | 'motifs' | 'defaultStyle'>;
+
+// What the server flows need to recognize a culture
+export type CultureReference = Pick<Culture, 'name' | 'aliases'>;
+
+// Case- and accent-insensitive, so "nordica" and "NÓRDICA" find "Nórdica"
+export const normalizeCultureName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+// Sorted by name; user cultures shadow built-in cultures with the same name.
+export const mergeCultures = (userCultures: Culture[]): Culture[] => {
+  const userNames = new Set(userCultures.map(culture => normalizeCultureName(culture.name)));
+  return [
+    ...BUILT_IN_CULTURES.filter(culture => !userNames.has(normalizeCultureName(culture.name))),
+    ...userCultures,
+  ].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Matches the name first, then the aliases
+export const findCulture = <C extends CultureReference>(cultures: C[], name: string | undefined): C | undefined => {
+  if (!name?.trim()) return undefined;
+  const key = normalizeCultureName(name);
+  return cultures.find(culture => normalizeCultureName(culture.name) === key)
+    ?? cultures.find(culture => culture.aliases.some(alias => normalizeCultureName(alias) === key));
+};
+
+// Params recorded with a creation; cultures without motifs store nothing extra.
+export const toCulturePromptParams = (culture: Culture | undefined): CulturePromptParams =>
+  culture && culture.motifs.length > 0 ? { cultureMotifs: culture.motifs.join(', ') } : {};
+
+// The list given to the extraction flow, e.g. "Griega (también: Greek, Grecia)"
+export const describeCultureReferences = (cultures: CultureReference[]): string =>
+  cultures
+    .map(({ name, aliases }) => aliases.length > 0 ? `${name} (también: ${aliases.join(', ')})` : name)
+    .join(', ');
+
+// Comma-separated lists in the Settings form
+export const parseCultureList = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(item => item.trim()).filter(Boolean)));
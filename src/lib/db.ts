@@ -1,11 +1,23 @@
 
 import Dexie, { type Table } from 'dexie';
-import type { Creation, ImageDataModel, TextOutputModel } from './types';
+import type { Creation, ImageDataModel, TextOutputModel, BatchJob, BatchJobItem, Collection, SearchDocument, ThumbnailModel, StylePreset, PromptTemplateVersion, Culture, Entity, MigrationRecord, TrashedCreation } from './types';
+import { runMigrations, takePendingMigrationRecords } from './migrations';
 
 export class MythWeaverDB extends Dexie {
   creations!: Table<Creation, string>; // string is the type of the primary key (id)
   imageDataStore!: Table<ImageDataModel, string>;
   textOutputStore!: Table<TextOutputModel, string>;
+  batchJobs!: Table<BatchJob, string>;
+  batchJobItems!: Table<BatchJobItem, string>;
+  collections!: Table<Collection, string>;
+  searchIndex!: Table<SearchDocument, string>;
+  thumbnailStore!: Table<ThumbnailModel, string>;
+  stylePresets!: Table<StylePreset, string>;
+  promptTemplateVersions!: Table<PromptTemplateVersion, [string, number]>;
+  cultures!: Table<Culture, string>;
+  entities!: Table<Entity, string>;
+  migrations!: Table<MigrationRecord, string>;
+  trash!: Table<TrashedCreation, string>;
 
   constructor() {
     super('MythWeaverDB');
@@ -18,6 +30,58 @@ export class MythWeaverDB extends Dexie {
     this.version(2).stores({
       creations: '++id, name, type, createdAt, updatedAt, imageId, outputId, originalImageId, isTranslated',
     });
+    // Persistent batch generation queue (replaces the localStorage batch cache)
+    this.version(3).stores({
+      batchJobs: 'id, status, createdAt',
+      batchJobItems: 'id, jobId, status, [jobId+status], [jobId+position]',
+    });
+    // Tags and collections for organizing creations
+    this.version(4).stores({
+      creations: '++id, name, type, createdAt, updatedAt, imageId, outputId, originalImageId, isTranslated, *tags, *collectionIds',
+      collections: 'id, name, createdAt',
+    });
+    // Full-text search documents, rebuilt lazily from creations (see lib/search.ts)
+    this.version(5).stores({
+      searchIndex: 'creationId, updatedAt, *terms',
+    });
+    // Downscaled previews for list views, keyed by image id (see lib/thumbnails.ts)
+    this.version(6).stores({
+      thumbnailStore: 'id',
+    });
+    // Images move from base64 data URIs to Blobs with their mime type, dimensions and size
+    this.version(7).stores({
+      imageDataStore: '++id',
+    }).upgrade(tx => runMigrations(tx, 7));
+    // User-created style presets; the built-in ones live in code (see lib/style-presets.ts)
+    this.version(8).stores({
+      stylePresets: 'id, name, createdAt',
+    });
+    // Every saved edit of a prompt template, so creations can point at the exact text that built their prompt
+    this.version(9).stores({
+      promptTemplateVersions: '[templateId+version], templateId',
+    });
+    // User-created cultures; the built-in ones live in code (see lib/cultures.ts)
+    this.version(10).stores({
+      cultures: 'id, name, createdAt',
+    });
+    // Entity knowledge base shown in the encyclopedia (see lib/entities.ts)
+    this.version(11).stores({
+      entities: 'id, name, culture, updatedAt',
+    });
+    // Record of the data migrations applied (see lib/migrations.ts); from here on data fixes are migrations
+    this.version(12).stores({
+      migrations: 'id, version, appliedAt',
+    }).upgrade(tx => runMigrations(tx, 12));
+    // Deleted creations, restorable until the retention period ends (see lib/trash.ts)
+    this.version(13).stores({
+      trash: 'id, deletedAt',
+    });
+
+    // Migrations that ran in an upgrade older than the `migrations` table are recorded once it exists
+    this.on('ready', async () => {
+      const pending = takePendingMigrationRecords();
+      if (pending.length > 0) await this.migrations.bulkPut(pending);
+    });
   }
 }
 
@@ -0,0 +1,152 @@
+import { db } from './db';
+import {
+  clearJournal, diffCreation, recordCollectionDeletion, recordEdits, redoLastEdit, runInJournalBatch, subscribeToJournal, undoLastEdit, type JournalState,
+} from './edit-journal';
+import type { Collection, Creation } from './types';
+
+const makeCreation = (id: string): Creation => ({
+  id,
+  name: `Creación ${id}`,
+  type: 'generated',
+  createdAt: 1,
+  updatedAt: 1,
+  params: { culture: 'Nórdica', entity: 'Odín', details: 'Un cuervo', style: 'Óleo' },
+} as Creation);
+
+const currentState = (): JournalState => {
+  let state!: JournalState;
+  subscribeToJournal(s => { state = s; })();
+  return state;
+};
+
+// Stores the creation with `changes` applied and records the edit, as HistoryContext does
+const editCreation = async (label: string, creation: Creation, changes: Partial<Creation>, batch?: Parameters<typeof recordEdits>[2]) => {
+  await db.creations.put({ ...creation, ...changes });
+  recordEdits(label, [diffCreation(creation, changes)], batch);
+};
+
+beforeEach(async () => {
+  clearJournal();
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+afterAll(() => db.close());
+
+describe('runInJournalBatch', () => {
+  it('groups the edits recorded with its handle and leaves the rest separate', async () => {
+    let releaseBatch!: () => void;
+    const batchDone = runInJournalBatch('Traducción en lote', async batch => {
+      recordEdits('Renombrar', [diffCreation(makeCreation('1'), { name: 'Uno' })], batch);
+      await new Promise<void>(resolve => { releaseBatch = resolve; });
+      recordEdits('Renombrar', [diffCreation(makeCreation('2'), { name: 'Dos' })], batch);
+    });
+
+    // An unrelated edit while the batch is still open
+    recordEdits('Editar detalles', [diffCreation(makeCreation('3'), { name: 'Tres' })]);
+    expect(currentState().batchLabels).toEqual(['Traducción en lote']);
+
+    releaseBatch();
+    await batchDone;
+
+    const { undo, batchLabels } = currentState();
+    expect(batchLabels).toEqual([]);
+    expect(undo.map(entry => [entry.label, entry.edits.map(edit => edit.creationId)])).toEqual([
+      ['Traducción en lote', ['1', '2']],
+      ['Editar detalles', ['3']],
+    ]);
+  });
+
+  it('gives concurrent batches their own entries', async () => {
+    await Promise.all([
+      runInJournalBatch('Lote A', async batch => { recordEdits('Renombrar', [diffCreation(makeCreation('a'), { name: 'A' })], batch); }),
+      runInJournalBatch('Lote B', async batch => { recordEdits('Renombrar', [diffCreation(makeCreation('b'), { name: 'B' })], batch); }),
+    ]);
+
+    expect(currentState().undo.map(entry => [entry.label, entry.edits.length])).toEqual([['Lote A', 1], ['Lote B', 1]]);
+  });
+
+  it('skips edits that change nothing', () => {
+    const creation = makeCreation('1');
+    recordEdits('Renombrar', [diffCreation(creation, { name: creation.name })]);
+    expect(currentState().undo).toEqual([]);
+  });
+});
+
+describe('undoLastEdit and redoLastEdit', () => {
+  it('undo and redo a batch as one step', async () => {
+    await runInJournalBatch('Traducción en lote', async batch => {
+      await editCreation('Traducir', makeCreation('1'), { name: 'Uno', isTranslated: true }, batch);
+      await editCreation('Traducir', makeCreation('2'), { name: 'Dos', isTranslated: true }, batch);
+    });
+
+    expect(await undoLastEdit()).toMatchObject({ applied: 2, skipped: 0 });
+    expect((await db.creations.bulkGet(['1', '2'])).map(creation => [creation?.name, creation?.isTranslated])).toEqual([
+      ['Creación 1', undefined],
+      ['Creación 2', undefined],
+    ]);
+    expect(currentState()).toMatchObject({ undo: [], redo: [{ label: 'Traducción en lote' }] });
+
+    expect(await redoLastEdit()).toMatchObject({ applied: 2, skipped: 0 });
+    expect((await db.creations.bulkGet(['1', '2'])).map(creation => creation?.name)).toEqual(['Uno', 'Dos']);
+    // The change log tells the replays apart from manual edits
+    expect((await db.creations.get('1'))?.changeLog?.map(entry => [entry.field, entry.source])).toEqual([
+      ['name', 'undo'],
+      ['isTranslated', 'undo'],
+      ['name', 'redo'],
+      ['isTranslated', 'redo'],
+    ]);
+    expect(currentState()).toMatchObject({ undo: [{ label: 'Traducción en lote' }], redo: [] });
+  });
+
+  it('skips creations edited or deleted since the entry', async () => {
+    await runInJournalBatch('Renombrar en lote', async batch => {
+      for (const id of ['1', '2', '3']) await editCreation('Renombrar', makeCreation(id), { name: `Nombre ${id}` }, batch);
+    });
+    // Edited outside the journal, then deleted
+    await db.creations.update('2', { name: 'Otro nombre' });
+    await db.creations.delete('3');
+
+    expect(await undoLastEdit()).toMatchObject({ applied: 1, skipped: 2 });
+    expect((await db.creations.bulkGet(['1', '2', '3'])).map(creation => creation?.name)).toEqual(['Creación 1', 'Otro nombre', undefined]);
+  });
+
+  it('skip bringing back a render whose image was deleted meanwhile', async () => {
+    await db.imageDataStore.add({ id: 'nueva', blob: new Blob(['png']), mimeType: 'image/png', width: 64, height: 32, size: 3 });
+    await editCreation('Regenerar imagen', makeCreation('1'), { imageId: 'nueva', version: 2 });
+
+    expect(await undoLastEdit()).toMatchObject({ applied: 1 });
+    await db.imageDataStore.delete('nueva');
+    expect(await redoLastEdit()).toMatchObject({ applied: 0, skipped: 1 });
+    const creation = await db.creations.get('1');
+    expect([creation?.imageId, creation?.version]).toEqual([undefined, undefined]);
+  });
+
+  it('refuse to replay while a batch is open', async () => {
+    await editCreation('Renombrar', makeCreation('1'), { name: 'Uno' });
+
+    let releaseBatch!: () => void;
+    const batchDone = runInJournalBatch('Traducción en lote', () => new Promise<void>(resolve => { releaseBatch = resolve; }));
+    expect(await undoLastEdit()).toBeUndefined();
+    expect((await db.creations.get('1'))?.name).toBe('Uno');
+
+    releaseBatch();
+    await batchDone;
+    expect(await undoLastEdit()).toMatchObject({ applied: 1 });
+  });
+
+  it('bring a deleted collection back with its creations and delete it again on redo', async () => {
+    const collection: Collection = { id: 'mitos', name: 'Mitos nórdicos', createdAt: 1 };
+    const creation = makeCreation('1');
+    const collected = { ...creation, collectionIds: ['mitos', 'otra'] };
+    await db.creations.put({ ...collected, collectionIds: ['otra'] });
+    recordCollectionDeletion(collection, [diffCreation(collected, { collectionIds: ['otra'] })]);
+
+    expect(await undoLastEdit()).toMatchObject({ applied: 1, skipped: 0 });
+    expect(await db.collections.get('mitos')).toEqual(collection);
+    expect((await db.creations.get('1'))?.collectionIds).toEqual(['mitos', 'otra']);
+
+    expect(await redoLastEdit()).toMatchObject({ applied: 1, skipped: 0 });
+    expect(await db.collections.get('mitos')).toBeUndefined();
+    expect((await db.creations.get('1'))?.collectionIds).toEqual(['otra']);
+  });
+});
@@ -0,0 +1,198 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from './db';
+import { appendChanges } from './change-log';
+import { reindexCreations } from './search';
+import type { Collection, Creation } from './types';
+
+// Session journal of edits to creations, for undo/redo. Each entry keeps the before/after values of
+// the fields it touched; edits recorded with a batch's handle (bulk translation, name regeneration...)
+// are grouped into one entry so they're undone in one step. Image regenerations and version restores
+// are journaled through the current render's fields; deletions and imports aren't journaled, the
+// trash and backups cover them.
+
+// The current render: regenerating or restoring a version swaps all of these at once
+export const RENDER_FIELDS = ['imageId', 'imageDimensions', 'outputId', 'version', 'versions'] as const;
+
+export type JournaledField = 'name' | 'params' | 'isTranslated' | 'tags' | 'collectionIds' | typeof RENDER_FIELDS[number];
+export type JournaledValues = Partial<Pick<Creation, JournaledField>>;
+
+export interface CreationEdit {
+  creationId: string;
+  creationName: string; // Name before the edit, for the history panel
+  before: JournaledValues;
+  after: JournaledValues;
+}
+
+export interface JournalEntry {
+  id: string;
+  label: string;
+  createdAt: number; // Timestamp
+  edits: CreationEdit[];
+  deletedCollection?: Collection; // Re-added on undo and deleted again on redo
+}
+
+export interface JournalState {
+  undo: JournalEntry[]; // Newest last
+  redo: JournalEntry[]; // Next to redo last
+  batchLabels: string[]; // Labels of the batches being recorded
+}
+
+// Handle of an open batch, passed along to the edits that belong to it
+export interface JournalBatch {
+  readonly id: string;
+  readonly label: string;
+}
+
+// Result of undoing or redoing an entry
+export interface JournalReplay {
+  entry: JournalEntry;
+  applied: number; // Creations changed
+  skipped: number; // Creations deleted or edited again since, left as they are
+}
+
+const MAX_JOURNAL_ENTRIES = 100;
+const JOURNALED_FIELDS: JournaledField[] = ['name', 'params', 'isTranslated', 'tags', 'collectionIds', ...RENDER_FIELDS];
+
+type JournalListener = (state: JournalState) => void;
+
+const listeners = new Set<JournalListener>();
+let undoStack: JournalEntry[] = [];
+let redoStack: JournalEntry[] = [];
+const openBatches = new Map<string, JournalEntry>(); // By batch id
+
+const getState = (): JournalState => ({
+  undo: [...undoStack],
+  redo: [...redoStack],
+  batchLabels: Array.from(openBatches.values(), entry => entry.label),
+});
+
+const emit = () => {
+  const state = getState();
+  listeners.forEach(listener => listener(state));
+};
+
+// The listener is called right away with the current state, then on every change
+export const subscribeToJournal = (listener: JournalListener): (() => void) => {
+  listeners.add(listener);
+  listener(getState());
+  return () => { listeners.delete(listener); };
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// The edit that turns `creation` into `creation` with `changes` applied, or undefined if nothing changes
+export const diffCreation = (creation: Creation, changes: JournaledValues): CreationEdit | undefined => {
+  const before: JournaledValues = {};
+  const after: JournaledValues = {};
+  for (const field of JOURNALED_FIELDS) {
+    if (!(field in changes) || sameValue(creation[field], changes[field])) continue;
+    (before as any)[field] = creation[field];
+    (after as any)[field] = changes[field];
+  }
+  return Object.keys(after).length > 0 ? { creationId: creation.id, creationName: creation.name, before, after } : undefined;
+};
+
+// Edits recorded with the handle of an open batch join its entry; any other edit gets an entry of its own
+export const recordEdits = (label: string, edits: (CreationEdit | undefined)[], batch?: JournalBatch) => {
+  const recorded = edits.filter((edit): edit is CreationEdit => !!edit);
+  if (recorded.length === 0) return;
+  const batchEntry = batch && openBatches.get(batch.id);
+  if (batchEntry) {
+    batchEntry.edits.push(...recorded);
+    if (!undoStack.includes(batchEntry)) undoStack.push(batchEntry);
+  } else {
+    undoStack.push({ id: uuidv4(), label, createdAt: Date.now(), edits: recorded });
+  }
+  undoStack = undoStack.slice(-MAX_JOURNAL_ENTRIES);
+  redoStack = [];
+  emit();
+};
+
+// Deleting a collection removes it from its creations; the entry keeps the row so undo can bring both back
+export const recordCollectionDeletion = (collection: Collection, edits: (CreationEdit | undefined)[]) => {
+  const recorded = edits.filter((edit): edit is CreationEdit => !!edit);
+  undoStack = [...undoStack, { id: uuidv4(), label: 'Eliminar colección', createdAt: Date.now(), edits: recorded, deletedCollection: collection }].slice(-MAX_JOURNAL_ENTRIES);
+  redoStack = [];
+  emit();
+};
+
+// Records the edits made with the handle `run` receives as a single entry. Edits made meanwhile
+// without the handle (in another tab of the app, by another dialog...) stay separate.
+export const runInJournalBatch = async <T>(label: string, run: (batch: JournalBatch) => Promise<T>): Promise<T> => {
+  const batch: JournalBatch = { id: uuidv4(), label };
+  openBatches.set(batch.id, { id: batch.id, label, createdAt: Date.now(), edits: [] });
+  emit();
+  try {
+    return await run(batch);
+  } finally {
+    openBatches.delete(batch.id);
+    emit();
+  }
+};
+
+// Writes one side of the entry's edits back. A creation is only changed while its fields still hold
+// the values the entry left there, so later edits aren't overwritten; a render whose image was
+// deleted meanwhile (e.g. as an orphan by "Verificar biblioteca") isn't brought back either.
+const replay = async (entry: JournalEntry, direction: 'undo' | 'redo'): Promise<JournalReplay> => {
+  let applied = 0;
+  let skipped = 0;
+  await db.transaction('rw', [db.creations, db.collections, db.imageDataStore], async () => {
+    if (entry.deletedCollection && direction === 'undo') await db.collections.put(entry.deletedCollection);
+    // Later edits of the same creation are reverted first
+    const edits = direction === 'undo' ? [...entry.edits].reverse() : entry.edits;
+    for (const edit of edits) {
+      const [from, to] = direction === 'undo' ? [edit.after, edit.before] : [edit.before, edit.after];
+      const creation = await db.creations.get(edit.creationId);
+      const fields = Object.keys(from) as JournaledField[];
+      const imageMissing = !!to.imageId && !(await db.imageDataStore.get(to.imageId));
+      if (!creation || imageMissing || fields.some(field => !sameValue(creation[field], from[field]))) {
+        skipped++;
+        continue;
+      }
+      await db.creations.update(edit.creationId, { ...to, changeLog: appendChanges(creation, to, direction), updatedAt: Date.now() });
+      applied++;
+    }
+    if (entry.deletedCollection && direction === 'redo') await db.collections.delete(entry.deletedCollection.id);
+  });
+  await reindexCreations(entry.edits.map(edit => edit.creationId));
+  return { entry, applied, skipped };
+};
+
+export const undoLastEdit = async (): Promise<JournalReplay | undefined> => {
+  const entry = undoStack[undoStack.length - 1];
+  if (!entry || openBatches.size > 0) return undefined;
+  // Taken off first so a repeated shortcut doesn't replay the same entry twice
+  undoStack = undoStack.slice(0, -1);
+  try {
+    const result = await replay(entry, 'undo');
+    redoStack = [...redoStack, entry];
+    return result;
+  } catch (e) {
+    undoStack = [...undoStack, entry];
+    throw e;
+  } finally {
+    emit();
+  }
+};
+
+export const redoLastEdit = async (): Promise<JournalReplay | undefined> => {
+  const entry = redoStack[redoStack.length - 1];
+  if (!entry || openBatches.size > 0) return undefined;
+  redoStack = redoStack.slice(0, -1);
+  try {
+    const result = await replay(entry, 'redo');
+    undoStack = [...undoStack, entry];
+    return result;
+  } catch (e) {
+    redoStack = [...redoStack, entry];
+    throw e;
+  } finally {
+    emit();
+  }
+};
+
+export const clearJournal = () => {
+  undoStack = [];
+  redoStack = [];
+  emit();
+};
@@ -0,0 +1,51 @@
+import { normalizeCultureName } from './cultures';
+import type { Creation, Entity, EntityRelationType } from './types';
+
+// Entity knowledge base: lore entries that the encyclopedia shows next to the creations of
+// each entity. Creations aren't linked by id; they match an entry by culture and entity name or alias.
+
+export const ENTITY_RELATION_LABELS: Record<EntityRelationType, string> = {
+  parent: 'Progenitor de',
+  child: 'Hijo/a de',
+  consort: 'Consorte de',
+  sibling: 'Hermano/a de',
+  ally: 'Aliado/a de',
+  enemy: 'Enemigo/a de',
+};
+
+export const ENTITY_RELATION_TYPES = Object.keys(ENTITY_RELATION_LABELS) as EntityRelationType[];
+
+export type EntityInput = Pick<Entity, 'name' | 'culture' | 'aliases' | 'description' | 'attributes' | 'relationships'>;
+
+// What a creation's params say about it; the param names differ per creation type
+export const getCreationCultureName = (creation: Creation): string | undefined => {
+  const params = creation.params as any;
+  return params.culture || params.mythologicalContext || params.contextCulture || undefined;
+};
+
+export const getCreationEntityName = (creation: Creation): string | undefined => {
+  const params = creation.params as any;
+  return params.entity || params.entityTheme || params.contextEntity || undefined;
+};
+
+// Same case- and accent-insensitive comparison as culture names
+export const normalizeEntityName = normalizeCultureName;
+
+// The entry of `name` (or one of its aliases) within `culture`
+export const findEntity = (entities: Entity[], culture: string | undefined, name: string | undefined): Entity | undefined => {
+  if (!culture?.trim() || !name?.trim()) return undefined;
+  const cultureKey = normalizeCultureName(culture);
+  const key = normalizeEntityName(name);
+  const inCulture = entities.filter(entity => normalizeCultureName(entity.culture) === cultureKey);
+  return inCulture.find(entity => normalizeEntityName(entity.name) === key)
+    ?? inCulture.find(entity => entity.aliases.some(alias => normalizeEntityName(alias) === key));
+};
+
+export const emptyEntityInput = (culture = '', name = ''): EntityInput => ({
+  name,
+  culture,
+  aliases: [],
+  description: '',
+  attributes: [],
+  relationships: [],
+});
@@ -0,0 +1,113 @@
+import type { ImageDataModel } from './types';
+
+// Images are stored as Blobs (see db.ts version 7). The AI actions and uploads still produce
+// data URIs, so these helpers convert at the storage boundary. Everything here except
+// imageToDataUri is synchronous so it can run inside Dexie upgrade hooks and transactions.
+
+const DATA_URI_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/;
+
+const readUint16BE = (b: Uint8Array, i: number) => (b[i] << 8) | b[i + 1];
+const readUint16LE = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8);
+const readUint24LE = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8) | (b[i + 2] << 16);
+const readAscii = (b: Uint8Array, i: number, length: number) => String.fromCharCode(...Array.from(b.subarray(i, i + length)));
+
+// Reads width and height from the PNG, JPEG, GIF or WebP header. Returns 0x0 for other formats.
+export function readImageDimensions(bytes: Uint8Array): { width: number; height: number } {
+  const unknown = { width: 0, height: 0 };
+  if (bytes.length < 30) return unknown;
+
+  // PNG: IHDR is always the first chunk
+  if (bytes[0] === 0x89 && readAscii(bytes, 1, 3) === 'PNG') {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (readAscii(bytes, 0, 4) === 'GIF8') {
+    return { width: readUint16LE(bytes, 6), height: readUint16LE(bytes, 8) };
+  }
+
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+    const chunk = readAscii(bytes, 12, 4);
+    if (chunk === 'VP8 ') {
+      return { width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      return {
+        width: 1 + (((bytes[22] & 0x3f) << 8) | bytes[21]),
+        height: 1 + (((bytes[24] & 0x0f) << 10) | (bytes[23] << 2) | ((bytes[22] & 0xc0) >> 6)),
+      };
+    }
+    if (chunk === 'VP8X') {
+      return { width: 1 + readUint24LE(bytes, 24), height: 1 + readUint24LE(bytes, 27) };
+    }
+    return unknown;
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let i = 2;
+    while (i + 9 < bytes.length) {
+      if (bytes[i] !== 0xff) { i++; continue; }
+      const marker = bytes[i + 1];
+      if (marker === 0xff) { i++; continue; }
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: readUint16BE(bytes, i + 7), height: readUint16BE(bytes, i + 5) };
+      }
+      // Standalone markers have no length field
+      if ((marker >= 0xd0 && marker <= 0xd9) || marker === 0x01) { i += 2; continue; }
+      i += 2 + readUint16BE(bytes, i + 2);
+    }
+  }
+  return unknown;
+}
+
+export function createImageRecord(id: string, bytes: Uint8Array, mimeType: string): ImageDataModel {
+  const { width, height } = readImageDimensions(bytes);
+  return {
+    id,
+    blob: new Blob([bytes], { type: mimeType }),
+    mimeType,
+    width,
+    height,
+    size: bytes.byteLength,
+  };
+}
+
+// Value for Creation.imageDimensions; undefined when the format's header couldn't be read.
+export const getImageDimensions = ({ width, height }: ImageDataModel): { width: number; height: number } | undefined =>
+  width > 0 && height > 0 ? { width, height } : undefined;
+
+export function dataUriToBytes(dataUri: string): { bytes: Uint8Array; mimeType: string } {
+  const match = dataUri.match(DATA_URI_PATTERN);
+  if (!match) throw new Error("Data URI de imagen no válido.");
+  const [, mimeType, parameters, payload] = match;
+
+  let bytes: Uint8Array;
+  if (parameters.includes(';base64')) {
+    const binary = atob(payload);
+    bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  } else {
+    bytes = new TextEncoder().encode(decodeURIComponent(payload));
+  }
+  return { bytes, mimeType: mimeType || 'application/octet-stream' };
+}
+
+export function dataUriToImageRecord(id: string, dataUri: string): ImageDataModel {
+  const { bytes, mimeType } = dataUriToBytes(dataUri);
+  return createImageRecord(id, bytes, mimeType);
+}
+
+// Server actions only accept data URIs, so stored images are converted back before sending them.
+export function imageToDataUri(image: ImageDataModel): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("No se pudo leer la imagen."));
+    reader.readAsDataURL(image.blob);
+  });
+}
+
+export const getImageExtension = (mimeType: string): string =>
+  (mimeType.split('/')[1] || 'png').split('+')[0];
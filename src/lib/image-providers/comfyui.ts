@@ -0,0 +1,49 @@
+import { getActivePromptTemplate } from '../prompt-template-store';
+import { buildSdMythPrompt, pickSdGenerationParams, SD_RANDOM_SEED } from '../stable-diffusion';
+import { generateWithComfyUi, getComfySettings, getDefaultComfyCheckpoint, listComfyCheckpoints, testComfyConnection, type ComfyGenerationInput } from '../comfyui';
+import type { GeneratedParams, PromptTemplateRef, ReimaginedParams } from '../types';
+import { resolveReimaginePrompt } from './reimagine-prompt';
+import type { ImageProvider, ImageProviderResult } from './types';
+
+// Each variation is its own queued workflow. A fixed seed is stepped by one per image,
+// like the WebUI does for batches, so every variation can be reproduced on its own.
+const renderVariations = async (count: number, params: GeneratedParams | ReimaginedParams, input: Omit<ComfyGenerationInput, 'seed'>, promptTemplate?: PromptTemplateRef): Promise<ImageProviderResult[]> => {
+  const sdParams = pickSdGenerationParams(params);
+  const results: ImageProviderResult[] = [];
+  for (let i = 0; i < count; i++) {
+    const seed = sdParams.seed === SD_RANDOM_SEED ? SD_RANDOM_SEED : sdParams.seed + i;
+    const { imageUrl, seed: usedSeed, model } = await generateWithComfyUi({ ...input, ...sdParams, seed });
+    results.push({ imageUrl, prompt: input.prompt, seed: usedSeed, model, promptTemplate });
+  }
+  return results;
+};
+
+export const comfyUiProvider: ImageProvider = {
+  id: 'comfyui',
+  name: 'ComfyUI (Local)',
+  capabilities: { txt2img: true, img2img: true, nativeBatch: false, modelSelection: true, advancedParams: true, inpaint: false },
+  batchLimits: { concurrency: 1, requestsPerMinute: 0 },
+
+  txt2img: async ({ params, count = 1 }) => {
+    const { template, ref } = await getActivePromptTemplate('generate-image');
+    return renderVariations(count, params, { ...params, prompt: buildSdMythPrompt(params, template) }, ref);
+  },
+
+  img2img: async ({ params, initImage, count = 1, prompt }) => {
+    const { prompt: derivedPrompt, promptTemplate } = await resolveReimaginePrompt(params, initImage, prompt);
+    return renderVariations(count, params, { ...params, prompt: derivedPrompt, initImage }, promptTemplate);
+  },
+
+  listModels: async () => (await listComfyCheckpoints()).map(name => ({ id: name, name })),
+
+  getCurrentModel: getDefaultComfyCheckpoint,
+
+  checkHealth: async () => {
+    try {
+      const { device, version } = await testComfyConnection(getComfySettings());
+      return { ok: true, message: `ComfyUI respondió correctamente${version ? ` (v${version})` : ''}${device ? ` · ${device}` : ''}.` };
+    } catch (error: any) {
+      return { ok: false, message: error.message || "No se pudo conectar con ComfyUI." };
+    }
+  },
+};
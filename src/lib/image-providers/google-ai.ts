@@ -0,0 +1,53 @@
+import { generateMythImageAction, reimagineUploadedImageAction, editImageRegionAction, checkGoogleAiConfigAction } from '../actions';
+import { GOOGLE_IMAGE_MODEL } from '@/ai/models';
+import { getActivePromptTemplate } from '../prompt-template-store';
+import type { ImageProvider, ImageProviderResult } from './types';
+
+// Google AI returns a single image per call, so each variation is a separate request.
+const repeat = async (count: number, render: () => Promise<ImageProviderResult>): Promise<ImageProviderResult[]> => {
+  const results: ImageProviderResult[] = [];
+  for (let i = 0; i < count; i++) results.push(await render());
+  return results;
+};
+
+export const googleAiProvider: ImageProvider = {
+  id: 'google-ai',
+  name: 'Google AI (Recomendado)',
+  capabilities: { txt2img: true, img2img: true, nativeBatch: false, modelSelection: false, advancedParams: false, inpaint: true },
+  defaultModel: GOOGLE_IMAGE_MODEL,
+  batchLimits: { concurrency: 2, requestsPerMinute: 10 },
+
+  txt2img: async ({ params, count = 1 }) => {
+    const { template, ref } = await getActivePromptTemplate('generate-image');
+    return repeat(count, async () => {
+      const { imageUrl, prompt } = await generateMythImageAction({ ...params, template });
+      return { imageUrl, prompt, model: GOOGLE_IMAGE_MODEL, promptTemplate: ref };
+    });
+  },
+
+  // The flow derives its own prompt from the image, so `prompt` is ignored.
+  img2img: async ({ params, initImage, count = 1 }) => {
+    const { template, ref } = await getActivePromptTemplate('reimagine-image');
+    return repeat(count, async () => {
+      const { reimaginedImage, derivedPrompt } = await reimagineUploadedImageAction({ originalImage: initImage, ...params, template });
+      return { imageUrl: reimaginedImage, prompt: derivedPrompt, model: GOOGLE_IMAGE_MODEL, promptTemplate: ref };
+    });
+  },
+
+  // No mask input: the flow describes the region in the prompt and sends the mask as a reference image
+  inpaint: ({ params, initImage, mask, region, prompt: instruction, count = 1 }) => repeat(count, async () => {
+    const { editedImage, editPrompt } = await editImageRegionAction({ originalImage: initImage, mask, region, instruction, visualStyle: params.visualStyle });
+    return { imageUrl: editedImage, prompt: editPrompt, model: GOOGLE_IMAGE_MODEL };
+  }),
+
+  listModels: async () => [{ id: GOOGLE_IMAGE_MODEL, name: GOOGLE_IMAGE_MODEL }],
+
+  getCurrentModel: async () => GOOGLE_IMAGE_MODEL,
+
+  checkHealth: async () => {
+    const { configured } = await checkGoogleAiConfigAction();
+    return configured
+      ? { ok: true, message: `Clave de API configurada. Modelo: ${GOOGLE_IMAGE_MODEL}` }
+      : { ok: false, message: "Falta la clave de API de Google AI (GEMINI_API_KEY o GOOGLE_API_KEY) en el servidor." };
+  },
+};
@@ -0,0 +1,43 @@
+import type { GeneratedParams, ImageProviderId, ReimaginedParams } from '../types';
+import { googleAiProvider } from './google-ai';
+import { stableDiffusionProvider } from './stable-diffusion';
+import { comfyUiProvider } from './comfyui';
+import type { ImageProvider, ImageProviderResult } from './types';
+
+export type * from './types';
+
+// Registered image backends, in the order they're offered in the provider selects.
+// The first one is the default for new forms.
+const registry = new Map<ImageProviderId, ImageProvider>();
+
+export const registerImageProvider = (provider: ImageProvider) => {
+  registry.set(provider.id, provider);
+};
+
+registerImageProvider(googleAiProvider);
+registerImageProvider(stableDiffusionProvider);
+registerImageProvider(comfyUiProvider);
+
+export const listImageProviders = (): ImageProvider[] => Array.from(registry.values());
+
+export const DEFAULT_IMAGE_PROVIDER_ID: ImageProviderId = googleAiProvider.id;
+
+export const findImageProvider = (id: ImageProviderId | undefined): ImageProvider | undefined =>
+  id ? registry.get(id) : undefined;
+
+export const getImageProvider = (id: ImageProviderId): ImageProvider => {
+  const provider = registry.get(id);
+  if (!provider) throw new Error(`El motor de imágenes "${id}" no está disponible.`);
+  return provider;
+};
+
+// Display name for params saved by a provider that may no longer be registered.
+export const getImageProviderName = (id: ImageProviderId): string => registry.get(id)?.name ?? id;
+
+// Records what the provider reported for a render (resolved seed, model, prompt template version) so the gallery can show and reproduce it.
+export const applyProviderResult = <P extends GeneratedParams | ReimaginedParams>(params: P, { seed, model, promptTemplate }: Pick<ImageProviderResult, 'seed' | 'model' | 'promptTemplate'>): P => ({
+  ...params,
+  ...(seed !== undefined ? { seed } : {}),
+  ...(model ? { model } : {}),
+  ...(promptTemplate ? { promptTemplate } : {}),
+});
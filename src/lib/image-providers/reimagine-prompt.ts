@@ -0,0 +1,12 @@
+import { reimagineUploadedImageAction } from '../actions';
+import { getActivePromptTemplate } from '../prompt-template-store';
+import type { PromptTemplateRef, ReimaginedParams } from '../types';
+
+// Providers that can't read the image's meaning (SD, ComfyUI) derive their img2img prompt with the
+// Google AI flow first. A prompt passed in by the caller is reused as-is and has no template version.
+export const resolveReimaginePrompt = async (params: ReimaginedParams, initImage: string, prompt?: string): Promise<{ prompt: string; promptTemplate?: PromptTemplateRef }> => {
+  if (prompt) return { prompt };
+  const { template, ref } = await getActivePromptTemplate('reimagine-image');
+  const { derivedPrompt } = await reimagineUploadedImageAction({ originalImage: initImage, ...params, template });
+  return { prompt: derivedPrompt, promptTemplate: ref };
+};
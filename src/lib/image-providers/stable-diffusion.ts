@@ -0,0 +1,61 @@
+import { getActivePromptTemplate } from '../prompt-template-store';
+import {
+  buildSdInpaintPrompt,
+  buildSdMythPrompt,
+  generateVariationsWithStableDiffusion,
+  getCurrentSdCheckpoint,
+  getSdSettings,
+  inpaintWithStableDiffusion,
+  listSdLoras,
+  listSdModels,
+  listSdSamplers,
+  listSdUpscalers,
+  pickSdGenerationParams,
+  reimagineVariationsWithStableDiffusion,
+  testSdConnection,
+} from '../stable-diffusion';
+import { resolveReimaginePrompt } from './reimagine-prompt';
+import type { ImageProvider } from './types';
+
+export const stableDiffusionProvider: ImageProvider = {
+  id: 'stable-diffusion',
+  name: 'Stable Diffusion (Local)',
+  capabilities: { txt2img: true, img2img: true, nativeBatch: true, modelSelection: true, advancedParams: true, inpaint: true },
+  // A local WebUI renders one image at a time; extra workers would only queue up on its side.
+  batchLimits: { concurrency: 1, requestsPerMinute: 0 },
+
+  txt2img: async ({ params, count = 1 }) => {
+    const { template, ref } = await getActivePromptTemplate('generate-image');
+    const prompt = buildSdMythPrompt(params, template);
+    const results = await generateVariationsWithStableDiffusion({ ...params, ...pickSdGenerationParams(params), prompt }, count);
+    return results.map(({ imageUrl, seed, model }) => ({ imageUrl, prompt, seed, model: model ?? params.checkpoint, promptTemplate: ref }));
+  },
+
+  img2img: async ({ params, initImage, count = 1, prompt }) => {
+    const { prompt: derivedPrompt, promptTemplate } = await resolveReimaginePrompt(params, initImage, prompt);
+    const results = await reimagineVariationsWithStableDiffusion({ ...params, ...pickSdGenerationParams(params), initImage, prompt: derivedPrompt }, count);
+    return results.map(({ imageUrl, seed, model }) => ({ imageUrl, prompt: derivedPrompt, seed, model: model ?? params.checkpoint, promptTemplate }));
+  },
+
+  inpaint: async ({ params, initImage, mask, size, prompt: instruction, count = 1 }) => {
+    const prompt = buildSdInpaintPrompt(params, instruction);
+    const results = await inpaintWithStableDiffusion({ ...params, ...pickSdGenerationParams(params), initImage, mask, ...size, prompt }, count);
+    return results.map(({ imageUrl, seed, model }) => ({ imageUrl, prompt, seed, model: model ?? params.checkpoint }));
+  },
+
+  listModels: async () => (await listSdModels()).map(model => ({ id: model.title, name: model.model_name })),
+  listSamplers: listSdSamplers,
+  listLoras: listSdLoras,
+  listUpscalers: listSdUpscalers,
+
+  getCurrentModel: getCurrentSdCheckpoint,
+
+  checkHealth: async () => {
+    try {
+      const { checkpoint } = await testSdConnection(getSdSettings());
+      return { ok: true, message: checkpoint ? `Checkpoint cargado: ${checkpoint}` : "La API de Stable Diffusion respondió correctamente." };
+    } catch (error: any) {
+      return { ok: false, message: error.message || "No se pudo conectar con Stable Diffusion." };
+    }
+  },
+};
@@ -0,0 +1,85 @@
+import type { GeneratedParams, ImageProviderId, PromptTemplateRef, ReimaginedParams } from '../types';
+import type { BatchProviderLimits } from '../batch-limits';
+
+export interface ImageProviderCapabilities {
+  txt2img: boolean;
+  img2img: boolean;
+  nativeBatch: boolean; // Renders several variations in one request instead of one call per image
+  modelSelection: boolean; // The user can pick a model (stored as `checkpoint` in params)
+  advancedParams: boolean; // Honors negative prompt, seed, sampler and CFG (see SdGenerationParams)
+  inpaint: boolean; // Can repaint a masked region of an image (see ImageProvider.inpaint)
+}
+
+export interface ImageProviderModel {
+  id: string; // Value stored in params.checkpoint
+  name: string;
+}
+
+export interface ImageProviderLora {
+  name: string; // Value stored in SdLora.name
+  alias?: string;
+}
+
+export interface ImageProviderHealth {
+  ok: boolean;
+  message: string; // Shown as-is in the UI
+}
+
+export interface ImageProviderResult {
+  imageUrl: string; // Data URI
+  prompt: string; // Prompt (or derived prompt) that produced this image
+  seed?: number; // Only for providers that report it
+  model?: string; // Model the provider reported for this image
+  promptTemplate?: PromptTemplateRef; // Template version the prompt was built with; unset when it was reused
+}
+
+export interface Txt2ImgRequest {
+  params: GeneratedParams;
+  count?: number; // Number of variations, 1 by default
+}
+
+export interface Img2ImgRequest {
+  params: ReimaginedParams;
+  initImage: string; // Data URI
+  count?: number;
+  prompt?: string; // Reuses an already derived prompt; providers that derive their own may ignore it
+}
+
+// Bounding box of the painted mask, as fractions (0-1) of the image size
+export interface InpaintRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface InpaintRequest {
+  params: ReimaginedParams;
+  initImage: string; // Data URI
+  mask: string; // PNG data URI, same size as the image: white is repainted, black is kept
+  region: InpaintRegion; // For providers that take a region described in the prompt instead of a mask
+  size: { width: number; height: number }; // Pixel size of initImage
+  prompt: string; // What to paint inside the mask
+  count?: number;
+}
+
+// A pluggable image backend. Adapters live next to this file and are listed in the registry
+// (index.ts); pages only talk to this interface, so a new backend needs no page changes.
+export interface ImageProvider {
+  id: ImageProviderId;
+  name: string;
+  capabilities: ImageProviderCapabilities;
+  defaultModel?: string; // Shown in the gallery for older creations that didn't record a model
+  batchLimits: BatchProviderLimits; // Default worker pool limits for batch jobs
+  txt2img(request: Txt2ImgRequest): Promise<ImageProviderResult[]>;
+  img2img(request: Img2ImgRequest): Promise<ImageProviderResult[]>;
+  inpaint?(request: InpaintRequest): Promise<ImageProviderResult[]>; // Required when capabilities.inpaint
+  listModels(): Promise<ImageProviderModel[]>;
+  // Optional pickers for the advanced fields. Without them the forms fall back to the static
+  // sampler list and hide the LoRA and hires. fix pickers.
+  listSamplers?(): Promise<string[]>;
+  listLoras?(): Promise<ImageProviderLora[]>;
+  listUpscalers?(): Promise<string[]>;
+  getCurrentModel(): Promise<string | undefined>; // Undefined when unknown or unreachable
+  checkHealth(): Promise<ImageProviderHealth>;
+}
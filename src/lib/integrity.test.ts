@@ -0,0 +1,129 @@
+import { db } from './db';
+import { BROKEN_CREATION_TAG, deleteOrphans, markBrokenCreations, relinkCreations, verifyLibrary, type IntegrityIssueKind, type IntegrityReport } from './integrity';
+import type { BatchJobItem, Creation, ImageDataModel, SearchDocument, TextOutputModel } from './types';
+
+const makeImage = (id: string): ImageDataModel => ({ id, blob: new Blob(['png']), mimeType: 'image/png', width: 64, height: 32, size: 3 });
+
+const makeOutput = (id: string): TextOutputModel => ({ id, data: { prompt: `Prompt ${id}` } } as TextOutputModel);
+
+const makeCreation = (id: string, overrides: Partial<Creation> = {}): Creation => ({
+  id,
+  name: `Creación ${id}`,
+  type: 'generated',
+  createdAt: 1,
+  updatedAt: 1,
+  params: { culture: 'Nórdica', entity: 'Odín', details: 'Un cuervo', style: 'Óleo' },
+  ...overrides,
+} as Creation);
+
+const makeSearchDocument = (creationId: string): SearchDocument => ({ creationId, updatedAt: 1, fields: {} as SearchDocument['fields'], terms: [] });
+
+const issueIds = (report: IntegrityReport, kind: IntegrityIssueKind): string[] =>
+  report.issues.filter(issue => issue.kind === kind).map(issue => issue.recordId).sort();
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map(table => table.clear()));
+});
+
+afterAll(() => db.close());
+
+describe('verifyLibrary', () => {
+  it('counts images and outputs of trashed creations as referenced', async () => {
+    await db.imageDataStore.bulkAdd([makeImage('live'), makeImage('trashed'), makeImage('orphan')]);
+    await db.textOutputStore.bulkAdd([makeOutput('trashed-output'), makeOutput('orphan-output')]);
+    await db.creations.add(makeCreation('c1', { imageId: 'live' }));
+    await db.trash.add({ ...makeCreation('c2', { imageId: 'trashed', outputId: 'trashed-output' }), deletedAt: 2 });
+
+    const report = await verifyLibrary();
+
+    expect(issueIds(report, 'orphan-image')).toEqual(['orphan']);
+    expect(issueIds(report, 'orphan-output')).toEqual(['orphan-output']);
+    expect(report.totals).toMatchObject({ creations: 1, images: 3, outputs: 2 });
+  });
+
+  it('plans relinks from a batch item first, then from the newest intact version', async () => {
+    await db.imageDataStore.bulkAdd([makeImage('batch-image'), makeImage('v1-image'), makeImage('v2-image')]);
+    await db.creations.bulkAdd([
+      makeCreation('from-batch', { imageId: 'gone-1', versions: [{ version: 1, createdAt: 1, params: makeCreation('x').params, imageId: 'v1-image' }] }),
+      makeCreation('from-version', {
+        imageId: 'gone-2',
+        versions: [
+          { version: 1, createdAt: 1, params: makeCreation('x').params, imageId: 'v1-image' },
+          { version: 2, createdAt: 2, params: makeCreation('x').params, imageId: 'v2-image' },
+          { version: 3, createdAt: 3, params: makeCreation('x').params, imageId: 'gone-3' },
+        ],
+      }),
+      makeCreation('unrecoverable', { imageId: 'gone-4' }),
+    ]);
+    const batchItem: BatchJobItem = { id: 'item', jobId: 'job', position: 0, prompt: '', culture: '', status: 'success', attempts: 1, creationId: 'from-batch', imageId: 'batch-image', updatedAt: 1 };
+    await db.batchJobItems.add(batchItem);
+
+    const report = await verifyLibrary();
+
+    expect(issueIds(report, 'missing-image')).toEqual(['from-batch', 'from-version', 'unrecoverable']);
+    expect(report.relinks).toEqual([
+      { creationId: 'from-batch', source: 'batch', imageId: 'batch-image' },
+      { creationId: 'from-version', source: 'version', version: 2 },
+    ]);
+    // The image waiting to be re-linked isn't offered for deletion
+    expect(issueIds(report, 'orphan-image')).toEqual([]);
+
+    expect(await relinkCreations(report)).toBe(2);
+    expect(await db.creations.get('from-batch')).toMatchObject({ imageId: 'batch-image', imageDimensions: { width: 64, height: 32 } });
+    const fromVersion = await db.creations.get('from-version');
+    expect(fromVersion).toMatchObject({ imageId: 'v2-image', version: 2 });
+    expect(fromVersion?.versions?.map(v => v.version)).toEqual([1, 3]);
+    expect(fromVersion?.changeLog?.map(entry => [entry.field, entry.oldValue, entry.newValue, entry.source])).toEqual([
+      ['version', undefined, 2, 'repair'],
+      ['imageId', 'gone-2', 'v2-image', 'repair'],
+    ]);
+  });
+
+  it('reports undecodable images and thumbnails of missing images', async () => {
+    await db.imageDataStore.bulkAdd([makeImage('ok'), { id: 'legacy', imageDataUri: 'data:image/png;base64,' } as unknown as ImageDataModel]);
+    await db.thumbnailStore.bulkAdd([{ id: 'ok', thumbnailDataUri: 'data:image/webp;base64,AAAA' }, { id: 'legacy', thumbnailDataUri: 'data:image/webp;base64,AAAA' }]);
+    await db.creations.bulkAdd([makeCreation('c1', { imageId: 'ok' }), makeCreation('c2', { imageId: 'legacy' })]);
+
+    const report = await verifyLibrary();
+
+    expect(report.issues.find(issue => issue.kind === 'undecodable-image')).toMatchObject({ recordId: 'legacy', detail: 'Data URI sin convertir o no válida' });
+    expect(issueIds(report, 'missing-image')).toEqual(['c2']);
+    expect(issueIds(report, 'orphan-thumbnail')).toEqual(['legacy']);
+  });
+});
+
+describe('markBrokenCreations', () => {
+  it('clears missing references, tags the creation and logs both', async () => {
+    await db.creations.add(makeCreation('c1', { imageId: 'gone', tags: ['nórdico'] }));
+
+    expect(await markBrokenCreations(await verifyLibrary())).toBe(1);
+
+    const creation = await db.creations.get('c1');
+    expect(creation?.imageId).toBeUndefined();
+    expect(creation?.changeLog?.map(entry => [entry.field, entry.oldValue, entry.newValue, entry.source])).toEqual([
+      ['tags', ['nórdico'], creation?.tags, 'repair'],
+      ['imageId', 'gone', undefined, 'repair'],
+    ]);
+    expect(creation?.tags).toContain(BROKEN_CREATION_TAG);
+  });
+});
+
+describe('deleteOrphans', () => {
+  it('deletes only the rows nobody references', async () => {
+    await db.imageDataStore.bulkAdd([makeImage('used'), makeImage('trashed'), makeImage('orphan')]);
+    await db.textOutputStore.bulkAdd([makeOutput('used-output'), makeOutput('orphan-output')]);
+    await db.thumbnailStore.bulkAdd([{ id: 'used', thumbnailDataUri: 'data:image/webp;base64,AAAA' }, { id: 'orphan', thumbnailDataUri: 'data:image/webp;base64,AAAA' }, { id: 'stray', thumbnailDataUri: 'data:image/webp;base64,AAAA' }]);
+    await db.searchIndex.bulkAdd([makeSearchDocument('c1'), makeSearchDocument('deleted')]);
+    await db.creations.add(makeCreation('c1', { imageId: 'used', outputId: 'used-output' }));
+    await db.trash.add({ ...makeCreation('c2', { imageId: 'trashed' }), deletedAt: 2 });
+
+    const deleted = await deleteOrphans(await verifyLibrary());
+
+    // orphan image, orphan output, stray thumbnail and the search document of a deleted creation
+    expect(deleted).toBe(4);
+    expect((await db.imageDataStore.toCollection().primaryKeys()).sort()).toEqual(['trashed', 'used']);
+    expect(await db.textOutputStore.toCollection().primaryKeys()).toEqual(['used-output']);
+    expect(await db.thumbnailStore.toCollection().primaryKeys()).toEqual(['used']);
+    expect(await db.searchIndex.toCollection().primaryKeys()).toEqual(['c1']);
+  });
+});
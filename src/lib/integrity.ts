@@ -0,0 +1,249 @@
+import { db } from './db';
+import { reindexCreations } from './search';
+import { appendChanges } from './change-log';
+import { normalizeTags } from './utils';
+import type { Creation, CreationVersion, ImageDataModel, LegacyImageDataModel } from './types';
+
+// "Verificar biblioteca": cross-checks creations against the image, thumbnail, text output and
+// search stores. Deletes, imports and failed regenerations can leave rows nobody references, or
+// creations pointing at rows that no longer exist.
+
+export type IntegrityIssueKind =
+  | 'missing-image' // The creation's current image doesn't exist or can't be decoded
+  | 'missing-original-image'
+  | 'missing-output'
+  | 'missing-version-data' // An earlier render lost its image or text output
+  | 'undecodable-image'
+  | 'orphan-image'
+  | 'orphan-output'
+  | 'orphan-thumbnail' // Also thumbnails that aren't a valid image data URI; they're rebuilt on demand
+  | 'orphan-search-document';
+
+export const INTEGRITY_ISSUE_LABELS: Record<IntegrityIssueKind, string> = {
+  'missing-image': 'Creaciones sin imagen',
+  'missing-original-image': 'Creaciones sin imagen original',
+  'missing-output': 'Creaciones sin salida de texto',
+  'missing-version-data': 'Versiones anteriores incompletas',
+  'undecodable-image': 'Imágenes ilegibles',
+  'orphan-image': 'Imágenes huérfanas',
+  'orphan-output': 'Salidas de texto huérfanas',
+  'orphan-thumbnail': 'Miniaturas huérfanas o ilegibles',
+  'orphan-search-document': 'Entradas de búsqueda huérfanas',
+};
+
+// Tag added to creations whose broken references couldn't be re-linked, so they can be filtered
+export const BROKEN_CREATION_TAG = 'dañada';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  recordId: string; // Id of the row the issue is about (a creation for the missing-* kinds)
+  creationName?: string;
+  detail?: string;
+}
+
+// How a creation with a missing current image gets one back
+export type RelinkPlan =
+  | { creationId: string; source: 'batch'; imageId: string } // An orphan image its batch job item still points at
+  | { creationId: string; source: 'version'; version: number }; // Its newest earlier render that's intact
+
+export interface IntegrityReport {
+  scannedAt: number; // Timestamp
+  totals: { creations: number; images: number; outputs: number; thumbnails: number };
+  issues: IntegrityIssue[];
+  relinks: RelinkPlan[];
+}
+
+const isDecodableImage = (image: ImageDataModel): boolean => image.blob instanceof Blob && image.blob.size > 0;
+
+const describeUndecodable = (image: LegacyImageDataModel): string =>
+  typeof image.imageDataUri === 'string' ? 'Data URI sin convertir o no válida' : 'Sin datos de imagen';
+
+const THUMBNAIL_PATTERN = /^data:image\/[\w.+-]+;base64,./;
+
+const versionsNewestFirst = (creation: Creation): CreationVersion[] =>
+  [...(creation.versions ?? [])].sort((a, b) => Number(!!a.isAlternate) - Number(!!b.isAlternate) || b.version - a.version);
+
+export async function verifyLibrary(): Promise<IntegrityReport> {
+  const creations = await db.creations.toArray();
+  // Trashed creations still own their images and outputs until they're purged
+  const trashed = await db.trash.toArray();
+  const outputIds = new Set(await db.textOutputStore.toCollection().primaryKeys());
+  const searchCreationIds = await db.searchIndex.toCollection().primaryKeys();
+  const batchItems = await db.batchJobItems.filter(item => !!item.creationId && !!item.imageId).toArray();
+
+  // Images are read one at a time; only ids and validity are kept
+  const validImageIds = new Set<string>();
+  const issues: IntegrityIssue[] = [];
+  await db.imageDataStore.each(image => {
+    if (isDecodableImage(image)) validImageIds.add(image.id);
+    else issues.push({ kind: 'undecodable-image', recordId: image.id, detail: describeUndecodable(image) });
+  });
+
+  const referencedImages = new Set<string>();
+  const referencedOutputs = new Set<string>();
+  const relinks: RelinkPlan[] = [];
+  const hasImage = (id?: string) => !!id && validImageIds.has(id);
+  const hasOutput = (id?: string) => !!id && outputIds.has(id);
+
+  for (const creation of [...creations, ...trashed]) {
+    [creation.imageId, creation.originalImageId, ...(creation.versions ?? []).map(v => v.imageId)].forEach(id => id && referencedImages.add(id));
+    [creation.outputId, ...(creation.versions ?? []).map(v => v.outputId)].forEach(id => id && referencedOutputs.add(id));
+  }
+
+  for (const creation of creations) {
+    const about = { recordId: creation.id, creationName: creation.name };
+
+    if (creation.imageId && !hasImage(creation.imageId)) {
+      issues.push({ kind: 'missing-image', ...about });
+      const batchItem = batchItems.find(item => item.creationId === creation.id && item.imageId !== creation.imageId && hasImage(item.imageId));
+      const version = versionsNewestFirst(creation).find(v => hasImage(v.imageId));
+      if (batchItem) relinks.push({ creationId: creation.id, source: 'batch', imageId: batchItem.imageId! });
+      else if (version) relinks.push({ creationId: creation.id, source: 'version', version: version.version });
+    }
+    if (creation.originalImageId && !hasImage(creation.originalImageId)) issues.push({ kind: 'missing-original-image', ...about });
+    if (creation.outputId && !hasOutput(creation.outputId)) issues.push({ kind: 'missing-output', ...about });
+    const brokenVersions = (creation.versions ?? []).filter(v => (v.imageId && !hasImage(v.imageId)) || (v.outputId && !hasOutput(v.outputId)));
+    if (brokenVersions.length > 0) {
+      issues.push({ kind: 'missing-version-data', ...about, detail: brokenVersions.map(v => `v${v.version}`).join(', ') });
+    }
+  }
+
+  // Images waiting to be re-linked aren't offered for deletion
+  const relinkImageIds = new Set(relinks.flatMap(plan => plan.source === 'batch' ? [plan.imageId] : []));
+  validImageIds.forEach(id => {
+    if (!referencedImages.has(id) && !relinkImageIds.has(id)) issues.push({ kind: 'orphan-image', recordId: id });
+  });
+  outputIds.forEach(id => {
+    if (!referencedOutputs.has(id)) issues.push({ kind: 'orphan-output', recordId: id });
+  });
+
+  let thumbnails = 0;
+  await db.thumbnailStore.each(thumbnail => {
+    thumbnails++;
+    if (!validImageIds.has(thumbnail.id) || !THUMBNAIL_PATTERN.test(thumbnail.thumbnailDataUri)) {
+      issues.push({ kind: 'orphan-thumbnail', recordId: thumbnail.id });
+    }
+  });
+
+  const creationIds = new Set(creations.map(c => c.id));
+  searchCreationIds.forEach(id => {
+    if (!creationIds.has(id)) issues.push({ kind: 'orphan-search-document', recordId: id });
+  });
+
+  return {
+    scannedAt: Date.now(),
+    totals: { creations: creations.length, images: validImageIds.size + issues.filter(i => i.kind === 'undecodable-image').length, outputs: outputIds.size, thumbnails },
+    issues,
+    relinks,
+  };
+}
+
+const idsOf = (report: IntegrityReport, ...kinds: IntegrityIssueKind[]): string[] =>
+  report.issues.filter(issue => kinds.includes(issue.kind)).map(issue => issue.recordId);
+
+// Deletes the rows nobody references. Returns how many were deleted.
+export async function deleteOrphans(report: IntegrityReport): Promise<number> {
+  const images = idsOf(report, 'orphan-image');
+  const outputs = idsOf(report, 'orphan-output');
+  const thumbnails = Array.from(new Set([...idsOf(report, 'orphan-thumbnail'), ...images]));
+  const searchDocuments = idsOf(report, 'orphan-search-document');
+  await db.transaction('rw', [db.imageDataStore, db.textOutputStore, db.thumbnailStore, db.searchIndex], async () => {
+    await db.imageDataStore.bulkDelete(images);
+    await db.textOutputStore.bulkDelete(outputs);
+    await db.thumbnailStore.bulkDelete(thumbnails);
+    await db.searchIndex.bulkDelete(searchDocuments);
+  });
+  return images.length + outputs.length + idsOf(report, 'orphan-thumbnail').length + searchDocuments.length;
+}
+
+// Gives creations with a missing image the one found by verifyLibrary. Returns how many were re-linked.
+export async function relinkCreations(report: IntegrityReport): Promise<number> {
+  let relinked = 0;
+  await db.transaction('rw', [db.creations, db.imageDataStore], async () => {
+    for (const plan of report.relinks) {
+      const creation = await db.creations.get(plan.creationId);
+      if (!creation) continue;
+      if (plan.source === 'batch') {
+        const image = await db.imageDataStore.get(plan.imageId);
+        if (!image) continue;
+        await db.creations.update(creation.id, {
+          imageId: image.id,
+          imageDimensions: { width: image.width, height: image.height },
+          changeLog: appendChanges(creation, { imageId: image.id }, 'repair'),
+          updatedAt: Date.now(),
+        });
+      } else {
+        // Same as restoring the version, except the broken current render is dropped instead of archived
+        const target = creation.versions?.find(v => v.version === plan.version);
+        const image = target?.imageId ? await db.imageDataStore.get(target.imageId) : undefined;
+        if (!target || !image) continue;
+        await db.creations.update(creation.id, {
+          params: target.params,
+          imageId: target.imageId,
+          imageDimensions: { width: image.width, height: image.height },
+          outputId: target.outputId,
+          version: target.version,
+          versions: creation.versions!.filter(v => v.version !== plan.version),
+          changeLog: appendChanges(creation, { params: target.params, imageId: target.imageId, outputId: target.outputId, version: target.version }, 'repair'),
+          updatedAt: Date.now(),
+        });
+      }
+      relinked++;
+    }
+  });
+  await reindexCreations(report.relinks.map(plan => plan.creationId));
+  return relinked;
+}
+
+// Clears the references that point nowhere (dropping earlier renders that lost their image),
+// deletes undecodable images, and tags creations whose current render was affected. Returns how many creations changed.
+export async function markBrokenCreations(report: IntegrityReport): Promise<number> {
+  const relinkable = new Set(report.relinks.map(plan => plan.creationId));
+  const affected = new Set(idsOf(report, 'missing-image', 'missing-original-image', 'missing-output', 'missing-version-data'));
+  const undecodable = idsOf(report, 'undecodable-image');
+  let marked = 0;
+
+  await db.transaction('rw', [db.creations, db.imageDataStore, db.textOutputStore, db.thumbnailStore], async () => {
+    await db.imageDataStore.bulkDelete(undecodable);
+    await db.thumbnailStore.bulkDelete(undecodable);
+
+    for (const id of Array.from(affected)) {
+      if (relinkable.has(id)) continue;
+      const creation = await db.creations.get(id);
+      if (!creation) continue;
+      const imageExists = async (imageId?: string) => !!imageId && !undecodable.includes(imageId) && !!(await db.imageDataStore.get(imageId));
+      const outputExists = async (outputId?: string) => !!outputId && !!(await db.textOutputStore.get(outputId));
+
+      const updates: Partial<Creation> = {};
+      let currentBroken = false;
+      if (creation.imageId && !(await imageExists(creation.imageId))) {
+        updates.imageId = undefined;
+        updates.imageDimensions = undefined;
+        currentBroken = true;
+      }
+      if (creation.originalImageId && !(await imageExists(creation.originalImageId))) {
+        updates.originalImageId = undefined;
+        currentBroken = true;
+      }
+      if (creation.outputId && !(await outputExists(creation.outputId))) {
+        updates.outputId = undefined;
+        currentBroken = true;
+      }
+      if (creation.versions?.length) {
+        const versions: CreationVersion[] = [];
+        for (const version of creation.versions) {
+          if (version.imageId && !(await imageExists(version.imageId))) continue;
+          versions.push(version.outputId && !(await outputExists(version.outputId)) ? { ...version, outputId: undefined } : version);
+        }
+        updates.versions = versions;
+      }
+      if (currentBroken) updates.tags = normalizeTags([...(creation.tags ?? []), BROKEN_CREATION_TAG]);
+
+      // Only the logged fields (references and tags) reach the change log
+      await db.creations.update(id, { ...updates, changeLog: appendChanges(creation, updates, 'repair'), updatedAt: Date.now() });
+      marked++;
+    }
+  });
+  await reindexCreations(Array.from(affected));
+  return marked;
+}
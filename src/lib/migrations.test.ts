@@ -0,0 +1,124 @@
+import Dexie from 'dexie';
+import { MIGRATIONS, runMigrations, subscribeToMigrations, takePendingMigrationRecords, type DataMigration, type MigrationProgress } from './migrations';
+import type { Creation, LegacyImageDataModel, MigrationRecord } from './types';
+
+const makeCreation = (id: string, overrides: Partial<Creation> = {}): Creation => ({
+  id,
+  name: `Creación ${id}`,
+  type: 'generated',
+  createdAt: 1,
+  updatedAt: 1,
+  params: { culture: 'Nórdica', entity: 'Odín', details: 'Un cuervo', style: 'Óleo' },
+  ...overrides,
+} as Creation);
+
+const getMigration = (id: string): DataMigration => MIGRATIONS.find(migration => migration.id === id)!;
+
+// Opens a database at version 1 with `creations`, then upgrades it to version 2, running `migrations` in that upgrade
+const upgradeWith = async (migrations: DataMigration[], creations: Creation[], { withMigrationsTable = true } = {}) => {
+  const name = `migrations-test-${Math.random()}`;
+  const v1 = new Dexie(name);
+  v1.version(1).stores({ creations: 'id', ...(withMigrationsTable && { migrations: 'id' }) });
+  await v1.table('creations').bulkAdd(creations);
+  v1.close();
+
+  const v2 = new Dexie(name);
+  v2.version(1).stores({ creations: 'id', ...(withMigrationsTable && { migrations: 'id' }) });
+  v2.version(2).stores({}).upgrade(tx => runMigrations(tx, 2, migrations));
+  await v2.open();
+  return v2;
+};
+
+describe('runMigrations', () => {
+  it('runs the migrations of the version in order and records them', async () => {
+    const order: string[] = [];
+    const migrations: DataMigration[] = [
+      { id: 'test-a', version: 2, description: 'A', table: 'creations', migrate: creation => { order.push(`a:${creation.id}`); creation.name += ' A'; return true; } },
+      { id: 'test-later', version: 3, description: 'Later', table: 'creations', migrate: () => { order.push('later'); return true; } },
+      { id: 'test-b', version: 2, description: 'B', table: 'creations', migrate: creation => { order.push(`b:${creation.id}`); return creation.id === '1'; } },
+    ];
+    const db = await upgradeWith(migrations, [makeCreation('1'), makeCreation('2')]);
+
+    expect(order).toEqual(['a:1', 'a:2', 'b:1', 'b:2']);
+    expect((await db.table<Creation>('creations').get('1'))?.name).toBe('Creación 1 A');
+    const records = await db.table<MigrationRecord>('migrations').toArray();
+    expect(records.map(({ id, version, changedRecords }) => ({ id, version, changedRecords }))).toEqual([
+      { id: 'test-a', version: 2, changedRecords: 2 },
+      { id: 'test-b', version: 2, changedRecords: 1 },
+    ]);
+    db.close();
+  });
+
+  it('keeps the records for later when the migrations table does not exist yet', async () => {
+    takePendingMigrationRecords();
+    const migrations: DataMigration[] = [{ id: 'test-pending', version: 2, description: 'Pending', table: 'creations', migrate: () => false }];
+    const db = await upgradeWith(migrations, [makeCreation('1')], { withMigrationsTable: false });
+
+    expect(takePendingMigrationRecords().map(record => record.id)).toEqual(['test-pending']);
+    expect(takePendingMigrationRecords()).toEqual([]);
+    db.close();
+  });
+
+  it('reports progress to the listeners and ends with null', async () => {
+    const updates: (MigrationProgress | null)[] = [];
+    let lastApplied: MigrationRecord[] = [];
+    const unsubscribe = subscribeToMigrations((progress, applied) => {
+      updates.push(progress && { ...progress });
+      lastApplied = applied;
+    });
+    const migrations: DataMigration[] = [{ id: 'test-progress', version: 2, description: 'Progreso', table: 'creations', migrate: () => true }];
+    const creations = Array.from({ length: 120 }, (_, i) => makeCreation(String(i)));
+    const db = await upgradeWith(migrations, creations);
+    unsubscribe();
+
+    // Called right away with no migration running, then every 50 records, once more when done, and null at the end
+    expect(updates.map(update => update && update.done)).toEqual([null, 0, 50, 100, 120, null]);
+    expect(updates.slice(1, -1).every(update => update?.total === 120 && update.migration.id === 'test-progress')).toBe(true);
+    expect(lastApplied.find(record => record.id === 'test-progress')?.changedRecords).toBe(120);
+    db.close();
+  });
+});
+
+describe('0001-images-to-blobs', () => {
+  const migrate = getMigration('0001-images-to-blobs').migrate as (image: LegacyImageDataModel) => boolean;
+
+  it('turns a data URI into a Blob record', () => {
+    const image = { id: 'img', imageDataUri: 'data:image/png;base64,aGVsbG8=' } as LegacyImageDataModel;
+    expect(migrate(image)).toBe(true);
+    expect(image.imageDataUri).toBeUndefined();
+    expect(image.blob).toBeInstanceOf(Blob);
+    expect(image).toMatchObject({ id: 'img', mimeType: 'image/png', size: 5 });
+  });
+
+  it('leaves converted and malformed records alone', () => {
+    const converted = { id: 'img', blob: new Blob(['x']), mimeType: 'image/png', width: 0, height: 0, size: 1 } as LegacyImageDataModel;
+    expect(migrate(converted)).toBe(false);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const malformed = { id: 'bad', imageDataUri: 'not a data uri' } as LegacyImageDataModel;
+    expect(migrate(malformed)).toBe(false);
+    expect(malformed.imageDataUri).toBe('not a data uri');
+    consoleError.mockRestore();
+  });
+});
+
+describe('0002-fix-general-encoding', () => {
+  const migrate = getMigration('0002-fix-general-encoding').migrate as (creation: Creation) => boolean;
+
+  it('fixes mis-encoded text in the name and string params', () => {
+    const creation = makeCreation('1', {
+      name: 'DragÃ³n de la montaÃ±a',
+      params: { culture: 'Nrdica', entity: 'Ã‘andÃº', details: 'Â¿QuiÃ©n?', style: 'Ã“leo', seed: 42 } as unknown as Creation['params'],
+    });
+    expect(migrate(creation)).toBe(true);
+    expect(creation.name).toBe('Dragón de la montaña');
+    expect(creation.params).toEqual({ culture: 'Nórdica', entity: 'Ñandú', details: '¿Quién?', style: 'Óleo', seed: 42 });
+    expect(creation.updatedAt).toBeGreaterThan(1);
+  });
+
+  it('leaves correct records untouched', () => {
+    const creation = makeCreation('1');
+    const before = JSON.parse(JSON.stringify(creation));
+    expect(migrate(creation)).toBe(false);
+    expect(creation).toEqual(before);
+  });
+});
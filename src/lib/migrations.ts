@@ -0,0 +1,163 @@
+import type { Transaction } from 'dexie';
+import { dataUriToImageRecord } from './image-data';
+import type { Creation, LegacyImageDataModel, MigrationRecord } from './types';
+
+// Data migrations. Each one rewrites the records of one table and runs inside the Dexie
+// upgrade() of the schema version that introduced it (see db.ts), so it runs exactly once per
+// browser, before the app reads the data. Applied migrations are recorded in the `migrations` table.
+//
+// To add a data fix: declare a new schema version in db.ts that calls runMigrations(tx, <version>)
+// and append a migration with that version here. `migrate` must be synchronous (it runs in a
+// Dexie modify() callback) and should leave already-fixed records untouched.
+
+// Record type of each table a migration rewrites
+export interface MigratedTables {
+  creations: Creation;
+  imageDataStore: LegacyImageDataModel;
+}
+
+export type DataMigration = {
+  [T in keyof MigratedTables]: {
+    id: string; // Unique and never reused, e.g. '0002-fix-general-encoding'
+    version: number; // Dexie schema version whose upgrade runs it
+    description: string; // Shown while it runs and in Settings
+    table: T;
+    // Changes the record in place; returns false when the record didn't need it
+    migrate: (record: MigratedTables[T]) => boolean;
+  };
+}[keyof MigratedTables];
+
+// Common UTF-8 characters misinterpreted as ISO-8859-1/Windows-1252
+const fixEncoding = (str: string): string => {
+  if (!str) return str;
+  // This function handles common UTF-8 characters misinterpreted as ISO-8859-1/Windows-1252
+  return str
+    .replace(/Ã¡/g, 'á')
+    .replace(/Ã©/g, 'é')
+    .replace(/Ã­/g, 'í')
+    .replace(/Ã³/g, 'ó')
+    .replace(/Ãº/g, 'ú')
+    .replace(/Ã±/g, 'ñ')
+    .replace(/Ã/g, 'Á')
+    .replace(/Ã‰/g, 'É')
+    .replace(/Ã/g, 'Í')
+    .replace(/Ã“/g, 'Ó')
+    .replace(/Ãš/g, 'Ú')
+    .replace(/Ã‘/g, 'Ñ')
+    .replace(/Â¿/g, '¿')
+    .replace(/Â¡/g, '¡')
+    // Also fix the specific case of the replacement character if it's found
+    .replace(/Nrdica/g, 'Nórdica');
+};
+
+export const MIGRATIONS: DataMigration[] = [
+  {
+    id: '0001-images-to-blobs',
+    version: 7,
+    description: 'Convertir las imágenes a Blobs con su tipo, dimensiones y tamaño',
+    table: 'imageDataStore',
+    migrate: (image) => {
+      if (typeof image.imageDataUri !== 'string') return false;
+      try {
+        Object.assign(image, dataUriToImageRecord(image.id, image.imageDataUri));
+        delete image.imageDataUri;
+        return true;
+      } catch (e) {
+        // Leave a malformed record as is instead of aborting the whole upgrade
+        console.error(`Could not migrate image ${image.id} to a Blob:`, e);
+        return false;
+      }
+    },
+  },
+  {
+    // Replaces the one-off fix that HistoryProvider ran behind a localStorage flag
+    id: '0002-fix-general-encoding',
+    version: 12,
+    description: 'Corregir tildes y eñes mal codificadas en nombres y parámetros',
+    table: 'creations',
+    migrate: (creation) => {
+      let changed = false;
+      const name = fixEncoding(creation.name);
+      if (name !== creation.name) {
+        creation.name = name;
+        changed = true;
+      }
+      for (const [key, value] of Object.entries(creation.params)) {
+        if (typeof value !== 'string') continue;
+        const fixed = fixEncoding(value);
+        if (fixed !== value) {
+          Object.assign(creation.params, { [key]: fixed });
+          changed = true;
+        }
+      }
+      if (changed) creation.updatedAt = Date.now();
+      return changed;
+    },
+  },
+];
+
+// --- Progress reporting ---
+
+export interface MigrationProgress {
+  migration: Pick<DataMigration, 'id' | 'description'>;
+  done: number;
+  total: number;
+}
+
+type MigrationListener = (progress: MigrationProgress | null, applied: MigrationRecord[]) => void;
+
+const listeners = new Set<MigrationListener>();
+const appliedThisSession: MigrationRecord[] = [];
+// Records of migrations that ran before the `migrations` table existed; written once the database opens
+const pendingRecords: MigrationRecord[] = [];
+let currentProgress: MigrationProgress | null = null;
+const PROGRESS_STEP = 50; // Records between progress updates
+
+const emit = (progress: MigrationProgress | null) => {
+  currentProgress = progress;
+  listeners.forEach(listener => listener(progress, [...appliedThisSession]));
+};
+
+// The listener is called right away with the current state, then on every change
+export const subscribeToMigrations = (listener: MigrationListener): (() => void) => {
+  listeners.add(listener);
+  listener(currentProgress, [...appliedThisSession]);
+  return () => { listeners.delete(listener); };
+};
+
+export const takePendingMigrationRecords = (): MigrationRecord[] => pendingRecords.splice(0);
+
+// Runs the migrations of `version`, in order, inside its upgrade transaction
+export const runMigrations = async (tx: Transaction, version: number, migrations: DataMigration[] = MIGRATIONS): Promise<void> => {
+  const canRecord = tx.storeNames.includes('migrations');
+  for (const migration of migrations.filter(m => m.version === version)) {
+    const startedAt = Date.now();
+    const table = tx.table(migration.table);
+    const total = await table.count();
+    let done = 0;
+    let changed = 0;
+    // The record's type is the one `migration.table` holds
+    const migrate = migration.migrate as (record: unknown) => boolean;
+    emit({ migration, done, total });
+    await table.toCollection().modify(record => {
+      if (migrate(record)) changed++;
+      done++;
+      if (done % PROGRESS_STEP === 0) emit({ migration, done, total });
+    });
+
+    const record: MigrationRecord = {
+      id: migration.id,
+      version: migration.version,
+      description: migration.description,
+      changedRecords: changed,
+      appliedAt: Date.now(),
+      durationMs: Date.now() - startedAt,
+    };
+    if (canRecord) await tx.table('migrations').put(record);
+    else pendingRecords.push(record);
+    appliedThisSession.push(record);
+    // Listeners get the final count along with the new record
+    emit({ migration, done, total });
+  }
+  emit(null);
+};
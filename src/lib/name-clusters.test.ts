@@ -0,0 +1,123 @@
+import { areNamesSimilar, findNameClusters, renameInParams, type NameCluster } from './name-clusters';
+import type { Creation, Culture } from './types';
+
+let nextId = 0;
+const makeCreation = (culture: string, entity: string): Creation => ({
+  id: `c${nextId++}`,
+  name: entity,
+  type: 'generated',
+  createdAt: 1,
+  updatedAt: 1,
+  params: { culture, entity, details: '', style: 'Óleo' },
+} as Creation);
+
+const makeCulture = (name: string, aliases: string[] = []): Culture =>
+  ({ id: `culture:${name}`, name, aliases, description: '', motifs: [], createdAt: 1, updatedAt: 1 });
+
+const CULTURES = [makeCulture('Griega', ['Helénica']), makeCulture('Nórdica', ['Escandinava', 'Vikinga']), makeCulture('Egipcia')];
+
+const summarize = (clusters: NameCluster[]) =>
+  clusters.map(({ culture, variants, suggestedName, isPlaceholder, aiSuggested }) => ({
+    culture,
+    values: variants.map(variant => variant.value),
+    suggestedName,
+    ...(isPlaceholder && { isPlaceholder }),
+    ...(aiSuggested && { aiSuggested }),
+  }));
+
+describe('areNamesSimilar', () => {
+  it('matches case, accents, word prefixes and small typos', () => {
+    expect(areNamesSimilar('Zeus', 'zeus')).toBe(true);
+    expect(areNamesSimilar('Zeus', 'Zeus Olímpico')).toBe(true);
+    expect(areNamesSimilar('Odín', 'Odin')).toBe(true);
+    expect(areNamesSimilar('Artemis', 'Artemisa')).toBe(true);
+  });
+
+  it('keeps short and clearly different names apart', () => {
+    expect(areNamesSimilar('Ra', 'Re')).toBe(false);
+    expect(areNamesSimilar('Thor', 'Tyr')).toBe(false);
+    expect(areNamesSimilar('Artemis', 'Artemisia')).toBe(false);
+  });
+
+  it('only pairs placeholders with other placeholders', () => {
+    expect(areNamesSimilar('Desconocido', 'unknown')).toBe(true);
+    expect(areNamesSimilar('Desconocida', 'N/A')).toBe(true);
+    expect(areNamesSimilar('Desconocido', 'Desconocidos')).toBe(false);
+  });
+});
+
+describe('findNameClusters', () => {
+  it('groups entity spellings within a culture and suggests the most used one', () => {
+    const creations = [
+      makeCreation('Griega', 'Zeus'),
+      makeCreation('Griega', 'Zeus'),
+      makeCreation('Griega', 'zeus'),
+      makeCreation('Griega', 'Zeus Olímpico'),
+      makeCreation('Egipcia', 'Ra'),
+      makeCreation('Egipcia', 'Re'),
+    ];
+
+    expect(summarize(findNameClusters(creations, 'entity', CULTURES))).toEqual([
+      { culture: 'Griega', values: ['Zeus', 'Zeus Olímpico', 'zeus'], suggestedName: 'Zeus' },
+    ]);
+  });
+
+  it('keeps the same entity name under two cultures separate', () => {
+    const creations = [makeCreation('Griega', 'Zeus'), makeCreation('Romana', 'zeus'), makeCreation('Romana', 'Júpiter')];
+    expect(findNameClusters(creations, 'entity', CULTURES)).toEqual([]);
+  });
+
+  it('scopes entities by catalog culture, so aliases of a culture share a scope', () => {
+    const creations = [makeCreation('Escandinava', 'Odín'), makeCreation('Nórdica', 'odin')];
+    expect(summarize(findNameClusters(creations, 'entity', CULTURES))).toEqual([
+      { culture: 'Nórdica', values: ['Odín', 'odin'], suggestedName: 'Odín' },
+    ]);
+  });
+
+  it('joins chains of similar names into one cluster', () => {
+    const creations = [makeCreation('Griega', 'Artemis'), makeCreation('Griega', 'Artemisa'), makeCreation('Griega', 'Artemisia')];
+    expect(summarize(findNameClusters(creations, 'entity', CULTURES))[0].values).toEqual(['Artemis', 'Artemisa', 'Artemisia']);
+  });
+
+  it('clusters placeholders only with each other', () => {
+    const creations = [
+      makeCreation('Griega', 'Desconocido'),
+      makeCreation('Griega', 'Desconocido'),
+      makeCreation('Griega', 'unknown'),
+      makeCreation('Griega', 'Desconocidos'),
+    ];
+    expect(summarize(findNameClusters(creations, 'entity', CULTURES))).toEqual([
+      { culture: 'Griega', values: ['Desconocido', 'unknown'], suggestedName: 'Desconocido', isPlaceholder: true },
+    ]);
+  });
+
+  it('groups culture values under the catalog culture they name or alias', () => {
+    const creations = [makeCreation('Vikinga', 'Thor'), makeCreation('Vikinga', 'Loki'), makeCreation('Escandinava', 'Odín'), makeCreation('Nórdica', 'Frigg'), makeCreation('Egipcia', 'Ra')];
+    expect(summarize(findNameClusters(creations, 'culture', CULTURES))).toEqual([
+      { culture: undefined, values: ['Vikinga', 'Escandinava', 'Nórdica'], suggestedName: 'Nórdica' },
+    ]);
+  });
+
+  it('groups the variants of an AI suggestion under its name', () => {
+    const creations = [makeCreation('Griega', 'Hera'), makeCreation('Griega', 'Juno'), makeCreation('Romana', 'Juno')];
+    const suggestions = [{ culture: 'Helénica', canonicalName: 'Hera', variants: ['Hera', 'Juno'] }];
+    expect(summarize(findNameClusters(creations, 'entity', CULTURES, suggestions))).toEqual([
+      { culture: 'Griega', values: ['Hera', 'Juno'], suggestedName: 'Hera', aiSuggested: true },
+    ]);
+  });
+});
+
+describe('renameInParams', () => {
+  it('rewrites every param of the field that holds one of the values', () => {
+    const params = { contextCulture: 'Griega', contextEntity: 'zeus', contextDetails: 'zeus', visualStyle: 'Óleo' } as unknown as Creation['params'];
+    expect(renameInParams(params, 'entity', ['zeus', 'Zeus Olímpico'], 'Zeus')).toEqual({ ...params, contextEntity: 'Zeus' });
+    expect(params).toMatchObject({ contextEntity: 'zeus' });
+  });
+
+  it('returns undefined when nothing changes', () => {
+    const params = makeCreation('Griega', 'Zeus').params;
+    expect(renameInParams(params, 'entity', ['zeus'], 'Zeus')).toBeUndefined();
+    expect(renameInParams(params, 'entity', ['Zeus'], 'Zeus')).toBeUndefined();
+    expect(renameInParams(params, 'culture', ['Romana'], 'Griega')).toBeUndefined();
+  });
+});
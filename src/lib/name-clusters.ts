@@ -0,0 +1,178 @@
+import { findCulture, normalizeCultureName } from './cultures';
+import { getCreationCultureName, getCreationEntityName } from './entities';
+import type { Creation, Culture } from './types';
+
+// Clusters near-duplicate culture and entity values across creations ("Zeus", "zeus",
+// "Zeus Olímpico") so the merge tool can rewrite them to one name.
+
+export type NameField = 'culture' | 'entity';
+
+// Params that hold each value; which one a creation uses depends on its type
+const PARAM_KEYS: Record<NameField, string[]> = {
+  culture: ['culture', 'mythologicalContext', 'contextCulture'],
+  entity: ['entity', 'entityTheme', 'contextEntity'],
+};
+
+// Values the AI flows write when they couldn't tell; they cluster together whatever their spelling
+const PLACEHOLDER_NAMES = new Set(['desconocido', 'desconocida', 'unknown', 'n/a', 'na', 'ninguno', 'ninguna', 'none', 'sin entidad', 'sin cultura', 'varios', 'various', 'general']);
+
+const FUZZY_SIMILARITY = 0.8;
+const MIN_FUZZY_LENGTH = 4; // Shorter names differ by one letter too easily ("Ra" / "Re")
+
+export interface NameVariant {
+  value: string;
+  creationIds: string[];
+}
+
+export interface NameCluster {
+  id: string; // Stable within one analysis, for React keys and selection
+  field: NameField;
+  culture?: string; // Entity clusters never mix cultures
+  variants: NameVariant[]; // Most used first
+  suggestedName: string;
+  isPlaceholder?: boolean;
+  aiSuggested?: boolean; // Grouped (at least partly) by the AI suggestions
+}
+
+// A group the AI considers the same name, e.g. from suggestNameMergesAction
+export interface NameMergeSuggestion {
+  culture?: string; // For entities
+  canonicalName: string;
+  variants: string[];
+}
+
+const normalizeName = (name: string): string =>
+  normalizeCultureName(name).replace(/[^a-z0-9/ ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Levenshtein distance turned into a 0-1 score
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+// "zeus" and "zeus olimpico": one name is the first words of the other
+const isWordPrefix = (a: string, b: string): boolean => {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= MIN_FUZZY_LENGTH && longer.startsWith(`${shorter} `);
+};
+
+export const areNamesSimilar = (a: string, b: string): boolean => {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (x === y) return true;
+  if (PLACEHOLDER_NAMES.has(x) || PLACEHOLDER_NAMES.has(y)) return PLACEHOLDER_NAMES.has(x) && PLACEHOLDER_NAMES.has(y);
+  if (Math.min(x.length, y.length) < MIN_FUZZY_LENGTH) return false;
+  return isWordPrefix(x, y) || similarity(x, y) >= FUZZY_SIMILARITY;
+};
+
+export const getCreationName = (creation: Creation, field: NameField): string | undefined =>
+  field === 'culture' ? getCreationCultureName(creation) : getCreationEntityName(creation);
+
+// Groups the values of one scope (all cultures, or the entities of one culture) with union-find
+const clusterValues = (variants: NameVariant[], linked: (a: string, b: string) => boolean): NameVariant[][] => {
+  const parent = variants.map((_, i) => i);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+  for (let i = 0; i < variants.length; i++) {
+    for (let j = i + 1; j < variants.length; j++) {
+      if (linked(variants[i].value, variants[j].value)) parent[root(j)] = root(i);
+    }
+  }
+  const groups = new Map<number, NameVariant[]>();
+  variants.forEach((variant, i) => groups.set(root(i), [...(groups.get(root(i)) ?? []), variant]));
+  return Array.from(groups.values());
+};
+
+// Ties in use go to the capitalized spelling, which makes the better suggestion
+const startsLowerCase = (value: string): number => value[0] === value[0].toLowerCase() ? 1 : 0;
+
+const collectVariants = (creations: Creation[], field: NameField): NameVariant[] => {
+  const byValue = new Map<string, string[]>();
+  for (const creation of creations) {
+    const value = getCreationName(creation, field);
+    if (value) byValue.set(value, [...(byValue.get(value) ?? []), creation.id]);
+  }
+  return Array.from(byValue, ([value, creationIds]) => ({ value, creationIds }))
+    .sort((a, b) => b.creationIds.length - a.creationIds.length || startsLowerCase(a.value) - startsLowerCase(b.value) || a.value.localeCompare(b.value));
+};
+
+// Only groups with more than one spelling are returned. Culture values that are a catalog
+// culture's name or alias cluster under it, and the catalog name is suggested; otherwise an
+// AI suggestion's name wins over the most used spelling.
+export const findNameClusters = (creations: Creation[], field: NameField, cultures: Culture[], suggestions: NameMergeSuggestion[] = []): NameCluster[] => {
+  const canonicalCulture = (value: string | undefined) => value ? findCulture(cultures, value)?.name ?? value : '';
+
+  const suggestionsFor = (culture?: string) => suggestions.filter(suggestion =>
+    field === 'culture' || normalizeCultureName(canonicalCulture(suggestion.culture)) === normalizeCultureName(culture ?? ''));
+  const suggestionOf = (scope: NameMergeSuggestion[], value: string) =>
+    scope.find(suggestion => suggestion.variants.some(variant => normalizeCultureName(variant) === normalizeCultureName(value)));
+
+  const clusterScope = (scopeCreations: Creation[], culture?: string): NameCluster[] => {
+    const scope = suggestionsFor(culture);
+    const linked = (a: string, b: string) => {
+      if (field === 'culture') {
+        const catalogA = findCulture(cultures, a)?.name;
+        if (catalogA !== undefined && catalogA === findCulture(cultures, b)?.name) return true;
+      }
+      const suggestion = suggestionOf(scope, a);
+      return (suggestion !== undefined && suggestion === suggestionOf(scope, b)) || areNamesSimilar(a, b);
+    };
+
+    return clusterValues(collectVariants(scopeCreations, field), linked)
+      .filter(variants => variants.length > 1)
+      .map((variants, index) => {
+        const catalogName = field === 'culture' ? variants.map(v => findCulture(cultures, v.value)?.name).find(Boolean) : undefined;
+        const suggestion = variants.map(v => suggestionOf(scope, v.value)).find(Boolean);
+        return {
+          id: `${field}:${culture ?? ''}:${index}`,
+          field,
+          culture,
+          variants,
+          suggestedName: catalogName ?? suggestion?.canonicalName ?? variants[0].value,
+          isPlaceholder: variants.every(v => PLACEHOLDER_NAMES.has(normalizeName(v.value))) || undefined,
+          aiSuggested: suggestion ? true : undefined,
+        };
+      });
+  };
+
+  if (field === 'culture') return clusterScope(creations);
+
+  const byCulture = new Map<string, Creation[]>();
+  for (const creation of creations) {
+    const culture = canonicalCulture(getCreationCultureName(creation));
+    byCulture.set(culture, [...(byCulture.get(culture) ?? []), creation]);
+  }
+  return Array.from(byCulture).flatMap(([culture, cultureCreations]) => clusterScope(cultureCreations, culture || undefined));
+};
+
+// Distinct values of `field`, as listed for the AI suggestions ("Zeus (Griega)" for entities)
+export const listNameValues = (creations: Creation[], field: NameField, cultures: Culture[]): { value: string; culture?: string }[] => {
+  const seen = new Map<string, { value: string; culture?: string }>();
+  for (const creation of creations) {
+    const value = getCreationName(creation, field);
+    if (!value) continue;
+    const rawCulture = getCreationCultureName(creation);
+    const culture = field === 'entity' && rawCulture ? findCulture(cultures, rawCulture)?.name ?? rawCulture : undefined;
+    seen.set(`${culture ?? ''}|${value}`, { value, culture });
+  }
+  return Array.from(seen.values());
+};
+
+// Params with every key of `field` that holds one of `fromValues` set to `toValue`; undefined when nothing changes
+export const renameInParams = (params: Creation['params'], field: NameField, fromValues: string[], toValue: string): Creation['params'] | undefined => {
+  const source = params as any;
+  const changed = PARAM_KEYS[field].filter(key => fromValues.includes(source[key]) && source[key] !== toValue);
+  if (changed.length === 0) return undefined;
+  const next = { ...source };
+  changed.forEach(key => { next[key] = toValue; });
+  return next;
+};
@@ -0,0 +1,65 @@
+import { db } from './db';
+import { getDefaultRevision, getDefaultTemplate, isPromptTemplateId, PROMPT_TEMPLATES, validatePromptTemplate, type PromptTemplateId } from './prompt-templates';
+import type { PromptTemplateRef, PromptTemplateVersion } from './types';
+
+// Browser-side storage of prompt template edits. Versions are never overwritten, so the
+// PromptTemplateRef recorded on a creation always points at the text that built its prompt.
+
+export interface ActivePromptTemplate {
+  template: string;
+  ref: PromptTemplateRef;
+}
+
+const latestVersion = (templateId: PromptTemplateId): Promise<PromptTemplateVersion | undefined> =>
+  db.promptTemplateVersions.where('templateId').equals(templateId).last();
+
+// The ref of a version; the default's revision is recorded whenever the default text is the one used
+const toRef = (templateId: PromptTemplateId, version: number, usesDefault: boolean): PromptTemplateRef => {
+  const defaultRevision = getDefaultRevision(templateId);
+  return usesDefault && defaultRevision > 0 ? { id: templateId, version, defaultRevision } : { id: templateId, version };
+};
+
+// Falls back to the default when Dexie isn't reachable (e.g. during server rendering)
+export const getActivePromptTemplate = async (templateId: PromptTemplateId): Promise<ActivePromptTemplate> => {
+  const defaultTemplate = PROMPT_TEMPLATES[templateId].defaultTemplate;
+  try {
+    const latest = await latestVersion(templateId);
+    const template = latest?.template ?? null;
+    return { template: template ?? defaultTemplate, ref: toRef(templateId, latest?.version ?? 0, template === null) };
+  } catch (error) {
+    console.error(`Failed to read prompt template ${templateId}, using the default:`, error);
+    return { template: defaultTemplate, ref: toRef(templateId, 0, true) };
+  }
+};
+
+// Text of a recorded version; undefined when it's no longer stored (e.g. a creation imported from another browser)
+export const getPromptTemplateVersionText = async ({ id, version, defaultRevision }: PromptTemplateRef): Promise<string | undefined> => {
+  if (!isPromptTemplateId(id)) return undefined;
+  if (version === 0) return getDefaultTemplate(id, defaultRevision);
+  const stored = await db.promptTemplateVersions.get([id, version]);
+  return stored ? stored.template ?? getDefaultTemplate(id, defaultRevision) : undefined;
+};
+
+// Saves a new version; `null` restores the default. Saving the text that's already active is a no-op.
+export const savePromptTemplate = async (templateId: PromptTemplateId, template: string | null): Promise<PromptTemplateVersion | undefined> => {
+  const defaultTemplate = PROMPT_TEMPLATES[templateId].defaultTemplate;
+  const value = template === null || template === defaultTemplate ? null : template;
+  if (value !== null) validatePromptTemplate(templateId, value);
+
+  try {
+    return await db.transaction('rw', db.promptTemplateVersions, async () => {
+      const latest = await latestVersion(templateId);
+      if ((latest?.template ?? null) === value) return undefined;
+      const version: PromptTemplateVersion = { templateId, version: (latest?.version ?? 0) + 1, template: value, createdAt: Date.now() };
+      await db.promptTemplateVersions.add(version);
+      return version;
+    });
+  } catch (error: any) {
+    console.error(`Failed to save prompt template ${templateId}:`, error);
+    throw new Error(error.message || "No se pudo guardar la plantilla.");
+  }
+};
+
+// Newest first, for the Settings editor's history
+export const listPromptTemplateVersions = async (templateId: PromptTemplateId): Promise<PromptTemplateVersion[]> =>
+  (await db.promptTemplateVersions.where('templateId').equals(templateId).toArray()).reverse();
@@ -0,0 +1,391 @@
+import type { PromptTemplateRef } from './types';
+
+// Prompt templates: the text the app sends to the models, with Handlebars-style placeholders.
+// The defaults below are the app's own prompts; edits made in Settings are stored as numbered
+// versions (see lib/prompt-template-store.ts) and sent to the flows as the `template` input.
+//
+// Supported syntax, a subset of Handlebars:
+//   {{name}} / {{{name}}}            the variable's value (no HTML escaping in either form)
+//   {{#if name}}...{{else}}...{{/if}} optional text
+//   {{media url=name}}               an image, only in templates whose variable is a data URI
+
+export type PromptTemplateId =
+  | 'generate-image'
+  | 'batch-image'
+  | 'reimagine-image'
+  | 'analyze-image'
+  | 'extract-mythologies'
+  | 'regenerate-name'
+  | 'extract-batch-details'
+  | 'draft-entity'
+  | 'suggest-name-merges';
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  variables: Record<string, string>; // Placeholder name -> what it holds
+  mediaVariables?: string[]; // Variables that may only be used with {{media url=...}}
+  defaultTemplate: string;
+  // Earlier texts of the default, oldest first. Changing a default adds the old text here instead of
+  // rewriting it, so a PromptTemplateRef's `defaultRevision` keeps pointing at the text it was built with.
+  previousDefaults?: string[];
+}
+
+const IMAGE_VARIABLES = {
+  style: 'Estilo visual elegido',
+  culture: 'Cultura mitológica',
+  details: 'Detalles de la escena',
+  imageQuality: 'Calidad de imagen',
+};
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  'generate-image': {
+    id: 'generate-image',
+    name: 'Generación de imagen',
+    description: 'Prompt de imagen de la página Crear y de las regeneraciones, en todos los motores. El prefijo y el sufijo del estilo se añaden alrededor.',
+    variables: { ...IMAGE_VARIABLES, entity: 'Entidad o tema principal', cultureMotifs: 'Motivos visuales de la cultura (catálogo de culturas)' },
+    defaultTemplate: "A visually rich image in the style of {{style}}. The primary subject is the entity '{{entity}}' from {{culture}} mythology. Key scene details include: {{details}}.{{#if cultureMotifs}} Include visual motifs characteristic of this culture: {{cultureMotifs}}.{{/if}} The desired image quality is {{imageQuality}}.",
+    previousDefaults: [
+      "A visually rich image in the style of {{style}}. The primary subject is the entity '{{entity}}' from {{culture}} mythology. Key scene details include: {{details}}. The desired image quality is {{imageQuality}}.",
+    ],
+  },
+  'batch-image': {
+    id: 'batch-image',
+    name: 'Prompt de lote',
+    description: 'Prompt que se arma con cada línea de la Creación en Lote antes de extraer su nombre y entidad.',
+    variables: IMAGE_VARIABLES,
+    defaultTemplate: 'A visually rich image in the style of {{style}}. The primary subject is from {{culture}} mythology. Key scene details include: {{details}}. The desired image quality is {{imageQuality}}.',
+  },
+  'reimagine-image': {
+    id: 'reimagine-image',
+    name: 'Reimaginación',
+    description: 'Instrucciones con las que la IA describe la imagen subida para reimaginarla.',
+    variables: {
+      originalImage: 'Imagen original',
+      contextCulture: 'Cultura del contexto',
+      contextEntity: 'Entidad del contexto',
+      contextDetails: 'Detalles del contexto',
+      visualStyle: 'Nuevo estilo visual',
+      imageQuality: 'Calidad de imagen',
+      stylePrefix: 'Prefijo del estilo elegido',
+      styleSuffix: 'Sufijo del estilo elegido',
+      cultureMotifs: 'Motivos visuales de la cultura (catálogo de culturas)',
+    },
+    mediaVariables: ['originalImage'],
+    defaultTemplate: `You are an AI assistant that helps reimagine images in a mythological context.
+  Analyze the original image provided, considering the context culture, entity, and details.
+  Derive a descriptive prompt that captures the essence of the original image within the specified mythological context and style.
+  Original Image: {{media url=originalImage}}
+  Context Culture: {{{contextCulture}}}
+  Context Entity: {{{contextEntity}}}
+  Context Details: {{{contextDetails}}}
+  New Visual Style: {{{visualStyle}}}
+  Image Quality: {{{imageQuality}}}
+  {{#if cultureMotifs}}Visual motifs of this culture to include: {{{cultureMotifs}}}{{/if}}
+  {{#if stylePrefix}}The derived prompt must start with: {{{stylePrefix}}}{{/if}}
+  {{#if styleSuffix}}The derived prompt must end with: {{{styleSuffix}}}{{/if}}
+
+  Based on the above information, create a detailed prompt to generate a reimagined version of the image.
+  The prompt should be descriptive and consider the new visual style and desired image quality.
+  Return ONLY the derived prompt. Do not include any other text or explanation.
+  Derived Prompt:`,
+    previousDefaults: [
+      `You are an AI assistant that helps reimagine images in a mythological context.
+  Analyze the original image provided, considering the context culture, entity, and details.
+  Derive a descriptive prompt that captures the essence of the original image within the specified mythological context and style.
+  Original Image: {{media url=originalImage}}
+  Context Culture: {{{contextCulture}}}
+  Context Entity: {{{contextEntity}}}
+  Context Details: {{{contextDetails}}}
+  New Visual Style: {{{visualStyle}}}
+  Image Quality: {{{imageQuality}}}
+  {{#if stylePrefix}}The derived prompt must start with: {{{stylePrefix}}}{{/if}}
+  {{#if styleSuffix}}The derived prompt must end with: {{{styleSuffix}}}{{/if}}
+
+  Based on the above information, create a detailed prompt to generate a reimagined version of the image.
+  The prompt should be descriptive and consider the new visual style and desired image quality.
+  Return ONLY the derived prompt. Do not include any other text or explanation.
+  Derived Prompt:`,
+    ],
+  },
+  'analyze-image': {
+    id: 'analyze-image',
+    name: 'Análisis de imagen',
+    description: 'Instrucciones para analizar el estilo y las conexiones mitológicas de una imagen subida.',
+    variables: {
+      imageDataUri: 'Imagen a analizar',
+      mythologicalContext: 'Contexto mitológico',
+      entityTheme: 'Entidad o tema',
+      additionalDetails: 'Detalles adicionales',
+    },
+    mediaVariables: ['imageDataUri'],
+    defaultTemplate: `You are an art expert with extensive knowledge of mythology.
+
+  Analyze the provided image and identify its visual style and possible mythological connections, based on the provided context.
+
+  Image: {{media url=imageDataUri}}
+  Mythological Context: {{{mythologicalContext}}}
+  Entity/Theme: {{{entityTheme}}}
+  Additional Details: {{{additionalDetails}}}
+
+  Provide a detailed analysis and identify the primary visual style.
+  `,
+  },
+  'extract-mythologies': {
+    id: 'extract-mythologies',
+    name: 'Extracción de mitologías',
+    description: 'Instrucciones para extraer mitologías y prompts de un texto o documento importado.',
+    variables: {
+      text: 'Texto importado',
+      availableCultures: 'Culturas disponibles, separadas por comas',
+    },
+    defaultTemplate: `You are an expert in world mythology and a creative writer specializing in generating image prompts.
+Your task is to analyze the following text and extract key mythological themes, cultures, or entities.
+For each distinct mythology you identify, you must set the 'mythologyName' and generate a list of 3 to 5 detailed, creative prompts suitable for an AI image generator.
+
+**Crucially, the 'mythologyName' MUST match one of the following available cultures if the theme corresponds to one:**
+[{{availableCultures}}]
+
+If a theme in the text does not directly match one of the provided cultures, you can use a more descriptive name (e.g., "Monstruos Cósmicos"), but always prefer one from the list if applicable. The prompts should be inspired by the text but elaborated for visual richness.
+
+Example: If the text mentions "Zeus throwing a lightning bolt", since "Griega" is an available culture, the 'mythologyName' MUST be "Griega". A good prompt would be "Epic oil painting of Zeus on Mount Olympus, dark storm clouds gathering, hurling a crackling lightning bolt towards the earth, glowing eyes, powerful stance, cinematic lighting."
+
+Analyze the following text:
+---
+{{{text}}}
+---
+
+Return the result in the specified JSON format, ensuring 'mythologyName' adheres to the rules above.
+`,
+  },
+  'regenerate-name': {
+    id: 'regenerate-name',
+    name: 'Nombre de la creación',
+    description: 'Instrucciones para sacar un nombre y una entidad de un prompt (lotes y regeneración de nombres en la Vista de Datos).',
+    variables: { promptText: 'Prompt de imagen' },
+    defaultTemplate: `You are an expert in summarizing creative text. From the following image generation prompt, extract a concise, evocative name for the creation (creationName) and the main subject or theme (entity).
+
+The creationName should be short and suitable for a gallery title (e.g., "The Serpent of Ashes", "Cybernetic Griffin"). It should be 2-5 words.
+The entity should be the single primary subject of the prompt (e.g., "Phoenix", "Zeus", "World Tree").
+
+Analyze the following prompt:
+---
+{{{promptText}}}
+---
+
+Return the result in the specified JSON format.
+`,
+  },
+  'extract-batch-details': {
+    id: 'extract-batch-details',
+    name: 'Detalles de lote (servidor)',
+    description: 'Instrucciones del flujo de lote del servidor para sacar nombre y entidad del prompt de lote.',
+    variables: { promptText: 'Prompt de lote' },
+    defaultTemplate: `From the following image generation prompt, extract a concise, evocative name for the creation (creationName) and the main subject/theme (entity).
+
+    - The creationName should be 2-5 words.
+    - The entity should be the single primary subject (1-3 words).
+
+    Prompt:
+    ---
+    {{{promptText}}}
+    ---
+    `,
+  },
+  'draft-entity': {
+    id: 'draft-entity',
+    name: 'Ficha de entidad',
+    description: 'Instrucciones para redactar la ficha de una entidad (alias, descripción, atributos y relaciones) desde la Enciclopedia.',
+    variables: {
+      name: 'Nombre de la entidad',
+      culture: 'Cultura de la entidad',
+      creationDetails: 'Detalles de las creaciones de la entidad',
+      knownEntities: 'Otras entidades de la cultura que ya tienen ficha',
+    },
+    defaultTemplate: `You are an expert in world mythology. Write a short knowledge base entry about the entity "{{name}}" from {{culture}} mythology.
+
+- name: its canonical name in Spanish.
+- aliases: other names it is known by (in other languages or traditions), without repeating the canonical name.
+- description: a summary of its lore in Spanish, 2-4 sentences.
+- attributes: 3-6 key facts as label/value pairs in Spanish (e.g. "Dominio": "El cielo y el trueno", "Símbolos": "Rayo, águila").
+- relationships: its most important relations with other entities of the same mythology (parent, child, consort, sibling, ally, enemy), using the other entity's canonical Spanish name as target.
+{{#if knownEntities}}
+Prefer these names when a relation points at one of them: {{knownEntities}}.
+{{/if}}
+{{#if creationDetails}}
+The user's creations about this entity describe it like this; use them as context, but rely on the mythology for the facts:
+---
+{{{creationDetails}}}
+---
+{{/if}}
+If the entity is not part of any known mythology, describe it from the creations alone and leave relationships empty.
+`,
+  },
+  'suggest-name-merges': {
+    id: 'suggest-name-merges',
+    name: 'Unificación de nombres',
+    description: 'Instrucciones para agrupar nombres de entidades o culturas que son lo mismo escrito de otra forma (herramienta Unificar Nombres de la Vista de Datos).',
+    variables: {
+      fieldLabel: 'Qué se agrupa: "entidades" o "culturas"',
+      names: 'Lista de nombres, uno por línea (las entidades llevan su cultura entre corchetes)',
+    },
+    defaultTemplate: `You are an expert in world mythology helping to clean up a catalog of {{fieldLabel}}. Some names below refer to the same thing written differently: translations (Odin / Odín / Wotan are one entity, but the Roman Júpiter is not the Greek Zeus), epithets ("Zeus Olímpico" is Zeus), spelling variants, or generic placeholders ("Desconocido", "Unknown").
+
+Group only names you are confident refer to the same {{fieldLabel}}. For each group give:
+- canonicalName: the best Spanish name for it.
+- variants: the names of the list that belong to the group, copied exactly as written (without the bracketed culture).
+- culture: for entities, the bracketed culture of the variants, copied exactly; names of different cultures never share a group.
+
+Leave out names that have no duplicates.
+
+Names:
+---
+{{{names}}}
+---
+`,
+  },
+};
+
+export const listPromptTemplates = (): PromptTemplateDefinition[] => Object.values(PROMPT_TEMPLATES);
+
+export const isPromptTemplateId = (id: string): id is PromptTemplateId => id in PROMPT_TEMPLATES;
+
+// Revision number of the current default text
+export const getDefaultRevision = (id: PromptTemplateId): number => PROMPT_TEMPLATES[id].previousDefaults?.length ?? 0;
+
+// Default text at `revision`; undefined for a revision this build doesn't know
+export const getDefaultTemplate = (id: PromptTemplateId, revision = 0): string | undefined => {
+  const { previousDefaults = [], defaultTemplate } = PROMPT_TEMPLATES[id];
+  return [...previousDefaults, defaultTemplate][revision];
+};
+
+// Label for a recorded PromptTemplateRef, e.g. "Generación de imagen v2"
+export const formatPromptTemplateRef = ({ id, version, defaultRevision }: PromptTemplateRef): string => {
+  const name = isPromptTemplateId(id) ? PROMPT_TEMPLATES[id].name : id;
+  const label = version === 0 ? `${name} (predeterminada)` : `${name} v${version}`;
+  return defaultRevision ? `${label}, revisión ${defaultRevision} del texto predeterminado` : label;
+};
+
+// Flows receive the active template from the browser and fall back to the default without one
+export const templateOrDefault = (id: PromptTemplateId, template: string | undefined): string =>
+  template?.trim() ? template : PROMPT_TEMPLATES[id].defaultTemplate;
+
+// --- Parsing and rendering ---
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'media'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export type PromptPart = { text: string } | { media: { url: string } };
+
+// Any object works (flow inputs, creation params); only primitive values are rendered
+export type PromptTemplateVariables = object;
+
+const TAG_PATTERN = /\{\{\{\s*([^{}]*?)\s*\}\}\}|\{\{\s*([^{}]*?)\s*\}\}/g;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const parseName = (name: string, tag: string): string => {
+  if (!NAME_PATTERN.test(name)) throw new Error(`Marcador no válido: ${tag}`);
+  return name;
+};
+
+const parseTemplate = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  // Open {{#if}} blocks; nodes are appended to the branch currently being filled
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, triple, double] = match;
+    if (match.index! > lastIndex) current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+    lastIndex = match.index! + tag.length;
+
+    const expression = (triple ?? double).trim();
+    const ifMatch = expression.match(/^#if\s+(.+)$/);
+    const mediaMatch = expression.match(/^media\s+url=(.+)$/);
+    if (ifMatch) {
+      const node = { type: 'if' as const, name: parseName(ifMatch[1].trim(), tag), then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (expression === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new Error("Hay un {{else}} fuera de un bloque {{#if}}.");
+      top.inElse = true;
+    } else if (expression === '/if') {
+      if (!stack.pop()) throw new Error("Hay un {{/if}} sin su {{#if}}.");
+    } else if (mediaMatch) {
+      current().push({ type: 'media', name: parseName(mediaMatch[1].trim(), tag) });
+    } else {
+      current().push({ type: 'variable', name: parseName(expression, tag) });
+    }
+  }
+  if (stack.length > 0) throw new Error(`Falta cerrar {{#if ${stack[stack.length - 1].node.name}}} con {{/if}}.`);
+  if (lastIndex < template.length) root.push({ type: 'text', value: template.slice(lastIndex) });
+  return root;
+};
+
+const collectNames = (nodes: TemplateNode[], found: { variables: Set<string>; media: Set<string> }) => {
+  for (const node of nodes) {
+    if (node.type === 'variable') found.variables.add(node.name);
+    if (node.type === 'media') found.media.add(node.name);
+    if (node.type === 'if') {
+      found.variables.add(node.name);
+      collectNames(node.then, found);
+      collectNames(node.otherwise, found);
+    }
+  }
+  return found;
+};
+
+// Throws a message for the Settings editor when the template can't be used for that flow
+export const validatePromptTemplate = (id: PromptTemplateId, template: string): void => {
+  const definition = PROMPT_TEMPLATES[id];
+  if (!template.trim()) throw new Error("La plantilla no puede estar vacía.");
+  const { variables, media } = collectNames(parseTemplate(template), { variables: new Set(), media: new Set() });
+  const mediaVariables = definition.mediaVariables ?? [];
+
+  const unknown = [...variables, ...media].filter(name => !(name in definition.variables));
+  if (unknown.length > 0) throw new Error(`Marcadores desconocidos: ${unknown.map(name => `{{${name}}}`).join(', ')}.`);
+  const misusedMedia = [...variables].filter(name => mediaVariables.includes(name));
+  if (misusedMedia.length > 0) throw new Error(`Las imágenes solo pueden usarse como {{media url=${misusedMedia[0]}}}.`);
+  const textAsMedia = [...media].filter(name => !mediaVariables.includes(name));
+  if (textAsMedia.length > 0) throw new Error(`"${textAsMedia[0]}" no es una imagen.`);
+  const missingMedia = mediaVariables.filter(name => !media.has(name));
+  if (missingMedia.length > 0) throw new Error(`La plantilla debe incluir la imagen con {{media url=${missingMedia[0]}}}.`);
+};
+
+const lookup = (variables: PromptTemplateVariables, name: string): string | undefined => {
+  const value = (variables as Record<string, unknown>)[name];
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+};
+
+const renderNodes = (nodes: TemplateNode[], variables: PromptTemplateVariables, parts: PromptPart[]) => {
+  const appendText = (text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && 'text' in last) last.text += text;
+    else parts.push({ text });
+  };
+  for (const node of nodes) {
+    if (node.type === 'text') appendText(node.value);
+    if (node.type === 'variable') appendText(lookup(variables, node.name) ?? '');
+    if (node.type === 'media' && lookup(variables, node.name)) parts.push({ media: { url: lookup(variables, node.name)! } });
+    if (node.type === 'if') renderNodes(lookup(variables, node.name) ? node.then : node.otherwise, variables, parts);
+  }
+};
+
+// For templates with images: the parts can be passed straight to ai.generate as the prompt
+export const renderPromptTemplateParts = (template: string, variables: PromptTemplateVariables): PromptPart[] => {
+  const parts: PromptPart[] = [];
+  renderNodes(parseTemplate(template), variables, parts);
+  return parts;
+};
+
+export const renderPromptTemplate = (template: string, variables: PromptTemplateVariables): string =>
+  renderPromptTemplateParts(template, variables).map(part => 'text' in part ? part.text : '').join('');
@@ -0,0 +1,25 @@
+import { parseSearchQuery } from './search';
+
+describe('parseSearchQuery', () => {
+  it('splits words, quoted phrases and qualifiers', () => {
+    expect(parseSearchQuery('Dragón "rey del mar" cultura:Nórdica tipo:"reimaginada"')).toEqual({
+      terms: ['dragon'],
+      phrases: ['rey del mar'],
+      qualifiers: [
+        { field: 'culture', value: 'nordica' },
+        { field: 'type', value: 'reimaginada' },
+      ],
+    });
+  });
+
+  it('accepts accented qualifier keys', () => {
+    expect(parseSearchQuery('análisis:dragón Análisis:"serpiente alada"').qualifiers).toEqual([
+      { field: 'output', value: 'dragon' },
+      { field: 'output', value: 'serpiente alada' },
+    ]);
+  });
+
+  it('searches unknown qualifiers as plain words', () => {
+    expect(parseSearchQuery('10:30 época:antigua')).toEqual({ terms: ['10', '30', 'epoca', 'antigua'], phrases: [], qualifiers: [] });
+  });
+});
@@ -0,0 +1,206 @@
+import { db } from './db';
+import type { AnalyzedOutputData, AnalyzedParams, Creation, GeneratedOutputData, GeneratedParams, ReimaginedOutputData, ReimaginedParams, TextOutputModel, SearchDocument, SearchField } from './types';
+
+// Full-text search over creations. Each creation gets a SearchDocument with accent-free,
+// lower-cased field text plus a multi-entry `terms` index used to narrow candidates.
+// Documents are rebuilt wherever creations are written (indexCreations); the first search of a
+// session also backfills creations indexed before that, or changed by a data migration.
+
+const MIN_TOKEN_LENGTH = 2;
+
+// Higher weight = a match in that field ranks the creation higher
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 8,
+  entity: 6,
+  culture: 5,
+  tags: 5,
+  style: 3,
+  type: 3,
+  details: 2,
+  params: 1,
+  output: 1,
+};
+
+// Qualifier keys accepted in queries (English and Spanish), e.g. `culture:Nórdica tipo:reimaginada`
+const QUALIFIER_FIELDS: Record<string, SearchField> = {
+  name: 'name', nombre: 'name',
+  culture: 'culture', cultura: 'culture',
+  entity: 'entity', entidad: 'entity',
+  type: 'type', tipo: 'type',
+  style: 'style', estilo: 'style',
+  tag: 'tags', etiqueta: 'tags',
+  details: 'details', detalles: 'details',
+  prompt: 'output', analysis: 'output', analisis: 'output',
+  provider: 'params', motor: 'params',
+};
+
+// Indexed together with the raw type so Spanish type names can be searched too
+const TYPE_LABELS: Record<Creation['type'], string> = {
+  generated: 'generada',
+  analyzed: 'analizada',
+  reimagined: 'reimaginada',
+};
+
+export const normalizeSearchText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const tokenize = (text: string): string[] =>
+  normalizeSearchText(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+// Field text is stored as space-joined tokens so word-prefix checks are simple `includes` calls.
+const toFieldText = (...values: (string | undefined)[]): string =>
+  tokenize(values.filter(Boolean).join(' ')).join(' ');
+
+export const buildSearchDocument = (creation: Creation, textOutput?: TextOutputModel): SearchDocument => {
+  // Each creation type fills in its own subset of these
+  const p: Partial<GeneratedParams & AnalyzedParams & ReimaginedParams> = creation.params;
+  const output: Partial<GeneratedOutputData & AnalyzedOutputData & ReimaginedOutputData> | undefined = textOutput?.data;
+  const knownParamKeys = new Set(['culture', 'mythologicalContext', 'contextCulture', 'entity', 'entityTheme', 'contextEntity', 'style', 'visualStyle', 'details', 'contextDetails', 'additionalDetails']);
+  const otherParams = Object.entries(p)
+    .filter(([key, value]) => !knownParamKeys.has(key) && typeof value === 'string')
+    .map(([, value]) => value as string);
+
+  const fields: Record<SearchField, string> = {
+    name: toFieldText(creation.name),
+    type: toFieldText(creation.type, TYPE_LABELS[creation.type]),
+    culture: toFieldText(p.culture, p.mythologicalContext, p.contextCulture),
+    entity: toFieldText(p.entity, p.entityTheme, p.contextEntity),
+    style: toFieldText(p.style, p.visualStyle, output?.visualStyle),
+    details: toFieldText(p.details, p.contextDetails, p.additionalDetails, creation.customCultureDetails),
+    params: toFieldText(...otherParams, creation.originalImageFileName),
+    output: toFieldText(output?.prompt, output?.derivedPrompt, output?.analysis),
+    tags: toFieldText(...(creation.tags ?? [])),
+  };
+
+  const terms = new Set<string>();
+  Object.values(fields).forEach(text => text.split(' ').forEach(token => {
+    if (token.length >= MIN_TOKEN_LENGTH) terms.add(token);
+  }));
+
+  return { creationId: creation.id, updatedAt: creation.updatedAt, fields, terms: Array.from(terms) };
+};
+
+const buildDocumentWithOutput = async (creation: Creation): Promise<SearchDocument> =>
+  buildSearchDocument(creation, creation.outputId ? await db.textOutputStore.get(creation.outputId) : undefined);
+
+// Rebuilds the documents of the given creations; ids that no longer exist (deleted, trashed) lose theirs
+export async function indexCreations(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const creations = await db.creations.bulkGet(ids);
+  const docs = await Promise.all(creations.filter((c): c is Creation => !!c).map(buildDocumentWithOutput));
+  const removedIds = ids.filter((_, index) => !creations[index]);
+  await db.transaction('rw', db.searchIndex, async () => {
+    await db.searchIndex.bulkPut(docs);
+    await db.searchIndex.bulkDelete(removedIds);
+  });
+}
+
+// Same as indexCreations, for callers that shouldn't fail because the index couldn't be updated
+export const reindexCreations = (ids: string[]): Promise<void> =>
+  indexCreations(ids).catch(e => console.error("Failed to update the search index:", e));
+
+async function backfillSearchIndex(): Promise<void> {
+  const creations = await db.creations.toArray();
+  const indexed = new Map<string, number>();
+  await db.searchIndex.each(doc => { indexed.set(doc.creationId, doc.updatedAt); });
+
+  const stale = creations.filter(c => indexed.get(c.id) !== c.updatedAt);
+  const docs = await Promise.all(stale.map(buildDocumentWithOutput));
+  const liveIds = new Set(creations.map(c => c.id));
+  const orphanIds = Array.from(indexed.keys()).filter(id => !liveIds.has(id));
+
+  if (docs.length === 0 && orphanIds.length === 0) return;
+  await db.transaction('rw', db.searchIndex, async () => {
+    await db.searchIndex.bulkPut(docs);
+    await db.searchIndex.bulkDelete(orphanIds);
+  });
+}
+
+let backfill: Promise<void> | null = null;
+
+// Runs the backfill once per session; a failed one is retried by the next search
+const ensureSearchIndex = (): Promise<void> => {
+  backfill ??= backfillSearchIndex().catch(e => {
+    backfill = null;
+    throw e;
+  });
+  return backfill;
+};
+
+export interface ParsedSearchQuery {
+  terms: string[]; // Single words, matched as word prefixes
+  phrases: string[]; // Quoted text, matched as a sequence of word prefixes
+  qualifiers: { field: SearchField; value: string }[];
+}
+
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], qualifiers: [] };
+  // Keys may be accented (`análisis:`), so they're matched as Unicode letters rather than \w
+  const pattern = /([\p{L}\p{N}_]+):"([^"]*)"|([\p{L}\p{N}_]+):(\S+)|"([^"]*)"|(\S+)/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, quotedKey, quotedValue, key, value, phrase, word] = match;
+    const qualifierKey = quotedKey ?? key;
+    const qualifierValue = quotedValue ?? value;
+
+    if (qualifierKey && QUALIFIER_FIELDS[normalizeSearchText(qualifierKey)]) {
+      const text = toFieldText(qualifierValue);
+      if (text) parsed.qualifiers.push({ field: QUALIFIER_FIELDS[normalizeSearchText(qualifierKey)], value: text });
+    } else if (phrase !== undefined) {
+      const text = toFieldText(phrase);
+      if (text) parsed.phrases.push(text);
+    } else {
+      // Unknown qualifiers (e.g. "10:30") are searched as plain words
+      parsed.terms.push(...tokenize(word ?? match[0]));
+    }
+  }
+  return parsed;
+};
+
+const containsWordPrefix = (fieldText: string, text: string) => ` ${fieldText}`.includes(` ${text}`);
+const containsWord = (fieldText: string, text: string) => ` ${fieldText} `.includes(` ${text} `);
+
+// Returns 0 when the document doesn't match every term, phrase and qualifier.
+const scoreDocument = (doc: SearchDocument, query: ParsedSearchQuery): number => {
+  for (const { field, value } of query.qualifiers) {
+    if (!containsWordPrefix(doc.fields[field], value)) return 0;
+  }
+
+  let score = query.qualifiers.length > 0 ? 1 : 0;
+  for (const text of [...query.terms, ...query.phrases]) {
+    let textScore = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      const fieldText = doc.fields[field];
+      if (containsWord(fieldText, text)) textScore += FIELD_WEIGHTS[field] * 2;
+      else if (containsWordPrefix(fieldText, text)) textScore += FIELD_WEIGHTS[field];
+    }
+    if (textScore === 0) return 0;
+    // Names that start with the searched text rank first
+    if (doc.fields.name.startsWith(text)) textScore += FIELD_WEIGHTS.name;
+    score += textScore;
+  }
+  return score;
+};
+
+// Returns creation id -> relevance score, or null when the query is empty (no filtering).
+export async function searchCreations(query: string): Promise<Map<string, number> | null> {
+  const parsed = parseSearchQuery(query);
+  if (parsed.terms.length === 0 && parsed.phrases.length === 0 && parsed.qualifiers.length === 0) return null;
+  await ensureSearchIndex();
+
+  // Narrow candidates with the multi-entry index using the longest (most selective) word.
+  const lookupToken = [...parsed.terms, ...parsed.phrases.flatMap(p => p.split(' '))]
+    .filter(token => token.length >= MIN_TOKEN_LENGTH)
+    .sort((a, b) => b.length - a.length)[0];
+  const candidates = lookupToken
+    ? await db.searchIndex.where('terms').startsWith(lookupToken).distinct().toArray()
+    : await db.searchIndex.toArray();
+
+  const scores = new Map<string, number>();
+  for (const doc of candidates) {
+    const score = scoreDocument(doc, parsed);
+    if (score > 0) scores.set(doc.creationId, score);
+  }
+  return scores;
+}
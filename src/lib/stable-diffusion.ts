@@ -0,0 +1,382 @@
+import { mapAspectRatioToDimensions, mapQualityToSteps } from './utils';
+import { applyStylePrompt } from './style-presets';
+import { renderPromptTemplate } from './prompt-templates';
+import type { GeneratedParams, ReimaginedParams, SdGenerationParams, SdLora } from './types';
+
+// Client for the AUTOMATIC1111 Stable Diffusion WebUI API.
+// Connection settings are edited on the Settings page and persisted in localStorage,
+// so every page (and every call) picks up the latest values without a reload.
+
+export interface StableDiffusionSettings {
+  baseUrl: string;
+  username: string; // Only needed when the WebUI runs with --api-auth
+  password: string;
+  connectTimeoutSeconds: number; // Used for lightweight calls such as /sdapi/v1/options
+  generationTimeoutSeconds: number; // Used for txt2img / img2img
+}
+
+export const SD_SETTINGS_STORAGE_KEY = 'mythWeaverStableDiffusionSettings';
+
+export const DEFAULT_SD_SETTINGS: StableDiffusionSettings = {
+  baseUrl: 'http://127.0.0.1:7860',
+  username: '',
+  password: '',
+  connectTimeoutSeconds: 10,
+  generationTimeoutSeconds: 300,
+};
+
+export const SD_DEFAULT_NEGATIVE_PROMPT = "deformed, bad anatomy, disfigured, poorly drawn face, mutation, mutated, extra limb, ugly, disgusting, poorly drawn hands, missing limb, floating limbs, disconnected limbs, malformed hands, blurry, ((((mutated hands and fingers)))), watermark, watermarked, oversaturated, censorship, censored, sensible, text, bare breasts, nude";
+
+export const SD_DEFAULT_SAMPLER = "DPM++ 2M Karras";
+export const SD_DEFAULT_CFG_SCALE = 7;
+export const SD_RANDOM_SEED = -1;
+export const SD_DEFAULT_LORA_WEIGHT = 0.8;
+// Hires. fix renders at the base size, then upscales by this factor and refines with this denoising
+const SD_HIRES_SCALE = 2;
+const SD_HIRES_DENOISING_STRENGTH = 0.5;
+
+// Samplers shipped with the AUTOMATIC1111 WebUI, offered when /sdapi/v1/samplers can't be reached
+export const SD_SAMPLERS = [
+  "DPM++ 2M Karras",
+  "DPM++ SDE Karras",
+  "DPM++ 2M SDE Karras",
+  "DPM++ 2S a Karras",
+  "DPM++ 2M",
+  "DPM++ SDE",
+  "Euler a",
+  "Euler",
+  "Heun",
+  "DPM2 Karras",
+  "DDIM",
+  "UniPC",
+] as const;
+
+// The settings every render has a value for; LoRAs and hires. fix are opt-in.
+type SdCoreGenerationParams = Required<Omit<SdGenerationParams, 'loras' | 'hiresUpscaler'>>;
+
+export const DEFAULT_SD_GENERATION_PARAMS: SdCoreGenerationParams = {
+  negativePrompt: SD_DEFAULT_NEGATIVE_PROMPT,
+  seed: SD_RANDOM_SEED,
+  sampler: SD_DEFAULT_SAMPLER,
+  cfgScale: SD_DEFAULT_CFG_SCALE,
+};
+
+// Keeps only the advanced SD fields from form data, falling back to the defaults for empty values.
+export const pickSdGenerationParams = (data: SdGenerationParams): SdCoreGenerationParams & Pick<SdGenerationParams, 'loras' | 'hiresUpscaler'> => {
+  const loras = (data.loras ?? []).filter(lora => lora.name && Number.isFinite(lora.weight));
+  return {
+    negativePrompt: data.negativePrompt ?? DEFAULT_SD_GENERATION_PARAMS.negativePrompt,
+    seed: Number.isInteger(data.seed) ? data.seed! : DEFAULT_SD_GENERATION_PARAMS.seed,
+    sampler: data.sampler || DEFAULT_SD_GENERATION_PARAMS.sampler,
+    cfgScale: data.cfgScale && data.cfgScale > 0 ? data.cfgScale : DEFAULT_SD_GENERATION_PARAMS.cfgScale,
+    ...(loras.length > 0 ? { loras } : {}),
+    ...(data.hiresUpscaler ? { hiresUpscaler: data.hiresUpscaler } : {}),
+  };
+};
+
+// The WebUI applies LoRAs through prompt tags, so they're appended to the prompt sent to the API only;
+// the stored prompt stays readable and the LoRAs are kept in params.
+export const withLoraTags = (prompt: string, loras: SdLora[] = []): string =>
+  [prompt, ...loras.map(({ name, weight }) => `<lora:${name}:${weight}>`)].join(' ');
+
+export const formatSdLoras = (loras: SdLora[] = []): string =>
+  loras.map(({ name, weight }) => `${name} (${weight})`).join(', ');
+
+// Prompt sent to SD for generated creations, from the 'generate-image' template (Google AI renders it server-side).
+export const buildSdMythPrompt = (params: GeneratedParams, template: string): string =>
+  applyStylePrompt(renderPromptTemplate(template, params), params);
+
+// Prompt for an inpainted region: SD only needs to know what goes inside the mask, in the image's style.
+export const buildSdInpaintPrompt = ({ visualStyle, contextEntity, contextCulture }: ReimaginedParams, instruction: string): string =>
+  `${instruction}. In the style of ${visualStyle}, matching the rest of the image of '${contextEntity}' from ${contextCulture} mythology.`;
+
+const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+export const getSdSettings = (): StableDiffusionSettings => {
+  if (typeof window === 'undefined') return DEFAULT_SD_SETTINGS;
+  try {
+    const stored = localStorage.getItem(SD_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_SD_SETTINGS;
+    return { ...DEFAULT_SD_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("Error loading Stable Diffusion settings:", e);
+    return DEFAULT_SD_SETTINGS;
+  }
+};
+
+export const saveSdSettings = (settings: StableDiffusionSettings): StableDiffusionSettings => {
+  const normalized: StableDiffusionSettings = {
+    ...settings,
+    baseUrl: normalizeBaseUrl(settings.baseUrl) || DEFAULT_SD_SETTINGS.baseUrl,
+    connectTimeoutSeconds: Math.max(1, Number(settings.connectTimeoutSeconds) || DEFAULT_SD_SETTINGS.connectTimeoutSeconds),
+    generationTimeoutSeconds: Math.max(1, Number(settings.generationTimeoutSeconds) || DEFAULT_SD_SETTINGS.generationTimeoutSeconds),
+  };
+  localStorage.setItem(SD_SETTINGS_STORAGE_KEY, JSON.stringify(normalized));
+  return normalized;
+};
+
+interface SdRequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  timeoutSeconds?: number;
+  settings?: StableDiffusionSettings;
+}
+
+async function sdRequest<T>(path: string, { method = 'GET', body, timeoutSeconds, settings = getSdSettings() }: SdRequestOptions = {}): Promise<T> {
+  const apiUrl = normalizeBaseUrl(settings.baseUrl);
+  const timeout = timeoutSeconds ?? settings.generationTimeoutSeconds;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.username) {
+    headers['Authorization'] = `Basic ${btoa(`${settings.username}:${settings.password}`)}`;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout * 1000);
+
+  try {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      mode: 'cors',
+      signal: controller.signal,
+    });
+
+    if (response.status === 401) {
+      throw new Error("Stable Diffusion rechazó las credenciales (401). Revisa el usuario y la contraseña en Ajustes.");
+    }
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error de la API de Stable Diffusion: ${response.status} - ${errorText}`);
+    }
+
+    return await response.json() as T;
+  } catch (e: any) {
+    if (e.name === 'AbortError') {
+      throw new Error(`La API de Stable Diffusion no respondió en ${timeout} segundos (${apiUrl}${path}). Puedes ajustar los tiempos de espera en Ajustes.`);
+    }
+    if (e.message?.includes('Failed to fetch')) {
+      throw new Error(`Error de red o CORS. Asegúrate de que Stable Diffusion Web UI se ejecuta con '--cors-allow-origins="*"' y que puedes acceder a ${apiUrl}/docs`);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+interface SdOptions {
+  sd_model_checkpoint?: string;
+  [key: string]: unknown;
+}
+
+export interface SdModel {
+  title: string; // Value accepted by sd_model_checkpoint, e.g. "model.safetensors [hash]"
+  model_name: string;
+}
+
+interface SdImageResponse {
+  images?: string[];
+  info?: string;
+}
+
+export async function getSdOptions(settings?: StableDiffusionSettings): Promise<SdOptions> {
+  const resolved = settings ?? getSdSettings();
+  return sdRequest<SdOptions>('/sdapi/v1/options', { timeoutSeconds: resolved.connectTimeoutSeconds, settings: resolved });
+}
+
+// Returns the checkpoint currently loaded in the WebUI, or undefined if the API is unreachable.
+export async function getCurrentSdCheckpoint(): Promise<string | undefined> {
+  try {
+    const options = await getSdOptions();
+    return options.sd_model_checkpoint || undefined;
+  } catch (error) {
+    console.warn("No se pudo conectar a la API de Stable Diffusion para obtener el checkpoint. Se requiere entrada manual.", error);
+    return undefined;
+  }
+}
+
+// Lightweight GET used by the pickers, with the connect timeout instead of the generation one.
+const sdListRequest = <T>(path: string): Promise<T> => {
+  const settings = getSdSettings();
+  return sdRequest<T>(path, { timeoutSeconds: settings.connectTimeoutSeconds, settings });
+};
+
+export async function listSdModels(): Promise<SdModel[]> {
+  return sdListRequest<SdModel[]>('/sdapi/v1/sd-models');
+}
+
+export async function listSdSamplers(): Promise<string[]> {
+  const samplers = await sdListRequest<{ name: string }[]>('/sdapi/v1/samplers');
+  return samplers.map(sampler => sampler.name);
+}
+
+export async function listSdLoras(): Promise<{ name: string; alias?: string }[]> {
+  const loras = await sdListRequest<{ name: string; alias?: string }[]>('/sdapi/v1/loras');
+  return loras.map(({ name, alias }) => ({ name, alias: alias && alias !== name ? alias : undefined }));
+}
+
+export async function listSdUpscalers(): Promise<string[]> {
+  const upscalers = await sdListRequest<{ name: string }[]>('/sdapi/v1/upscalers');
+  // "None" is the WebUI's way of saying no upscaler; the forms have their own empty option
+  return upscalers.map(upscaler => upscaler.name).filter(name => name && name !== 'None');
+}
+
+// Used by the Settings page to validate unsaved connection values.
+export async function testSdConnection(settings: StableDiffusionSettings): Promise<{ checkpoint?: string }> {
+  const options = await getSdOptions(settings);
+  return { checkpoint: options.sd_model_checkpoint };
+}
+
+export interface SdTxt2ImgInput extends SdGenerationParams {
+  prompt: string;
+  aspectRatio: string;
+  imageQuality: string;
+  checkpoint?: string;
+  batchSize?: number; // Number of variations rendered in one request
+}
+
+export interface SdImageResult {
+  imageUrl: string; // PNG data URI
+  seed?: number; // Seed SD actually used; undefined if its `info` couldn't be read
+  model?: string; // Checkpoint SD rendered with, from the same `info`
+}
+
+export interface SdImg2ImgInput extends SdTxt2ImgInput {
+  initImage: string; // Data URI
+  denoisingStrength?: number;
+}
+
+const buildBasePayload = ({ prompt, aspectRatio, imageQuality, checkpoint, negativePrompt, seed, sampler, cfgScale, loras, batchSize = 1 }: SdTxt2ImgInput) => {
+  const dimensions = mapAspectRatioToDimensions(aspectRatio);
+  const steps = mapQualityToSteps(imageQuality);
+  return {
+    prompt: withLoraTags(prompt, loras),
+    negative_prompt: negativePrompt ?? SD_DEFAULT_NEGATIVE_PROMPT,
+    seed: seed ?? SD_RANDOM_SEED,
+    sampler_name: sampler || SD_DEFAULT_SAMPLER,
+    batch_size: batchSize,
+    n_iter: 1,
+    steps: steps,
+    cfg_scale: cfgScale ?? SD_DEFAULT_CFG_SCALE,
+    width: dimensions.width,
+    height: dimensions.height,
+    restore_faces: true,
+    override_settings: {
+      ...(checkpoint ? { sd_model_checkpoint: checkpoint } : {}),
+      // Batches would otherwise get a contact-sheet grid prepended to `images`
+      ...(batchSize > 1 ? { return_grid: false } : {}),
+    },
+  };
+};
+
+// `info` is a JSON string with the parameters SD actually used (a seed of -1 is resolved there).
+// Batches list one seed per image in `all_seeds`.
+const readInfo = (info?: string): { seeds: number[]; model?: string } => {
+  if (!info) return { seeds: [] };
+  try {
+    const parsed = JSON.parse(info);
+    const seeds = Array.isArray(parsed.all_seeds) ? parsed.all_seeds : typeof parsed.seed === 'number' ? [parsed.seed] : [];
+    return { seeds, model: parsed.sd_model_name || undefined };
+  } catch (e) {
+    console.warn("No se pudo leer la semilla de la respuesta de Stable Diffusion.", e);
+    return { seeds: [] };
+  }
+};
+
+const toImageResults = (result: SdImageResponse, endpointLabel: string, count: number): SdImageResult[] => {
+  if (!result.images || result.images.length === 0) {
+    throw new Error(`La API de Stable Diffusion (${endpointLabel}) no devolvió ninguna imagen.`);
+  }
+  const { seeds, model } = readInfo(result.info);
+  // Older WebUI versions ignore `return_grid` and put the grid first, so keep the last `count` images.
+  return result.images.slice(-count).map((image, index) => ({
+    imageUrl: `data:image/png;base64,${image}`,
+    seed: seeds[index],
+    model,
+  }));
+};
+
+export async function generateVariationsWithStableDiffusion(input: SdTxt2ImgInput, count: number): Promise<SdImageResult[]> {
+  const result = await sdRequest<SdImageResponse>('/sdapi/v1/txt2img', {
+    method: 'POST',
+    body: {
+      ...buildBasePayload({ ...input, batchSize: count }),
+      ...(input.hiresUpscaler ? {
+        enable_hr: true,
+        hr_upscaler: input.hiresUpscaler,
+        hr_scale: SD_HIRES_SCALE,
+        denoising_strength: SD_HIRES_DENOISING_STRENGTH,
+      } : {}),
+    },
+  });
+  return toImageResults(result, 'txt2img', count);
+}
+
+// Hires. fix has no img2img equivalent, so `hiresUpscaler` is ignored here.
+export async function reimagineVariationsWithStableDiffusion({ initImage, denoisingStrength = 0.75, ...input }: SdImg2ImgInput, count: number): Promise<SdImageResult[]> {
+  // For img2img, the init image must not include the 'data:image/png;base64,' prefix.
+  const base64Image = initImage.split(',')[1];
+  const result = await sdRequest<SdImageResponse>('/sdapi/v1/img2img', {
+    method: 'POST',
+    body: {
+      ...buildBasePayload({ ...input, batchSize: count }),
+      init_images: [base64Image],
+      denoising_strength: denoisingStrength,
+    },
+  });
+  return toImageResults(result, 'img2img', count);
+}
+
+export interface SdInpaintInput extends SdImg2ImgInput {
+  mask: string; // PNG data URI; white pixels are repainted
+  width: number; // Size of initImage, so the untouched area isn't resampled to the aspect-ratio preset
+  height: number;
+}
+
+// Only the masked area is re-rendered (at full resolution), filled from the original pixels so the edit blends in.
+export async function inpaintWithStableDiffusion({ initImage, mask, width, height, denoisingStrength = 0.75, ...input }: SdInpaintInput, count: number): Promise<SdImageResult[]> {
+  const result = await sdRequest<SdImageResponse>('/sdapi/v1/img2img', {
+    method: 'POST',
+    body: {
+      ...buildBasePayload({ ...input, batchSize: count }),
+      // SD needs dimensions divisible by 8
+      width: Math.round(width / 8) * 8,
+      height: Math.round(height / 8) * 8,
+      init_images: [initImage.split(',')[1]],
+      mask: mask.split(',')[1],
+      denoising_strength: denoisingStrength,
+      mask_blur: 4,
+      inpainting_fill: 1, // "original"
+      inpaint_full_res: true,
+      inpaint_full_res_padding: 32,
+      inpainting_mask_invert: 0,
+    },
+  });
+  return toImageResults(result, 'img2img', count);
+}
+
+export const SD_UPSCALE_FACTORS = [2, 3, 4];
+
+export interface SdUpscaleInput {
+  image: string; // Data URI
+  upscaler: string; // As listed by /sdapi/v1/upscalers
+  factor: number;
+}
+
+// Runs the image through the WebUI's "Extras" tab; no diffusion is involved, so the content stays the same.
+export async function upscaleWithStableDiffusion({ image, upscaler, factor }: SdUpscaleInput): Promise<string> {
+  const result = await sdRequest<{ image?: string }>('/sdapi/v1/extra-single-image', {
+    method: 'POST',
+    body: {
+      image: image.split(',')[1],
+      resize_mode: 0, // Scale by `upscaling_resize`
+      upscaling_resize: factor,
+      upscaler_1: upscaler,
+    },
+  });
+  if (!result.image) {
+    throw new Error("La API de Stable Diffusion (extras) no devolvió ninguna imagen.");
+  }
+  return `data:image/png;base64,${result.image}`;
+}
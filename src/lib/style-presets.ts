@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { IMAGE_STYLES } from './types';
+import type { StylePreset, StylePromptParams } from './types';
+
+// Style presets: a name plus the text wrapped around the generation prompt, a negative prompt
+// and recommended provider settings. The classic styles are built in; user presets are stored
+// in Dexie and can be shared as JSON files.
+
+// The built-in styles have no affixes, so prompts made with them are the same as before presets existed.
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = IMAGE_STYLES.map((name, index) => ({
+  id: `builtin:${index}`,
+  name,
+  promptPrefix: '',
+  promptSuffix: '',
+  builtIn: true,
+  createdAt: 0,
+  updatedAt: 0,
+}));
+
+export const DEFAULT_STYLE_NAME = IMAGE_STYLES[0];
+
+export type StylePresetInput = Pick<StylePreset, 'name' | 'promptPrefix' | 'promptSuffix' | 'negativePrompt' | 'settings'>;
+
+// User presets come first and shadow built-in presets with the same name.
+export const mergeStylePresets = (userPresets: StylePreset[]): StylePreset[] => {
+  const userNames = new Set(userPresets.map(preset => preset.name.toLowerCase()));
+  return [
+    ...BUILT_IN_STYLE_PRESETS.filter(preset => !userNames.has(preset.name.toLowerCase())),
+    ...[...userPresets].sort((a, b) => a.name.localeCompare(b.name)),
+  ];
+};
+
+export const findStylePresetByName = (presets: StylePreset[], name: string | undefined): StylePreset | undefined =>
+  name ? presets.find(preset => preset.name === name) : undefined;
+
+// Params recorded with a creation; empty affixes are left out so plain styles store nothing extra.
+export const toStylePromptParams = (preset: StylePreset | undefined): StylePromptParams => ({
+  ...(preset?.promptPrefix.trim() ? { stylePrefix: preset.promptPrefix.trim() } : {}),
+  ...(preset?.promptSuffix.trim() ? { styleSuffix: preset.promptSuffix.trim() } : {}),
+});
+
+export const applyStylePrompt = (prompt: string, { stylePrefix, styleSuffix }: StylePromptParams): string =>
+  [stylePrefix, prompt, styleSuffix].filter(part => part && part.trim()).join(' ');
+
+// --- JSON sharing ---
+
+const STYLE_PRESETS_FILE_FORMAT = 'mythweaver-style-presets';
+const STYLE_PRESETS_FILE_VERSION = 1;
+
+const stylePresetInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  promptPrefix: z.string().default(''),
+  promptSuffix: z.string().default(''),
+  negativePrompt: z.string().optional(),
+  settings: z.object({
+    provider: z.string().optional(),
+    aspectRatio: z.string().optional(),
+    imageQuality: z.string().optional(),
+    sampler: z.string().optional(),
+    cfgScale: z.number().positive().optional(),
+  }).optional(),
+});
+
+const stylePresetsFileSchema = z.object({
+  format: z.literal(STYLE_PRESETS_FILE_FORMAT),
+  version: z.number().int().max(STYLE_PRESETS_FILE_VERSION),
+  presets: z.array(stylePresetInputSchema),
+});
+
+// Ids and timestamps are local to each browser, so only the preset's content is shared.
+export const serializeStylePresets = (presets: StylePreset[]): string =>
+  JSON.stringify({
+    format: STYLE_PRESETS_FILE_FORMAT,
+    version: STYLE_PRESETS_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map(({ name, promptPrefix, promptSuffix, negativePrompt, settings }): StylePresetInput =>
+      ({ name, promptPrefix, promptSuffix, negativePrompt, settings })),
+  }, null, 2);
+
+export const parseStylePresetsFile = (json: string): StylePresetInput[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("El archivo no es un JSON válido.");
+  }
+  const parsed = stylePresetsFileSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error("El archivo no contiene estilos de Tejedor de Mitos o su formato no es compatible.");
+  }
+  return parsed.data.presets;
+};
@@ -0,0 +1,75 @@
+import { db } from './db';
+import { imageToDataUri } from './image-data';
+
+// Small previews of stored images, keyed by the same id as the full image in imageDataStore.
+// List views (gallery cards, encyclopedia, batch results) read these instead of full-size data URIs.
+
+const THUMBNAIL_MAX_SIZE = 512;
+const THUMBNAIL_QUALITY = 0.8;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("No se pudo decodificar la imagen para la miniatura."));
+    img.src = src;
+  });
+
+// Accepts a data URI (fresh AI output) or a stored image Blob.
+export async function createThumbnailDataUri(source: string | Blob): Promise<string> {
+  const objectUrl = typeof source === 'string' ? null : URL.createObjectURL(source);
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(objectUrl ?? (source as string));
+  } finally {
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  }
+  const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  // Browsers without WebP encoding fall back to PNG, which is still much smaller than the original.
+  return canvas.toDataURL('image/webp', THUMBNAIL_QUALITY);
+}
+
+// Thumbnails are a cache: failing to build one must never block saving the image itself.
+export async function tryCreateThumbnailDataUri(source: string | Blob): Promise<string | undefined> {
+  try {
+    return await createThumbnailDataUri(source);
+  } catch (e) {
+    console.warn("Could not create thumbnail:", e);
+    return undefined;
+  }
+}
+
+// Returns the thumbnail for an image, building and storing it first if it doesn't exist yet.
+export async function getOrCreateThumbnail(imageId: string): Promise<string | undefined> {
+  const existing = await db.thumbnailStore.get(imageId);
+  if (existing) return existing.thumbnailDataUri;
+
+  const image = await db.imageDataStore.get(imageId);
+  if (!image) return undefined;
+  const thumbnailDataUri = await tryCreateThumbnailDataUri(image.blob);
+  if (!thumbnailDataUri) return imageToDataUri(image);
+  await db.thumbnailStore.put({ id: imageId, thumbnailDataUri });
+  return thumbnailDataUri;
+}
+
+// Builds thumbnails for images stored before thumbnails existed (or imported from a backup).
+// Images are processed one by one to keep memory usage low on large libraries.
+export async function generateMissingThumbnails(onProgress?: (done: number, total: number) => void): Promise<number> {
+  const imageIds = await db.imageDataStore.toCollection().primaryKeys();
+  const existingIds = new Set(await db.thumbnailStore.toCollection().primaryKeys());
+  const missingIds = imageIds.filter(id => !existingIds.has(id));
+
+  let done = 0;
+  for (const imageId of missingIds) {
+    await getOrCreateThumbnail(imageId);
+    done++;
+    onProgress?.(done, missingIds.length);
+  }
+  return missingIds.length;
+}
@@ -0,0 +1,95 @@
+import { db } from './db';
+import { reindexCreations } from './search';
+import type { Creation, TrashedCreation } from './types';
+
+// Deleting a creation moves its record to the `trash` table; its images, thumbnails and text
+// outputs stay where they are until the trashed creation is purged, so restoring is just moving
+// the record back. Items older than the retention period are purged when the app starts.
+
+export const TRASH_RETENTION_STORAGE_KEY = 'mythWeaverTrashRetentionDays';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0]; // 0 keeps items until the trash is emptied
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = (): number => {
+  if (typeof window === 'undefined') return DEFAULT_TRASH_RETENTION_DAYS;
+  const stored = localStorage.getItem(TRASH_RETENTION_STORAGE_KEY);
+  const days = Number(stored);
+  return stored !== null && TRASH_RETENTION_OPTIONS.includes(days) ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const saveTrashRetentionDays = (days: number): number => {
+  const value = TRASH_RETENTION_OPTIONS.includes(days) ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  localStorage.setItem(TRASH_RETENTION_STORAGE_KEY, String(value));
+  return value;
+};
+
+// When the item will be purged; undefined when the trash keeps items indefinitely
+export const getTrashExpiry = (item: TrashedCreation, retentionDays: number): number | undefined =>
+  retentionDays > 0 ? item.deletedAt + retentionDays * DAY_MS : undefined;
+
+// Deletes the images, thumbnails and outputs of a creation and its versions. Call it inside a
+// transaction over imageDataStore, thumbnailStore and textOutputStore.
+export const deleteCreationData = async (creation: Creation): Promise<void> => {
+  const imageIds = [creation.imageId, creation.originalImageId, ...(creation.versions ?? []).map(v => v.imageId)]
+    .filter((imageId): imageId is string => !!imageId);
+  const outputIds = [creation.outputId, ...(creation.versions ?? []).map(v => v.outputId)]
+    .filter((outputId): outputId is string => !!outputId);
+  await db.imageDataStore.bulkDelete(imageIds);
+  await db.thumbnailStore.bulkDelete(imageIds);
+  await db.textOutputStore.bulkDelete(outputIds);
+};
+
+export async function moveToTrash(ids: string[]): Promise<number> {
+  let moved = 0;
+  await db.transaction('rw', [db.creations, db.trash], async () => {
+    const creations = (await db.creations.bulkGet(ids)).filter((c): c is Creation => !!c);
+    const deletedAt = Date.now();
+    await db.trash.bulkPut(creations.map(creation => ({ ...creation, deletedAt })));
+    await db.creations.bulkDelete(creations.map(creation => creation.id));
+    moved = creations.length;
+  });
+  await reindexCreations(ids);
+  return moved;
+}
+
+// Items whose id is taken again (e.g. by an import) stay in the trash. Returns how many were restored.
+export async function restoreFromTrash(ids: string[]): Promise<number> {
+  let restored = 0;
+  await db.transaction('rw', [db.creations, db.trash, db.collections], async () => {
+    const items = (await db.trash.bulkGet(ids)).filter((item): item is TrashedCreation => !!item);
+    const collectionIds = new Set(await db.collections.toCollection().primaryKeys());
+    for (const { deletedAt, ...creation } of items) {
+      if (await db.creations.get(creation.id)) continue;
+      // Collections deleted meanwhile are dropped rather than left dangling
+      const restoredCreation: Creation = { ...creation, collectionIds: creation.collectionIds?.filter(id => collectionIds.has(id)) };
+      await db.creations.put(restoredCreation);
+      await db.trash.delete(creation.id);
+      restored++;
+    }
+  });
+  await reindexCreations(ids);
+  return restored;
+}
+
+export async function deleteFromTrash(ids: string[]): Promise<number> {
+  let deleted = 0;
+  await db.transaction('rw', [db.trash, db.imageDataStore, db.thumbnailStore, db.textOutputStore], async () => {
+    const items = (await db.trash.bulkGet(ids)).filter((item): item is TrashedCreation => !!item);
+    for (const item of items) await deleteCreationData(item);
+    await db.trash.bulkDelete(items.map(item => item.id));
+    deleted = items.length;
+  });
+  return deleted;
+}
+
+export async function emptyTrash(): Promise<number> {
+  return deleteFromTrash(await db.trash.toCollection().primaryKeys());
+}
+
+export async function purgeExpiredTrash(retentionDays = getTrashRetentionDays()): Promise<number> {
+  if (retentionDays <= 0) return 0;
+  const expired = await db.trash.where('deletedAt').below(Date.now() - retentionDays * DAY_MS).primaryKeys();
+  return expired.length > 0 ? deleteFromTrash(expired) : 0;
+}
@@ -13,39 +13,173 @@ export interface Creation {
   imageId?: string; // FK to ImageDataStore
   originalImageId?: string; // FK to ImageDataStore, for 'reimagined' type (source image)
   outputId?: string; // FK to TextOutputStore
+  version?: number; // Number of the current render (1 when never regenerated)
+  versions?: CreationVersion[]; // Earlier renders, kept when the image is regenerated
+  tags?: string[]; // User-defined labels (multi-entry index)
+  collectionIds?: string[]; // FKs to Collections (multi-entry index)
+  changeLog?: CreationChange[]; // Field changes made after creation, oldest first (see lib/change-log.ts)
 }
 
-export interface GeneratedParams {
+// A deleted creation waiting in the trash; its images and outputs stay in their stores until it's purged
+export interface TrashedCreation extends Creation {
+  deletedAt: number; // Timestamp
+}
+
+export interface Collection {
+  id: string; // UUID
+  name: string;
+  createdAt: number; // Timestamp
+}
+
+export type SearchField = 'name' | 'type' | 'culture' | 'entity' | 'style' | 'details' | 'params' | 'output' | 'tags';
+
+export interface SearchDocument {
+  creationId: string; // FK to Creations
+  updatedAt: number; // Creation's updatedAt when indexed; a mismatch means the document is stale
+  fields: Record<SearchField, string>; // Accent-free, lower-cased tokens joined by spaces
+  terms: string[]; // Unique tokens of all fields (multi-entry index)
+}
+
+// Changes applied to one or many creations at once (gallery modal and data-view bulk actions)
+export interface OrganizationChanges {
+  addTags?: string[];
+  removeTags?: string[];
+  addCollectionIds?: string[];
+  removeCollectionIds?: string[];
+}
+
+export interface CreationVersion {
+  version: number;
+  createdAt: number; // Timestamp of when this render was produced
+  params: GeneratedParams | AnalyzedParams | ReimaginedParams;
+  imageId?: string; // FK to ImageDataStore
+  outputId?: string; // FK to TextOutputStore
+  isAlternate?: boolean; // Another pick from the same multi-image generation, not an earlier render
+}
+
+export type CreationChangeSource = 'manual' | 'translate' | 'regenerate-name' | 'regenerate-image' | 'import' | 'undo' | 'redo' | 'repair';
+
+// One field change in a creation's audit trail
+export interface CreationChange {
+  field: string; // 'name', 'isTranslated', 'tags', 'collectionIds', 'version' or 'params.<key>'
+  oldValue?: unknown;
+  newValue?: unknown;
+  source: CreationChangeSource;
+  timestamp: number;
+}
+
+// One candidate from a multi-image generation, shown in the variations grid before saving
+export interface GenerationVariation {
+  imageUrl: string; // Data URI
+  prompt: string; // Prompt (or derived prompt) that produced this image
+  seed?: number; // Stable Diffusion only
+  model?: string; // Model the provider reported for this image
+  promptTemplate?: PromptTemplateRef; // Template version the prompt was built with
+}
+
+// Extra picks saved with a new creation as alternates (see addCreation)
+export interface NewCreationAlternate {
+  imageDataUri: string;
+  params: GeneratedParams | AnalyzedParams | ReimaginedParams;
+  outputData: GeneratedOutputData | AnalyzedOutputData | ReimaginedOutputData;
+}
+
+// Key of an adapter in the image-provider registry (see lib/image-providers)
+export type ImageProviderId = string;
+
+export interface SdLora {
+  name: string; // As listed by /sdapi/v1/loras; written into the prompt as <lora:name:weight>
+  weight: number;
+}
+
+// Advanced Stable Diffusion settings; only set when the provider supports them (capabilities.advancedParams).
+export interface SdGenerationParams {
+  negativePrompt?: string;
+  seed?: number; // Seed SD actually used (read from its `info`), so the render can be reproduced; -1 = random
+  sampler?: string;
+  cfgScale?: number;
+  loras?: SdLora[];
+  hiresUpscaler?: string; // Upscaler for the WebUI's hires. fix (txt2img only); unset disables it
+}
+
+// Snapshot of the style preset's prompt affixes, taken when the creation is made so that
+// editing or deleting the preset later doesn't change how the creation re-renders.
+export interface StylePromptParams {
+  stylePrefix?: string;
+  styleSuffix?: string;
+}
+
+// Snapshot of the culture's visual motifs from the catalog (see lib/cultures), taken like StylePromptParams
+export interface CulturePromptParams {
+  cultureMotifs?: string;
+}
+
+// Prompt template (see lib/prompt-templates) and the version of it that produced a creation's prompt.
+// Version 0 is the built-in default; each edit saved in Settings gets the next number.
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+  defaultRevision?: number; // Revision of the built-in default used, when the default was active; 0 if missing
+}
+
+// Set on creations whose image was upscaled with the SD WebUI extras (gallery and data-view upscale actions)
+export interface ImageUpscale {
+  upscaler: string;
+  factor: number;
+}
+
+export interface GeneratedParams extends SdGenerationParams, StylePromptParams, CulturePromptParams {
   culture: string;
   entity: string;
   details: string;
   style: string;
   aspectRatio: string;
   imageQuality: string;
-  provider: 'google-ai' | 'stable-diffusion';
-  checkpoint?: string;
+  provider: ImageProviderId;
+  checkpoint?: string; // Model requested by the user, for providers with model selection
+  model?: string; // Model the provider reported for this render
+  upscale?: ImageUpscale;
+  promptTemplate?: PromptTemplateRef;
 }
 
 export interface AnalyzedParams {
   mythologicalContext: string;
   entityTheme: string;
   additionalDetails?: string;
+  upscale?: ImageUpscale;
+  promptTemplate?: PromptTemplateRef;
 }
 
-export interface ReimaginedParams {
+export interface ReimaginedParams extends SdGenerationParams, StylePromptParams, CulturePromptParams {
   contextCulture: string;
   contextEntity: string;
   contextDetails: string;
   visualStyle: string;
   aspectRatio: string;
   imageQuality: string;
-  provider: 'google-ai' | 'stable-diffusion';
+  provider: ImageProviderId;
   checkpoint?: string;
+  model?: string;
+  inpaintPrompt?: string; // Set when made with the gallery's region editor: what was asked for inside the mask
+  upscale?: ImageUpscale;
+  promptTemplate?: PromptTemplateRef;
 }
 
 export interface ImageDataModel {
   id: string; // UUID
-  imageDataUri: string; // Data URI
+  blob: Blob;
+  mimeType: string;
+  width: number; // 0 when the format's header couldn't be read
+  height: number;
+  size: number; // Bytes
+}
+
+// Image rows saved before version 7 held a data URI instead of the Blob (see migration 0001-images-to-blobs)
+export type LegacyImageDataModel = ImageDataModel & { imageDataUri?: unknown };
+
+export interface ThumbnailModel {
+  id: string; // Same id as the full image in ImageDataStore
+  thumbnailDataUri: string; // Downscaled Data URI
 }
 
 export interface TextOutputModel {
@@ -66,6 +200,120 @@ export interface ReimaginedOutputData {
   derivedPrompt: string;
 }
 
+// Settings a style preset recommends; picking the preset in a form fills these fields in
+export interface StylePresetSettings {
+  provider?: ImageProviderId;
+  aspectRatio?: string;
+  imageQuality?: string;
+  sampler?: string;
+  cfgScale?: number;
+}
+
+export interface StylePreset {
+  id: string; // UUID; built-in presets use 'builtin:<n>' and aren't stored
+  name: string; // Stored as the creation's style, so it's unique (a user preset may shadow a built-in one)
+  promptPrefix: string;
+  promptSuffix: string;
+  negativePrompt?: string; // Replaces the form's negative prompt when the preset is picked
+  settings?: StylePresetSettings;
+  builtIn?: boolean;
+  createdAt: number; // Timestamp
+  updatedAt: number; // Timestamp
+}
+
+export interface Culture {
+  id: string; // UUID; built-in cultures use 'builtin:<n>' and aren't stored
+  name: string; // Stored as the creation's culture, so it's unique (a user culture may shadow a built-in one)
+  aliases: string[]; // Other names it's recognized by, e.g. when importing text or batch lines
+  description: string;
+  motifs: string[]; // Visual motifs added to the image prompt
+  defaultStyle?: string; // Style preset name picked along with the culture
+  builtIn?: boolean;
+  createdAt: number; // Timestamp
+  updatedAt: number; // Timestamp
+}
+
+export type EntityRelationType = 'parent' | 'child' | 'consort' | 'sibling' | 'ally' | 'enemy';
+
+// "<entity> is <type> of <target>", e.g. Zeus is parent of Atenea
+export interface EntityRelationship {
+  type: EntityRelationType;
+  target: string; // Name of the other entity, which may not have an entry yet
+}
+
+export interface EntityAttribute {
+  label: string; // e.g. "Dominio", "Símbolos"
+  value: string;
+}
+
+// Knowledge base entry for a mythological entity; creations link to it by culture and entity name (or alias)
+export interface Entity {
+  id: string; // UUID
+  name: string; // Canonical name, unique within its culture
+  culture: string; // Culture name, as stored in creations
+  aliases: string[];
+  description: string; // Short lore summary
+  attributes: EntityAttribute[];
+  relationships: EntityRelationship[];
+  createdAt: number; // Timestamp
+  updatedAt: number; // Timestamp
+}
+
+// One saved edit of a prompt template (see PromptTemplateRef); `template` is null when the edit restored the default
+export interface PromptTemplateVersion {
+  templateId: string;
+  version: number;
+  template: string | null;
+  createdAt: number; // Timestamp
+}
+
+// A data migration applied to this browser's database (see lib/migrations.ts)
+export interface MigrationRecord {
+  id: string;
+  version: number; // Dexie schema version whose upgrade ran it
+  description: string;
+  changedRecords: number;
+  appliedAt: number; // Timestamp
+  durationMs: number;
+}
+
+export type BatchJobStatus = 'running' | 'paused' | 'completed';
+export type BatchJobItemStatus = 'pending' | 'processing' | 'success' | 'error';
+
+// Generation settings shared by every prompt of a batch job
+export interface BatchJobSettings extends SdGenerationParams, StylePromptParams {
+  style: string;
+  aspectRatio: string;
+  imageQuality: string;
+  provider: ImageProviderId;
+  checkpoint?: string;
+}
+
+export interface BatchJob {
+  id: string; // UUID
+  name: string;
+  status: BatchJobStatus;
+  settings: BatchJobSettings;
+  createdAt: number; // Timestamp
+  updatedAt: number; // Timestamp
+}
+
+export interface BatchJobItem {
+  id: string; // UUID
+  jobId: string; // FK to BatchJobs
+  position: number; // Order of the prompt within its job
+  prompt: string;
+  culture: string;
+  status: BatchJobItemStatus;
+  attempts: number; // Number of times generation was started for this item
+  error?: string;
+  creationId?: string; // FK to Creations, once generated
+  imageId?: string; // FK to ImageDataStore, once generated
+  name?: string;
+  entity?: string;
+  updatedAt: number; // Timestamp
+}
+
 // For form validation and AI flow inputs/outputs, we can reuse/import from Zod schemas if defined elsewhere
 // or create specific types here if needed. The AI flows already export their Zod-derived types.
 
@@ -73,10 +321,7 @@ export const MYTHOLOGICAL_CULTURES = ["Azteca", "Celta", "China", "Egipcia", "Gr
 export const IMAGE_STYLES = ["Fotorrealista", "Anime", "Pintura al Óleo", "Acuarela", "Abstracto", "Pixel Art", "Cómic", "Steampunk", "Cyberpunk", "Arte Fantástico"];
 export const ASPECT_RATIOS = ["1:1 (Cuadrado)", "16:9 (Panorámico)", "9:16 (Vertical)", "4:3 (Estándar)", "3:4 (Vertical Estándar)"];
 export const IMAGE_QUALITIES = ["Estándar", "Alta", "Ultra"];
-export const IMAGE_PROVIDERS = [
-  { id: 'google-ai', name: 'Google AI (Recomendado)' },
-  { id: 'stable-diffusion', name: 'Stable Diffusion (Local)' },
-] as const;
+export const VARIATION_COUNTS = [1, 2, 3, 4];
 
 
 // Helper to map aspect ratio string to numerical values if needed for generation
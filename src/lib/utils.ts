@@ -29,3 +29,24 @@ export const mapQualityToSteps = (quality: string): number => {
         default: return 25;
     }
 };
+
+// Trims tags, collapses inner whitespace and drops empty or case-insensitive duplicates.
+export const normalizeTags = (tags: string[]): string[] => {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const tag of tags) {
+        const cleaned = tag.trim().replace(/\s+/g, ' ');
+        const key = cleaned.toLowerCase();
+        if (cleaned && !seen.has(key)) {
+            seen.add(key);
+            result.push(cleaned);
+        }
+    }
+    return result;
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};